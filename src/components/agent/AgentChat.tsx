@@ -1,15 +1,23 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Send, StopCircle, AlertCircle, RefreshCw, Hash, Copy, Check, Plus, Shuffle, Download } from 'lucide-react';
+import { Send, StopCircle, AlertCircle, RefreshCw, Hash, Copy, Check, Plus, Shuffle, Download, PanelLeft, Upload } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { ChatMessage } from './ChatMessage';
 import { ReasoningSteps } from './ReasoningSteps';
+import { ChatSessionSidebar } from './ChatSessionSidebar';
+import { ConversationExportMenu } from './ConversationExportMenu';
+import { ChatSessionStats } from './ChatSessionStats';
 import { useAgentChat, ChatMessage as ChatMessageType } from '@/hooks/useAgentChat';
+import { useChatSessions } from '@/hooks/useChatSessions';
+import { useToast } from '@/hooks/use-toast';
 import { k8sClient } from '@/lib/kubernetes-client';
+import { DEFAULT_CHAT_TEMPERATURE } from '@/lib/agent-client';
+import { getReplayTurns, parseTranscriptImport } from '@/lib/chat-transcript';
 import type { Agent } from '@/types/kubernetes';
 
 interface AgentChatProps {
@@ -19,6 +27,8 @@ interface AgentChatProps {
   onSessionChange: (sessionId: string) => void;
   onMessagesChange: (messages: ChatMessageType[]) => void;
   onNewSession: () => void;
+  // Whether the chat is visible; the session list is only fetched while it is
+  active?: boolean;
 }
 
 export function AgentChat({ 
@@ -27,13 +37,21 @@ export function AgentChat({
   messages: externalMessages, 
   onSessionChange, 
   onMessagesChange,
-  onNewSession 
+  onNewSession,
+  active = true,
 }: AgentChatProps) {
   const [input, setInput] = useState('');
   const [copied, setCopied] = useState(false);
   const [seed, setSeed] = useState<string>('');
   const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [showSessions, setShowSessions] = useState(true);
+  // Send edited/regenerated branches in their own memory session
+  const [forkSession, setForkSession] = useState(false);
+  // User turns of an imported transcript still to be sent
+  const [replayQueue, setReplayQueue] = useState<string[]>([]);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
   const scrollAreaRef = useRef<HTMLDivElement>(null);
 
   // Track if session is active (has messages)
@@ -57,7 +75,19 @@ export function AgentChat({
     return newId;
   }, [sessionId, onSessionChange]);
 
-  const { messages: hookMessages, isLoading, error, sendMessage: sendChatMessage, clearMessages, stopGeneration } = useAgentChat({
+  const {
+    messages: hookMessages,
+    isLoading,
+    error,
+    sendMessage: sendChatMessage,
+    clearMessages,
+    stopGeneration,
+    editMessage,
+    regenerate,
+    getBranchInfo,
+    switchBranch,
+    branchSessionId,
+  } = useAgentChat({
     agentName: agent.metadata.name,
     namespace: agent.metadata.namespace || 'default',
     sessionId: sessionId || undefined,
@@ -66,48 +96,26 @@ export function AgentChat({
     initialMessages: externalMessages,
   });
 
+  const chatSessions = useChatSessions(agent.metadata.namespace || 'default', agent.metadata.name, active);
+  const { refresh: refreshSessions, snapshot: snapshotSession, loadSession } = chatSessions;
+
   // Fetch session history when a session ID is entered manually
   const fetchSessionHistory = useCallback(async (sid: string) => {
     if (!sid || !k8sClient.isConfigured()) return;
     
     setIsLoadingHistory(true);
     try {
-      const serviceName = `agent-${agent.metadata.name}`;
-      const namespace = agent.metadata.namespace || 'default';
-      
-      const response = await k8sClient.proxyServiceRequest(
-        serviceName,
-        `/memory/events?session_id=${encodeURIComponent(sid)}`,
-        { method: 'GET' },
-        namespace
-      );
-      
-      if (response.ok) {
-        const data = await response.json();
-        const events = data.events || [];
-        
-        // Convert memory events to chat messages
-        const historyMessages: ChatMessageType[] = events
-          .filter((e: Record<string, unknown>) => e.role === 'user' || e.role === 'assistant')
-          .map((e: Record<string, unknown>, idx: number) => ({
-            id: e.id || `hist-${idx}`,
-            role: e.role,
-            content: typeof e.content === 'string' ? e.content : JSON.stringify(e.content),
-            timestamp: e.timestamp ? new Date(e.timestamp) : new Date(),
-            isStreaming: false,
-          }));
-        
-        if (historyMessages.length > 0) {
-          onMessagesChange(historyMessages);
-          console.log(`[AgentChat] Loaded ${historyMessages.length} messages from session history`);
-        }
+      const historyMessages = await loadSession(sid);
+      if (historyMessages.length > 0) {
+        onMessagesChange(historyMessages);
+        console.log(`[AgentChat] Loaded ${historyMessages.length} messages from session history`);
       }
     } catch (err) {
       console.error('[AgentChat] Failed to fetch session history:', err);
     } finally {
       setIsLoadingHistory(false);
     }
-  }, [agent.metadata.name, agent.metadata.namespace, onMessagesChange]);
+  }, [loadSession, onMessagesChange]);
 
   // Handler for session ID input blur - fetch history if session ID was entered
   const handleSessionIdBlur = useCallback(() => {
@@ -166,217 +174,356 @@ export function AgentChat({
     }
   };
 
+  // Refresh the session list once a response has finished
+  const wasLoadingRef = useRef(false);
+  useEffect(() => {
+    if (wasLoadingRef.current && !isLoading && active) refreshSessions();
+    wasLoadingRef.current = isLoading;
+  }, [isLoading, active, refreshSessions]);
+
   const handleNewSession = () => {
+    // Keep the current conversation so it can be resumed from the sidebar
+    snapshotSession(sessionId, displayMessages);
     clearMessages();
     onNewSession();
   };
 
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const transcript = parseTranscriptImport(await file.text());
+      const turns = getReplayTurns(transcript);
+      handleNewSession();
+      setSeed(transcript.seed !== undefined ? String(transcript.seed) : '');
+      setReplayQueue(turns);
+      toast({
+        title: 'Replaying transcript',
+        description: `Sending ${turns.length} user message(s) from ${transcript.agent?.name ?? 'the transcript'} to ${agent.metadata.name}`,
+      });
+    } catch (err) {
+      toast({
+        title: 'Import failed',
+        description: err instanceof Error ? err.message : 'Invalid transcript file',
+        variant: 'destructive',
+      });
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  // Send the next replayed turn once the previous response has finished
+  useEffect(() => {
+    if (replayQueue.length === 0 || isLoading) return;
+    if (error) {
+      setReplayQueue([]);
+      return;
+    }
+    const [next, ...rest] = replayQueue;
+    setReplayQueue(rest);
+    sendMessage(next);
+  }, [replayQueue, isLoading, error, sendMessage]);
+
+  const handleStop = () => {
+    setReplayQueue([]);
+    stopGeneration();
+  };
+
+  const handleResumeSession = async (id: string) => {
+    if (id === sessionId || isLoading) return;
+    snapshotSession(sessionId, displayMessages);
+    setIsLoadingHistory(true);
+    try {
+      const resumed = await loadSession(id);
+      clearMessages();
+      onSessionChange(id);
+      onMessagesChange(resumed);
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  };
+
   return (
-    <div className="flex flex-col h-full bg-background rounded-lg border border-border overflow-hidden">
-      {/* Session & Seed Header */}
-      <div className="px-4 py-3 border-b border-border bg-muted/20 space-y-2">
-        <div className="flex items-center gap-2">
-          <Label htmlFor="session-id" className="text-xs text-muted-foreground flex items-center gap-1 shrink-0">
-            <Hash className="h-3 w-3" />
-            Session
-          </Label>
-          <div className="flex-1 flex items-center gap-2">
-            <Input
-              id="session-id"
-              value={sessionId}
-              onChange={(e) => !hasActiveSession && onSessionChange(e.target.value)}
-              onBlur={handleSessionIdBlur}
-              placeholder={hasActiveSession ? "Session active" : "Enter session ID or leave empty..."}
-              className="h-7 text-xs font-mono bg-background"
-              disabled={isLoading || hasActiveSession || isLoadingHistory}
-              readOnly={hasActiveSession}
-            />
-            {sessionId && !hasActiveSession && externalMessages.length === 0 && (
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => fetchSessionHistory(sessionId)}
-                className="h-7 w-7 p-0 shrink-0"
-                title="Load session history"
-                disabled={isLoadingHistory}
-              >
-                <Download className={`h-3 w-3 ${isLoadingHistory ? 'animate-pulse' : ''}`} />
-              </Button>
-            )}
-            {sessionId && (
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={handleCopySessionId}
-                className="h-7 w-7 p-0 shrink-0"
-                title="Copy session ID"
-              >
-                {copied ? (
-                  <Check className="h-3 w-3 text-green-500" />
-                ) : (
-                  <Copy className="h-3 w-3" />
-                )}
-              </Button>
-            )}
+    <div className="flex h-full bg-background rounded-lg border border-border overflow-hidden">
+      {showSessions && (
+        <ChatSessionSidebar
+          sessions={chatSessions.sessions}
+          activeSessionId={sessionId}
+          loading={chatSessions.loading}
+          error={chatSessions.error}
+          disabled={isLoading || isLoadingHistory}
+          onSelect={handleResumeSession}
+          onNewChat={handleNewSession}
+          onRefresh={refreshSessions}
+          onRename={chatSessions.rename}
+          onTogglePin={chatSessions.togglePin}
+          className="w-64 shrink-0 border-r border-border"
+        />
+      )}
+      <div className="flex flex-col flex-1 min-w-0">
+        {/* Session & Seed Header */}
+        <div className="px-4 py-3 border-b border-border bg-muted/20 space-y-2">
+          <div className="flex items-center gap-2">
             <Button
-              variant="outline"
+              variant="ghost"
               size="sm"
-              onClick={handleNewSession}
-              className="h-7 shrink-0 text-xs"
-              disabled={isLoading}
+              onClick={() => setShowSessions((prev) => !prev)}
+              className="h-7 w-7 p-0 shrink-0"
+              title={showSessions ? 'Hide sessions' : 'Show sessions'}
             >
-              <Plus className="h-3 w-3 mr-1" />
-              New
+              <PanelLeft className="h-3 w-3" />
             </Button>
-          </div>
-        </div>
-        
-        {/* Seed input row */}
-        <div className="flex items-center gap-2">
-          <Label htmlFor="seed" className="text-xs text-muted-foreground flex items-center gap-1 shrink-0">
-            <Shuffle className="h-3 w-3" />
-            Seed
-          </Label>
-          <Input
-            id="seed"
-            type="number"
-            value={seed}
-            onChange={(e) => setSeed(e.target.value)}
-            placeholder="Optional (for determinism)"
-            className="h-7 text-xs font-mono bg-background max-w-[200px]"
-            disabled={isLoading}
-          />
-          <span className="text-xs text-muted-foreground">
-            {seed ? 'Deterministic mode' : 'Random responses'}
-          </span>
-        </div>
-      </div>
-
-      {/* Chat Header */}
-      <div className="flex items-center justify-between px-4 py-3 border-b border-border bg-muted/30">
-        <div className="flex items-center gap-2">
-          <span className="text-sm font-medium">Chat with {agent.metadata.name}</span>
-          {agent.spec.model && (
-            <span className="text-xs text-muted-foreground font-mono bg-muted px-1.5 py-0.5 rounded">
-              {agent.spec.model}
-            </span>
-          )}
-          {displayMessages.length > 0 && (
-            <span className="text-xs text-muted-foreground">
-              ({displayMessages.length} messages)
-            </span>
-          )}
-        </div>
-      </div>
-
-      {/* Error Alert */}
-      {error && (
-        <Alert variant="destructive" className="m-4 mb-0">
-          <AlertCircle className="h-4 w-4" />
-          <AlertDescription>
-            <div className="flex flex-col gap-2">
-              <span className="font-medium">
-                {error.includes('503') || error.includes('no endpoints') 
-                  ? 'Agent Unavailable' 
-                  : 'Connection Error'}
-              </span>
-              <span className="text-sm opacity-90">
-                {error.includes('no endpoints') 
-                  ? 'The agent pod is not ready. Check that the pod is running and healthy.'
-                  : error}
-              </span>
-              <div className="flex gap-2 mt-1">
+            <Label htmlFor="session-id" className="text-xs text-muted-foreground flex items-center gap-1 shrink-0">
+              <Hash className="h-3 w-3" />
+              Session
+            </Label>
+            <div className="flex-1 flex items-center gap-2">
+              <Input
+                id="session-id"
+                value={sessionId}
+                onChange={(e) => !hasActiveSession && onSessionChange(e.target.value)}
+                onBlur={handleSessionIdBlur}
+                placeholder={hasActiveSession ? "Session active" : "Enter session ID or leave empty..."}
+                className="h-7 text-xs font-mono bg-background"
+                disabled={isLoading || hasActiveSession || isLoadingHistory}
+                readOnly={hasActiveSession}
+              />
+              {sessionId && !hasActiveSession && externalMessages.length === 0 && (
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => displayMessages.length > 1 && sendMessage(displayMessages[displayMessages.length - 2]?.content || '')}
-                  className="h-7 text-xs"
-                  disabled={displayMessages.length < 2}
+                  onClick={() => fetchSessionHistory(sessionId)}
+                  className="h-7 w-7 p-0 shrink-0"
+                  title="Load session history"
+                  disabled={isLoadingHistory}
                 >
-                  <RefreshCw className="h-3 w-3 mr-1" />
-                  Retry
+                  <Download className={`h-3 w-3 ${isLoadingHistory ? 'animate-pulse' : ''}`} />
                 </Button>
-              </div>
-            </div>
-          </AlertDescription>
-        </Alert>
-      )}
-
-      {/* Messages */}
-      <ScrollArea ref={scrollAreaRef} className="flex-1">
-        {displayMessages.length === 0 ? (
-          <div className="flex flex-col items-center justify-center h-full py-12 px-4 text-center">
-            <div className="h-16 w-16 rounded-full bg-agent/10 flex items-center justify-center mb-4">
-              <span className="text-3xl">🤖</span>
+              )}
+              {sessionId && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleCopySessionId}
+                  className="h-7 w-7 p-0 shrink-0"
+                  title="Copy session ID"
+                >
+                  {copied ? (
+                    <Check className="h-3 w-3 text-green-500" />
+                  ) : (
+                    <Copy className="h-3 w-3" />
+                  )}
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleNewSession}
+                className="h-7 shrink-0 text-xs"
+                disabled={isLoading}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                New
+              </Button>
             </div>
-            <h3 className="text-lg font-medium text-foreground mb-2">
-              Start a conversation
-            </h3>
-            <p className="text-sm text-muted-foreground max-w-sm">
-              Send a message to {agent.metadata.name} to begin chatting.
-              The agent uses the <span className="font-mono text-agent">{agent.spec.modelAPI}</span> model.
-            </p>
           </div>
-        ) : (
-          <div className="divide-y divide-border/50">
-            {displayMessages.map((message) => (
-              <div key={message.id}>
-                {message.role === 'assistant' && message.progressSteps && message.progressSteps.length > 0 && (
-                  <ReasoningSteps
-                    steps={message.progressSteps}
-                    isActive={!!message.isStreaming && !message.content}
-                  />
-                )}
-                <ChatMessage
-                  role={message.role}
-                  content={message.content}
-                  isStreaming={message.isStreaming}
-                  timestamp={message.timestamp}
-                />
-              </div>
-            ))}
+          
+          {/* Seed input row */}
+          <div className="flex items-center gap-2">
+            <Label htmlFor="seed" className="text-xs text-muted-foreground flex items-center gap-1 shrink-0">
+              <Shuffle className="h-3 w-3" />
+              Seed
+            </Label>
+            <Input
+              id="seed"
+              type="number"
+              value={seed}
+              onChange={(e) => setSeed(e.target.value)}
+              placeholder="Optional (for determinism)"
+              className="h-7 text-xs font-mono bg-background max-w-[200px]"
+              disabled={isLoading}
+            />
+            <span className="text-xs text-muted-foreground">
+              {seed ? 'Deterministic mode' : 'Random responses'}
+            </span>
+            <div className="ml-auto flex items-center gap-2">
+              <Switch id="fork-session" checked={forkSession} onCheckedChange={setForkSession} />
+              <Label htmlFor="fork-session" className="text-xs text-muted-foreground">
+                Fork memory session on edit/regenerate
+              </Label>
+            </div>
           </div>
-        )}
-      </ScrollArea>
+        </div>
 
-      {/* Input Area */}
-      <form onSubmit={handleSubmit} className="p-4 border-t border-border bg-muted/20">
-        <div className="flex gap-2">
-          <Textarea
-            ref={textareaRef}
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyDown={handleKeyDown}
-            placeholder="Type a message... (Shift+Enter for new line)"
-            className="min-h-[44px] max-h-32 resize-none bg-background"
-            disabled={isLoading}
-            rows={1}
-          />
-          {isLoading ? (
+        {/* Chat Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-border bg-muted/30">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium">Chat with {agent.metadata.name}</span>
+            {agent.spec.model && (
+              <span className="text-xs text-muted-foreground font-mono bg-muted px-1.5 py-0.5 rounded">
+                {agent.spec.model}
+              </span>
+            )}
+            {displayMessages.length > 0 && (
+              <span className="text-xs text-muted-foreground">
+                ({displayMessages.length} messages)
+              </span>
+            )}
+            {branchSessionId && (
+              <span className="text-xs text-muted-foreground font-mono" title="Memory session of this branch">
+                branch: {branchSessionId}
+              </span>
+            )}
+            {replayQueue.length > 0 && (
+              <span className="text-xs text-agent">
+                Replaying ({replayQueue.length} left)
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-1">
+            <ChatSessionStats messages={displayMessages} />
             <Button
-              type="button"
-              onClick={stopGeneration}
-              variant="destructive"
-              size="icon"
-              className="h-11 w-11 shrink-0"
+              variant="ghost"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              className="h-7 text-xs"
+              disabled={isLoading || replayQueue.length > 0}
+              title="Replay the user messages of an exported JSON transcript"
             >
-              <StopCircle className="h-5 w-5" />
+              <Upload className="h-3 w-3 mr-1" />
+              Replay
             </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => handleImportFile(e.target.files?.[0])}
+            />
+            <ConversationExportMenu
+              agent={agent}
+              messages={displayMessages}
+              sessionId={sessionId || undefined}
+              seed={seed ? parseInt(seed, 10) : undefined}
+              temperature={DEFAULT_CHAT_TEMPERATURE}
+            />
+          </div>
+        </div>
+
+        {/* Error Alert */}
+        {error && (
+          <Alert variant="destructive" className="m-4 mb-0">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              <div className="flex flex-col gap-2">
+                <span className="font-medium">
+                  {error.includes('503') || error.includes('no endpoints') 
+                    ? 'Agent Unavailable' 
+                    : 'Connection Error'}
+                </span>
+                <span className="text-sm opacity-90">
+                  {error.includes('no endpoints') 
+                    ? 'The agent pod is not ready. Check that the pod is running and healthy.'
+                    : error}
+                </span>
+                <div className="flex gap-2 mt-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => displayMessages.length > 1 && sendMessage(displayMessages[displayMessages.length - 2]?.content || '')}
+                    className="h-7 text-xs"
+                    disabled={displayMessages.length < 2}
+                  >
+                    <RefreshCw className="h-3 w-3 mr-1" />
+                    Retry
+                  </Button>
+                </div>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Messages */}
+        <ScrollArea ref={scrollAreaRef} className="flex-1">
+          {displayMessages.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-full py-12 px-4 text-center">
+              <div className="h-16 w-16 rounded-full bg-agent/10 flex items-center justify-center mb-4">
+                <span className="text-3xl">🤖</span>
+              </div>
+              <h3 className="text-lg font-medium text-foreground mb-2">
+                Start a conversation
+              </h3>
+              <p className="text-sm text-muted-foreground max-w-sm">
+                Send a message to {agent.metadata.name} to begin chatting.
+                The agent uses the <span className="font-mono text-agent">{agent.spec.modelAPI}</span> model.
+              </p>
+            </div>
           ) : (
-            <Button
-              type="submit"
-              disabled={!input.trim()}
-              size="icon"
-              className="h-11 w-11 shrink-0 bg-agent hover:bg-agent/90"
-            >
-              <Send className="h-5 w-5" />
-            </Button>
+            <div className="divide-y divide-border/50">
+              {displayMessages.map((message) => (
+                <div key={message.id}>
+                  {message.role === 'assistant' && message.progressSteps && message.progressSteps.length > 0 && (
+                    <ReasoningSteps
+                      steps={message.progressSteps}
+                      isActive={!!message.isStreaming && !message.content}
+                    />
+                  )}
+                  <ChatMessage
+                    role={message.role}
+                    content={message.content}
+                    isStreaming={message.isStreaming}
+                    timestamp={message.timestamp}
+                    branch={getBranchInfo(message.id)}
+                    onSwitchBranch={(offset) => switchBranch(message.id, offset)}
+                    onEdit={message.role === 'user' ? (content) => editMessage(message.id, content, { forkSession }) : undefined}
+                    onRegenerate={message.role === 'assistant' ? () => regenerate(message.id, { forkSession }) : undefined}
+                    actionsDisabled={isLoading || replayQueue.length > 0}
+                    telemetry={message.telemetry}
+                    progressSteps={message.progressSteps}
+                  />
+                </div>
+              ))}
+            </div>
           )}
-        </div>
-        <p className="text-xs text-muted-foreground mt-2">
-          Press Enter to send, Shift+Enter for new line
-        </p>
-      </form>
+        </ScrollArea>
+
+        {/* Input Area */}
+        <form onSubmit={handleSubmit} className="p-4 border-t border-border bg-muted/20">
+          <div className="flex gap-2">
+            <Textarea
+              ref={textareaRef}
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Type a message... (Shift+Enter for new line)"
+              className="min-h-[44px] max-h-32 resize-none bg-background"
+              disabled={isLoading}
+              rows={1}
+            />
+            {isLoading ? (
+              <Button
+                type="button"
+                onClick={handleStop}
+                variant="destructive"
+                size="icon"
+                className="h-11 w-11 shrink-0"
+              >
+                <StopCircle className="h-5 w-5" />
+              </Button>
+            ) : (
+              <Button
+                type="submit"
+                disabled={!input.trim()}
+                size="icon"
+                className="h-11 w-11 shrink-0 bg-agent hover:bg-agent/90"
+              >
+                <Send className="h-5 w-5" />
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground mt-2">
+            Press Enter to send, Shift+Enter for new line
+          </p>
+        </form>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,260 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Columns3, FileDown, RotateCcw, Send, Shuffle, Star, StopCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ChatMessage } from './ChatMessage';
+import { ReasoningSteps } from './ReasoningSteps';
+import { useKubernetesStore } from '@/stores/kubernetesStore';
+import { useKubernetesConnection } from '@/contexts/KubernetesConnectionContext';
+import { useAgentComparison } from '@/hooks/useAgentComparison';
+import {
+  MAX_COMPARED_AGENTS,
+  MIN_COMPARED_AGENTS,
+  comparisonToMarkdown,
+  countSteps,
+  createComparisonExport,
+  type ComparisonResponse,
+} from '@/lib/agent-compare';
+import { cn, downloadFile } from '@/lib/utils';
+import type { Agent } from '@/types/kubernetes';
+
+const formatMs = (ms?: number) => (ms === undefined ? '–' : `${(ms / 1000).toFixed(2)}s`);
+
+function ResponseColumn({ response, preferred, onPrefer }: {
+  response: ComparisonResponse;
+  preferred: boolean;
+  onPrefer: () => void;
+}) {
+  const streaming = response.status === 'streaming';
+  const { toolCalls, delegations } = countSteps(response.progressSteps);
+
+  return (
+    <div className={cn('flex flex-col rounded-lg border border-border overflow-hidden min-w-0', preferred && 'border-agent ring-1 ring-agent')}>
+      <ReasoningSteps steps={response.progressSteps} isActive={streaming && !response.content} />
+      <div className="flex-1">
+        {response.status === 'error' ? (
+          <p className="p-4 text-sm text-destructive">{response.error}</p>
+        ) : (
+          <ChatMessage role="assistant" content={response.content} isStreaming={streaming} />
+        )}
+      </div>
+      <div className="flex items-center justify-between gap-2 px-3 py-1.5 border-t border-border bg-muted/20 text-[10px] text-muted-foreground">
+        <div className="flex flex-wrap items-center gap-x-2">
+          {response.status === 'stopped' && <span className="text-warning">stopped</span>}
+          <span title="Total latency">{formatMs(response.latencyMs)}</span>
+          <span title="Time to first token">first token {formatMs(response.firstTokenMs)}</span>
+          <span>{toolCalls} tool calls</span>
+          {delegations > 0 && <span>{delegations} delegations</span>}
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-[10px]"
+          onClick={onPrefer}
+          disabled={streaming}
+          title={preferred ? 'Unmark preferred answer' : 'Mark as preferred answer'}
+        >
+          <Star className={cn('h-3 w-3 mr-1', preferred && 'fill-agent text-agent')} />
+          {preferred ? 'Preferred' : 'Prefer'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Send the same prompts to 2-4 agents side by side and compare their answers,
+ * reasoning steps and latency turn by turn.
+ */
+export function AgentComparison() {
+  const { agents } = useKubernetesStore();
+  const { namespace } = useKubernetesConnection();
+  const { turns, isRunning, send, stop, reset, togglePreferred } = useAgentComparison(namespace);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [input, setInput] = useState('');
+  const [seed, setSeed] = useState('');
+
+  // Agents are per namespace, so a comparison doesn't survive switching
+  useEffect(() => {
+    reset();
+    setSelected([]);
+  }, [namespace, reset]);
+
+  const selectedAgents = useMemo(
+    () => selected.map((name) => agents.find((a) => a.metadata.name === name)).filter((a): a is Agent => !!a),
+    [selected, agents]
+  );
+  const locked = turns.length > 0;
+  const canSend = selectedAgents.length >= MIN_COMPARED_AGENTS && !isRunning && !!input.trim();
+
+  const toggleAgent = (name: string) => {
+    setSelected((prev) => (prev.includes(name) ? prev.filter((n) => n !== name) : [...prev, name]));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSend) return;
+    send(selectedAgents, input, seed ? parseInt(seed, 10) : undefined);
+    setInput('');
+  };
+
+  const handleExport = (format: 'json' | 'markdown') => {
+    const comparison = createComparisonExport(selectedAgents, turns, namespace, seed ? parseInt(seed, 10) : undefined);
+    const stamp = comparison.exportedAt.slice(0, 19).replace(/[:T]/g, '-');
+    if (format === 'json') {
+      downloadFile(JSON.stringify(comparison, null, 2), 'application/json', `agent-comparison-${stamp}.json`);
+    } else {
+      downloadFile(comparisonToMarkdown(comparison), 'text/markdown', `agent-comparison-${stamp}.md`);
+    }
+  };
+
+  const gridStyle = { gridTemplateColumns: `repeat(${Math.max(selectedAgents.length, 1)}, minmax(0, 1fr))` };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+            <Columns3 className="h-6 w-6 text-agent" />
+            Compare Agents
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Send the same prompts to {MIN_COMPARED_AGENTS}–{MAX_COMPARED_AGENTS} agents in "{namespace}" and compare their answers
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className="gap-2" disabled={turns.length === 0 || isRunning}>
+                <FileDown className="h-4 w-4" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleExport('markdown')}>Markdown</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport('json')}>JSON</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button variant="outline" className="gap-2" onClick={reset} disabled={turns.length === 0}>
+            <RotateCcw className="h-4 w-4" />
+            New comparison
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs text-muted-foreground">
+          Agents ({selected.length}/{MAX_COMPARED_AGENTS}){locked && ' — start a new comparison to change them'}
+        </Label>
+        {agents.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No agents in this namespace</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {agents.map((agent) => {
+              const name = agent.metadata.name;
+              const isSelected = selected.includes(name);
+              return (
+                <Button
+                  key={name}
+                  variant={isSelected ? 'default' : 'outline'}
+                  size="sm"
+                  className={cn('h-7 text-xs gap-1', isSelected && 'bg-agent hover:bg-agent/90')}
+                  onClick={() => toggleAgent(name)}
+                  disabled={locked || (!isSelected && selected.length >= MAX_COMPARED_AGENTS)}
+                  data-testid={`compare-agent-${name}`}
+                >
+                  {name}
+                  <span className="font-mono opacity-70">{agent.spec.model}</span>
+                </Button>
+              );
+            })}
+          </div>
+        )}
+        <div className="flex items-center gap-2">
+          <Label htmlFor="compare-seed" className="text-xs text-muted-foreground flex items-center gap-1 shrink-0">
+            <Shuffle className="h-3 w-3" />
+            Seed
+          </Label>
+          <Input
+            id="compare-seed"
+            type="number"
+            value={seed}
+            onChange={(e) => setSeed(e.target.value)}
+            placeholder="Optional (for determinism)"
+            className="h-7 text-xs font-mono max-w-[200px]"
+            disabled={isRunning}
+          />
+        </div>
+      </div>
+
+      {selectedAgents.length > 0 && (
+        <div className="grid gap-4" style={gridStyle}>
+          {selectedAgents.map((agent) => (
+            <div key={agent.metadata.name} className="flex items-center gap-2 min-w-0">
+              <span className="text-sm font-medium truncate">{agent.metadata.name}</span>
+              <Badge variant="outline" className="text-[10px] font-mono truncate">{agent.spec.model}</Badge>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {turns.map((turn, index) => (
+        <div key={turn.id} className="space-y-2" data-testid="comparison-turn">
+          <div className="flex items-start gap-2 rounded-lg bg-muted/40 px-4 py-2">
+            <Badge variant="secondary" className="text-[10px] shrink-0 mt-0.5">Turn {index + 1}</Badge>
+            <p className="text-sm whitespace-pre-wrap">{turn.prompt}</p>
+          </div>
+          <div className="grid gap-4" style={gridStyle}>
+            {selectedAgents.map((agent) => {
+              const response = turn.responses[agent.metadata.name];
+              return response ? (
+                <ResponseColumn
+                  key={agent.metadata.name}
+                  response={response}
+                  preferred={turn.preferred === agent.metadata.name}
+                  onPrefer={() => togglePreferred(turn.id, agent.metadata.name)}
+                />
+              ) : (
+                <div key={agent.metadata.name} />
+              );
+            })}
+          </div>
+        </div>
+      ))}
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <Textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) handleSubmit(e);
+          }}
+          placeholder={selectedAgents.length < MIN_COMPARED_AGENTS
+            ? `Select at least ${MIN_COMPARED_AGENTS} agents to compare`
+            : 'Prompt sent to every selected agent... (Shift+Enter for new line)'}
+          className="min-h-[44px] max-h-32 resize-none"
+          disabled={isRunning || selectedAgents.length < MIN_COMPARED_AGENTS}
+          rows={1}
+        />
+        {isRunning ? (
+          <Button type="button" onClick={stop} variant="destructive" size="icon" className="h-11 w-11 shrink-0">
+            <StopCircle className="h-5 w-5" />
+          </Button>
+        ) : (
+          <Button type="submit" disabled={!canSend} size="icon" className="h-11 w-11 shrink-0 bg-agent hover:bg-agent/90">
+            <Send className="h-5 w-5" />
+          </Button>
+        )}
+      </form>
+    </div>
+  );
+}
@@ -15,34 +15,10 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { k8sClient } from '@/lib/kubernetes-client';
+import { normalizeMemoryEvent, type MemoryEvent } from '@/lib/agent-memory';
 import { MemoryConversationView } from './MemoryConversationView';
 import type { Agent } from '@/types/kubernetes';
 
-interface MemoryEvent {
-  id: string;
-  type: string;
-  content?: string | Record<string, unknown>;
-  timestamp?: string;
-  session_id?: string;
-  metadata?: Record<string, unknown>;
-}
-
-/**
- * Normalize a raw memory event from the backend API.
- * The backend returns event_type/event_id but the UI uses type/id.
- */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function normalizeEvent(raw: any): MemoryEvent {
-  return {
-    id: raw.event_id || raw.id,
-    type: raw.event_type || raw.type || 'unknown',
-    content: raw.content,
-    timestamp: raw.timestamp,
-    session_id: raw.session_id,
-    metadata: raw.metadata,
-  };
-}
-
 interface AgentMemoryProps {
   agent: Agent;
 }
@@ -101,7 +77,7 @@ export function AgentMemory({ agent }: AgentMemoryProps) {
       const eventsData = await eventsResponse.json();
       const sessionsData = await sessionsResponse.json();
 
-      const newEvents = (eventsData.events || []).map(normalizeEvent);
+      const newEvents = (eventsData.events || []).map(normalizeMemoryEvent);
 
       if (isLivePoll) {
         // Diff-based: only update if there are new events
@@ -570,7 +546,11 @@ export function AgentMemory({ agent }: AgentMemoryProps) {
                     className="h-[400px] overflow-y-auto pr-4"
                     onScroll={handleScroll}
                   >
-                    <MemoryConversationView events={filteredEvents} />
+                    <MemoryConversationView
+                      events={filteredEvents}
+                      agent={agent}
+                      sessionId={sessionFilter !== 'all' ? sessionFilter : undefined}
+                    />
                   </div>
                   {!isAtBottom && (
                     <Button
@@ -4,6 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { DeploymentStatusCard } from '@/components/shared/DeploymentStatusCard';
+import { ResourceUsageCard } from '@/components/shared/ResourceUsage';
 import type { Agent } from '@/types/kubernetes';
 import { getStatusVariant, isAutonomousAgent } from '@/lib/status-utils';
 
@@ -124,6 +125,14 @@ export function AgentOverview({ agent }: AgentOverviewProps) {
         />
       )}
 
+      {/* CPU & Memory */}
+      <ResourceUsageCard
+        resourceType="Agent"
+        namespace={agent.metadata.namespace}
+        name={agent.metadata.name}
+        className="md:col-span-2"
+      />
+
       {/* Model Configuration */}
       <Card>
         <CardHeader className="pb-3">
@@ -1,15 +1,28 @@
 import React, { useState } from 'react';
 import { cn } from '@/lib/utils';
-import { Bot, User, Copy, Check, AlertTriangle } from 'lucide-react';
+import { Bot, User, Copy, Check, AlertTriangle, Pencil, RefreshCw, ChevronLeft, ChevronRight, ChevronDown, Timer } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import { SLOW_STEP_MS, formatDuration, getTimedSteps, getTokensPerSecond } from '@/lib/chat-telemetry';
+import type { ChatTelemetry } from '@/lib/agent-client';
+import type { ProgressStep } from './ReasoningSteps';
 
 interface ChatMessageProps {
   role: 'user' | 'assistant' | 'system';
   content: string;
   isStreaming?: boolean;
   timestamp?: Date;
+  // Position among sibling branches (edited questions or regenerated replies)
+  branch?: { index: number; count: number };
+  onSwitchBranch?: (offset: number) => void;
+  onEdit?: (content: string) => void;
+  onRegenerate?: () => void;
+  // Disables editing, regenerating and branch switching (e.g. while streaming)
+  actionsDisabled?: boolean;
+  telemetry?: ChatTelemetry;
+  progressSteps?: ProgressStep[];
 }
 
 // Detect if the message is a system/transport error (NOT agent prose about failures)
@@ -53,9 +66,72 @@ function safeContentToString(content: unknown): string {
   return String(content);
 }
 
+function MessageStats({ telemetry, progressSteps }: { telemetry: ChatTelemetry; progressSteps?: ProgressStep[] }) {
+  const [expanded, setExpanded] = useState(false);
+  const steps = getTimedSteps(progressSteps, telemetry);
+  const usage = telemetry.usage;
+  const tokensPerSecond = getTokensPerSecond(telemetry);
+  const hasSlowStep = steps.some((step) => (step.durationMs ?? 0) >= SLOW_STEP_MS);
 
-export function ChatMessage({ role, content, isStreaming, timestamp }: ChatMessageProps) {
+  return (
+    <div className="pt-2 text-xs text-muted-foreground" data-testid="message-stats">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="inline-flex items-center gap-1.5 hover:text-foreground transition-colors"
+      >
+        {expanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        <Timer className="h-3 w-3" />
+        <span>{formatDuration(telemetry.durationMs)}</span>
+        {telemetry.firstTokenMs !== undefined && <span>· first token {formatDuration(telemetry.firstTokenMs)}</span>}
+        {usage?.totalTokens !== undefined && <span>· {usage.totalTokens} tokens</span>}
+        {steps.length > 0 && <span className={cn(hasSlowStep && 'text-warning')}>· {steps.length} steps</span>}
+      </button>
+      {expanded && (
+        <div className="mt-2 ml-4 space-y-2">
+          <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-0.5">
+            <dt>Total duration</dt>
+            <dd className="font-mono">{formatDuration(telemetry.durationMs)}</dd>
+            <dt>Time to first token</dt>
+            <dd className="font-mono">{formatDuration(telemetry.firstTokenMs)}</dd>
+            {usage && (
+              <>
+                <dt>Tokens (prompt / completion / total)</dt>
+                <dd className="font-mono">{usage.promptTokens ?? '–'} / {usage.completionTokens ?? '–'} / {usage.totalTokens ?? '–'}</dd>
+              </>
+            )}
+            {tokensPerSecond !== undefined && (
+              <>
+                <dt>Output speed</dt>
+                <dd className="font-mono">{tokensPerSecond.toFixed(1)} tokens/s</dd>
+              </>
+            )}
+          </dl>
+          {steps.length > 0 && (
+            <ol className="space-y-0.5">
+              {steps.map((step, index) => (
+                <li
+                  key={index}
+                  className={cn('flex gap-2 font-mono', (step.durationMs ?? 0) >= SLOW_STEP_MS && 'text-warning')}
+                >
+                  <span>{index + 1}.</span>
+                  <span>{step.action === 'delegate' ? 'Delegate' : 'Tool'} {step.target}</span>
+                  <span className="ml-auto">{formatDuration(step.durationMs)}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function ChatMessage({
+  role, content, isStreaming, timestamp, branch, onSwitchBranch, onEdit, onRegenerate, actionsDisabled, telemetry, progressSteps,
+}: ChatMessageProps) {
   const [copied, setCopied] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
   
   // Ensure content is always a string
   const safeContent = safeContentToString(content);
@@ -69,6 +145,17 @@ export function ChatMessage({ role, content, isStreaming, timestamp }: ChatMessa
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const startEditing = () => {
+    setDraft(safeContent);
+    setEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (!draft.trim() || !onEdit) return;
+    onEdit(draft);
+    setEditing(false);
+  };
+
   return (
     <div
       className={cn(
@@ -107,6 +194,31 @@ export function ChatMessage({ role, content, isStreaming, timestamp }: ChatMessa
               {timestamp.toLocaleTimeString()}
             </span>
           )}
+          {branch && branch.count > 1 && (
+            <span className="flex items-center text-xs text-muted-foreground" data-testid="branch-nav">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-5 w-5 p-0"
+                onClick={() => onSwitchBranch?.(-1)}
+                disabled={actionsDisabled || branch.index <= 0}
+                title="Previous branch"
+              >
+                <ChevronLeft className="h-3 w-3" />
+              </Button>
+              {branch.index + 1}/{branch.count}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-5 w-5 p-0"
+                onClick={() => onSwitchBranch?.(1)}
+                disabled={actionsDisabled || branch.index >= branch.count - 1}
+                title="Next branch"
+              >
+                <ChevronRight className="h-3 w-3" />
+              </Button>
+            </span>
+          )}
           {isStreaming && !isError && (
             <span className="flex items-center gap-1 text-xs text-agent">
               <span className="h-1.5 w-1.5 rounded-full bg-agent animate-pulse" />
@@ -115,46 +227,72 @@ export function ChatMessage({ role, content, isStreaming, timestamp }: ChatMessa
           )}
         </div>
 
-        <div className={cn(
-          "prose prose-sm dark:prose-invert max-w-none",
-          "prose-headings:text-foreground prose-p:text-foreground/90",
-          "prose-strong:text-foreground prose-code:text-primary prose-code:bg-muted prose-code:px-1 prose-code:py-0.5 prose-code:rounded",
-          "prose-pre:bg-muted prose-pre:border prose-pre:border-border",
-          "prose-ul:text-foreground/90 prose-ol:text-foreground/90 prose-li:text-foreground/90",
-          "prose-a:text-primary prose-a:underline",
-          isError && "prose-p:text-destructive/80 prose-headings:text-destructive"
-        )}>
-          <ReactMarkdown
-            remarkPlugins={[remarkGfm]}
-            components={{
-              p: ({ children }) => <p className="leading-relaxed mb-2 last:mb-0">{children}</p>,
-              ul: ({ children }) => <ul className="list-disc list-inside mb-2 space-y-0.5">{children}</ul>,
-              ol: ({ children }) => <ol className="list-decimal list-inside mb-2 space-y-0.5">{children}</ol>,
-              li: ({ children }) => <li className="leading-relaxed">{children}</li>,
-              h1: ({ children }) => <h1 className="text-xl font-bold mb-2 mt-3 first:mt-0">{children}</h1>,
-              h2: ({ children }) => <h2 className="text-lg font-bold mb-2 mt-2 first:mt-0">{children}</h2>,
-              h3: ({ children }) => <h3 className="text-base font-semibold mb-1.5 mt-2 first:mt-0">{children}</h3>,
-              strong: ({ children }) => <strong className="font-bold">{children}</strong>,
-              em: ({ children }) => <em className="italic">{children}</em>,
-              code: ({ children, className }) => {
-                const isBlock = className?.includes('language-');
-                return isBlock ? (
-                  <code className={cn("block overflow-x-auto p-2 rounded bg-muted", className)}>{children}</code>
-                ) : (
-                  <code className="text-sm bg-muted px-1 py-0.5 rounded">{children}</code>
-                );
-              },
-              pre: ({ children }) => <pre className="overflow-x-auto mb-2 rounded border border-border">{children}</pre>,
-              blockquote: ({ children }) => <blockquote className="border-l-2 border-primary pl-4 italic my-2">{children}</blockquote>,
-              hr: () => <hr className="my-3 border-border" />,
-            }}
-          >
-            {safeContent}
-          </ReactMarkdown>
-          {isStreaming && !isError && (
-            <span className="inline-block w-2 h-4 ml-0.5 bg-agent/60 animate-pulse" />
-          )}
-        </div>
+        {editing ? (
+          <div className="space-y-2">
+            <Textarea
+              autoFocus
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  submitEdit();
+                }
+                if (e.key === 'Escape') setEditing(false);
+              }}
+              className="min-h-[60px] text-sm bg-background"
+            />
+            <div className="flex gap-2">
+              <Button size="sm" className="h-7 text-xs bg-agent hover:bg-agent/90" onClick={submitEdit} disabled={actionsDisabled || !draft.trim()}>
+                Send as new branch
+              </Button>
+              <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setEditing(false)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className={cn(
+            "prose prose-sm dark:prose-invert max-w-none",
+            "prose-headings:text-foreground prose-p:text-foreground/90",
+            "prose-strong:text-foreground prose-code:text-primary prose-code:bg-muted prose-code:px-1 prose-code:py-0.5 prose-code:rounded",
+            "prose-pre:bg-muted prose-pre:border prose-pre:border-border",
+            "prose-ul:text-foreground/90 prose-ol:text-foreground/90 prose-li:text-foreground/90",
+            "prose-a:text-primary prose-a:underline",
+            isError && "prose-p:text-destructive/80 prose-headings:text-destructive"
+          )}>
+            <ReactMarkdown
+              remarkPlugins={[remarkGfm]}
+              components={{
+                p: ({ children }) => <p className="leading-relaxed mb-2 last:mb-0">{children}</p>,
+                ul: ({ children }) => <ul className="list-disc list-inside mb-2 space-y-0.5">{children}</ul>,
+                ol: ({ children }) => <ol className="list-decimal list-inside mb-2 space-y-0.5">{children}</ol>,
+                li: ({ children }) => <li className="leading-relaxed">{children}</li>,
+                h1: ({ children }) => <h1 className="text-xl font-bold mb-2 mt-3 first:mt-0">{children}</h1>,
+                h2: ({ children }) => <h2 className="text-lg font-bold mb-2 mt-2 first:mt-0">{children}</h2>,
+                h3: ({ children }) => <h3 className="text-base font-semibold mb-1.5 mt-2 first:mt-0">{children}</h3>,
+                strong: ({ children }) => <strong className="font-bold">{children}</strong>,
+                em: ({ children }) => <em className="italic">{children}</em>,
+                code: ({ children, className }) => {
+                  const isBlock = className?.includes('language-');
+                  return isBlock ? (
+                    <code className={cn("block overflow-x-auto p-2 rounded bg-muted", className)}>{children}</code>
+                  ) : (
+                    <code className="text-sm bg-muted px-1 py-0.5 rounded">{children}</code>
+                  );
+                },
+                pre: ({ children }) => <pre className="overflow-x-auto mb-2 rounded border border-border">{children}</pre>,
+                blockquote: ({ children }) => <blockquote className="border-l-2 border-primary pl-4 italic my-2">{children}</blockquote>,
+                hr: () => <hr className="my-3 border-border" />,
+              }}
+            >
+              {safeContent}
+            </ReactMarkdown>
+            {isStreaming && !isError && (
+              <span className="inline-block w-2 h-4 ml-0.5 bg-agent/60 animate-pulse" />
+            )}
+          </div>
+        )}
 
         {/* Error hint */}
         {isError && (
@@ -163,8 +301,12 @@ export function ChatMessage({ role, content, isStreaming, timestamp }: ChatMessa
           </p>
         )}
 
+        {telemetry && !isStreaming && !editing && (
+          <MessageStats telemetry={telemetry} progressSteps={progressSteps} />
+        )}
+
         {/* Actions */}
-        {safeContent && !isStreaming && (
+        {safeContent && !isStreaming && !editing && (
           <div className="opacity-0 group-hover:opacity-100 transition-opacity pt-2">
             <Button
               variant="ghost"
@@ -184,6 +326,30 @@ export function ChatMessage({ role, content, isStreaming, timestamp }: ChatMessa
                 </>
               )}
             </Button>
+            {onEdit && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={startEditing}
+                disabled={actionsDisabled}
+                className="h-7 px-2 text-xs text-muted-foreground hover:text-foreground"
+              >
+                <Pencil className="h-3 w-3 mr-1" />
+                Edit
+              </Button>
+            )}
+            {onRegenerate && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onRegenerate}
+                disabled={actionsDisabled}
+                className="h-7 px-2 text-xs text-muted-foreground hover:text-foreground"
+              >
+                <RefreshCw className="h-3 w-3 mr-1" />
+                Regenerate
+              </Button>
+            )}
           </div>
         )}
       </div>
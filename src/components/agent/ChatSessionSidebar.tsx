@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { MessageSquare, Pencil, Pin, PinOff, Plus, RefreshCw, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { searchSessions, type ChatSessionSummary } from '@/lib/chat-sessions';
+import { cn } from '@/lib/utils';
+
+interface ChatSessionSidebarProps {
+  sessions: ChatSessionSummary[];
+  activeSessionId: string;
+  loading: boolean;
+  error: string | null;
+  // Disables switching while a response streams
+  disabled?: boolean;
+  onSelect: (sessionId: string) => void;
+  onNewChat: () => void;
+  onRefresh: () => void;
+  onRename: (sessionId: string, title: string) => void;
+  onTogglePin: (sessionId: string) => void;
+  className?: string;
+}
+
+function formatActivity(time?: string): string {
+  if (!time) return '';
+  const date = new Date(time);
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return sameDay ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : date.toLocaleDateString();
+}
+
+function SessionItem({
+  session, active, disabled, onSelect, onRename, onTogglePin,
+}: {
+  session: ChatSessionSummary;
+  active: boolean;
+  disabled?: boolean;
+  onSelect: () => void;
+  onRename: (title: string) => void;
+  onTogglePin: () => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [title, setTitle] = useState('');
+
+  const startEditing = () => {
+    setTitle(session.title ?? session.preview);
+    setEditing(true);
+  };
+
+  const finishEditing = () => {
+    onRename(title);
+    setEditing(false);
+  };
+
+  if (editing) {
+    return (
+      <div className="px-2 py-1.5">
+        <Input
+          autoFocus
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onBlur={finishEditing}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') finishEditing();
+            if (e.key === 'Escape') setEditing(false);
+          }}
+          className="h-7 text-xs"
+          aria-label="Session title"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={cn(
+        'group relative rounded-md px-2 py-1.5 cursor-pointer hover:bg-muted/60',
+        active && 'bg-agent/10 hover:bg-agent/15',
+        disabled && !active && 'pointer-events-none opacity-60'
+      )}
+      onClick={onSelect}
+      data-testid={`chat-session-${session.id}`}
+    >
+      <div className="flex items-center gap-1 pr-12">
+        {session.pinned && <Pin className="h-3 w-3 shrink-0 text-agent" />}
+        <span className="text-xs font-medium truncate">
+          {session.title || session.preview || <span className="italic text-muted-foreground">Empty session</span>}
+        </span>
+      </div>
+      <div className="flex items-center gap-2 text-[10px] text-muted-foreground">
+        <span>{formatActivity(session.lastActivity)}</span>
+        <span>{session.messageCount} messages</span>
+      </div>
+      <div className="absolute right-1 top-1.5 hidden group-hover:flex items-center">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 w-6 p-0"
+          title={session.pinned ? 'Unpin' : 'Pin'}
+          onClick={(e) => {
+            e.stopPropagation();
+            onTogglePin();
+          }}
+        >
+          {session.pinned ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 w-6 p-0"
+          title="Rename"
+          onClick={(e) => {
+            e.stopPropagation();
+            startEditing();
+          }}
+        >
+          <Pencil className="h-3 w-3" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * List of an agent's chat sessions with search, for resuming earlier chats.
+ */
+export function ChatSessionSidebar({
+  sessions, activeSessionId, loading, error, disabled,
+  onSelect, onNewChat, onRefresh, onRename, onTogglePin, className,
+}: ChatSessionSidebarProps) {
+  const [query, setQuery] = useState('');
+  const visible = searchSessions(sessions, query);
+
+  return (
+    <div className={cn('flex flex-col min-h-0 bg-muted/10', className)} data-testid="chat-session-sidebar">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+        <span className="text-xs font-medium text-muted-foreground flex items-center gap-1">
+          <MessageSquare className="h-3 w-3" />
+          Sessions
+        </span>
+        <div className="flex items-center">
+          <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={onRefresh} title="Refresh sessions">
+            <RefreshCw className={cn('h-3 w-3', loading && 'animate-spin')} />
+          </Button>
+          <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={onNewChat} disabled={disabled} title="New chat">
+            <Plus className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+      <div className="p-2 border-b border-border">
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3 w-3 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search sessions..."
+            className="h-7 pl-7 text-xs bg-background"
+          />
+        </div>
+      </div>
+      {error && <p className="px-3 py-2 text-[10px] text-muted-foreground">{error}</p>}
+      <ScrollArea className="flex-1">
+        <div className="p-1 space-y-0.5">
+          {visible.length === 0 ? (
+            <p className="text-xs text-muted-foreground text-center py-6">
+              {query ? 'No matching sessions' : 'No previous sessions'}
+            </p>
+          ) : (
+            visible.map((session) => (
+              <SessionItem
+                key={session.id}
+                session={session}
+                active={session.id === activeSessionId}
+                disabled={disabled}
+                onSelect={() => onSelect(session.id)}
+                onRename={(title) => onRename(session.id, title)}
+                onTogglePin={() => onTogglePin(session.id)}
+              />
+            ))
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Gauge } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { SLOW_STEP_MS, formatDuration, summarizeChatTelemetry } from '@/lib/chat-telemetry';
+import { cn } from '@/lib/utils';
+import type { ChatMessage } from '@/hooks/useAgentChat';
+
+/**
+ * Latency, token and tool-call totals of the replies in the current session.
+ */
+export function ChatSessionStats({ messages }: { messages: ChatMessage[] }) {
+  const summary = summarizeChatTelemetry(messages);
+  if (summary.replies === 0) return null;
+
+  const slow = (summary.slowestStep?.durationMs ?? 0) >= SLOW_STEP_MS;
+  const rows: [string, string][] = [
+    ['Replies measured', String(summary.replies)],
+    ['Average duration', formatDuration(summary.avgDurationMs)],
+    ['Average first token', formatDuration(summary.avgFirstTokenMs)],
+    ['Prompt tokens', String(summary.promptTokens)],
+    ['Completion tokens', String(summary.completionTokens)],
+    ['Total tokens', String(summary.totalTokens)],
+    ['Tool calls', String(summary.toolCalls)],
+    ['Delegations', String(summary.delegations)],
+  ];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 text-xs gap-1 text-muted-foreground" data-testid="chat-session-stats">
+          <Gauge className={cn('h-3 w-3', slow && 'text-warning')} />
+          avg {formatDuration(summary.avgDurationMs)}
+          {summary.totalTokens > 0 && ` · ${summary.totalTokens} tokens`}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 text-xs">
+        <p className="font-medium mb-2">Session stats</p>
+        <dl className="grid grid-cols-[1fr_max-content] gap-y-1">
+          {rows.map(([label, value]) => (
+            <React.Fragment key={label}>
+              <dt className="text-muted-foreground">{label}</dt>
+              <dd className="font-mono text-right">{value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+        {summary.slowestStep && (
+          <p className={cn('mt-2 pt-2 border-t border-border', slow ? 'text-warning' : 'text-muted-foreground')}>
+            Slowest step: {summary.slowestStep.action === 'delegate' ? 'delegate' : 'tool'}{' '}
+            <span className="font-mono">{summary.slowestStep.target}</span> ({formatDuration(summary.slowestStep.durationMs)})
+          </p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,64 @@
+import React from 'react';
+import { FileDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  TRANSCRIPT_FORMATS,
+  createTranscript,
+  formatTranscript,
+  transcriptFilename,
+  type TranscriptFormat,
+} from '@/lib/chat-transcript';
+import { downloadFile } from '@/lib/utils';
+import type { ChatMessage } from '@/hooks/useAgentChat';
+import type { Agent } from '@/types/kubernetes';
+
+interface ConversationExportMenuProps {
+  agent: Agent;
+  messages: ChatMessage[];
+  sessionId?: string;
+  seed?: number;
+  temperature?: number;
+  className?: string;
+}
+
+/**
+ * Download a conversation as JSON, Markdown or a standalone HTML transcript.
+ */
+export function ConversationExportMenu({ agent, messages, sessionId, seed, temperature, className }: ConversationExportMenuProps) {
+  const handleExport = (format: TranscriptFormat) => {
+    const transcript = createTranscript({ agent, messages, sessionId, seed, temperature });
+    downloadFile(formatTranscript(transcript, format), TRANSCRIPT_FORMATS[format].mimeType, transcriptFilename(transcript, format));
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={className ?? 'h-7 text-xs'}
+          disabled={messages.length === 0}
+          data-testid="conversation-export"
+        >
+          <FileDown className="h-3 w-3 mr-1" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="text-xs">Export conversation</DropdownMenuLabel>
+        {(Object.keys(TRANSCRIPT_FORMATS) as TranscriptFormat[]).map((format) => (
+          <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+            {TRANSCRIPT_FORMATS[format].label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -4,18 +4,16 @@ import { Badge } from '@/components/ui/badge';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { cn } from '@/lib/utils';
-
-interface MemoryEvent {
-  id: string;
-  type: string;
-  content?: string | Record<string, unknown>;
-  timestamp?: string;
-  session_id?: string;
-  metadata?: Record<string, unknown>;
-}
+import { memoryEventsToChatMessages } from '@/lib/chat-sessions';
+import { ConversationExportMenu } from './ConversationExportMenu';
+import type { MemoryEvent } from '@/lib/agent-memory';
+import type { Agent } from '@/types/kubernetes';
 
 interface MemoryConversationViewProps {
   events: MemoryEvent[];
+  // Enables exporting the conversation
+  agent?: Agent;
+  sessionId?: string;
 }
 
 function ToolPill({ event }: { event: MemoryEvent }) {
@@ -123,13 +121,18 @@ function MessageBubble({ event }: { event: MemoryEvent }) {
   );
 }
 
-export function MemoryConversationView({ events }: MemoryConversationViewProps) {
+export function MemoryConversationView({ events, agent, sessionId }: MemoryConversationViewProps) {
   // Group consecutive user_message events as iteration boundaries
   let lastWasUserMessage = false;
   let iterationCount = 0;
 
   return (
     <div className="space-y-2 p-2">
+      {agent && events.length > 0 && (
+        <div className="flex justify-end">
+          <ConversationExportMenu agent={agent} messages={memoryEventsToChatMessages(events)} sessionId={sessionId} />
+        </div>
+      )}
       {events.length === 0 ? (
         <p className="text-xs text-muted-foreground italic text-center py-8">No events to display</p>
       ) : (
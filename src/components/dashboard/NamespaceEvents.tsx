@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import { AlertCircle, CalendarClock, Radio } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { EventList } from '@/components/shared/EventList';
+import { useKubernetesConnection } from '@/contexts/KubernetesConnectionContext';
+import { useNamespaceEvents } from '@/hooks/useEvents';
+import { isWarningEvent } from '@/lib/resource-events';
+
+/**
+ * Live stream of every Kubernetes Event in the current namespace, with
+ * warnings highlighted.
+ */
+export function NamespaceEvents() {
+  const { connected, namespace } = useKubernetesConnection();
+  const { events, error, live } = useNamespaceEvents(namespace, connected);
+  const [warningsOnly, setWarningsOnly] = useState(false);
+
+  const warnings = events.filter(isWarningEvent);
+  const visible = warningsOnly ? warnings : events;
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-5" data-testid="namespace-events">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5 text-muted-foreground" />
+          <h2 className="text-lg font-semibold text-foreground">Cluster Events</h2>
+          {live && (
+            <Badge variant="outline" className="gap-1 text-[10px]">
+              <Radio className="h-3 w-3" />
+              Live
+            </Badge>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          {warnings.length > 0 && <Badge variant="warning">{warnings.length} warnings</Badge>}
+          <Badge variant="secondary">{events.length} events</Badge>
+          <span className="flex items-center gap-2">
+            <Switch id="namespace-events-warnings" checked={warningsOnly} onCheckedChange={setWarningsOnly} />
+            <Label htmlFor="namespace-events-warnings" className="text-xs font-normal">Warnings only</Label>
+          </span>
+        </div>
+      </div>
+      {error && (
+        <div className="flex items-center gap-2 mb-2 text-sm text-destructive">
+          <AlertCircle className="h-4 w-4" />
+          {error}
+        </div>
+      )}
+      <div className="max-h-[400px] overflow-y-auto">
+        <EventList events={visible} emptyMessage={`No recent events in "${namespace}"`} />
+      </div>
+    </div>
+  );
+}
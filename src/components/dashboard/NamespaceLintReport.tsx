@@ -0,0 +1,152 @@
+import { useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertCircle, AlertTriangle, CheckCircle2, Edit, ExternalLink, KeyRound, ListChecks, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useKubernetesStore } from '@/stores/kubernetesStore';
+import { useKubernetesConnection } from '@/contexts/KubernetesConnectionContext';
+import { lintNamespace, type LintIssue } from '@/lib/dependency-lint';
+import { RESOURCE_ROUTES } from './visual-map/types';
+import { cn } from '@/lib/utils';
+
+const LIST_TABS: Record<LintIssue['resource']['kind'], string> = {
+  Agent: 'agents',
+  ModelAPI: 'model-apis',
+  MCPServer: 'mcp-servers',
+};
+
+/**
+ * Every broken reference between the resources of the current namespace,
+ * with shortcuts to edit the referring resource or open the referenced one.
+ */
+export function NamespaceLintReport() {
+  const navigate = useNavigate();
+  const { agents, modelAPIs, mcpServers, secrets, setActiveTab, setSelectedResource, setSelectedResourceMode } = useKubernetesStore();
+  const { namespace, refreshAll } = useKubernetesConnection();
+
+  const issues = useMemo(
+    () => lintNamespace({ agents, modelAPIs, mcpServers, secrets }),
+    [agents, modelAPIs, mcpServers, secrets]
+  );
+  const errorCount = issues.filter((issue) => issue.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+  const checked = agents.length + modelAPIs.length + mcpServers.length;
+
+  const findResource = (kind: LintIssue['resource']['kind'], name: string) => {
+    const items = kind === 'Agent' ? agents : kind === 'ModelAPI' ? modelAPIs : mcpServers;
+    return items.find((item) => item.metadata.name === name);
+  };
+
+  const handleEdit = (issue: LintIssue) => {
+    const resource = findResource(issue.resource.kind, issue.resource.name);
+    if (!resource) return;
+    setSelectedResource(resource);
+    setSelectedResourceMode('edit');
+  };
+
+  const openResource = (kind: LintIssue['resource']['kind'], name: string) => {
+    navigate(`/${RESOURCE_ROUTES[kind]}/${namespace}/${name}`);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Namespace Lint</h1>
+          <p className="text-muted-foreground mt-1">
+            Broken references between the resources in "{namespace}"
+          </p>
+        </div>
+        <Button variant="outline" className="gap-2" onClick={() => refreshAll()}>
+          <RefreshCw className="h-4 w-4" />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Badge variant={errorCount > 0 ? 'destructive' : 'secondary'}>{errorCount} errors</Badge>
+        <Badge variant="secondary" className={cn(warningCount > 0 && 'text-amber-600')}>{warningCount} warnings</Badge>
+        <span className="text-muted-foreground">{checked} resources checked</span>
+      </div>
+
+      {issues.length === 0 ? (
+        <div className="rounded-lg border border-border p-12 text-center" data-testid="lint-clean">
+          <CheckCircle2 className="h-12 w-12 mx-auto text-green-500 mb-4" />
+          <p className="font-medium">No broken references</p>
+          <p className="text-sm text-muted-foreground mt-1">
+            Every ModelAPI, model, MCPServer, peer Agent and Secret referenced in this namespace exists
+          </p>
+        </div>
+      ) : (
+        <div className="rounded-lg border border-border overflow-hidden">
+          <table className="w-full text-sm" data-testid="lint-report">
+            <thead className="bg-muted/50 text-xs text-muted-foreground">
+              <tr>
+                <th className="px-4 py-2 w-8" />
+                <th className="px-4 py-2 text-left font-medium">Resource</th>
+                <th className="px-4 py-2 text-left font-medium">Field</th>
+                <th className="px-4 py-2 text-left font-medium">Problem</th>
+                <th className="px-4 py-2 text-right font-medium">Fix</th>
+              </tr>
+            </thead>
+            <tbody>
+              {issues.map((issue, index) => {
+                const Icon = issue.severity === 'error' ? AlertCircle : AlertTriangle;
+                const targetExists = issue.target && !!findResource(issue.target.kind, issue.target.name);
+                return (
+                  <tr key={index} className="border-t align-top" data-testid="lint-issue">
+                    <td className="px-4 py-3">
+                      <Icon className={cn('h-4 w-4', issue.severity === 'error' ? 'text-destructive' : 'text-amber-500')} />
+                    </td>
+                    <td className="px-4 py-3">
+                      <button
+                        type="button"
+                        className="font-mono text-xs hover:underline"
+                        onClick={() => openResource(issue.resource.kind, issue.resource.name)}
+                      >
+                        {issue.resource.kind}/{issue.resource.name}
+                      </button>
+                    </td>
+                    <td className="px-4 py-3 font-mono text-xs text-muted-foreground">{issue.field}</td>
+                    <td className="px-4 py-3">{issue.message}</td>
+                    <td className="px-4 py-3">
+                      <div className="flex justify-end gap-1">
+                        {issue.target && targetExists && (
+                          <Button variant="ghost" size="sm" className="h-7 gap-1" onClick={() => openResource(issue.target!.kind, issue.target!.name)}>
+                            <ExternalLink className="h-3.5 w-3.5" />
+                            {issue.target.kind}
+                          </Button>
+                        )}
+                        {issue.target && !targetExists && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 gap-1"
+                            onClick={() => setActiveTab(LIST_TABS[issue.target!.kind])}
+                          >
+                            <ListChecks className="h-3.5 w-3.5" />
+                            {issue.target.kind}s
+                          </Button>
+                        )}
+                        {(issue.code === 'missing-secret' || issue.code === 'missing-secret-key') && (
+                          <Button variant="ghost" size="sm" className="h-7 gap-1" onClick={() => setActiveTab('secrets')}>
+                            <KeyRound className="h-3.5 w-3.5" />
+                            Secrets
+                          </Button>
+                        )}
+                        <Button variant="outline" size="sm" className="h-7 gap-1" onClick={() => handleEdit(issue)}>
+                          <Edit className="h-3.5 w-3.5" />
+                          Edit
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,12 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Box, Server, Bot, Boxes, AlertCircle, CheckCircle2, Clock, Activity, ArrowRight } from 'lucide-react';
+import { Box, Server, Bot, Boxes, AlertCircle, CheckCircle2, Clock, Activity, ArrowRight, FileUp, LayoutTemplate } from 'lucide-react';
 import { useKubernetesStore } from '@/stores/kubernetesStore';
 import { Badge, type BadgeProps } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { ImportManifestsDialog } from '@/components/resources/ImportManifestsDialog';
+import { StackTemplateGallery } from '@/components/resources/StackTemplateGallery';
+import { NamespaceEvents } from '@/components/dashboard/NamespaceEvents';
 import { cn } from '@/lib/utils';
 import { getStatusVariant } from '@/lib/status-utils';
 import type { LogEntry } from '@/types/kubernetes';
@@ -165,6 +168,8 @@ function ActivityItem({ log }: { log: LogEntry }) {
 export function OverviewDashboard() {
   const navigate = useNavigate();
   const { modelAPIs, mcpServers, agents, pods, logs, setActiveTab } = useKubernetesStore();
+  const [importOpen, setImportOpen] = useState(false);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
 
   const getStatusCounts = (resources: { status?: { phase?: string } }[]) => {
     const running = resources.filter(r => {
@@ -221,9 +226,21 @@ export function OverviewDashboard() {
   return (
     <div className="p-6 space-y-6">
       {/* Header */}
-      <div>
-        <h1 className="text-2xl font-bold text-foreground">Dashboard Overview</h1>
-        <p className="text-muted-foreground mt-1">Monitor and manage your agentic system resources</p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Dashboard Overview</h1>
+          <p className="text-muted-foreground mt-1">Monitor and manage your agentic system resources</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" className="gap-2" onClick={() => setTemplatesOpen(true)} data-testid="stack-templates-button">
+            <LayoutTemplate className="h-4 w-4" />
+            Templates
+          </Button>
+          <Button variant="outline" className="gap-2" onClick={() => setImportOpen(true)} data-testid="import-manifests-button">
+            <FileUp className="h-4 w-4" />
+            Import Manifests
+          </Button>
+        </div>
       </div>
 
       {/* Stats Grid */}
@@ -323,6 +340,12 @@ export function OverviewDashboard() {
           </div>
         </div>
       </div>
+
+      {/* Kubernetes Events */}
+      <NamespaceEvents />
+
+      <ImportManifestsDialog open={importOpen} onClose={() => setImportOpen(false)} />
+      <StackTemplateGallery open={templatesOpen} onClose={() => setTemplatesOpen(false)} />
     </div>
   );
 }
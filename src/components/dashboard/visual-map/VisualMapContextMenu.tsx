@@ -7,7 +7,7 @@ import {
   ContextMenuSeparator,
   ContextMenuTrigger,
 } from '@/components/ui/context-menu';
-import { Eye, FileCode, Boxes, Stethoscope, Wrench, MessageSquare, Focus, Pencil } from 'lucide-react';
+import { Eye, FileCode, Boxes, Stethoscope, Wrench, MessageSquare, Focus, Pencil, Copy } from 'lucide-react';
 import type { ResourceNodeData, ResourceKind } from './types';
 import { RESOURCE_ROUTES } from './types';
 
@@ -16,6 +16,7 @@ interface VisualMapContextMenuProps {
   data: ResourceNodeData;
   onFocusNode: (nodeId: string) => void;
   onEditNode: (data: ResourceNodeData) => void;
+  onDuplicateNode: (data: ResourceNodeData) => void;
 }
 
 const ICON_MAP: Record<string, typeof Eye> = {
@@ -39,7 +40,7 @@ function getMenuItems(kind: ResourceKind): { label: string; tab: string; icon: s
   return base;
 }
 
-export function VisualMapContextMenu({ children, data, onFocusNode, onEditNode }: VisualMapContextMenuProps) {
+export function VisualMapContextMenu({ children, data, onFocusNode, onEditNode, onDuplicateNode }: VisualMapContextMenuProps) {
   const navigate = useNavigate();
   const route = RESOURCE_ROUTES[data.resourceType];
   const { namespace, name } = data.resource.metadata;
@@ -74,6 +75,10 @@ export function VisualMapContextMenu({ children, data, onFocusNode, onEditNode }
           <Pencil className="h-4 w-4" />
           Edit
         </ContextMenuItem>
+        <ContextMenuItem onClick={() => onDuplicateNode(data)} className="gap-2">
+          <Copy className="h-4 w-4" />
+          Duplicate
+        </ContextMenuItem>
       </ContextMenuContent>
     </ContextMenu>
   );
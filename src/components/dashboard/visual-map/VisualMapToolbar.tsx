@@ -1,5 +1,5 @@
 import React from 'react';
-import { Search, LayoutGrid, Maximize, Plus } from 'lucide-react';
+import { Search, LayoutGrid, Maximize, Plus, FileDown } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Tooltip, TooltipTrigger, TooltipContent } from '@/components/ui/tooltip';
@@ -15,6 +15,7 @@ interface VisualMapToolbarProps {
   onReLayout: () => void;
   onFitView: () => void;
   onCreateResource: (kind: ResourceKind) => void;
+  onExport: () => void;
 }
 
 const KIND_CHIPS: { kind: ResourceKind; label: string; colorVar: string }[] = [
@@ -33,6 +34,7 @@ export function VisualMapToolbar({
   onReLayout,
   onFitView,
   onCreateResource,
+  onExport,
 }: VisualMapToolbarProps) {
   return (
     <div className="absolute top-3 left-3 right-3 z-10 flex items-center gap-2 flex-wrap">
@@ -145,6 +147,15 @@ export function VisualMapToolbar({
           </TooltipTrigger>
           <TooltipContent side="bottom">Fit to view</TooltipContent>
         </Tooltip>
+
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button variant="ghost" size="xs" onClick={onExport} className="h-7 w-7 p-0" data-testid="visual-map-export">
+              <FileDown className="h-3.5 w-3.5" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent side="bottom">Export visible resources</TooltipContent>
+        </Tooltip>
       </div>
     </div>
   );
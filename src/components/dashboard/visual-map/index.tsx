@@ -31,6 +31,8 @@ import type { ResourceNodeData, ResourceKind } from './types';
 import { AgentCreateDialog } from '@/components/resources/AgentCreateDialog';
 import { MCPServerCreateDialog } from '@/components/resources/MCPServerCreateDialog';
 import { ModelAPICreateDialog } from '@/components/resources/ModelAPICreateDialog';
+import { ExportStackDialog } from '@/components/resources/ExportStackDialog';
+import type { KaosResource } from '@/lib/stack-export';
 
 
 const VIEWPORT_STORAGE_KEY = 'visual-map-viewport';
@@ -63,8 +65,14 @@ function ContextMenuResourceNode({ data }: { data: ResourceNodeData; [key: strin
     store.setSelectedResourceMode('edit');
   }, []);
 
+  const handleDuplicateNode = useCallback((data: ResourceNodeData) => {
+    const store = useKubernetesStore.getState();
+    store.setSelectedResource(data.resource);
+    store.setSelectedResourceMode('duplicate');
+  }, []);
+
   return (
-    <VisualMapContextMenu data={data} onFocusNode={handleFocusNode} onEditNode={handleEditNode}>
+    <VisualMapContextMenu data={data} onFocusNode={handleFocusNode} onEditNode={handleEditNode} onDuplicateNode={handleDuplicateNode}>
       <div>
         <ResourceNode data={data} onEdit={handleEditNode} />
       </div>
@@ -88,6 +96,7 @@ function VisualMapInner() {
 
   // Create dialog state
   const [createKind, setCreateKind] = useState<ResourceKind | null>(null);
+  const [exportResources, setExportResources] = useState<KaosResource[] | null>(null);
   const hasInitialFit = useRef(false);
 
   const {
@@ -170,6 +179,15 @@ function VisualMapInner() {
     setCreateKind(kind);
   }, []);
 
+  // Export what the filters leave visible
+  const handleExport = useCallback(() => {
+    const visible = displayNodes
+      .filter((node) => node.type === 'resourceNode')
+      .map((node) => node.data as unknown as ResourceNodeData)
+      .filter((data) => !data.isDimmed);
+    setExportResources(visible.map((data) => data.resource));
+  }, [displayNodes]);
+
   const isEmpty = modelAPIs.length === 0 && mcpServers.length === 0 && agents.length === 0;
 
   if (isEmpty) {
@@ -196,6 +214,7 @@ function VisualMapInner() {
               onReLayout={handleReLayout}
               onFitView={handleFitView}
               onCreateResource={handleCreateResource}
+              onExport={handleExport}
             />
 
             <ReactFlow
@@ -231,6 +250,11 @@ function VisualMapInner() {
           <AgentCreateDialog open={createKind === 'Agent'} onClose={() => setCreateKind(null)} />
           <MCPServerCreateDialog open={createKind === 'MCPServer'} onClose={() => setCreateKind(null)} />
           <ModelAPICreateDialog open={createKind === 'ModelAPI'} onClose={() => setCreateKind(null)} />
+          <ExportStackDialog
+            open={!!exportResources}
+            onClose={() => setExportResources(null)}
+            resources={exportResources ?? []}
+          />
         </TooltipProvider>
       </VisualMapCompactContext.Provider>
     </VisualMapZoomContext.Provider>
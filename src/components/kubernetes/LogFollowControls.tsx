@@ -0,0 +1,49 @@
+import React from 'react';
+import { Pause, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import type { PodLogsMode } from '@/hooks/usePodLogs';
+import { cn } from '@/lib/utils';
+
+interface LogFollowControlsProps {
+  mode: PodLogsMode;
+  paused: boolean;
+  onPausedChange: (paused: boolean) => void;
+  // Lines dropped from the front of the buffer
+  dropped?: number;
+}
+
+const MODE_LABELS: Record<PodLogsMode, { label: string; className: string }> = {
+  connecting: { label: 'Connecting', className: 'text-muted-foreground' },
+  live: { label: 'Live', className: 'text-green-500 border-green-500/40' },
+  reconnecting: { label: 'Reconnecting', className: 'text-amber-500 border-amber-500/40' },
+  unavailable: { label: 'Polling', className: 'text-muted-foreground' },
+  stopped: { label: 'Stopped', className: 'text-muted-foreground' },
+  polling: { label: 'Polling every 1s', className: 'text-muted-foreground' },
+  paused: { label: 'Paused', className: 'text-muted-foreground' },
+};
+
+export function LogFollowControls({ mode, paused, onPausedChange, dropped = 0 }: LogFollowControlsProps) {
+  const { label, className } = MODE_LABELS[mode];
+
+  return (
+    <div className="flex items-center gap-2">
+      <Button
+        variant={paused ? 'outline' : 'default'}
+        size="sm"
+        onClick={() => onPausedChange(!paused)}
+        data-testid="logs-follow-toggle"
+      >
+        {paused ? <Play className="h-4 w-4 mr-2" /> : <Pause className="h-4 w-4 mr-2" />}
+        {paused ? 'Resume' : 'Pause'}
+      </Button>
+      <Badge variant="outline" className={cn('text-xs gap-1', className)} data-testid="logs-stream-status">
+        {mode === 'live' && <span className="h-1.5 w-1.5 rounded-full bg-green-500 animate-pulse" />}
+        {label}
+      </Badge>
+      {dropped > 0 && (
+        <span className="text-xs text-muted-foreground">{dropped} older lines dropped</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, Edit, RefreshCw, Stethoscope } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { AgentEditDialog } from '@/components/resources/AgentEditDialog';
+import { ModelAPIEditDialog } from '@/components/resources/ModelAPIEditDialog';
+import { MCPServerEditDialog } from '@/components/resources/MCPServerEditDialog';
+import { useKubernetesStore } from '@/stores/kubernetesStore';
+import { k8sClient } from '@/lib/kubernetes-client';
+import {
+  diagnoseCrash,
+  getContainerTermination,
+  isCrashing,
+  type ContainerTermination,
+  type CrashDiagnosis,
+} from '@/lib/crash-diagnosis';
+import type { KaosResource } from '@/lib/stack-export';
+import type { Pod } from '@/types/kubernetes';
+
+interface PodCrashDiagnosticsProps {
+  pod: Pod;
+}
+
+const LOG_TAIL_LINES = 50;
+
+/**
+ * "Last termination" panel for each crashing container of a pod: exit code,
+ * reason, the tail of the previous run's logs and a diagnosis of common KAOS
+ * failures with a shortcut to the edit dialog that fixes them.
+ */
+export function PodCrashDiagnostics({ pod }: PodCrashDiagnosticsProps) {
+  const terminations = pod.spec.containers
+    .map((container) => getContainerTermination(pod, container.name))
+    .filter((t): t is ContainerTermination => !!t && isCrashing(t));
+
+  if (terminations.length === 0) return null;
+
+  return (
+    <>
+      {terminations.map((termination) => (
+        <ContainerCrashPanel key={termination.container} pod={pod} termination={termination} />
+      ))}
+    </>
+  );
+}
+
+function ContainerCrashPanel({ pod, termination }: { pod: Pod; termination: ContainerTermination }) {
+  const { agents, modelAPIs, mcpServers } = useKubernetesStore();
+  const [logs, setLogs] = useState('');
+  const [logsLoading, setLogsLoading] = useState(false);
+  const [logsError, setLogsError] = useState<string | null>(null);
+  const [editTarget, setEditTarget] = useState<KaosResource | null>(null);
+  const { name, namespace } = pod.metadata;
+  const { container, previous, restartCount } = termination;
+
+  // Refetch whenever the container restarts again
+  useEffect(() => {
+    let cancelled = false;
+    setLogsLoading(true);
+    setLogsError(null);
+    k8sClient.getPodLogs(name, namespace, { container, previous, tailLines: LOG_TAIL_LINES })
+      .then((content) => {
+        if (!cancelled) setLogs(content);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setLogs('');
+          setLogsError(err instanceof Error ? err.message : 'Failed to fetch logs');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLogsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [name, namespace, container, previous, restartCount]);
+
+  const diagnoses = diagnoseCrash(pod, termination, logs, { agents, modelAPIs, mcpServers });
+  const terminated = termination.terminated;
+
+  const openFix = (fix: NonNullable<CrashDiagnosis['fix']>) => {
+    const items: KaosResource[] = fix.kind === 'Agent' ? agents : fix.kind === 'ModelAPI' ? modelAPIs : mcpServers;
+    setEditTarget(items.find((item) => item.metadata.name === fix.name) ?? null);
+  };
+
+  return (
+    <Card className="lg:col-span-2 border-destructive/50" data-testid="crash-diagnostics">
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2 flex-wrap">
+          <AlertTriangle className="h-4 w-4 text-destructive" />
+          Last termination
+          {pod.spec.containers.length > 1 && (
+            <Badge variant="outline" className="font-mono text-xs">{container}</Badge>
+          )}
+          {termination.waitingReason && (
+            <Badge variant="destructive" className="text-xs">{termination.waitingReason}</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <span className="text-muted-foreground">Exit code</span>
+            <p className="font-mono font-medium">{terminated?.exitCode ?? 'N/A'}</p>
+          </div>
+          <div>
+            <span className="text-muted-foreground">Reason</span>
+            <p className="font-medium">{terminated?.reason || 'N/A'}</p>
+          </div>
+          <div>
+            <span className="text-muted-foreground">Finished</span>
+            <p className="font-medium">{terminated?.finishedAt ? new Date(terminated.finishedAt).toLocaleString() : 'N/A'}</p>
+          </div>
+          <div>
+            <span className="text-muted-foreground">Restarts</span>
+            <p className="font-medium">{restartCount}</p>
+          </div>
+        </div>
+
+        {(terminated?.message || termination.waitingMessage) && (
+          <p className="text-xs font-mono bg-muted/50 p-2 rounded break-all">
+            {terminated?.message || termination.waitingMessage}
+          </p>
+        )}
+
+        {/* Diagnosis */}
+        {diagnoses.length > 0 && (
+          <div className="space-y-2">
+            {diagnoses.map((diagnosis) => (
+              <Alert key={diagnosis.cause} data-testid={`diagnosis-${diagnosis.cause}`}>
+                <Stethoscope className="h-4 w-4" />
+                <AlertTitle className="flex items-center justify-between gap-2">
+                  {diagnosis.title}
+                  {diagnosis.fix && (
+                    <Button variant="outline" size="sm" className="gap-1" onClick={() => openFix(diagnosis.fix!)}>
+                      <Edit className="h-3 w-3" />
+                      {diagnosis.fix.label}
+                    </Button>
+                  )}
+                </AlertTitle>
+                <AlertDescription className="space-y-2">
+                  <p className="text-muted-foreground">{diagnosis.detail}</p>
+                  {diagnosis.evidence && (
+                    <code className="block bg-muted p-2 rounded-md font-mono text-xs break-all">{diagnosis.evidence}</code>
+                  )}
+                </AlertDescription>
+              </Alert>
+            ))}
+          </div>
+        )}
+
+        {/* Tail of the previous run's logs */}
+        <div>
+          <p className="text-xs text-muted-foreground mb-2 flex items-center gap-2">
+            {previous ? 'Previous container logs' : 'Container logs'} (last {LOG_TAIL_LINES} lines)
+            {logsLoading && <RefreshCw className="h-3 w-3 animate-spin" />}
+          </p>
+          {logsError ? (
+            <p className="text-xs text-destructive">{logsError}</p>
+          ) : (
+            <pre className="bg-muted/30 p-3 rounded-md font-mono text-xs whitespace-pre-wrap break-all max-h-64 overflow-auto">
+              {logs || (logsLoading ? 'Loading logs...' : 'No logs available')}
+            </pre>
+          )}
+        </div>
+      </CardContent>
+
+      {editTarget?.kind === 'Agent' && (
+        <AgentEditDialog agent={editTarget} open onClose={() => setEditTarget(null)} />
+      )}
+      {editTarget?.kind === 'ModelAPI' && (
+        <ModelAPIEditDialog modelAPI={editTarget} open onClose={() => setEditTarget(null)} />
+      )}
+      {editTarget?.kind === 'MCPServer' && (
+        <MCPServerEditDialog mcpServer={editTarget} open onClose={() => setEditTarget(null)} />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,232 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { AlertCircle, Plug, Unplug, SquareTerminal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ContainerSelector } from '@/components/kubernetes/ContainerSelector';
+import { k8sClient, type ExecHandle, type ExecStatus } from '@/lib/kubernetes-client';
+import { TerminalScreen, keyToSequence } from '@/lib/terminal';
+import { cn } from '@/lib/utils';
+
+const SHELLS = ['/bin/sh', '/bin/bash', '/bin/ash'];
+
+interface PodExecTabProps {
+  namespace: string;
+  podName: string;
+  containers: string[];
+  selectedContainer: string;
+  onContainerChange: (container: string) => void;
+}
+
+export function PodExecTab({ namespace, podName, containers, selectedContainer, onContainerChange }: PodExecTabProps) {
+  const [shell, setShell] = useState(SHELLS[0]);
+  const [status, setStatus] = useState<ExecStatus | 'idle'>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [exitMessage, setExitMessage] = useState<string | null>(null);
+  const [lines, setLines] = useState<string[]>([]);
+  const [cursor, setCursor] = useState({ row: 0, col: 0 });
+  const [focused, setFocused] = useState(false);
+
+  const screenRef = useRef(new TerminalScreen());
+  const sessionRef = useRef<ExecHandle | null>(null);
+  // Incremented on every disconnect so a connect still awaiting execPod knows it was abandoned
+  const attemptRef = useRef(0);
+  const sizeRef = useRef({ cols: 80, rows: 24 });
+  const terminalRef = useRef<HTMLDivElement>(null);
+  const measureRef = useRef<HTMLSpanElement>(null);
+
+  const render = useCallback(() => {
+    setLines([...screenRef.current.getLines()]);
+    setCursor(screenRef.current.getCursor());
+  }, []);
+
+  const disconnect = useCallback(() => {
+    attemptRef.current += 1;
+    if (!sessionRef.current) return;
+    sessionRef.current.close();
+    sessionRef.current = null;
+    // The closed session's own status callbacks are ignored from here on
+    setStatus('closed');
+  }, []);
+
+  const connect = useCallback(async () => {
+    disconnect();
+    screenRef.current.clear();
+    render();
+    setError(null);
+    setExitMessage(null);
+    const attempt = attemptRef.current;
+    const isCurrent = () => attempt === attemptRef.current;
+    let session: ExecHandle | null = null;
+    try {
+      session = await k8sClient.execPod(podName, namespace, { container: selectedContainer || undefined, command: [shell], tty: true }, {
+        onOutput: (text) => {
+          if (!isCurrent()) return;
+          screenRef.current.write(text);
+          render();
+        },
+        onStatus: (next) => {
+          if (!isCurrent()) return;
+          setStatus(next);
+          if (next === 'open') {
+            session?.resize(sizeRef.current.cols, sizeRef.current.rows);
+            terminalRef.current?.focus();
+          }
+        },
+        onExit: (exitCode, message) => {
+          if (!isCurrent()) return;
+          setExitMessage(exitCode === 0 ? 'Session ended' : message || `Exited with code ${exitCode ?? 'unknown'}`);
+        },
+        onError: (err) => {
+          if (isCurrent()) setError(err.message);
+        },
+      });
+      // Disconnected (unmount or target change) while the session was starting
+      if (!isCurrent()) {
+        session.close();
+        return;
+      }
+      sessionRef.current = session;
+    } catch (err) {
+      if (!isCurrent()) return;
+      setError(err instanceof Error ? err.message : 'Failed to start exec session');
+      setStatus('closed');
+    }
+  }, [disconnect, render, podName, namespace, selectedContainer, shell]);
+
+  // End the session when the tab unmounts or the target changes
+  useEffect(() => disconnect, [disconnect, podName, namespace, selectedContainer]);
+
+  // Fit the TTY to the visible area
+  useEffect(() => {
+    const element = terminalRef.current;
+    const measure = measureRef.current;
+    if (!element || !measure) return;
+    const observer = new ResizeObserver(() => {
+      const { width: charWidth, height: lineHeight } = measure.getBoundingClientRect();
+      if (!charWidth || !lineHeight) return;
+      const style = getComputedStyle(element);
+      const width = element.clientWidth - parseFloat(style.paddingLeft) - parseFloat(style.paddingRight);
+      const height = element.clientHeight - parseFloat(style.paddingTop) - parseFloat(style.paddingBottom);
+      const cols = Math.max(20, Math.floor(width / charWidth));
+      const rows = Math.max(5, Math.floor(height / lineHeight));
+      if (cols === sizeRef.current.cols && rows === sizeRef.current.rows) return;
+      sizeRef.current = { cols, rows };
+      screenRef.current.resize(cols, rows);
+      sessionRef.current?.resize(cols, rows);
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Keep the cursor line in view
+  useEffect(() => {
+    const element = terminalRef.current;
+    if (element) element.scrollTop = element.scrollHeight;
+  }, [lines]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (status !== 'open') return;
+    const sequence = keyToSequence(e);
+    if (sequence === undefined) return;
+    e.preventDefault();
+    sessionRef.current?.send(sequence);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    if (status !== 'open') return;
+    e.preventDefault();
+    sessionRef.current?.send(e.clipboardData.getData('text').replace(/\r?\n/g, '\r'));
+  };
+
+  const connected = status === 'open' || status === 'connecting';
+
+  return (
+    <>
+      <div className="flex items-center gap-2 flex-wrap">
+        <ContainerSelector
+          containers={containers}
+          selectedContainer={selectedContainer}
+          onContainerChange={onContainerChange}
+        />
+        <Select value={shell} onValueChange={setShell} disabled={connected}>
+          <SelectTrigger className="w-[140px] font-mono">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SHELLS.map((s) => (
+              <SelectItem key={s} value={s} className="font-mono">{s}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {connected ? (
+          <Button variant="outline" size="sm" onClick={disconnect} data-testid="exec-disconnect">
+            <Unplug className="h-4 w-4 mr-2" />
+            Disconnect
+          </Button>
+        ) : (
+          <Button size="sm" onClick={connect} data-testid="exec-connect">
+            <Plug className="h-4 w-4 mr-2" />
+            Connect
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="border-border">
+        <CardHeader className="py-3 border-b border-border">
+          <CardTitle className="text-sm font-medium flex items-center gap-2">
+            <SquareTerminal className="h-4 w-4" />
+            Terminal
+            {selectedContainer && (
+              <Badge variant="outline" className="text-xs font-mono">{selectedContainer}</Badge>
+            )}
+            <Badge variant={status === 'open' ? 'success' : 'secondary'} className="text-xs ml-auto">
+              {status === 'idle' ? 'Not connected' : status}
+            </Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div
+            ref={terminalRef}
+            tabIndex={0}
+            onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
+            onFocus={() => setFocused(true)}
+            onBlur={() => setFocused(false)}
+            className="relative h-[calc(100vh-420px)] min-h-[300px] overflow-y-auto bg-black text-gray-100 font-mono text-xs leading-5 p-3 outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            data-testid="exec-terminal"
+          >
+            <span ref={measureRef} aria-hidden className="invisible absolute">M</span>
+            {status === 'idle' && lines.length <= 1 ? (
+              <p className="text-gray-500">Connect to open {shell} in the container.</p>
+            ) : (
+              lines.map((line, row) => (
+                <div key={row} className="whitespace-pre min-h-5">
+                  {row === cursor.row && status === 'open' ? (
+                    <>
+                      {line.slice(0, cursor.col)}
+                      <span className={cn(focused ? 'bg-gray-100 text-black' : 'outline outline-1 outline-gray-400')}>
+                        {line[cursor.col] ?? ' '}
+                      </span>
+                      {line.slice(cursor.col + 1)}
+                    </>
+                  ) : line}
+                </div>
+              ))
+            )}
+            {exitMessage && <p className="text-gray-500 mt-2">[{exitMessage}]</p>}
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -4,49 +4,35 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { ScrollArea } from '@/components/ui/scroll-area';
 import { ContainerSelector } from '@/components/kubernetes/ContainerSelector';
+import { LogFollowControls } from '@/components/kubernetes/LogFollowControls';
+import { StructuredLogView } from '@/components/kubernetes/StructuredLogView';
+import type { LogLine } from '@/lib/kubernetes-client';
+import type { PodLogsMode } from '@/hooks/usePodLogs';
 
 interface PodLogsTabProps {
   containers: string[];
   selectedContainer: string;
   onContainerChange: (container: string) => void;
-  logs: string;
+  lines: LogLine[];
   logsLoading: boolean;
   logsError: string | null;
   tailLines: number;
   onTailLinesChange: (lines: number) => void;
-  autoRefresh: boolean;
-  onAutoRefreshToggle: () => void;
+  mode: PodLogsMode;
+  paused: boolean;
+  onPausedChange: (paused: boolean) => void;
+  dropped: number;
   scrollRef: React.RefObject<HTMLDivElement | null>;
   onFetchLogs: () => void;
   onDownload: () => void;
 }
 
-function formatLogLine(line: string, index: number) {
-  const isError = /error|fatal|panic/i.test(line);
-  const isWarning = /warn|warning/i.test(line);
-  const isInfo = /info/i.test(line);
-  const isDebug = /debug|trace/i.test(line);
-
-  let className = 'text-foreground/80';
-  if (isError) className = 'text-red-400';
-  else if (isWarning) className = 'text-yellow-400';
-  else if (isInfo) className = 'text-blue-400';
-  else if (isDebug) className = 'text-muted-foreground';
-
-  return (
-    <div key={index} className={`font-mono text-xs whitespace-pre-wrap break-all ${className}`}>
-      {line}
-    </div>
-  );
-}
-
 export function PodLogsTab({
   containers, selectedContainer, onContainerChange,
-  logs, logsLoading, logsError,
+  lines, logsLoading, logsError,
   tailLines, onTailLinesChange,
-  autoRefresh, onAutoRefreshToggle,
+  mode, paused, onPausedChange, dropped,
   scrollRef, onFetchLogs, onDownload,
 }: PodLogsTabProps) {
   return (
@@ -72,20 +58,13 @@ export function PodLogsTab({
           </SelectContent>
         </Select>
         
-        <Button
-          variant={autoRefresh ? "default" : "outline"}
-          size="sm"
-          onClick={onAutoRefreshToggle}
-        >
-          <RefreshCw className={`h-4 w-4 mr-2 ${autoRefresh ? 'animate-spin' : ''}`} />
-          Auto
-        </Button>
+        <LogFollowControls mode={mode} paused={paused} onPausedChange={onPausedChange} dropped={dropped} />
         
         <Button variant="outline" size="sm" onClick={onFetchLogs} disabled={logsLoading}>
           <RefreshCw className={`h-4 w-4 ${logsLoading ? 'animate-spin' : ''}`} />
         </Button>
         
-        <Button variant="outline" size="sm" onClick={onDownload} disabled={!logs}>
+        <Button variant="outline" size="sm" onClick={onDownload} disabled={lines.length === 0}>
           <Download className="h-4 w-4" />
         </Button>
       </div>
@@ -109,25 +88,23 @@ export function PodLogsTab({
           </CardTitle>
         </CardHeader>
         <CardContent className="p-0">
-          <ScrollArea 
-            ref={scrollRef}
-            className="h-[calc(100vh-420px)] bg-muted/30"
-          >
-            <div className="p-4 space-y-0.5">
-              {logsError ? (
-                <div className="flex items-center gap-2 text-destructive">
-                  <AlertCircle className="h-4 w-4" />
-                  <span className="text-sm">{logsError}</span>
-                </div>
-              ) : logs ? (
-                logs.split('\n').map((line, i) => formatLogLine(line, i))
-              ) : (
+          {logsError ? (
+            <div className="flex items-center gap-2 p-4 text-destructive">
+              <AlertCircle className="h-4 w-4" />
+              <span className="text-sm">{logsError}</span>
+            </div>
+          ) : (
+            <StructuredLogView
+              lines={lines}
+              scrollRef={scrollRef}
+              className="h-[calc(100vh-470px)] min-h-[300px]"
+              placeholder={
                 <p className="text-muted-foreground text-sm">
                   {logsLoading ? 'Loading logs...' : 'No logs available'}
                 </p>
-              )}
-            </div>
-          </ScrollArea>
+              }
+            />
+          )}
         </CardContent>
       </Card>
     </>
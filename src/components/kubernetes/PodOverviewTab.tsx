@@ -3,6 +3,8 @@ import { Copy, Check } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { PodCrashDiagnostics } from '@/components/kubernetes/PodCrashDiagnostics';
+import { PodResourceUsage } from '@/components/shared/ResourceUsage';
 import type { Pod } from '@/types/kubernetes';
 
 interface PodOverviewTabProps {
@@ -18,6 +20,9 @@ interface PodOverviewTabProps {
 export function PodOverviewTab({ pod, containers, namespace, name, selectedContainer, copiedCommand, onCopyExecCommand }: PodOverviewTabProps) {
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Crashing containers */}
+      <PodCrashDiagnostics pod={pod} />
+
       {/* Pod Info */}
       <Card>
         <CardHeader>
@@ -109,6 +114,9 @@ export function PodOverviewTab({ pod, containers, namespace, name, selectedConta
         </CardContent>
       </Card>
 
+      {/* CPU & Memory */}
+      <PodResourceUsage pod={pod} className="lg:col-span-2" />
+
       {/* Containers */}
       <Card className="lg:col-span-2">
         <CardHeader>
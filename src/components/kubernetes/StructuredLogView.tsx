@@ -0,0 +1,269 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, ExternalLink, FileText, Filter, Regex, Search, Table2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Toggle } from '@/components/ui/toggle';
+import type { LogLine } from '@/lib/kubernetes-client';
+import {
+  LOG_LEVELS,
+  buildSearchPattern,
+  filterLogEntries,
+  highlightSegments,
+  parseLogEntry,
+  type LogLevel,
+  type ParsedLogEntry,
+} from '@/lib/log-parser';
+import { getTraceUrl } from '@/lib/monitoring';
+import { cn } from '@/lib/utils';
+
+interface StructuredLogViewProps {
+  lines: LogLine[];
+  scrollRef?: React.RefObject<HTMLDivElement | null>;
+  className?: string;
+  // Shown instead of the log when there are no lines
+  placeholder?: React.ReactNode;
+}
+
+const LEVEL_STYLES: Record<LogLevel, string> = {
+  error: 'text-red-400',
+  warn: 'text-yellow-400',
+  info: 'text-blue-400',
+  debug: 'text-muted-foreground',
+  other: 'text-foreground/80',
+};
+
+const TIME_RANGES: Record<string, { label: string; minutes?: number }> = {
+  all: { label: 'All time' },
+  '5m': { label: 'Last 5 min', minutes: 5 },
+  '15m': { label: 'Last 15 min', minutes: 15 },
+  '1h': { label: 'Last hour', minutes: 60 },
+  '6h': { label: 'Last 6 hours', minutes: 360 },
+};
+
+// Lines are appended, never mutated, so parsed entries can be cached per line
+const parsedLines = new WeakMap<LogLine, ParsedLogEntry>();
+
+function parseCached(line: LogLine): ParsedLogEntry {
+  let entry = parsedLines.get(line);
+  if (!entry) {
+    entry = parseLogEntry(line);
+    parsedLines.set(line, entry);
+  }
+  return entry;
+}
+
+function Highlighted({ text, pattern }: { text: string; pattern?: RegExp }) {
+  return (
+    <>
+      {highlightSegments(text, pattern).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-yellow-400/40 text-inherit rounded-sm">{segment.text}</mark>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+function formatTime(timestamp?: string): string {
+  if (!timestamp) return '';
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? timestamp : date.toLocaleTimeString(undefined, { hour12: false });
+}
+
+/**
+ * Container log as a filterable table of parsed entries (level, time, logger,
+ * message, trace ID), with regex search and a raw view.
+ */
+export function StructuredLogView({ lines, scrollRef, className, placeholder }: StructuredLogViewProps) {
+  const [view, setView] = useState<'table' | 'raw'>('table');
+  const [query, setQuery] = useState('');
+  const [regex, setRegex] = useState(false);
+  const [levels, setLevels] = useState<Set<LogLevel>>(new Set(LOG_LEVELS));
+  const [range, setRange] = useState('all');
+  const [traceId, setTraceId] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<ParsedLogEntry>>(new Set());
+
+  const entries = useMemo(() => lines.map(parseCached), [lines]);
+  const pattern = buildSearchPattern(query, regex);
+  const patternError = typeof pattern === 'string' ? pattern : null;
+  const searchPattern = typeof pattern === 'string' ? undefined : pattern;
+
+  const minutes = TIME_RANGES[range].minutes;
+  const visible = filterLogEntries(entries, {
+    levels,
+    pattern: searchPattern,
+    since: minutes ? new Date(Date.now() - minutes * 60000).toISOString() : undefined,
+    traceId: traceId ?? undefined,
+  });
+
+  const levelCounts = entries.reduce<Record<LogLevel, number>>(
+    (counts, entry) => ({ ...counts, [entry.level]: counts[entry.level] + 1 }),
+    { error: 0, warn: 0, info: 0, debug: 0, other: 0 }
+  );
+
+  const toggleLevel = (level: LogLevel) => {
+    setLevels((current) => {
+      const next = new Set(current);
+      if (next.has(level)) next.delete(level);
+      else next.add(level);
+      return next;
+    });
+  };
+
+  const toggleExpanded = (entry: ParsedLogEntry) => {
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (next.has(entry)) next.delete(entry);
+      else next.add(entry);
+      return next;
+    });
+  };
+
+  return (
+    <div className="flex flex-col">
+      {/* Filters */}
+      <div className="flex items-center gap-2 flex-wrap border-b border-border px-3 py-2">
+        <div className="relative w-64">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+          <Input
+            placeholder={regex ? 'Regular expression...' : 'Search...'}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className={cn('h-8 pl-8 text-xs font-mono', patternError && 'border-destructive')}
+            title={patternError ?? undefined}
+            data-testid="log-search"
+          />
+        </div>
+        <Toggle size="sm" pressed={regex} onPressedChange={setRegex} aria-label="Regular expression" className="h-8 px-2">
+          <Regex className="h-4 w-4" />
+        </Toggle>
+
+        <div className="flex items-center gap-1">
+          {LOG_LEVELS.map((level) => (
+            <Toggle
+              key={level}
+              size="sm"
+              pressed={levels.has(level)}
+              onPressedChange={() => toggleLevel(level)}
+              className={cn('h-8 px-2 text-xs capitalize gap-1', levels.has(level) && LEVEL_STYLES[level])}
+              data-testid={`log-level-${level}`}
+            >
+              {level}
+              <span className="text-muted-foreground">{levelCounts[level]}</span>
+            </Toggle>
+          ))}
+        </div>
+
+        <Select value={range} onValueChange={setRange}>
+          <SelectTrigger className="h-8 w-[130px] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(TIME_RANGES).map(([value, { label }]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {traceId && (
+          <Button variant="secondary" size="sm" className="h-8 gap-1 font-mono text-xs" onClick={() => setTraceId(null)}>
+            <Filter className="h-3 w-3" />
+            trace {traceId.slice(0, 8)}
+            <X className="h-3 w-3" />
+          </Button>
+        )}
+
+        <div className="ml-auto flex items-center gap-1">
+          <span className="text-xs text-muted-foreground mr-1">{visible.length} / {entries.length}</span>
+          <Toggle size="sm" pressed={view === 'table'} onPressedChange={() => setView('table')} aria-label="Table view" className="h-8 px-2">
+            <Table2 className="h-4 w-4" />
+          </Toggle>
+          <Toggle size="sm" pressed={view === 'raw'} onPressedChange={() => setView('raw')} aria-label="Raw view" className="h-8 px-2">
+            <FileText className="h-4 w-4" />
+          </Toggle>
+        </div>
+      </div>
+
+      <ScrollArea ref={scrollRef as React.RefObject<HTMLDivElement>} className={cn('bg-muted/30', className)}>
+        <div className="p-2" data-testid="structured-logs">
+          {entries.length === 0 ? (
+            <div className="p-2">{placeholder}</div>
+          ) : view === 'raw' ? (
+            <div className="space-y-0.5 p-2">
+              {visible.map((entry, index) => (
+                <div key={index} className={cn('font-mono text-xs whitespace-pre-wrap break-all', LEVEL_STYLES[entry.level])}>
+                  <Highlighted text={entry.raw} pattern={searchPattern} />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <table className="w-full text-xs font-mono">
+              <tbody>
+                {visible.map((entry, index) => {
+                  const isExpanded = expanded.has(entry);
+                  const expandable = !!entry.fields || entry.json;
+                  return (
+                    <React.Fragment key={index}>
+                      <tr className="align-top hover:bg-muted/50" data-testid="log-entry">
+                        <td className="w-4 py-0.5">
+                          {expandable && (
+                            <button type="button" onClick={() => toggleExpanded(entry)} className="text-muted-foreground">
+                              {isExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                            </button>
+                          )}
+                        </td>
+                        <td className="py-0.5 pr-2 whitespace-nowrap text-muted-foreground">{formatTime(entry.timestamp)}</td>
+                        <td className={cn('py-0.5 pr-2 w-12 uppercase', LEVEL_STYLES[entry.level])}>
+                          {entry.level === 'other' ? '' : entry.level}
+                        </td>
+                        <td className="py-0.5 pr-2 max-w-[160px] truncate text-muted-foreground" title={entry.logger}>{entry.logger}</td>
+                        <td className="py-0.5 whitespace-pre-wrap break-all text-foreground/90">
+                          <Highlighted text={entry.message} pattern={searchPattern} />
+                          {entry.traceId && (
+                            <span className="ml-2 inline-flex items-center gap-1 align-middle">
+                              <button
+                                type="button"
+                                className="rounded bg-primary/10 px-1 text-[10px] text-primary hover:bg-primary/20"
+                                onClick={() => setTraceId(entry.traceId!)}
+                                title="Show only this trace"
+                              >
+                                trace {entry.traceId.slice(0, 8)}
+                              </button>
+                              <a
+                                href={getTraceUrl(entry.traceId)}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-muted-foreground hover:text-primary"
+                                title="Open trace in the monitoring dashboard"
+                              >
+                                <ExternalLink className="h-3 w-3" />
+                              </a>
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr>
+                          <td />
+                          <td colSpan={4} className="pb-2">
+                            <pre className="rounded bg-background p-2 text-[11px] whitespace-pre-wrap break-all">
+                              {entry.json ? JSON.stringify(JSON.parse(entry.raw), null, 2) : entry.raw}
+                            </pre>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
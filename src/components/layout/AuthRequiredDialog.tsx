@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { Loader2, ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useKubernetesConnection } from '@/contexts/KubernetesConnectionContext';
+import { useKubernetesStore } from '@/stores/kubernetesStore';
+
+/**
+ * Prompt shown when the API server rejects requests with 401/403.
+ */
+export function AuthRequiredDialog() {
+  const { authError, dismissAuthError, setAuth } = useKubernetesConnection();
+  const { setActiveTab } = useKubernetesStore();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [token, setToken] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleUseToken = async () => {
+    setSubmitting(true);
+    await setAuth({ type: 'token', token: token.trim().replace(/^Bearer\s+/i, '') });
+    setSubmitting(false);
+    setToken('');
+  };
+
+  const handleOpenSettings = () => {
+    dismissAuthError();
+    setActiveTab('settings');
+    if (location.pathname !== '/') navigate('/?tab=settings');
+  };
+
+  return (
+    <Dialog open={!!authError} onOpenChange={(open) => !open && dismissAuthError()}>
+      <DialogContent className="max-w-md" data-testid="auth-required-dialog">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5 text-amber-500" />
+            Cluster credentials needed
+          </DialogTitle>
+          <DialogDescription>{authError}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="reauth-token">Bearer Token</Label>
+          <Input
+            id="reauth-token"
+            type="password"
+            placeholder="Paste a token to retry"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && token.trim() && handleUseToken()}
+            className="font-mono"
+          />
+          <p className="text-xs text-muted-foreground">
+            Use the authentication settings for kubeconfig or OIDC credentials.
+          </p>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="ghost" onClick={dismissAuthError}>Dismiss</Button>
+          <Button variant="outline" onClick={handleOpenSettings}>Authentication Settings</Button>
+          <Button onClick={handleUseToken} disabled={!token.trim() || submitting}>
+            {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Use Token
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,5 @@
 import React from 'react';
-import { RefreshCw, ChevronDown, Timer } from 'lucide-react';
+import { RefreshCw, ChevronDown, Timer, Radio } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -9,7 +9,7 @@ import {
   DropdownMenuSeparator,
 } from '@/components/ui/dropdown-menu';
 import { useKubernetesStore } from '@/stores/kubernetesStore';
-import { useKubernetesConnection } from '@/contexts/KubernetesConnectionContext';
+import { useKubernetesConnection, UNWATCHED_REFRESH_INTERVAL } from '@/contexts/KubernetesConnectionContext';
 import { cn } from '@/lib/utils';
 
 const REFRESH_INTERVALS = [
@@ -29,13 +29,18 @@ export function AutoRefreshControl() {
     nextRefreshTime,
     setAutoRefreshEnabled, 
     setAutoRefreshInterval,
-    setNextRefreshTime
+    setNextRefreshTime,
+    syncMode,
+    liveSyncStatus,
   } = useKubernetesStore();
-  const { refreshAll, startPolling, stopPolling, connected } = useKubernetesConnection();
+  const { refreshAll, startPolling, stopPolling, setSyncMode, connected } = useKubernetesConnection();
   
   const [countdown, setCountdown] = React.useState<number | null>(null);
 
   const currentInterval = REFRESH_INTERVALS.find(i => i.value === autoRefreshInterval) || REFRESH_INTERVALS[4]; // default 30s
+  // Watch streams are active (polling is only used as a fallback when they are unavailable)
+  const isLive = syncMode === 'watch' && liveSyncStatus !== 'unavailable' && liveSyncStatus !== 'off';
+  const watchFallback = syncMode === 'watch' && liveSyncStatus === 'unavailable';
 
   // Update countdown every 100ms for smooth display
   React.useEffect(() => {
@@ -55,6 +60,9 @@ export function AutoRefreshControl() {
   }, [autoRefreshEnabled, nextRefreshTime]);
 
   const handleIntervalChange = (interval: number) => {
+    if (syncMode === 'watch') {
+      setSyncMode('polling');
+    }
     stopPolling();
     
     if (interval === 0) {
@@ -75,7 +83,7 @@ export function AutoRefreshControl() {
     if (connected) {
       await refreshAll();
       // Reset countdown after manual refresh
-      if (autoRefreshEnabled && autoRefreshInterval > 0) {
+      if (!isLive && autoRefreshEnabled && autoRefreshInterval > 0) {
         stopPolling();
         setNextRefreshTime(Date.now() + autoRefreshInterval);
         startPolling(autoRefreshInterval);
@@ -109,7 +117,7 @@ export function AutoRefreshControl() {
       </Button>
 
       {/* Countdown Display */}
-      {autoRefreshEnabled && countdown !== null && (
+      {!isLive && autoRefreshEnabled && countdown !== null && (
         <div className="hidden sm:flex items-center gap-1 text-xs text-muted-foreground px-2 min-w-[60px]">
           <Timer className="h-3 w-3" />
           <span className="font-mono tabular-nums">{formatCountdown(countdown)}</span>
@@ -124,28 +132,60 @@ export function AutoRefreshControl() {
             size="sm"
             className={cn(
               'h-8 gap-1 text-xs font-medium',
-              autoRefreshEnabled && 'border-primary/50 text-primary'
+              (isLive || autoRefreshEnabled) && 'border-primary/50 text-primary',
+              liveSyncStatus === 'reconnecting' && isLive && 'border-warning/50 text-warning'
             )}
             disabled={!connected}
+            data-testid="sync-mode-button"
+            title={
+              watchFallback
+                ? 'Live sync unavailable through this proxy — polling instead'
+                : isLive
+                  ? `Live sync (${liveSyncStatus}) — PVCs and namespaces refresh every ${UNWATCHED_REFRESH_INTERVAL / 1000}s`
+                  : 'Auto-refresh interval'
+            }
           >
-            {autoRefreshEnabled && (
+            {isLive ? (
+              <>
+                <Radio className="h-3 w-3" />
+                Live
+              </>
+            ) : autoRefreshEnabled && (
               <span className="relative flex h-2 w-2">
                 <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-primary opacity-75"></span>
                 <span className="relative inline-flex rounded-full h-2 w-2 bg-primary"></span>
               </span>
             )}
-            {autoRefreshEnabled ? currentInterval.label : 'Off'}
+            {!isLive && (autoRefreshEnabled ? currentInterval.label : 'Off')}
             <ChevronDown className="h-3 w-3 opacity-50" />
           </Button>
         </DropdownMenuTrigger>
-        <DropdownMenuContent align="end" className="w-28">
+        <DropdownMenuContent align="end" className="w-36">
+          <DropdownMenuItem
+            onClick={() => setSyncMode('watch')}
+            className={cn('text-sm gap-2', syncMode === 'watch' && 'bg-accent')}
+            data-testid="sync-mode-live"
+          >
+            <Radio className="h-3 w-3" />
+            Live
+          </DropdownMenuItem>
+          {watchFallback ? (
+            <div className="px-2 pb-1.5 text-[10px] text-warning">
+              Watch unavailable, polling
+            </div>
+          ) : syncMode === 'watch' && (
+            <div className="px-2 pb-1.5 text-[10px] text-muted-foreground">
+              PVCs and namespaces every {UNWATCHED_REFRESH_INTERVAL / 1000}s
+            </div>
+          )}
+          <DropdownMenuSeparator />
           {REFRESH_INTERVALS.map((interval) => (
             <DropdownMenuItem
               key={interval.value}
               onClick={() => handleIntervalChange(interval.value)}
               className={cn(
                 'text-sm',
-                (autoRefreshEnabled ? autoRefreshInterval : 0) === interval.value && 'bg-accent'
+                syncMode === 'polling' && (autoRefreshEnabled ? autoRefreshInterval : 0) === interval.value && 'bg-accent'
               )}
             >
               {interval.label}
@@ -153,7 +193,7 @@ export function AutoRefreshControl() {
           ))}
           <DropdownMenuSeparator />
           <div className="px-2 py-1.5 text-[10px] text-muted-foreground">
-            Auto-refresh interval
+            Live sync or auto-refresh interval
           </div>
         </DropdownMenuContent>
       </DropdownMenu>
@@ -0,0 +1,95 @@
+import { Check, ChevronDown, Layers, Settings } from 'lucide-react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+  DropdownMenuSeparator,
+  DropdownMenuLabel,
+} from '@/components/ui/dropdown-menu';
+import { useKubernetesConnection } from '@/contexts/KubernetesConnectionContext';
+import { useKubernetesStore } from '@/stores/kubernetesStore';
+import { PROFILE_COLORS } from '@/lib/connection-profiles';
+import { cn } from '@/lib/utils';
+
+export function ClusterSwitcher() {
+  const { profiles, activeProfileId, switchProfile, connecting } = useKubernetesConnection();
+  const { setActiveTab } = useKubernetesStore();
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  const activeProfile = profiles.find((p) => p.id === activeProfileId);
+
+  const handleSwitch = (profileId: string) => {
+    if (profileId === activeProfileId) return;
+    // Detail pages refer to resources of the previous cluster
+    if (location.pathname !== '/') navigate('/');
+    switchProfile(profileId);
+  };
+
+  const handleManage = () => {
+    setActiveTab('settings');
+    if (location.pathname !== '/') navigate('/?tab=settings');
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 gap-2 px-2 text-xs hover:bg-muted"
+          disabled={connecting}
+          data-testid="cluster-switcher"
+        >
+          {activeProfile ? (
+            <span className={cn('h-2 w-2 rounded-full', PROFILE_COLORS[activeProfile.color])} />
+          ) : (
+            <Layers className="h-3 w-3 text-muted-foreground" />
+          )}
+          <span className="font-medium hidden md:inline max-w-[140px] truncate">
+            {activeProfile ? activeProfile.name : 'No profile'}
+          </span>
+          <ChevronDown className="h-3 w-3 text-muted-foreground" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64 bg-popover border border-border z-[100]">
+        <DropdownMenuLabel className="text-xs text-muted-foreground">
+          Switch Cluster
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {profiles.length === 0 ? (
+          <DropdownMenuItem disabled className="text-muted-foreground">
+            No saved profiles
+          </DropdownMenuItem>
+        ) : (
+          profiles.map((profile) => (
+            <DropdownMenuItem
+              key={profile.id}
+              onClick={() => handleSwitch(profile.id)}
+              className={cn(
+                'cursor-pointer gap-2',
+                profile.id === activeProfileId && 'bg-accent text-accent-foreground'
+              )}
+              data-testid={`cluster-profile-${profile.name}`}
+            >
+              <span className={cn('h-2 w-2 rounded-full shrink-0', PROFILE_COLORS[profile.color])} />
+              <div className="min-w-0 flex-1">
+                <div className="text-sm truncate">{profile.name}</div>
+                <div className="text-[10px] text-muted-foreground font-mono truncate">{profile.baseUrl}</div>
+              </div>
+              {profile.id === activeProfileId && <Check className="h-3 w-3" />}
+            </DropdownMenuItem>
+          ))
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={handleManage} className="cursor-pointer gap-2 text-sm">
+          <Settings className="h-3 w-3" />
+          Manage profiles…
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,6 +1,7 @@
 import { Button } from '@/components/ui/button';
 import { AutoRefreshControl } from './AutoRefreshControl';
 import { ConnectionStatus } from './ConnectionStatus';
+import { ClusterSwitcher } from './ClusterSwitcher';
 import { ThemeToggle } from '@/components/theme/ThemeToggle';
 import { GlobalSearch } from './GlobalSearch';
 
@@ -13,6 +14,9 @@ export function Header() {
       {/* Right side controls */}
       <div className="flex items-center gap-3">
 
+        {/* Cluster Profile Switcher */}
+        <ClusterSwitcher />
+
         {/* Connection Status with Namespace Selector */}
         <ConnectionStatus />
 
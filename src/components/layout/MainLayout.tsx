@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { Outlet } from 'react-router-dom';
 import { Sidebar } from '@/components/layout/Sidebar';
 import { Header } from '@/components/layout/Header';
+import { AuthRequiredDialog } from '@/components/layout/AuthRequiredDialog';
 
 export function MainLayout() {
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
@@ -15,6 +16,7 @@ export function MainLayout() {
           <Outlet />
         </main>
       </div>
+      <AuthRequiredDialog />
     </div>
   );
 }
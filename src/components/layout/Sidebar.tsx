@@ -13,12 +13,15 @@ import {
   ChevronRight,
   Cog,
   Activity,
+  ListChecks,
+  Columns3,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { useKubernetesStore } from '@/stores/kubernetesStore';
 import { Badge } from '@/components/ui/badge';
 import { VersionSwitcher } from './VersionSwitcher';
+import { lintNamespace } from '@/lib/dependency-lint';
 
 interface SidebarProps {
   collapsed: boolean;
@@ -44,6 +47,7 @@ const sections: NavSection[] = [
     items: [
       { id: 'overview', label: 'Summary', icon: LayoutDashboard },
       { id: 'visual-map', label: 'Visual Map', icon: Map },
+      { id: 'lint', label: 'Lint', icon: ListChecks },
     ],
   },
   {
@@ -52,6 +56,7 @@ const sections: NavSection[] = [
       { id: 'model-apis', label: 'Model APIs', icon: Box },
       { id: 'mcp-servers', label: 'MCP Servers', icon: Server },
       { id: 'agents', label: 'Agents', icon: Bot },
+      { id: 'agent-compare', label: 'Compare Agents', icon: Columns3 },
     ],
   },
   {
@@ -88,6 +93,7 @@ export function Sidebar({ collapsed, onToggle }: SidebarProps) {
       case 'agents': return agents.length;
       case 'pods': return pods.length;
       case 'secrets': return secrets.length;
+      case 'lint': return lintNamespace({ agents, modelAPIs, mcpServers, secrets }).length;
       default: return undefined;
     }
   };
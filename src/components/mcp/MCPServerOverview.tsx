@@ -4,6 +4,7 @@ import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { DeploymentStatusCard } from '@/components/shared/DeploymentStatusCard';
+import { ResourceUsageCard } from '@/components/shared/ResourceUsage';
 import type { MCPServer } from '@/types/kubernetes';
 
 interface MCPServerOverviewProps {
@@ -162,6 +163,14 @@ export function MCPServerOverview({ mcpServer }: MCPServerOverviewProps) {
         />
       )}
 
+      {/* CPU & Memory */}
+      <ResourceUsageCard
+        resourceType="MCPServer"
+        namespace={mcpServer.metadata.namespace}
+        name={mcpServer.metadata.name}
+        className="md:col-span-2"
+      />
+
       {/* Runtime Configuration (new format) or Tools Configuration (legacy) */}
       <Card className="md:col-span-2">
         <CardHeader className="pb-3">
@@ -1,4 +1,5 @@
 import type { MCPTool } from '@/types/mcp';
+import { k8sClient, K8sAuthError } from '@/lib/kubernetes-client';
 
 export interface ToolCallHistory {
   id: string;
@@ -67,8 +68,7 @@ export async function mcpRequest<T>(
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
     'Accept': 'application/json, text/event-stream',
-    'X-Requested-With': 'XMLHttpRequest',
-    'bypass-tunnel-reminder': '1',
+    ...k8sClient.getRequestHeaders(),
   };
 
   if (session?.sessionId) {
@@ -85,7 +85,7 @@ export async function mcpRequest<T>(
     body.id = Date.now();
   }
 
-  const response = await fetch(baseUrl, {
+  const response = await k8sClient.fetchWithAuth(baseUrl, {
     method: 'POST',
     headers,
     body: JSON.stringify(body),
@@ -93,6 +93,9 @@ export async function mcpRequest<T>(
 
   const sessionId = extractSessionId(response);
 
+  if (response.status === 401 || response.status === 403) {
+    throw new K8sAuthError(response.status);
+  }
   if (!response.ok) {
     const errorText = await response.text();
     throw new Error(`HTTP ${response.status}: ${errorText}`);
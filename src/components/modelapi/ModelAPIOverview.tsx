@@ -4,6 +4,7 @@ import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { DeploymentStatusCard } from '@/components/shared/DeploymentStatusCard';
+import { ResourceUsageCard } from '@/components/shared/ResourceUsage';
 import type { ModelAPI } from '@/types/kubernetes';
 import { getStatusVariant } from '@/lib/status-utils';
 
@@ -160,6 +161,14 @@ export function ModelAPIOverview({ modelAPI }: ModelAPIOverviewProps) {
         />
       )}
 
+      {/* CPU & Memory */}
+      <ResourceUsageCard
+        resourceType="ModelAPI"
+        namespace={modelAPI.metadata.namespace}
+        name={modelAPI.metadata.name}
+        className="md:col-span-2"
+      />
+
       {/* Configuration */}
       <Card className="md:col-span-2">
         <CardHeader className="pb-3">
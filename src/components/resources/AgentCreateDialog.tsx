@@ -1,6 +1,6 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useForm } from 'react-hook-form';
-import { Bot, Info } from 'lucide-react';
+import { Bot, Info, LayoutTemplate, ArrowRight } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -29,15 +29,31 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { useToast } from '@/hooks/use-toast';
+import { usePrefillOnOpen } from '@/hooks/usePrefillOnOpen';
 import { useKubernetesStore } from '@/stores/kubernetesStore';
 import { useKubernetesConnection } from '@/contexts/KubernetesConnectionContext';
 import { 
   EnvVarEditorWithSecrets, 
   EnvVarEntry, 
-  envVarEntriesToK8sEnvVars 
+  envVarEntriesToK8sEnvVars,
+  k8sEnvVarsToEntries,
 } from './shared/EnvVarEditorWithSecrets';
 import { NameField } from './shared/NameField';
-import type { Agent } from '@/types/kubernetes';
+import { AgentPreflightChecks } from './shared/AgentPreflightChecks';
+import { TargetNamespaceField } from './shared/TargetNamespaceField';
+import { fetchExistingNames } from './shared/existingNames';
+import { resolveStack, type KaosResource } from '@/lib/stack-export';
+import {
+  executeClonePlan,
+  findNameConflicts,
+  mergeSpec,
+  planDependencyClones,
+  renameKey,
+  rewriteAgentReferences,
+  suggestCopyName,
+} from '@/lib/duplicate';
+import { validateKubernetesName } from '@/lib/utils';
+import type { Agent, MCPServer, ModelAPI } from '@/types/kubernetes';
 
 interface AgentFormData {
   name: string;
@@ -67,13 +83,76 @@ interface AgentFormData {
 interface AgentCreateDialogProps {
   open: boolean;
   onClose: () => void;
+  /** Switch to the stack template gallery instead of the blank form */
+  onUseTemplate?: () => void;
+  /** Duplicate this Agent: the form is prefilled from its spec */
+  source?: Agent;
 }
 
-export function AgentCreateDialog({ open, onClose }: AgentCreateDialogProps) {
+const EMPTY_FORM: AgentFormData = {
+  name: '',
+  description: '',
+  instructions: '',
+  modelAPI: '',
+  model: '',
+  mcpServers: [],
+  networkExpose: false,
+  networkAccess: [],
+  memoryEnabled: true,
+  memoryContextLimit: undefined,
+  memoryMaxSessions: undefined,
+  memoryMaxSessionEvents: undefined,
+  toolCallMode: 'auto',
+  autonomousGoal: '',
+  autonomousIntervalSeconds: undefined,
+  autonomousMaxIterRuntimeSeconds: undefined,
+  taskMaxIterations: undefined,
+  taskMaxRuntimeSeconds: undefined,
+  taskMaxToolCalls: undefined,
+};
+
+function formValuesFromAgent(agent: Agent, name: string): AgentFormData {
+  const { spec } = agent;
+  return {
+    name,
+    description: spec.config?.description || '',
+    instructions: spec.config?.instructions || '',
+    modelAPI: spec.modelAPI || '',
+    model: spec.model || '',
+    mcpServers: spec.mcpServers || [],
+    networkExpose: spec.agentNetwork?.expose || false,
+    networkAccess: spec.agentNetwork?.access || [],
+    memoryEnabled: spec.config?.memory?.enabled !== false,
+    memoryContextLimit: spec.config?.memory?.contextLimit,
+    memoryMaxSessions: spec.config?.memory?.maxSessions,
+    memoryMaxSessionEvents: spec.config?.memory?.maxSessionEvents,
+    toolCallMode: spec.config?.toolCallMode || 'auto',
+    autonomousGoal: spec.config?.autonomous?.goal || '',
+    autonomousIntervalSeconds: spec.config?.autonomous?.intervalSeconds,
+    autonomousMaxIterRuntimeSeconds: spec.config?.autonomous?.maxIterRuntimeSeconds,
+    taskMaxIterations: spec.config?.taskConfig?.maxIterations,
+    taskMaxRuntimeSeconds: spec.config?.taskConfig?.maxRuntimeSeconds,
+    taskMaxToolCalls: spec.config?.taskConfig?.maxToolCalls,
+  };
+}
+
+export function AgentCreateDialog({ open, onClose, onUseTemplate, source }: AgentCreateDialogProps) {
   const { toast } = useToast();
   const { modelAPIs, mcpServers, agents } = useKubernetesStore();
-  const { namespace, createAgent } = useKubernetesConnection();
+  const {
+    namespace,
+    createAgent,
+    createModelAPI,
+    createMCPServer,
+    deleteAgent,
+    deleteModelAPI,
+    deleteMCPServer,
+  } = useKubernetesConnection();
   const [envVars, setEnvVars] = useState<EnvVarEntry[]>([]);
+  const [targetNamespace, setTargetNamespace] = useState(namespace);
+  const [cloneDependencies, setCloneDependencies] = useState(false);
+  const [cloneSelection, setCloneSelection] = useState<Set<string>>(new Set());
+  const [cloneSuffix, setCloneSuffix] = useState('copy');
 
   const {
     register,
@@ -83,37 +162,56 @@ export function AgentCreateDialog({ open, onClose }: AgentCreateDialogProps) {
     reset,
     formState: { errors, isSubmitting },
   } = useForm<AgentFormData>({
-    defaultValues: {
-      name: '',
-      description: '',
-      instructions: '',
-      modelAPI: '',
-      model: '',
-      mcpServers: [],
-      networkExpose: false,
-      networkAccess: [],
-      memoryEnabled: true,
-      memoryContextLimit: undefined,
-      memoryMaxSessions: undefined,
-      memoryMaxSessionEvents: undefined,
-      toolCallMode: 'auto',
-      autonomousGoal: '',
-      autonomousIntervalSeconds: undefined,
-      autonomousMaxIterRuntimeSeconds: undefined,
-      taskMaxIterations: undefined,
-      taskMaxRuntimeSeconds: undefined,
-      taskMaxToolCalls: undefined,
-    },
+    defaultValues: EMPTY_FORM,
   });
 
   const watchedModelAPI = watch('modelAPI');
   const watchedMcpServers = watch('mcpServers');
   const watchedNetworkExpose = watch('networkExpose');
   const watchedNetworkAccess = watch('networkAccess');
+  const watchedModel = watch('model');
   const watchedMemoryEnabled = watch('memoryEnabled');
   const watchedToolCallMode = watch('toolCallMode');
 
+  // Everything the source Agent references, transitively, that exists in this namespace
+  const dependencies = useMemo(
+    () => (source ? resolveStack([source], { agents, mcpServers, modelAPIs }, true).filter((r) => r !== source) : []),
+    [source, agents, mcpServers, modelAPIs]
+  );
+
+  usePrefillOnOpen(open, source, (source) => {
+    reset(formValuesFromAgent(source, suggestCopyName(source.metadata.name, agents.map((a) => a.metadata.name))));
+    setEnvVars(k8sEnvVarsToEntries(source.spec.container?.env || source.spec.config?.env));
+    setTargetNamespace(namespace);
+    setCloneDependencies(false);
+    setCloneSuffix('copy');
+    setCloneSelection(new Set(
+      dependencies.filter((d) => d.kind !== 'Agent').map((d) => renameKey(d.kind, d.metadata.name))
+    ));
+  });
+
+  const toggleCloneSelection = (key: string) => {
+    setCloneSelection((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const clonedDependencies = source && cloneDependencies
+    ? dependencies.filter((d) => cloneSelection.has(renameKey(d.kind, d.metadata.name)))
+    : [];
+  const unresolvedReferences = source
+    ? [
+        renameKey('ModelAPI', watchedModelAPI),
+        ...(watchedMcpServers || []).map((name) => renameKey('MCPServer', name)),
+        ...(watchedNetworkAccess || []).map((name) => renameKey('Agent', name)),
+      ].filter((key) => !clonedDependencies.some((d) => renameKey(d.kind, d.metadata.name) === key))
+    : [];
+
   const validateUniqueName = (name: string) => {
+    if (source && targetNamespace !== namespace) return true;
     if (agents.some((agent) => agent.metadata.name === name)) {
       return 'An Agent with this name already exists';
     }
@@ -138,7 +236,30 @@ export function AgentCreateDialog({ open, onClose }: AgentCreateDialogProps) {
     }
   };
 
+  const createDependency = (resource: KaosResource) => {
+    switch (resource.kind) {
+      case 'ModelAPI': return createModelAPI(resource as ModelAPI);
+      case 'MCPServer': return createMCPServer(resource as MCPServer);
+      case 'Agent': return createAgent(resource as Agent);
+    }
+  };
+
+  const deleteDependency = (resource: KaosResource) => {
+    const { name, namespace: ns } = resource.metadata;
+    switch (resource.kind) {
+      case 'ModelAPI': return deleteModelAPI(name, ns);
+      case 'MCPServer': return deleteMCPServer(name, ns);
+      case 'Agent': return deleteAgent(name, ns);
+    }
+  };
+
   const onSubmit = async (data: AgentFormData) => {
+    const suffixValidation = validateKubernetesName(cloneSuffix);
+    if (clonedDependencies.length > 0 && suffixValidation !== true) {
+      toast({ title: 'Validation error', description: `Name suffix: ${suffixValidation}`, variant: 'destructive' });
+      return;
+    }
+
     try {
       const k8sEnvVars = envVarEntriesToK8sEnvVars(envVars);
       
@@ -199,11 +320,47 @@ export function AgentCreateDialog({ open, onClose }: AgentCreateDialogProps) {
         },
       };
 
-      await createAgent(newAgent);
+      let clonedCount = 0;
+      if (source) {
+        // Keep source fields the form doesn't cover (image, resources, podSpec, ...)
+        const base = structuredClone(source.spec);
+        if (base.config) delete base.config.env;
+        if (base.container) base.container.env = undefined;
+        const spec = mergeSpec(base, { ...newAgent.spec, container: newAgent.spec.container ?? base.container });
+
+        const clones = planDependencyClones(clonedDependencies, cloneSuffix, targetNamespace);
+        newAgent.metadata.namespace = targetNamespace;
+        newAgent.spec = rewriteAgentReferences(spec, clones.renames);
+
+        const conflicts = findNameConflicts([...clones.resources, newAgent], await fetchExistingNames(targetNamespace));
+        if (conflicts.length > 0) {
+          toast({
+            title: 'Name conflict',
+            description: `Already in namespace "${targetNamespace}": ${conflicts.map((r) => renameKey(r.kind, r.metadata.name)).join(', ')}`,
+            variant: 'destructive',
+          });
+          return;
+        }
+
+        // Dependencies first so the copy comes up against its own ModelAPI and MCPServers
+        const result = await executeClonePlan(clones.resources, newAgent, { create: createDependency, delete: deleteDependency });
+        if (result.error) {
+          const cleanup = result.leftBehind.length > 0
+            ? `Could not remove cloned ${result.leftBehind.map((r) => renameKey(r.kind, r.metadata.name)).join(', ')}.`
+            : clones.resources.length > 0 ? 'Cloned dependencies were removed.' : '';
+          toast({ title: 'Creation failed', description: [result.error, cleanup].filter(Boolean).join(' '), variant: 'destructive' });
+          return;
+        }
+        clonedCount = clones.resources.length;
+      } else {
+        await createAgent(newAgent);
+      }
       
       toast({
         title: 'Agent created',
-        description: `Successfully created Agent "${data.name}"`,
+        description: clonedCount > 0
+          ? `Successfully created Agent "${data.name}" and ${clonedCount} cloned dependencies`
+          : `Successfully created Agent "${data.name}"`,
       });
       
       reset();
@@ -224,6 +381,22 @@ export function AgentCreateDialog({ open, onClose }: AgentCreateDialogProps) {
     onClose();
   };
 
+  // The Agent as it would be saved, for the pre-flight reference checks
+  const preflightAgent: Agent = {
+    apiVersion: 'kaos.tools/v1alpha1',
+    kind: 'Agent',
+    metadata: { name: watch('name'), namespace },
+    spec: {
+      modelAPI: watchedModelAPI,
+      model: watchedModel,
+      mcpServers: watchedMcpServers,
+      agentNetwork: { access: watchedNetworkAccess },
+      container: { env: envVarEntriesToK8sEnvVars(envVars) },
+    },
+  };
+  // The store only holds the current namespace, and cloned dependencies don't exist yet
+  const showPreflight = !source || (targetNamespace === namespace && clonedDependencies.length === 0);
+
   return (
     <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
       <DialogContent className="max-w-2xl max-h-[90vh]">
@@ -233,11 +406,28 @@ export function AgentCreateDialog({ open, onClose }: AgentCreateDialogProps) {
               <Bot className="h-5 w-5 text-agent" />
             </div>
             <div>
-              <DialogTitle>Create Agent</DialogTitle>
+              <DialogTitle>{source ? 'Duplicate Agent' : 'Create Agent'}</DialogTitle>
               <DialogDescription>
-                Create a new AI Agent with LLM and tool access
+                {source
+                  ? `Create a copy of "${source.metadata.name}"`
+                  : 'Create a new AI Agent with LLM and tool access'}
               </DialogDescription>
             </div>
+            {onUseTemplate && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="ml-auto"
+                onClick={() => {
+                  handleClose();
+                  onUseTemplate();
+                }}
+              >
+                <LayoutTemplate className="h-4 w-4 mr-2" />
+                Start from template
+              </Button>
+            )}
           </div>
         </DialogHeader>
 
@@ -252,6 +442,72 @@ export function AgentCreateDialog({ open, onClose }: AgentCreateDialogProps) {
                 validateUniqueName={validateUniqueName}
               />
 
+              {source && (
+                <TargetNamespaceField
+                  value={targetNamespace}
+                  onChange={setTargetNamespace}
+                  unresolvedReferences={unresolvedReferences}
+                />
+              )}
+
+              {source && dependencies.length > 0 && (
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <span className="text-sm font-medium">Duplicate Dependencies</span>
+                      <p className="text-[10px] text-muted-foreground">
+                        Clone the selected resources and point the copy at the clones
+                      </p>
+                    </div>
+                    <Switch
+                      checked={cloneDependencies}
+                      onCheckedChange={setCloneDependencies}
+                      data-testid="duplicate-dependencies"
+                    />
+                  </div>
+                  {cloneDependencies && (
+                    <>
+                      <div className="flex flex-wrap gap-2">
+                        {dependencies.map((d) => {
+                          const key = renameKey(d.kind, d.metadata.name);
+                          return (
+                            <Button
+                              key={key}
+                              type="button"
+                              variant={cloneSelection.has(key) ? 'default' : 'outline'}
+                              size="sm"
+                              onClick={() => toggleCloneSelection(key)}
+                            >
+                              {key}
+                            </Button>
+                          );
+                        })}
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="cloneSuffix" className="text-xs text-muted-foreground">Name suffix</Label>
+                        <Input
+                          id="cloneSuffix"
+                          value={cloneSuffix}
+                          onChange={(e) => setCloneSuffix(e.target.value)}
+                          className="font-mono text-sm"
+                        />
+                      </div>
+                      {clonedDependencies.length > 0 && (
+                        <ul className="space-y-1 text-xs font-mono text-muted-foreground">
+                          {clonedDependencies.map((d) => (
+                            <li key={renameKey(d.kind, d.metadata.name)} className="flex items-center gap-1.5">
+                              {renameKey(d.kind, d.metadata.name)}
+                              <ArrowRight className="h-3 w-3" />
+                              {d.metadata.name}-{cloneSuffix}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+
               {/* Description */}
               <div className="space-y-2">
                 <Label htmlFor="description">Description</Label>
@@ -611,6 +867,8 @@ export function AgentCreateDialog({ open, onClose }: AgentCreateDialogProps) {
             </div>
           </ScrollArea>
 
+          {showPreflight && <AgentPreflightChecks agent={preflightAgent} className="mt-4" />}
+
           <DialogFooter className="pt-4 border-t mt-4">
             <Button type="button" variant="outline" onClick={handleClose}>
               Cancel
@@ -31,6 +31,8 @@ import {
 import { useToast } from '@/hooks/use-toast';
 import { useKubernetesStore } from '@/stores/kubernetesStore';
 import { useKubernetesConnection } from '@/contexts/KubernetesConnectionContext';
+import { useConflictAwareUpdate } from '@/hooks/useConflictAwareUpdate';
+import { k8sClient } from '@/lib/kubernetes-client';
 import { LabelsAnnotationsEditor } from '@/components/shared/LabelsAnnotationsEditor';
 import { 
   EnvVarEditorWithSecrets, 
@@ -38,6 +40,8 @@ import {
   envVarEntriesToK8sEnvVars,
   k8sEnvVarsToEntries,
 } from './shared/EnvVarEditorWithSecrets';
+import { ConflictResolutionDialog } from './shared/ConflictResolutionDialog';
+import { AgentPreflightChecks } from './shared/AgentPreflightChecks';
 import type { Agent } from '@/types/kubernetes';
 
 interface AgentFormData {
@@ -87,6 +91,12 @@ export function AgentEditDialog({ agent, open, onClose }: AgentEditDialogProps)
   const { toast } = useToast();
   const { modelAPIs, mcpServers, agents } = useKubernetesStore();
   const { updateAgent } = useKubernetesConnection();
+  const { submit, conflict, resolving, keepMine, keepTheirs, dismissConflict } = useConflictAwareUpdate({
+    resource: agent,
+    open,
+    update: updateAgent,
+    getLatest: (name, namespace) => k8sClient.getAgent(name, namespace),
+  });
   const [envVars, setEnvVars] = useState<EnvVarEntry[]>([]);
 
   const {
@@ -130,6 +140,7 @@ export function AgentEditDialog({ agent, open, onClose }: AgentEditDialogProps)
   const watchedMcpServers = watch('mcpServers');
   const watchedNetworkExpose = watch('networkExpose');
   const watchedNetworkAccess = watch('networkAccess');
+  const watchedModel = watch('model');
   const watchedWaitForDependencies = watch('waitForDependencies');
   const watchedMemoryEnabled = watch('memoryEnabled');
   const watchedToolCallMode = watch('toolCallMode');
@@ -162,7 +173,8 @@ export function AgentEditDialog({ agent, open, onClose }: AgentEditDialogProps)
       annotations: recordToArray(agent.metadata.annotations),
     });
     setEnvVars(k8sEnvVarsToEntries(agent.spec.container?.env || agent.spec.config?.env));
-  }, [agent, reset]);
+  // eslint-disable-next-line react-hooks/exhaustive-deps -- reset only when opened, so live updates of the prop don't wipe in-progress edits
+  }, [open, agent.metadata.name, reset]);
 
   const onSubmit = async (data: AgentFormData) => {
     try {
@@ -232,7 +244,8 @@ export function AgentEditDialog({ agent, open, onClose }: AgentEditDialogProps)
         },
       };
 
-      await updateAgent(updatedAgent);
+      const saved = await submit(updatedAgent);
+      if (!saved) return;
       
       toast({
         title: 'Agent updated',
@@ -269,6 +282,43 @@ export function AgentEditDialog({ agent, open, onClose }: AgentEditDialogProps)
     }
   };
 
+  const handleKeepMine = async () => {
+    try {
+      await keepMine();
+      toast({
+        title: 'Agent updated',
+        description: `Applied your changes on top of the latest version of "${agent.metadata.name}"`,
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: 'Update failed',
+        description: error instanceof Error ? error.message : 'Failed to update Agent',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleKeepTheirs = () => {
+    keepTheirs();
+    toast({ title: 'Changes discarded', description: `Kept the cluster version of "${agent.metadata.name}"` });
+    onClose();
+  };
+
+  // The Agent as it would be saved, for the pre-flight reference checks
+  const preflightAgent: Agent = {
+    ...agent,
+    spec: {
+      ...agent.spec,
+      modelAPI: watchedModelAPI,
+      model: watchedModel,
+      mcpServers: watchedMcpServers,
+      agentNetwork: { ...agent.spec.agentNetwork, access: watchedNetworkAccess },
+      config: { ...agent.spec.config, env: undefined },
+      container: { ...agent.spec.container, env: envVarEntriesToK8sEnvVars(envVars) },
+    },
+  };
+
   return (
     <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
       <DialogContent className="max-w-2xl max-h-[90vh]">
@@ -724,6 +774,8 @@ export function AgentEditDialog({ agent, open, onClose }: AgentEditDialogProps)
             </div>
           </ScrollArea>
 
+          <AgentPreflightChecks agent={preflightAgent} className="mt-4" />
+
           <DialogFooter className="pt-4 border-t mt-4">
             <Button type="button" variant="outline" onClick={onClose}>
               Cancel
@@ -733,6 +785,15 @@ export function AgentEditDialog({ agent, open, onClose }: AgentEditDialogProps)
             </Button>
           </DialogFooter>
         </form>
+        <ConflictResolutionDialog
+          kind="Agent"
+          name={agent.metadata.name}
+          rows={conflict?.rows ?? null}
+          resolving={resolving}
+          onKeepMine={handleKeepMine}
+          onKeepTheirs={handleKeepTheirs}
+          onCancel={dismissConflict}
+        />
       </DialogContent>
     </Dialog>
   );
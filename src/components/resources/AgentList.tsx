@@ -1,9 +1,11 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Bot, Link2, Zap } from 'lucide-react';
+import { Bot, Link2, Zap, FileDown, Copy } from 'lucide-react';
 import { ResourceList, DeploymentAwareStatus } from '@/components/resources/ResourceList';
+import { ExportStackDialog } from '@/components/resources/ExportStackDialog';
+import { StackTemplateGallery } from '@/components/resources/StackTemplateGallery';
+import { DeleteResourceDialog } from '@/components/resources/shared/DeleteResourceDialog';
 import { useKubernetesStore } from '@/stores/kubernetesStore';
-import { useKubernetesConnection } from '@/contexts/KubernetesConnectionContext';
 import { Badge } from '@/components/ui/badge';
 import { Tooltip, TooltipTrigger, TooltipContent } from '@/components/ui/tooltip';
 import { AgentCreateDialog } from '@/components/resources/AgentCreateDialog';
@@ -63,8 +65,10 @@ const getDeploymentAwareStatus = (item: Agent): DeploymentAwareStatus => {
 export function AgentList() {
   const navigate = useNavigate();
   const { agents, setSelectedResource, setSelectedResourceMode } = useKubernetesStore();
-  const { deleteAgent } = useKubernetesConnection();
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [exportItems, setExportItems] = useState<Agent[] | null>(null);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<Agent | null>(null);
 
   const columns = [
     {
@@ -154,6 +158,11 @@ export function AgentList() {
     setSelectedResourceMode('edit');
   };
 
+  const handleDuplicate = (item: Agent) => {
+    setSelectedResource(item);
+    setSelectedResourceMode('duplicate');
+  };
+
   return (
     <>
       <ResourceList
@@ -166,16 +175,25 @@ export function AgentList() {
         onAdd={() => setCreateDialogOpen(true)}
         onView={handleView}
         onEdit={handleEdit}
-        onDelete={async (item) => {
-          await deleteAgent(item.metadata.name, item.metadata.namespace);
-        }}
+        customActions={[{ label: 'Duplicate', icon: Copy, onClick: handleDuplicate }]}
+        onDelete={(item) => setDeleteTarget(item)}
+        confirmDelete={false}
         getStatus={getDeploymentAwareStatus}
         getItemId={(item) => item.metadata.name}
+        bulkActions={[{ label: 'Export', icon: FileDown, onClick: setExportItems }]}
       />
       
       <AgentCreateDialog 
         open={createDialogOpen} 
         onClose={() => setCreateDialogOpen(false)} 
+        onUseTemplate={() => setTemplatesOpen(true)}
+      />
+      <StackTemplateGallery open={templatesOpen} onClose={() => setTemplatesOpen(false)} />
+      <DeleteResourceDialog resource={deleteTarget} onClose={() => setDeleteTarget(null)} />
+      <ExportStackDialog
+        open={!!exportItems}
+        onClose={() => setExportItems(null)}
+        resources={exportItems ?? []}
       />
     </>
   );
@@ -0,0 +1,144 @@
+import { useMemo, useState } from 'react';
+import { Check, Copy, FileArchive, FileDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { highlightYaml } from '@/components/shared/yamlHighlight';
+import { useKubernetesStore } from '@/stores/kubernetesStore';
+import { buildStackExport, stackToYaml, stackToZipEntries, type KaosResource } from '@/lib/stack-export';
+import { createZip } from '@/lib/zip';
+import { downloadFile } from '@/lib/utils';
+
+interface ExportStackDialogProps {
+  open: boolean;
+  onClose: () => void;
+  resources: KaosResource[];
+}
+
+type NamespaceMode = 'keep' | 'remove' | 'set';
+
+/**
+ * Export selected KAOS resources, their dependencies and referenced Secret
+ * names (values redacted) as multi-document YAML or a zip of per-resource files.
+ */
+export function ExportStackDialog({ open, onClose, resources }: ExportStackDialogProps) {
+  const { agents, mcpServers, modelAPIs } = useKubernetesStore();
+  const [includeDependencies, setIncludeDependencies] = useState(true);
+  const [namespaceMode, setNamespaceMode] = useState<NamespaceMode>('keep');
+  const [targetNamespace, setTargetNamespace] = useState('');
+  const [imageTag, setImageTag] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const documents = useMemo(() => {
+    const namespace = namespaceMode === 'remove' ? '' : namespaceMode === 'set' ? targetNamespace.trim() || undefined : undefined;
+    return buildStackExport(resources, { agents, mcpServers, modelAPIs }, {
+      includeDependencies,
+      namespace,
+      imageTag: imageTag.trim() || undefined,
+    });
+  }, [resources, agents, mcpServers, modelAPIs, includeDependencies, namespaceMode, targetNamespace, imageTag]);
+
+  const yaml = useMemo(() => stackToYaml(documents), [documents]);
+  const highlighted = useMemo(() => highlightYaml(yaml), [yaml]);
+  const secretCount = documents.filter((doc) => doc.kind === 'Secret').length;
+  const bundleName = resources.length === 1 ? `${resources[0].metadata.name}-stack` : 'kaos-stack';
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(yaml);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col" data-testid="export-stack-dialog">
+        <DialogHeader>
+          <DialogTitle>Export Stack</DialogTitle>
+          <DialogDescription>
+            {documents.length} object{documents.length === 1 ? '' : 's'} with status and server-managed metadata removed.
+            {secretCount > 0 && ` Values of ${secretCount} referenced Secret${secretCount === 1 ? '' : 's'} are redacted.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="flex items-center gap-2">
+            <Switch id="export-dependencies" checked={includeDependencies} onCheckedChange={setIncludeDependencies} />
+            <Label htmlFor="export-dependencies" className="text-sm">Include dependencies</Label>
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs text-muted-foreground">Namespace</Label>
+            <div className="flex gap-2">
+              <Select value={namespaceMode} onValueChange={(value) => setNamespaceMode(value as NamespaceMode)}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="keep">Keep</SelectItem>
+                  <SelectItem value="remove">Remove</SelectItem>
+                  <SelectItem value="set">Set to…</SelectItem>
+                </SelectContent>
+              </Select>
+              {namespaceMode === 'set' && (
+                <Input
+                  value={targetNamespace}
+                  onChange={(e) => setTargetNamespace(e.target.value)}
+                  placeholder="staging"
+                  className="h-8"
+                />
+              )}
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="export-image-tag" className="text-xs text-muted-foreground">Image tag override</Label>
+            <Input
+              id="export-image-tag"
+              value={imageTag}
+              onChange={(e) => setImageTag(e.target.value)}
+              placeholder="keep current tags"
+              className="h-8"
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-1">
+          {documents.map((doc, index) => (
+            <Badge key={index} variant="outline" className="text-[10px] font-mono">
+              {String(doc.kind)}/{(doc.metadata as { name: string }).name}
+            </Badge>
+          ))}
+        </div>
+
+        <ScrollArea className="rounded-lg border bg-muted/30 min-h-0 flex-1 max-h-[45vh]">
+          <pre className="p-4 text-xs font-mono whitespace-pre">{highlighted}</pre>
+        </ScrollArea>
+
+        <DialogFooter className="gap-2">
+          <Button variant="ghost" onClick={handleCopy}>
+            {copied ? <Check className="h-4 w-4 mr-2 text-green-500" /> : <Copy className="h-4 w-4 mr-2" />}
+            {copied ? 'Copied' : 'Copy'}
+          </Button>
+          <Button variant="outline" onClick={() => downloadFile(createZip(stackToZipEntries(documents)), 'application/zip', `${bundleName}.zip`)}>
+            <FileArchive className="h-4 w-4 mr-2" />
+            Download ZIP
+          </Button>
+          <Button onClick={() => downloadFile(yaml, 'application/yaml', `${bundleName}.yaml`)} data-testid="export-stack-download">
+            <FileDown className="h-4 w-4 mr-2" />
+            Download YAML
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,165 @@
+import { useRef, useState } from 'react';
+import { AlertCircle, FileUp, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useKubernetesConnection } from '@/contexts/KubernetesConnectionContext';
+import { useManifestApply } from '@/hooks/useManifestApply';
+import { parseManifests, type ManifestError } from '@/lib/manifests';
+import { ManifestPlanTable } from './shared/ManifestPlanTable';
+
+interface ImportManifestsDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Import KAOS manifests from multi-document YAML: parse and validate,
+ * dry-run every object against the API server, then apply in dependency order.
+ */
+export function ImportManifestsDialog({ open, onClose }: ImportManifestsDialogProps) {
+  const { toast } = useToast();
+  const { namespace, refreshAll } = useKubernetesConnection();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [text, setText] = useState('');
+  const [parseErrors, setParseErrors] = useState<ManifestError[]>([]);
+  const { plan, results, pending, planning, applying, runPlan, apply, reset: resetPlan } = useManifestApply();
+
+  const applied = Object.keys(results).length > 0;
+
+  const reset = () => {
+    setParseErrors([]);
+    resetPlan();
+  };
+
+  const handleClose = () => {
+    if (applying) return;
+    setText('');
+    reset();
+    onClose();
+  };
+
+  const handleFileSelected = async (file: File | undefined) => {
+    if (!file) return;
+    setText(await file.text());
+    reset();
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handlePlan = async () => {
+    reset();
+    let parsed;
+    try {
+      parsed = parseManifests(text, namespace);
+    } catch (error) {
+      setParseErrors([{ document: 0, message: error instanceof Error ? error.message : String(error) }]);
+      return;
+    }
+    setParseErrors(parsed.errors);
+    if (parsed.manifests.length === 0) {
+      if (parsed.errors.length === 0) {
+        setParseErrors([{ document: 0, message: 'No manifests found' }]);
+      }
+      return;
+    }
+
+    await runPlan(parsed.manifests);
+  };
+
+  const handleApply = async () => {
+    const failures = await apply();
+    refreshAll();
+
+    toast({
+      title: failures ? 'Import finished with errors' : 'Manifests imported',
+      description: `${pending.length - failures} of ${pending.length} object${pending.length === 1 ? '' : 's'} applied`,
+      variant: failures ? 'destructive' : 'default',
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col" data-testid="import-manifests-dialog">
+        <DialogHeader>
+          <DialogTitle>Import Manifests</DialogTitle>
+          <DialogDescription>
+            Paste or upload multi-document YAML with ModelAPI, MCPServer, Agent and Secret resources.
+            Objects without a namespace go to "{namespace}".
+          </DialogDescription>
+        </DialogHeader>
+
+        {!plan ? (
+          <div className="space-y-3 min-h-0 flex-1 flex flex-col">
+            <div className="flex justify-end">
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                <FileUp className="h-4 w-4 mr-2" />
+                Upload
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".yaml,.yml,text/yaml"
+                className="hidden"
+                onChange={(e) => handleFileSelected(e.target.files?.[0])}
+              />
+            </div>
+            <Textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={'apiVersion: kaos.tools/v1alpha1\nkind: ModelAPI\n...\n---\napiVersion: kaos.tools/v1alpha1\nkind: Agent\n...'}
+              className="font-mono text-xs min-h-[300px] flex-1"
+              spellCheck={false}
+              data-testid="import-manifests-input"
+            />
+          </div>
+        ) : (
+          <ManifestPlanTable plan={plan} results={results} applying={applying} />
+        )}
+
+        {parseErrors.length > 0 && (
+          <ul className="space-y-1 text-xs" data-testid="import-manifests-errors">
+            {parseErrors.map((error, index) => (
+              <li key={index} className="flex items-start gap-1.5 text-destructive">
+                <AlertCircle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                <span>
+                  {error.document > 0 && `Document ${error.document}${error.name ? ` (${error.name})` : ''}: `}
+                  {error.message}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <DialogFooter>
+          {!plan ? (
+            <>
+              <Button variant="outline" onClick={handleClose}>Cancel</Button>
+              <Button onClick={handlePlan} disabled={!text.trim() || planning}>
+                {planning && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Dry Run
+              </Button>
+            </>
+          ) : applied ? (
+            <Button onClick={handleClose} disabled={applying}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={reset} disabled={applying}>Back</Button>
+              <Button onClick={handleApply} disabled={pending.length === 0 || applying} data-testid="import-manifests-apply">
+                {applying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Apply {pending.length} object{pending.length === 1 ? '' : 's'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { useForm } from 'react-hook-form';
-import { Server } from 'lucide-react';
+import { Server, LayoutTemplate, AlertTriangle } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -22,14 +22,19 @@ import {
 } from '@/components/ui/select';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useToast } from '@/hooks/use-toast';
+import { usePrefillOnOpen } from '@/hooks/usePrefillOnOpen';
 import { useKubernetesStore } from '@/stores/kubernetesStore';
 import { useKubernetesConnection } from '@/contexts/KubernetesConnectionContext';
 import { 
   EnvVarEditorWithSecrets, 
   EnvVarEntry, 
-  envVarEntriesToK8sEnvVars 
+  envVarEntriesToK8sEnvVars,
+  k8sEnvVarsToEntries,
 } from './shared/EnvVarEditorWithSecrets';
 import { NameField } from './shared/NameField';
+import { TargetNamespaceField } from './shared/TargetNamespaceField';
+import { fetchExistingNames } from './shared/existingNames';
+import { mergeSpec, suggestCopyName } from '@/lib/duplicate';
 import type { MCPServer } from '@/types/kubernetes';
 
 // Runtime options based on KAOS registry
@@ -45,13 +50,30 @@ interface MCPServerFormData {
 interface MCPServerCreateDialogProps {
   open: boolean;
   onClose: () => void;
+  /** Switch to the stack template gallery instead of the blank form */
+  onUseTemplate?: () => void;
+  /** Duplicate this MCPServer: the form is prefilled from its spec */
+  source?: MCPServer;
 }
 
-export function MCPServerCreateDialog({ open, onClose }: MCPServerCreateDialogProps) {
+// Runtime and params of a spec in either the current or the legacy (type/config) format.
+// Legacy package-based tools have no runtime equivalent, so they are not prefilled.
+function runtimeAndParams(server: MCPServer): { runtime: MCPServerRuntime; params: string } | null {
+  const { spec } = server;
+  if (spec.runtime) return { runtime: spec.runtime as MCPServerRuntime, params: spec.params || '' };
+  if (spec.config?.tools?.fromPackage && !spec.config.tools.fromString) return null;
+  return {
+    runtime: spec.type === 'node-runtime' ? 'custom' : 'python-string',
+    params: spec.config?.tools?.fromString || '',
+  };
+}
+
+export function MCPServerCreateDialog({ open, onClose, onUseTemplate, source }: MCPServerCreateDialogProps) {
   const { toast } = useToast();
   const { mcpServers } = useKubernetesStore();
   const { namespace, createMCPServer } = useKubernetesConnection();
   const [envVars, setEnvVars] = useState<EnvVarEntry[]>([]);
+  const [targetNamespace, setTargetNamespace] = useState(namespace);
 
   const {
     register,
@@ -70,9 +92,23 @@ export function MCPServerCreateDialog({ open, onClose }: MCPServerCreateDialogPr
   });
 
   const watchedRuntime = watch('runtime');
+  const legacyPackage = source && !runtimeAndParams(source) ? source.spec.config?.tools?.fromPackage : undefined;
+
+  usePrefillOnOpen(open, source, (source) => {
+    reset({
+      name: suggestCopyName(source.metadata.name, mcpServers.map((server) => server.metadata.name)),
+      ...(runtimeAndParams(source) ?? { runtime: 'python-string', params: '' }),
+      serviceAccountName: source.spec.serviceAccountName || '',
+    });
+    setEnvVars(k8sEnvVarsToEntries(source.spec.container?.env));
+    setTargetNamespace(namespace);
+  });
 
-  const validateUniqueName = (name: string) => {
-    if (mcpServers.some((server) => server.metadata.name === name)) {
+  const validateUniqueName = async (name: string) => {
+    const taken = source && targetNamespace !== namespace
+      ? (await fetchExistingNames(targetNamespace)).MCPServer
+      : mcpServers.map((server) => server.metadata.name);
+    if (taken.includes(name)) {
       return 'An MCPServer with this name already exists';
     }
     return true;
@@ -97,6 +133,17 @@ export function MCPServerCreateDialog({ open, onClose }: MCPServerCreateDialogPr
         },
       };
 
+      if (source) {
+        // Keep source fields the form doesn't cover (image, resources, podSpec, ...);
+        // the legacy type/config are replaced by runtime/params
+        const base = structuredClone(source.spec);
+        delete base.type;
+        delete base.config;
+        if (base.container) base.container.env = undefined;
+        newMCPServer.metadata.namespace = targetNamespace;
+        newMCPServer.spec = mergeSpec(base, { ...newMCPServer.spec, container: newMCPServer.spec.container ?? base.container });
+      }
+
       await createMCPServer(newMCPServer);
       
       toast({
@@ -173,11 +220,28 @@ namespaces:
               <Server className="h-5 w-5 text-mcpserver" />
             </div>
             <div>
-              <DialogTitle>Create MCPServer</DialogTitle>
+              <DialogTitle>{source ? 'Duplicate MCPServer' : 'Create MCPServer'}</DialogTitle>
               <DialogDescription>
-                Create a new MCP Server for tool integration
+                {source
+                  ? `Create a copy of "${source.metadata.name}"`
+                  : 'Create a new MCP Server for tool integration'}
               </DialogDescription>
             </div>
+            {onUseTemplate && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="ml-auto"
+                onClick={() => {
+                  handleClose();
+                  onUseTemplate();
+                }}
+              >
+                <LayoutTemplate className="h-4 w-4 mr-2" />
+                Start from template
+              </Button>
+            )}
           </div>
         </DialogHeader>
 
@@ -192,6 +256,8 @@ namespaces:
                 validateUniqueName={validateUniqueName}
               />
 
+              {source && <TargetNamespaceField value={targetNamespace} onChange={setTargetNamespace} />}
+
               {/* Runtime */}
               <div className="space-y-2">
                 <Label>Runtime</Label>
@@ -220,6 +286,13 @@ namespaces:
                 <p className="text-xs text-muted-foreground">
                   {getRuntimeDescription(watchedRuntime)}
                 </p>
+                {legacyPackage && (
+                  <p className="flex items-start gap-1.5 text-xs text-amber-600">
+                    <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                    "{source?.metadata.name}" installs its tools from the package "{legacyPackage}", which no runtime
+                    can express; choose a runtime and params for the copy
+                  </p>
+                )}
               </div>
 
               {/* Service Account Name (for kubernetes runtime) */}
@@ -24,6 +24,8 @@ import {
 } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { useKubernetesConnection } from '@/contexts/KubernetesConnectionContext';
+import { useConflictAwareUpdate } from '@/hooks/useConflictAwareUpdate';
+import { k8sClient } from '@/lib/kubernetes-client';
 import { 
   EnvVarEditorWithSecrets, 
   EnvVarEntry, 
@@ -31,6 +33,7 @@ import {
   k8sEnvVarsToEntries,
 } from './shared/EnvVarEditorWithSecrets';
 import { LabelsAnnotationsEditor } from '@/components/shared/LabelsAnnotationsEditor';
+import { ConflictResolutionDialog } from './shared/ConflictResolutionDialog';
 import type { MCPServer } from '@/types/kubernetes';
 
 // Runtime options for new CRD format
@@ -61,6 +64,12 @@ const arrayToRecord = (arr: { key: string; value: string }[]) =>
 export function MCPServerEditDialog({ mcpServer, open, onClose }: MCPServerEditDialogProps) {
   const { toast } = useToast();
   const { updateMCPServer } = useKubernetesConnection();
+  const { submit, conflict, resolving, keepMine, keepTheirs, dismissConflict } = useConflictAwareUpdate({
+    resource: mcpServer,
+    open,
+    update: updateMCPServer,
+    getLatest: (name, namespace) => k8sClient.getMCPServer(name, namespace),
+  });
   const [envVars, setEnvVars] = useState<EnvVarEntry[]>([]);
 
   // Determine runtime from spec (support both legacy and new format)
@@ -113,8 +122,9 @@ export function MCPServerEditDialog({ mcpServer, open, onClose }: MCPServerEditD
       annotations: recordToArray(mcpServer.metadata.annotations),
     });
     setEnvVars(k8sEnvVarsToEntries(mcpServer.spec.container?.env || mcpServer.spec.config?.env));
+  // Reset only when opened, so live updates of the prop don't wipe in-progress edits
   // eslint-disable-next-line react-hooks/exhaustive-deps -- getParams and getRuntime are stable closures over mcpServer prop
-  }, [mcpServer, reset]);
+  }, [open, mcpServer.metadata.name, reset]);
 
   const onSubmit = async (data: MCPServerFormData) => {
     try {
@@ -143,7 +153,8 @@ export function MCPServerEditDialog({ mcpServer, open, onClose }: MCPServerEditD
         },
       };
 
-      await updateMCPServer(updatedMCPServer);
+      const saved = await submit(updatedMCPServer);
+      if (!saved) return;
       
       toast({
         title: 'MCPServer updated',
@@ -160,6 +171,29 @@ export function MCPServerEditDialog({ mcpServer, open, onClose }: MCPServerEditD
     }
   };
 
+  const handleKeepMine = async () => {
+    try {
+      await keepMine();
+      toast({
+        title: 'MCPServer updated',
+        description: `Applied your changes on top of the latest version of "${mcpServer.metadata.name}"`,
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: 'Update failed',
+        description: error instanceof Error ? error.message : 'Failed to update MCPServer',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleKeepTheirs = () => {
+    keepTheirs();
+    toast({ title: 'Changes discarded', description: `Kept the cluster version of "${mcpServer.metadata.name}"` });
+    onClose();
+  };
+
   return (
     <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
       <DialogContent className="max-w-2xl max-h-[90vh]">
@@ -309,6 +343,15 @@ export function MCPServerEditDialog({ mcpServer, open, onClose }: MCPServerEditD
             </Button>
           </DialogFooter>
         </form>
+        <ConflictResolutionDialog
+          kind="MCPServer"
+          name={mcpServer.metadata.name}
+          rows={conflict?.rows ?? null}
+          resolving={resolving}
+          onKeepMine={handleKeepMine}
+          onKeepTheirs={handleKeepTheirs}
+          onCancel={dismissConflict}
+        />
       </DialogContent>
     </Dialog>
   );
@@ -1,10 +1,12 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Server } from 'lucide-react';
+import { Server, FileDown, Copy } from 'lucide-react';
 import { ResourceList, DeploymentAwareStatus } from '@/components/resources/ResourceList';
+import { ExportStackDialog } from '@/components/resources/ExportStackDialog';
+import { StackTemplateGallery } from '@/components/resources/StackTemplateGallery';
+import { DeleteResourceDialog } from '@/components/resources/shared/DeleteResourceDialog';
 import { MCPServerCreateDialog } from '@/components/resources/MCPServerCreateDialog';
 import { useKubernetesStore } from '@/stores/kubernetesStore';
-import { useKubernetesConnection } from '@/contexts/KubernetesConnectionContext';
 import { Badge } from '@/components/ui/badge';
 import type { MCPServer } from '@/types/kubernetes';
 
@@ -61,8 +63,10 @@ const getDeploymentAwareStatus = (item: MCPServer): DeploymentAwareStatus => {
 export function MCPServerList() {
   const navigate = useNavigate();
   const { mcpServers, setSelectedResource, setSelectedResourceMode } = useKubernetesStore();
-  const { deleteMCPServer } = useKubernetesConnection();
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [exportItems, setExportItems] = useState<MCPServer[] | null>(null);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<MCPServer | null>(null);
 
   const columns = [
     {
@@ -132,6 +136,11 @@ export function MCPServerList() {
     setSelectedResourceMode('edit');
   };
 
+  const handleDuplicate = (item: MCPServer) => {
+    setSelectedResource(item);
+    setSelectedResourceMode('duplicate');
+  };
+
   return (
     <>
       <ResourceList
@@ -144,13 +153,24 @@ export function MCPServerList() {
         onAdd={() => setCreateDialogOpen(true)}
         onView={handleView}
         onEdit={handleEdit}
-        onDelete={(item) => deleteMCPServer(item.metadata.name)}
+        customActions={[{ label: 'Duplicate', icon: Copy, onClick: handleDuplicate }]}
+        onDelete={(item) => setDeleteTarget(item)}
+        confirmDelete={false}
         getStatus={getDeploymentAwareStatus}
         getItemId={(item) => item.metadata.name}
+        bulkActions={[{ label: 'Export', icon: FileDown, onClick: setExportItems }]}
       />
       <MCPServerCreateDialog 
         open={createDialogOpen} 
         onClose={() => setCreateDialogOpen(false)} 
+        onUseTemplate={() => setTemplatesOpen(true)}
+      />
+      <StackTemplateGallery open={templatesOpen} onClose={() => setTemplatesOpen(false)} />
+      <DeleteResourceDialog resource={deleteTarget} onClose={() => setDeleteTarget(null)} />
+      <ExportStackDialog
+        open={!!exportItems}
+        onClose={() => setExportItems(null)}
+        resources={exportItems ?? []}
       />
     </>
   );
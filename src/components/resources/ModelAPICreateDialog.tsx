@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { useForm } from 'react-hook-form';
-import { Box } from 'lucide-react';
+import { Box, LayoutTemplate } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -23,19 +23,25 @@ import {
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
+import { usePrefillOnOpen } from '@/hooks/usePrefillOnOpen';
 import { useKubernetesStore } from '@/stores/kubernetesStore';
 import { useKubernetesConnection } from '@/contexts/KubernetesConnectionContext';
 import { 
   EnvVarEditorWithSecrets, 
   EnvVarEntry, 
-  envVarEntriesToK8sEnvVars 
+  envVarEntriesToK8sEnvVars,
+  k8sEnvVarsToEntries,
 } from './shared/EnvVarEditorWithSecrets';
 import { 
   ApiKeySecretPicker, 
   pickerValueToApiKeySource,
+  apiKeySourceToPickerValue,
   ApiKeyType 
 } from './shared/ApiKeySecretPicker';
 import { NameField } from './shared/NameField';
+import { TargetNamespaceField } from './shared/TargetNamespaceField';
+import { fetchExistingNames } from './shared/existingNames';
+import { mergeSpec, suggestCopyName } from '@/lib/duplicate';
 import type { ModelAPI, ModelAPIMode } from '@/types/kubernetes';
 
 interface ModelAPIFormData {
@@ -53,13 +59,18 @@ interface ModelAPIFormData {
 interface ModelAPICreateDialogProps {
   open: boolean;
   onClose: () => void;
+  /** Switch to the stack template gallery instead of the blank form */
+  onUseTemplate?: () => void;
+  /** Duplicate this ModelAPI: the form is prefilled from its spec */
+  source?: ModelAPI;
 }
 
-export function ModelAPICreateDialog({ open, onClose }: ModelAPICreateDialogProps) {
+export function ModelAPICreateDialog({ open, onClose, onUseTemplate, source }: ModelAPICreateDialogProps) {
   const { toast } = useToast();
   const { modelAPIs } = useKubernetesStore();
   const { namespace, createModelAPI } = useKubernetesConnection();
   const [envVars, setEnvVars] = useState<EnvVarEntry[]>([]);
+  const [targetNamespace, setTargetNamespace] = useState(namespace);
   const [apiKeyValue, setApiKeyValue] = useState<{
     type: ApiKeyType;
     directValue?: string;
@@ -88,8 +99,27 @@ export function ModelAPICreateDialog({ open, onClose }: ModelAPICreateDialogProp
 
   const watchedMode = watch('mode');
 
-  const validateUniqueName = (name: string) => {
-    if (modelAPIs.some((api) => api.metadata.name === name)) {
+  usePrefillOnOpen(open, source, (source) => {
+    const { spec } = source;
+    reset({
+      name: suggestCopyName(source.metadata.name, modelAPIs.map((api) => api.metadata.name)),
+      mode: spec.mode,
+      models: spec.proxyConfig?.models?.join('\n') || '*',
+      provider: spec.proxyConfig?.provider || '',
+      apiBase: spec.proxyConfig?.apiBase || '',
+      configYamlString: spec.proxyConfig?.configYaml?.fromString || '',
+      hostedModel: spec.hostedConfig?.model || '',
+    });
+    setEnvVars(k8sEnvVarsToEntries(spec.container?.env));
+    setApiKeyValue(apiKeySourceToPickerValue(spec.proxyConfig?.apiKey));
+    setTargetNamespace(namespace);
+  });
+
+  const validateUniqueName = async (name: string) => {
+    const taken = source && targetNamespace !== namespace
+      ? (await fetchExistingNames(targetNamespace)).ModelAPI
+      : modelAPIs.map((api) => api.metadata.name);
+    if (taken.includes(name)) {
       return 'A ModelAPI with this name already exists';
     }
     return true;
@@ -144,6 +174,14 @@ export function ModelAPICreateDialog({ open, onClose }: ModelAPICreateDialogProp
         },
       };
 
+      if (source) {
+        // Keep source fields the form doesn't cover (image, resources, podSpec, ...)
+        const base = structuredClone(source.spec);
+        if (base.container) base.container.env = undefined;
+        newModelAPI.metadata.namespace = targetNamespace;
+        newModelAPI.spec = mergeSpec(base, { ...newModelAPI.spec, container: newModelAPI.spec.container ?? base.container });
+      }
+
       await createModelAPI(newModelAPI);
       
       toast({
@@ -180,11 +218,28 @@ export function ModelAPICreateDialog({ open, onClose }: ModelAPICreateDialogProp
               <Box className="h-5 w-5 text-modelapi" />
             </div>
             <div>
-              <DialogTitle>Create ModelAPI</DialogTitle>
+              <DialogTitle>{source ? 'Duplicate ModelAPI' : 'Create ModelAPI'}</DialogTitle>
               <DialogDescription>
-                Create a new Model API endpoint for LLM access
+                {source
+                  ? `Create a copy of "${source.metadata.name}"`
+                  : 'Create a new Model API endpoint for LLM access'}
               </DialogDescription>
             </div>
+            {onUseTemplate && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="ml-auto"
+                onClick={() => {
+                  handleClose();
+                  onUseTemplate();
+                }}
+              >
+                <LayoutTemplate className="h-4 w-4 mr-2" />
+                Start from template
+              </Button>
+            )}
           </div>
         </DialogHeader>
 
@@ -199,6 +254,8 @@ export function ModelAPICreateDialog({ open, onClose }: ModelAPICreateDialogProp
                 validateUniqueName={validateUniqueName}
               />
 
+              {source && <TargetNamespaceField value={targetNamespace} onChange={setTargetNamespace} />}
+
               {/* Mode */}
               <div className="space-y-2">
                 <Label>Mode</Label>
@@ -24,6 +24,8 @@ import {
 } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { useKubernetesConnection } from '@/contexts/KubernetesConnectionContext';
+import { useConflictAwareUpdate } from '@/hooks/useConflictAwareUpdate';
+import { k8sClient } from '@/lib/kubernetes-client';
 import { 
   EnvVarEditorWithSecrets, 
   EnvVarEntry, 
@@ -37,6 +39,7 @@ import {
   ApiKeyType 
 } from './shared/ApiKeySecretPicker';
 import { LabelsAnnotationsEditor } from '@/components/shared/LabelsAnnotationsEditor';
+import { ConflictResolutionDialog } from './shared/ConflictResolutionDialog';
 import type { ModelAPI, ModelAPIMode } from '@/types/kubernetes';
 
 interface ModelAPIFormData {
@@ -67,6 +70,12 @@ const arrayToRecord = (arr: { key: string; value: string }[]) =>
 export function ModelAPIEditDialog({ modelAPI, open, onClose }: ModelAPIEditDialogProps) {
   const { toast } = useToast();
   const { updateModelAPI } = useKubernetesConnection();
+  const { submit, conflict, resolving, keepMine, keepTheirs, dismissConflict } = useConflictAwareUpdate({
+    resource: modelAPI,
+    open,
+    update: updateModelAPI,
+    getLatest: (name, namespace) => k8sClient.getModelAPI(name, namespace),
+  });
   const [envVars, setEnvVars] = useState<EnvVarEntry[]>([]);
   const [apiKeyValue, setApiKeyValue] = useState<{
     type: ApiKeyType;
@@ -119,8 +128,9 @@ export function ModelAPIEditDialog({ modelAPI, open, onClose }: ModelAPIEditDial
     reset(getDefaultValues());
     setEnvVars(k8sEnvVarsToEntries(getEnvVars()));
     setApiKeyValue(apiKeySourceToPickerValue(modelAPI.spec.proxyConfig?.apiKey));
+  // Reset only when opened, so live updates of the prop don't wipe in-progress edits
   // eslint-disable-next-line react-hooks/exhaustive-deps -- getDefaultValues and getEnvVars are stable closures over modelAPI prop
-  }, [modelAPI, reset]);
+  }, [open, modelAPI.metadata.name, reset]);
 
   const parseModels = (modelsStr: string): string[] => {
     return modelsStr
@@ -179,7 +189,8 @@ export function ModelAPIEditDialog({ modelAPI, open, onClose }: ModelAPIEditDial
         },
       };
 
-      await updateModelAPI(updatedModelAPI);
+      const saved = await submit(updatedModelAPI);
+      if (!saved) return;
       
       toast({
         title: 'ModelAPI updated',
@@ -196,6 +207,29 @@ export function ModelAPIEditDialog({ modelAPI, open, onClose }: ModelAPIEditDial
     }
   };
 
+  const handleKeepMine = async () => {
+    try {
+      await keepMine();
+      toast({
+        title: 'ModelAPI updated',
+        description: `Applied your changes on top of the latest version of "${modelAPI.metadata.name}"`,
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: 'Update failed',
+        description: error instanceof Error ? error.message : 'Failed to update ModelAPI',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleKeepTheirs = () => {
+    keepTheirs();
+    toast({ title: 'Changes discarded', description: `Kept the cluster version of "${modelAPI.metadata.name}"` });
+    onClose();
+  };
+
   return (
     <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
       <DialogContent className="max-w-2xl max-h-[90vh]">
@@ -391,6 +425,15 @@ export function ModelAPIEditDialog({ modelAPI, open, onClose }: ModelAPIEditDial
             </Button>
           </DialogFooter>
         </form>
+        <ConflictResolutionDialog
+          kind="ModelAPI"
+          name={modelAPI.metadata.name}
+          rows={conflict?.rows ?? null}
+          resolving={resolving}
+          onKeepMine={handleKeepMine}
+          onKeepTheirs={handleKeepTheirs}
+          onCancel={dismissConflict}
+        />
       </DialogContent>
     </Dialog>
   );
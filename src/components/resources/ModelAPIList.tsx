@@ -1,10 +1,12 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Box } from 'lucide-react';
+import { Box, FileDown, Copy } from 'lucide-react';
 import { ResourceList, DeploymentAwareStatus } from '@/components/resources/ResourceList';
+import { ExportStackDialog } from '@/components/resources/ExportStackDialog';
+import { StackTemplateGallery } from '@/components/resources/StackTemplateGallery';
+import { DeleteResourceDialog } from '@/components/resources/shared/DeleteResourceDialog';
 import { ModelAPICreateDialog } from '@/components/resources/ModelAPICreateDialog';
 import { useKubernetesStore } from '@/stores/kubernetesStore';
-import { useKubernetesConnection } from '@/contexts/KubernetesConnectionContext';
 import { Badge } from '@/components/ui/badge';
 import type { ModelAPI } from '@/types/kubernetes';
 
@@ -61,8 +63,10 @@ const getDeploymentAwareStatus = (item: ModelAPI): DeploymentAwareStatus => {
 export function ModelAPIList() {
   const navigate = useNavigate();
   const { modelAPIs, setSelectedResource, setSelectedResourceMode } = useKubernetesStore();
-  const { deleteModelAPI } = useKubernetesConnection();
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [exportItems, setExportItems] = useState<ModelAPI[] | null>(null);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<ModelAPI | null>(null);
 
   const columns = [
     {
@@ -112,6 +116,11 @@ export function ModelAPIList() {
     setSelectedResourceMode('edit');
   };
 
+  const handleDuplicate = (item: ModelAPI) => {
+    setSelectedResource(item);
+    setSelectedResourceMode('duplicate');
+  };
+
   return (
     <>
       <ResourceList
@@ -124,13 +133,24 @@ export function ModelAPIList() {
         onAdd={() => setCreateDialogOpen(true)}
         onView={handleView}
         onEdit={handleEdit}
-        onDelete={(item) => deleteModelAPI(item.metadata.name)}
+        customActions={[{ label: 'Duplicate', icon: Copy, onClick: handleDuplicate }]}
+        onDelete={(item) => setDeleteTarget(item)}
+        confirmDelete={false}
         getStatus={getDeploymentAwareStatus}
         getItemId={(item) => item.metadata.name}
+        bulkActions={[{ label: 'Export', icon: FileDown, onClick: setExportItems }]}
       />
       <ModelAPICreateDialog 
         open={createDialogOpen} 
         onClose={() => setCreateDialogOpen(false)} 
+        onUseTemplate={() => setTemplatesOpen(true)}
+      />
+      <StackTemplateGallery open={templatesOpen} onClose={() => setTemplatesOpen(false)} />
+      <DeleteResourceDialog resource={deleteTarget} onClose={() => setDeleteTarget(null)} />
+      <ExportStackDialog
+        open={!!exportItems}
+        onClose={() => setExportItems(null)}
+        resources={exportItems ?? []}
       />
     </>
   );
@@ -34,6 +34,12 @@ interface CustomAction<T> {
   onClick: (item: T) => void;
 }
 
+interface BulkAction<T> {
+  label: string;
+  icon?: React.ElementType;
+  onClick: (items: T[]) => void;
+}
+
 export interface DeploymentAwareStatus {
   label: string;
   variant: 'success' | 'warning' | 'error' | 'destructive' | 'secondary';
@@ -51,8 +57,12 @@ interface ResourceListProps<T> {
   onAdd?: () => void;
   onEdit?: (item: T) => void;
   onDelete?: (item: T) => void;
+  // Set to false when onDelete opens its own confirmation
+  confirmDelete?: boolean;
   onView?: (item: T) => void;
   customActions?: CustomAction<T>[];
+  // Toolbar actions for the checked rows
+  bulkActions?: BulkAction<T>[];
   getStatus?: (item: T) => string | DeploymentAwareStatus;
   getItemId: (item: T) => string;
 }
@@ -67,8 +77,10 @@ export function ResourceList<T>({
   onAdd,
   onEdit,
   onDelete,
+  confirmDelete = true,
   onView,
   customActions,
+  bulkActions,
   getStatus,
   getItemId,
 }: ResourceListProps<T>) {
@@ -81,8 +93,13 @@ export function ResourceList<T>({
     const id = getItemId(item);
     return id.toLowerCase().includes(search.toLowerCase());
   });
+  const selected = items.filter((item) => selectedItems.has(getItemId(item)));
 
   const handleDeleteClick = (item: T) => {
+    if (!confirmDelete) {
+      onDelete?.(item);
+      return;
+    }
     setItemToDelete(item);
     setDeleteDialogOpen(true);
   };
@@ -138,6 +155,21 @@ export function ResourceList<T>({
           Refresh
         </Button>
         <Badge variant="secondary">{filteredItems.length} resources</Badge>
+        {selected.length > 0 && bulkActions?.map((action) => {
+          const ActionIcon = action.icon;
+          return (
+            <Button
+              key={action.label}
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={() => action.onClick(selected)}
+            >
+              {ActionIcon && <ActionIcon className="h-4 w-4" />}
+              {action.label} ({selected.length})
+            </Button>
+          );
+        })}
       </div>
 
       {/* Table */}
@@ -0,0 +1,232 @@
+import { useMemo, useState } from 'react';
+import { AlertCircle, AlertTriangle, ArrowLeft, Bot, Box, Layers, Loader2, Server } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useKubernetesConnection } from '@/contexts/KubernetesConnectionContext';
+import { useManifestApply } from '@/hooks/useManifestApply';
+import { useStackTemplates } from '@/hooks/useStackTemplates';
+import {
+  defaultTemplateValues,
+  instantiateTemplate,
+  TEMPLATES_CONFIGMAP,
+  type StackTemplate,
+} from '@/lib/stack-templates';
+import { ManifestPlanTable } from './shared/ManifestPlanTable';
+
+interface StackTemplateGalleryProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const KIND_ICONS = { ModelAPI: Box, MCPServer: Server, Agent: Bot };
+
+function TemplateCard({ template, onSelect }: { template: StackTemplate; onSelect: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      className="text-left rounded-lg border border-border p-4 hover:border-primary/50 hover:bg-muted/30 transition-colors space-y-2"
+      data-testid={`template-${template.id}`}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <p className="font-medium text-sm">{template.name}</p>
+        {template.source === 'configmap' && <Badge variant="secondary" className="text-[10px]">Team</Badge>}
+      </div>
+      <p className="text-xs text-muted-foreground">{template.description}</p>
+      <div className="flex flex-wrap gap-1">
+        {template.resources.map((resource, index) => {
+          const Icon = KIND_ICONS[resource.kind];
+          return (
+            <Badge key={index} variant="outline" className="text-[10px] gap-1">
+              <Icon className="h-3 w-3" />
+              {resource.kind}
+            </Badge>
+          );
+        })}
+      </div>
+    </button>
+  );
+}
+
+/**
+ * Wizard that instantiates a stack template: pick a template, fill in its
+ * parameters, review the dry-run plan and create all resources in order.
+ */
+export function StackTemplateGallery({ open, onClose }: StackTemplateGalleryProps) {
+  const { toast } = useToast();
+  const { namespace, refreshAll } = useKubernetesConnection();
+  const { templates, errors: templateErrors, loading } = useStackTemplates(open);
+  const [selected, setSelected] = useState<StackTemplate | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const { plan, results, pending, planning, applying, runPlan, apply, reset } = useManifestApply();
+
+  const instance = useMemo(
+    () => (selected ? instantiateTemplate(selected, values, namespace) : null),
+    [selected, values, namespace]
+  );
+  const done = Object.keys(results).length > 0 && !applying;
+
+  const handleClose = () => {
+    if (applying) return;
+    setSelected(null);
+    reset();
+    onClose();
+  };
+
+  const handleSelect = (template: StackTemplate) => {
+    setSelected(template);
+    setValues(defaultTemplateValues(template));
+    reset();
+  };
+
+  const handleCreate = async () => {
+    const failures = await apply();
+    refreshAll();
+    toast({
+      title: failures ? 'Stack created with errors' : 'Stack created',
+      description: `${pending.length - failures} of ${pending.length} resources created from "${selected?.name}"`,
+      variant: failures ? 'destructive' : 'default',
+    });
+  };
+
+  const setValue = (key: string, value: string) => setValues((prev) => ({ ...prev, [key]: value }));
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col" data-testid="stack-template-gallery">
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <div className="h-10 w-10 rounded-lg bg-primary/10 flex items-center justify-center">
+              <Layers className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              <DialogTitle>{selected ? selected.name : 'Stack Templates'}</DialogTitle>
+              <DialogDescription>
+                {selected
+                  ? `Creates ${selected.resources.length} resources in "${namespace}" with their references wired up`
+                  : 'Create a ModelAPI, MCP servers and agents together from a template'}
+              </DialogDescription>
+            </div>
+          </div>
+        </DialogHeader>
+
+        {!selected ? (
+          <ScrollArea className="min-h-0 flex-1 max-h-[60vh]">
+            {loading && (
+              <p className="flex items-center gap-2 text-xs text-muted-foreground mb-3">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                Loading team templates…
+              </p>
+            )}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {templates.map((template) => (
+                <TemplateCard key={template.id} template={template} onSelect={() => handleSelect(template)} />
+              ))}
+            </div>
+            {templateErrors.length > 0 && (
+              <div className="mt-3 space-y-1 text-xs text-amber-600">
+                <p className="flex items-center gap-1.5 font-medium">
+                  <AlertTriangle className="h-3.5 w-3.5" />
+                  Some templates in the {TEMPLATES_CONFIGMAP} ConfigMap were skipped
+                </p>
+                {templateErrors.map((error) => <p key={error} className="font-mono pl-5">{error}</p>)}
+              </div>
+            )}
+          </ScrollArea>
+        ) : plan ? (
+          <ManifestPlanTable plan={plan} results={results} applying={applying} />
+        ) : (
+          <ScrollArea className="min-h-0 flex-1 max-h-[60vh] pr-4">
+            <div className="space-y-4 py-1">
+              <div className="space-y-1.5">
+                <Label htmlFor="template-name">Stack name</Label>
+                <Input
+                  id="template-name"
+                  value={values.name ?? ''}
+                  onChange={(e) => setValue('name', e.target.value)}
+                  className="font-mono"
+                />
+                <p className="text-xs text-muted-foreground">Prefix for every resource name</p>
+              </div>
+              {selected.parameters.map((param) => (
+                <div key={param.key} className="space-y-1.5">
+                  <Label htmlFor={`template-${param.key}`}>{param.label}</Label>
+                  <Input
+                    id={`template-${param.key}`}
+                    value={values[param.key] ?? ''}
+                    onChange={(e) => setValue(param.key, e.target.value)}
+                  />
+                  {param.description && <p className="text-xs text-muted-foreground">{param.description}</p>}
+                </div>
+              ))}
+
+              <div className="space-y-1.5">
+                <Label>Resources</Label>
+                <div className="flex flex-wrap gap-1">
+                  {instance?.manifests.map((manifest) => (
+                    <Badge key={`${manifest.kind}/${manifest.metadata.name}`} variant="outline" className="font-mono text-[10px]">
+                      {manifest.kind}/{manifest.metadata.name}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+
+              {instance && instance.errors.length > 0 && (
+                <ul className="space-y-1 text-xs">
+                  {instance.errors.map((error) => (
+                    <li key={error} className="flex items-start gap-1.5 text-destructive">
+                      <AlertCircle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                      {error}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          {!selected ? (
+            <Button variant="outline" onClick={handleClose}>Cancel</Button>
+          ) : done ? (
+            <Button onClick={handleClose}>Done</Button>
+          ) : plan ? (
+            <>
+              <Button variant="outline" onClick={reset} disabled={applying}>Back</Button>
+              <Button onClick={handleCreate} disabled={pending.length === 0 || applying} data-testid="template-create">
+                {applying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Create {pending.length} resource{pending.length === 1 ? '' : 's'}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => setSelected(null)}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Templates
+              </Button>
+              <Button
+                onClick={() => instance && runPlan(instance.manifests)}
+                disabled={!instance || instance.errors.length > 0 || planning}
+              >
+                {planning && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Review
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,41 @@
+import { AlertCircle, AlertTriangle } from 'lucide-react';
+import { useKubernetesStore } from '@/stores/kubernetesStore';
+import { lintAgent } from '@/lib/dependency-lint';
+import { cn } from '@/lib/utils';
+import type { Agent } from '@/types/kubernetes';
+
+interface AgentPreflightChecksProps {
+  // Agent as it would be saved from the current form values
+  agent: Agent;
+  className?: string;
+}
+
+/**
+ * Broken references of an Agent being created or edited (ModelAPI, model,
+ * MCPServers, peers, Secrets), checked against the resources in the store.
+ */
+export function AgentPreflightChecks({ agent, className }: AgentPreflightChecksProps) {
+  const { agents, modelAPIs, mcpServers, secrets } = useKubernetesStore();
+  const issues = lintAgent(agent, { agents, modelAPIs, mcpServers, secrets });
+
+  if (issues.length === 0) return null;
+
+  return (
+    <ul className={cn('space-y-1 rounded-md border border-amber-500/30 bg-amber-500/5 p-2 text-xs', className)} data-testid="agent-preflight">
+      {issues.map((issue, index) => {
+        const Icon = issue.severity === 'error' ? AlertCircle : AlertTriangle;
+        return (
+          <li
+            key={index}
+            className={cn('flex items-start gap-1.5', issue.severity === 'error' ? 'text-destructive' : 'text-amber-600')}
+          >
+            <Icon className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+            <span>
+              <span className="font-mono">{issue.field}</span>: {issue.message}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,119 @@
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import type { ThreeWayDiffRow } from '@/lib/k8s/patch';
+import { cn } from '@/lib/utils';
+
+interface ConflictResolutionDialogProps {
+  kind: string;
+  name: string;
+  rows: ThreeWayDiffRow[] | null;
+  resolving?: boolean;
+  onKeepMine: () => void;
+  onKeepTheirs: () => void;
+  onCancel: () => void;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+function ValueCell({ value, highlight }: { value: unknown; highlight?: string }) {
+  return (
+    <td className={cn('px-2 py-1.5 align-top font-mono text-xs break-all', highlight)}>
+      {value === undefined ? <span className="text-muted-foreground">—</span> : formatValue(value)}
+    </td>
+  );
+}
+
+/**
+ * Three-way diff shown when an update hits a 409: what the user loaded,
+ * what they changed, and what is on the cluster now.
+ */
+export function ConflictResolutionDialog({
+  kind,
+  name,
+  rows,
+  resolving,
+  onKeepMine,
+  onKeepTheirs,
+  onCancel,
+}: ConflictResolutionDialogProps) {
+  const conflictCount = rows?.filter((row) => row.conflict).length ?? 0;
+
+  return (
+    <AlertDialog open={!!rows} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent className="max-w-4xl" data-testid="conflict-dialog">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            {kind} "{name}" changed on the cluster
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            Someone else updated this {kind} while you were editing.{' '}
+            {conflictCount} field{conflictCount === 1 ? '' : 's'} changed on both sides.
+            Changes that don't overlap are kept either way.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <ScrollArea className="max-h-[50vh] rounded-md border">
+          <table className="w-full text-sm">
+            <thead className="bg-muted/50 text-xs text-muted-foreground sticky top-0">
+              <tr>
+                <th className="px-2 py-1.5 text-left font-medium w-1/4">Field</th>
+                <th className="px-2 py-1.5 text-left font-medium w-1/4">Loaded</th>
+                <th className="px-2 py-1.5 text-left font-medium w-1/4">Your change</th>
+                <th className="px-2 py-1.5 text-left font-medium w-1/4">Cluster now</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows?.map((row) => (
+                <tr key={row.path} className={cn('border-t', row.conflict && 'bg-amber-500/5')}>
+                  <td className="px-2 py-1.5 align-top font-mono text-xs">
+                    <div className="flex items-center gap-1 flex-wrap">
+                      {row.path}
+                      {row.conflict && <Badge variant="outline" className="text-[10px] border-amber-500 text-amber-600">conflict</Badge>}
+                    </div>
+                  </td>
+                  <ValueCell value={row.base} />
+                  <ValueCell
+                    value={row.mine}
+                    highlight={formatValue(row.mine) !== formatValue(row.base) ? 'bg-blue-500/10' : undefined}
+                  />
+                  <ValueCell
+                    value={row.theirs}
+                    highlight={formatValue(row.theirs) !== formatValue(row.base) ? 'bg-green-500/10' : undefined}
+                  />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </ScrollArea>
+
+        <AlertDialogFooter className="gap-2">
+          <Button variant="ghost" onClick={onCancel} disabled={resolving}>
+            Back to Editing
+          </Button>
+          <Button variant="outline" onClick={onKeepTheirs} disabled={resolving}>
+            Discard My Changes
+          </Button>
+          <Button onClick={onKeepMine} disabled={resolving} data-testid="conflict-keep-mine">
+            {resolving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Apply My Changes
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
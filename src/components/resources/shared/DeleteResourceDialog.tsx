@@ -0,0 +1,251 @@
+import { useEffect, useMemo, useState, type ElementType } from 'react';
+import { AlertCircle, CheckCircle2, Circle, Loader2, Trash2, Undo2 } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { useKubernetesStore } from '@/stores/kubernetesStore';
+import { useKubernetesConnection } from '@/contexts/KubernetesConnectionContext';
+import {
+  computeDeleteImpact,
+  executeDeletePlan,
+  planDelete,
+  type DeleteMode,
+  type DeletePlanOps,
+  type DeleteStep,
+  type DeleteStepStatus,
+} from '@/lib/delete-impact';
+import type { KaosResource } from '@/lib/stack-export';
+import { cn } from '@/lib/utils';
+
+interface DeleteResourceDialogProps {
+  resource: KaosResource | null;
+  onClose: () => void;
+  // Called once every step of the plan succeeded
+  onDeleted?: () => void;
+}
+
+interface StepState {
+  // Unset until the step starts
+  status?: DeleteStepStatus;
+  error?: string;
+}
+
+const STATUS_ICONS: Record<DeleteStepStatus | 'pending', { icon: ElementType; className: string }> = {
+  pending: { icon: Circle, className: 'text-muted-foreground' },
+  running: { icon: Loader2, className: 'animate-spin text-primary' },
+  done: { icon: CheckCircle2, className: 'text-green-500' },
+  failed: { icon: AlertCircle, className: 'text-destructive' },
+  'rolled-back': { icon: Undo2, className: 'text-amber-500' },
+};
+
+function describeStep(step: DeleteStep): string {
+  if (step.action === 'detach') return `Detach reference from Agent/${step.original.metadata.name}`;
+  return `Delete ${step.kind}/${step.name}`;
+}
+
+/**
+ * Delete confirmation that lists the Agents referencing the resource and
+ * lets the user delete it alone, detach those references first, or cascade
+ * to the dependent Agents and any opted-in Secrets no other KAOS resource uses.
+ */
+export function DeleteResourceDialog({ resource, onClose, onDeleted }: DeleteResourceDialogProps) {
+  const { agents, modelAPIs, mcpServers, secrets } = useKubernetesStore();
+  const { updateAgent, deleteAgent, deleteModelAPI, deleteMCPServer, deleteSecret } = useKubernetesConnection();
+  const [mode, setMode] = useState<DeleteMode>('delete');
+  const [steps, setSteps] = useState<DeleteStep[] | null>(null);
+  const [stepStates, setStepStates] = useState<StepState[]>([]);
+  const [running, setRunning] = useState(false);
+  // Non-KAOS workloads may still mount these, so each one is an explicit opt-in
+  const [secretsToDelete, setSecretsToDelete] = useState<Set<string>>(new Set());
+
+  const impact = useMemo(
+    () => resource && computeDeleteImpact(resource, { agents, modelAPIs, mcpServers, secrets }),
+    [resource, agents, modelAPIs, mcpServers, secrets]
+  );
+
+  useEffect(() => {
+    if (!resource) return;
+    setMode('delete');
+    setSteps(null);
+    setStepStates([]);
+    setSecretsToDelete(new Set());
+  }, [resource]);
+
+  if (!resource || !impact) return null;
+
+  const { name } = resource.metadata;
+  const failed = stepStates.some((state) => state.status === 'failed');
+  const finished = !!steps && !running;
+
+  const options: { mode: DeleteMode; label: string; description: string; disabled?: string }[] = [
+    {
+      mode: 'delete',
+      label: 'Delete only',
+      description: impact.dependents.length > 0
+        ? `Dependent Agents keep a reference to the missing ${resource.kind}`
+        : `Nothing references this ${resource.kind}`,
+    },
+    {
+      mode: 'detach',
+      label: 'Delete and detach references',
+      description: 'Remove the reference from each dependent Agent first; reverted if a step fails',
+      disabled: impact.dependents.length === 0 ? 'No dependents to detach' : impact.detachBlockedReason,
+    },
+    {
+      mode: 'cascade',
+      label: 'Cascade delete the stack',
+      description: `Also delete ${impact.cascade.length} dependent Agent${impact.cascade.length === 1 ? '' : 's'}${
+        secretsToDelete.size > 0 ? ` and ${secretsToDelete.size} selected Secret${secretsToDelete.size === 1 ? '' : 's'}` : ''
+      }`,
+    },
+  ];
+
+  const ops: DeletePlanOps = {
+    updateAgent: (agent, original) => updateAgent(agent, original),
+    deleteResource: (kind, resourceName, namespace) => {
+      if (kind === 'Agent') return deleteAgent(resourceName, namespace);
+      if (kind === 'ModelAPI') return deleteModelAPI(resourceName, namespace);
+      if (kind === 'MCPServer') return deleteMCPServer(resourceName, namespace);
+      return deleteSecret(resourceName, namespace);
+    },
+  };
+
+  const toggleSecret = (secretName: string, checked: boolean) => {
+    setSecretsToDelete((current) => {
+      const next = new Set(current);
+      if (checked) next.add(secretName);
+      else next.delete(secretName);
+      return next;
+    });
+  };
+
+  const handleDelete = async () => {
+    const plan = planDelete(resource, impact, mode, [...secretsToDelete]);
+    setSteps(plan);
+    setStepStates(plan.map(() => ({})));
+    setRunning(true);
+    const ok = await executeDeletePlan(plan, ops, (index, status, error) => {
+      setStepStates((current) => current.map((state, i) => (i === index ? { status, error } : state)));
+    });
+    setRunning(false);
+    if (ok) {
+      onDeleted?.();
+      onClose();
+    }
+  };
+
+  return (
+    <AlertDialog open onOpenChange={(open) => !open && !running && onClose()}>
+      <AlertDialogContent className="max-w-2xl" data-testid="delete-resource-dialog">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete {resource.kind} "{name}"?</AlertDialogTitle>
+          <AlertDialogDescription>
+            This action cannot be undone. Review what depends on this {resource.kind} before deleting it.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {!steps ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Impact</p>
+              {impact.dependents.length === 0 && impact.secrets.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No other resources are affected.</p>
+              ) : (
+                <ul className="space-y-1 rounded-md border p-2 text-sm" data-testid="delete-impact">
+                  {impact.dependents.map(({ agent, fields }) => (
+                    <li key={agent.metadata.name} className="flex items-center justify-between gap-2">
+                      <span className="font-mono text-xs">Agent/{agent.metadata.name}</span>
+                      <span className="font-mono text-xs text-muted-foreground">{fields.join(', ')}</span>
+                    </li>
+                  ))}
+                  {impact.cascade
+                    .filter((agent) => !impact.dependents.some((d) => d.agent === agent))
+                    .map((agent) => (
+                      <li key={agent.metadata.name} className="flex items-center justify-between gap-2">
+                        <span className="font-mono text-xs">Agent/{agent.metadata.name}</span>
+                        <span className="text-xs text-muted-foreground">via peer access</span>
+                      </li>
+                    ))}
+                  {impact.secrets.map((secret) => (
+                    <li key={secret.name} className="flex items-center justify-between gap-2">
+                      <span className="font-mono text-xs">Secret/{secret.name}</span>
+                      <span className="flex items-center gap-2 text-xs text-muted-foreground">
+                        {secret.usedBy.length > 0 ? `also used by ${secret.usedBy.join(', ')}` : 'not referenced by other KAOS resources'}
+                        {mode === 'cascade' && secret.usedBy.length === 0 && (
+                          <Switch
+                            checked={secretsToDelete.has(secret.name)}
+                            onCheckedChange={(checked) => toggleSecret(secret.name, checked)}
+                            aria-label={`Delete Secret ${secret.name}`}
+                            data-testid={`delete-secret-${secret.name}`}
+                          />
+                        )}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="space-y-2" role="radiogroup">
+              {options.map((option) => (
+                <button
+                  key={option.mode}
+                  type="button"
+                  role="radio"
+                  aria-checked={mode === option.mode}
+                  disabled={!!option.disabled}
+                  data-testid={`delete-mode-${option.mode}`}
+                  onClick={() => setMode(option.mode)}
+                  className={cn(
+                    'w-full rounded-md border p-3 text-left transition-colors disabled:cursor-not-allowed disabled:opacity-50',
+                    mode === option.mode ? 'border-destructive bg-destructive/5' : 'hover:bg-muted/50'
+                  )}
+                >
+                  <p className="text-sm font-medium">{option.label}</p>
+                  <p className="text-xs text-muted-foreground">{option.disabled ?? option.description}</p>
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <ul className="space-y-2 text-sm" data-testid="delete-steps">
+            {steps.map((step, index) => {
+              const state = stepStates[index];
+              const { icon: Icon, className } = STATUS_ICONS[state?.status ?? 'pending'];
+              return (
+                <li key={index} className="flex items-start gap-2">
+                  <Icon className={cn('h-4 w-4 mt-0.5 shrink-0', className)} />
+                  <div className="min-w-0">
+                    <p className="font-mono text-xs">{describeStep(step)}</p>
+                    {state?.error && <p className="text-xs text-destructive">{state.error}</p>}
+                  </div>
+                  {state?.status === 'rolled-back' && <Badge variant="secondary" className="ml-auto text-xs">Rolled back</Badge>}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <AlertDialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={running}>
+            {finished && failed ? 'Close' : 'Cancel'}
+          </Button>
+          {!steps && (
+            <Button variant="destructive" className="gap-2" onClick={handleDelete} data-testid="confirm-delete">
+              <Trash2 className="h-4 w-4" />
+              Delete
+            </Button>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,73 @@
+import { AlertCircle, CheckCircle2, Loader2, MinusCircle, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import type { ApplyPlanItem } from '@/lib/kubernetes-client';
+import type { ApplyResult } from '@/hooks/useManifestApply';
+import { manifestKey } from '@/lib/manifests';
+import { cn } from '@/lib/utils';
+
+interface ManifestPlanTableProps {
+  plan: ApplyPlanItem[];
+  results: Record<string, ApplyResult>;
+  applying: boolean;
+}
+
+const ACTION_BADGES: Record<ApplyPlanItem['action'], { label: string; className: string }> = {
+  create: { label: 'create', className: 'border-green-500 text-green-600' },
+  update: { label: 'update', className: 'border-blue-500 text-blue-600' },
+  unchanged: { label: 'unchanged', className: 'text-muted-foreground' },
+  error: { label: 'error', className: 'border-destructive text-destructive' },
+};
+
+function ResultIcon({ item, result, applying }: { item: ApplyPlanItem; result?: ApplyResult; applying: boolean }) {
+  if (result?.status === 'applied') return <CheckCircle2 className="h-4 w-4 text-green-500" />;
+  if (result?.status === 'failed') return <XCircle className="h-4 w-4 text-destructive" />;
+  if (item.error) return <AlertCircle className="h-4 w-4 text-destructive" />;
+  if (item.action === 'unchanged') return <MinusCircle className="h-4 w-4 text-muted-foreground" />;
+  return applying ? <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" /> : null;
+}
+
+/**
+ * Dry-run plan (create/update/unchanged per object) with apply results.
+ */
+export function ManifestPlanTable({ plan, results, applying }: ManifestPlanTableProps) {
+  return (
+    <ScrollArea className="rounded-md border min-h-0 flex-1 max-h-[55vh]">
+      <table className="w-full text-sm">
+        <thead className="bg-muted/50 text-xs text-muted-foreground sticky top-0">
+          <tr>
+            <th className="px-3 py-2 text-left font-medium">Kind</th>
+            <th className="px-3 py-2 text-left font-medium">Name</th>
+            <th className="px-3 py-2 text-left font-medium">Namespace</th>
+            <th className="px-3 py-2 text-left font-medium">Plan</th>
+            <th className="px-3 py-2 w-8" />
+          </tr>
+        </thead>
+        <tbody>
+          {plan.map((item) => {
+            const key = manifestKey(item.manifest);
+            const result = results[key];
+            const message = result?.status === 'failed' ? result.message : item.error;
+            const badge = ACTION_BADGES[item.action];
+            return (
+              <tr key={key} className="border-t align-top" data-testid="import-plan-row">
+                <td className="px-3 py-2">{item.manifest.kind}</td>
+                <td className="px-3 py-2 font-mono text-xs">
+                  {item.manifest.metadata.name}
+                  {message && <p className="mt-1 font-sans text-destructive break-all">{message}</p>}
+                </td>
+                <td className="px-3 py-2 text-muted-foreground">{item.manifest.metadata.namespace}</td>
+                <td className="px-3 py-2">
+                  <Badge variant="outline" className={cn('text-[10px]', badge.className)}>{badge.label}</Badge>
+                </td>
+                <td className="px-3 py-2">
+                  <ResultIcon item={item} result={result} applying={applying && !result} />
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </ScrollArea>
+  );
+}
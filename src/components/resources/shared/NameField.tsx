@@ -8,7 +8,7 @@ interface NameFieldProps {
   register: UseFormRegister<FieldValues>;
   errors: FieldErrors;
   placeholder?: string;
-  validateUniqueName?: (name: string) => string | true;
+  validateUniqueName?: (name: string) => string | true | Promise<string | true>;
 }
 
 export function NameField({
@@ -0,0 +1,49 @@
+import { AlertTriangle } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useKubernetesConnection } from '@/contexts/KubernetesConnectionContext';
+
+interface TargetNamespaceFieldProps {
+  value: string;
+  onChange: (namespace: string) => void;
+  // References that won't resolve if the copy lands in another namespace
+  unresolvedReferences?: string[];
+}
+
+/**
+ * Namespace picker for duplicated resources, defaulting to the current namespace.
+ */
+export function TargetNamespaceField({ value, onChange, unresolvedReferences = [] }: TargetNamespaceFieldProps) {
+  const { namespace, namespaces } = useKubernetesConnection();
+  const options = namespaces.includes(namespace) ? namespaces : [namespace, ...namespaces];
+
+  return (
+    <div className="space-y-2">
+      <Label>Target Namespace</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="font-mono" data-testid="duplicate-namespace">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((ns) => (
+            <SelectItem key={ns} value={ns}>
+              {ns}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {value !== namespace && unresolvedReferences.length > 0 && (
+        <p className="flex items-start gap-1.5 text-xs text-amber-600">
+          <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+          {unresolvedReferences.join(', ')} must exist in "{value}" for the copy to become ready
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import { k8sClient } from '@/lib/kubernetes-client';
+import type { ExistingNames } from '@/lib/duplicate';
+
+/**
+ * Names of the KAOS resources in a namespace. The store only holds the
+ * current namespace, so duplicates into another one are checked against this.
+ */
+export async function fetchExistingNames(namespace: string): Promise<ExistingNames> {
+  const [modelAPIs, mcpServers, agents] = await Promise.all([
+    k8sClient.listModelAPIs(namespace),
+    k8sClient.listMCPServers(namespace),
+    k8sClient.listAgents(namespace),
+  ]);
+  const names = (items: { metadata: { name: string } }[]) => items.map((item) => item.metadata.name);
+  return { ModelAPI: names(modelAPIs), MCPServer: names(mcpServers), Agent: names(agents) };
+}
@@ -0,0 +1,307 @@
+import { useEffect, useState } from 'react';
+import { KeyRound, Loader2, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useKubernetesConnection } from '@/contexts/KubernetesConnectionContext';
+import { k8sClient, parseKubeconfigUser, type K8sAuthConfig } from '@/lib/kubernetes-client';
+import { getRememberCredentials, setRememberCredentials } from '@/lib/connection-profiles';
+
+type AuthMethod = 'none' | 'token' | 'kubeconfig' | 'oidc';
+
+interface AuthForm {
+  method: AuthMethod;
+  token: string;
+  kubeconfig: string;
+  kubeconfigUser: string;
+  issuerUrl: string;
+  clientId: string;
+  clientSecret: string;
+  refreshToken: string;
+  idToken: string;
+}
+
+const EMPTY_FORM: AuthForm = {
+  method: 'none',
+  token: '',
+  kubeconfig: '',
+  kubeconfigUser: '',
+  issuerUrl: '',
+  clientId: '',
+  clientSecret: '',
+  refreshToken: '',
+  idToken: '',
+};
+
+const METHOD_LABELS: Record<AuthMethod, string> = {
+  none: 'None (kubectl proxy)',
+  token: 'Bearer token',
+  kubeconfig: 'Kubeconfig user entry',
+  oidc: 'OIDC (refresh token)',
+};
+
+function formFromAuth(auth: K8sAuthConfig | undefined): AuthForm {
+  if (!auth) return EMPTY_FORM;
+  switch (auth.type) {
+    case 'token':
+      return { ...EMPTY_FORM, method: 'token', token: auth.token };
+    case 'kubeconfig':
+      // The original YAML isn't kept; show the extracted token as a static one
+      return { ...EMPTY_FORM, method: 'token', token: auth.token };
+    case 'oidc':
+      return {
+        ...EMPTY_FORM,
+        method: 'oidc',
+        issuerUrl: auth.issuerUrl,
+        clientId: auth.clientId,
+        clientSecret: auth.clientSecret || '',
+        refreshToken: auth.refreshToken,
+        idToken: auth.idToken,
+      };
+  }
+}
+
+function authFromForm(form: AuthForm): K8sAuthConfig | undefined {
+  switch (form.method) {
+    case 'none':
+      return undefined;
+    case 'token':
+      if (!form.token.trim()) throw new Error('Token is required');
+      return { type: 'token', token: form.token.trim().replace(/^Bearer\s+/i, '') };
+    case 'kubeconfig':
+      if (!form.kubeconfig.trim()) throw new Error('Paste a kubeconfig user entry');
+      return parseKubeconfigUser(form.kubeconfig, form.kubeconfigUser.trim() || undefined);
+    case 'oidc':
+      if (!/^https?:\/\//.test(form.issuerUrl.trim())) throw new Error('Issuer URL must be an http(s) URL');
+      if (!form.clientId.trim()) throw new Error('Client ID is required');
+      if (!form.refreshToken.trim()) throw new Error('Refresh token is required');
+      return {
+        type: 'oidc',
+        issuerUrl: form.issuerUrl.trim(),
+        clientId: form.clientId.trim(),
+        clientSecret: form.clientSecret.trim() || undefined,
+        refreshToken: form.refreshToken.trim(),
+        idToken: form.idToken.trim(),
+      };
+  }
+}
+
+export function AuthenticationSettings() {
+  const { toast } = useToast();
+  const { connected, baseUrl, activeProfileId, setAuth, connecting } = useKubernetesConnection();
+  const [form, setForm] = useState<AuthForm>(() => formFromAuth(k8sClient.getConfig().auth));
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [remember, setRemember] = useState(getRememberCredentials);
+
+  // Reload when switching clusters or after a token refresh reconnect
+  useEffect(() => {
+    setForm(formFromAuth(k8sClient.getConfig().auth));
+    setError(null);
+  }, [baseUrl, activeProfileId, connected]);
+
+  const update = (field: keyof AuthForm, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleApply = async () => {
+    let auth: K8sAuthConfig | undefined;
+    try {
+      auth = authFromForm(form);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      return;
+    }
+    setError(null);
+    setSaving(true);
+    const success = await setAuth(auth);
+    setSaving(false);
+    toast({
+      title: success ? 'Credentials updated' : 'Connection failed',
+      description: success
+        ? `Connected using ${METHOD_LABELS[form.method].toLowerCase()}`
+        : 'The cluster did not accept the new credentials',
+      variant: success ? 'default' : 'destructive',
+    });
+  };
+
+  const handleRememberChange = (checked: boolean) => {
+    setRememberCredentials(checked);
+    setRemember(checked);
+  };
+
+  const currentAuth = k8sClient.getConfig().auth;
+
+  return (
+    <Card data-testid="auth-settings">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5 text-muted-foreground" />
+          Authentication
+        </CardTitle>
+        <CardDescription>
+          Credentials sent to the API server. Needed when connecting directly instead of through kubectl proxy.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground">Current:</span>
+          {currentAuth ? (
+            <Badge variant="secondary" className="gap-1">
+              <ShieldCheck className="h-3 w-3" />
+              {METHOD_LABELS[currentAuth.type]}
+              {currentAuth.type === 'kubeconfig' && ` (${currentAuth.user})`}
+            </Badge>
+          ) : (
+            <Badge variant="outline">None</Badge>
+          )}
+          {activeProfileId && <span className="text-xs text-muted-foreground">Saved with the active profile</span>}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Method</Label>
+          <Select value={form.method} onValueChange={(value) => update('method', value)}>
+            <SelectTrigger data-testid="auth-method">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(METHOD_LABELS) as AuthMethod[]).map((method) => (
+                <SelectItem key={method} value={method}>
+                  {METHOD_LABELS[method]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {form.method === 'token' && (
+          <div className="space-y-2">
+            <Label htmlFor="auth-token">Bearer Token</Label>
+            <Input
+              id="auth-token"
+              type="password"
+              placeholder="eyJhbGciOi..."
+              value={form.token}
+              onChange={(e) => update('token', e.target.value)}
+              className="font-mono"
+            />
+            <p className="text-xs text-muted-foreground">
+              e.g. from <code className="bg-muted px-1 py-0.5 rounded">kubectl create token &lt;serviceaccount&gt;</code>
+            </p>
+          </div>
+        )}
+
+        {form.method === 'kubeconfig' && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="auth-kubeconfig">Kubeconfig User Entry</Label>
+              <Textarea
+                id="auth-kubeconfig"
+                placeholder={'- name: admin\n  user:\n    token: eyJhbGciOi...'}
+                value={form.kubeconfig}
+                onChange={(e) => update('kubeconfig', e.target.value)}
+                className="font-mono text-xs min-h-[140px]"
+              />
+              <p className="text-xs text-muted-foreground">
+                Token and OIDC auth-provider users are supported. Client certificates and exec plugins are not available in the browser.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="auth-kubeconfig-user">User Name (optional)</Label>
+              <Input
+                id="auth-kubeconfig-user"
+                placeholder="First user in the list"
+                value={form.kubeconfigUser}
+                onChange={(e) => update('kubeconfigUser', e.target.value)}
+              />
+            </div>
+          </>
+        )}
+
+        {form.method === 'oidc' && (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="auth-oidc-issuer">Issuer URL</Label>
+              <Input
+                id="auth-oidc-issuer"
+                placeholder="https://accounts.example.com"
+                value={form.issuerUrl}
+                onChange={(e) => update('issuerUrl', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="auth-oidc-client-id">Client ID</Label>
+              <Input
+                id="auth-oidc-client-id"
+                value={form.clientId}
+                onChange={(e) => update('clientId', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="auth-oidc-client-secret">Client Secret (optional)</Label>
+              <Input
+                id="auth-oidc-client-secret"
+                type="password"
+                value={form.clientSecret}
+                onChange={(e) => update('clientSecret', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="auth-oidc-refresh">Refresh Token</Label>
+              <Input
+                id="auth-oidc-refresh"
+                type="password"
+                value={form.refreshToken}
+                onChange={(e) => update('refreshToken', e.target.value)}
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="auth-oidc-id-token">ID Token (optional)</Label>
+              <Input
+                id="auth-oidc-id-token"
+                type="password"
+                placeholder="Fetched with the refresh token when empty or expired"
+                value={form.idToken}
+                onChange={(e) => update('idToken', e.target.value)}
+                className="font-mono"
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-start justify-between gap-4 rounded-md border p-3">
+          <div className="space-y-1">
+            <Label htmlFor="auth-remember">Remember credentials on this device</Label>
+            <p className="text-xs text-muted-foreground">
+              {remember
+                ? 'Tokens are saved in this browser\'s local storage, unencrypted, until you turn this off.'
+                : 'Tokens are kept for this browser session only and must be re-entered after closing it.'}
+            </p>
+          </div>
+          <Switch
+            id="auth-remember"
+            checked={remember}
+            onCheckedChange={handleRememberChange}
+            data-testid="auth-remember"
+          />
+        </div>
+
+        {error && (
+          <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">{error}</div>
+        )}
+
+        <Button onClick={handleApply} disabled={saving || connecting || !baseUrl} data-testid="auth-apply">
+          {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Apply &amp; Reconnect
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
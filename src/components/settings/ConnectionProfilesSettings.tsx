@@ -0,0 +1,384 @@
+import { useRef, useState } from 'react';
+import { Plus, Pencil, Trash2, Download, Upload, Plug, KeyRound, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useKubernetesConnection } from '@/contexts/KubernetesConnectionContext';
+import {
+  createProfile,
+  exportProfiles,
+  parseProfilesImport,
+  normalizeBaseUrl,
+  PROFILE_COLORS,
+  DEFAULT_SYSTEM_NAMESPACE,
+  type ConnectionProfile,
+  type ProfileColor,
+} from '@/lib/connection-profiles';
+import { cn } from '@/lib/utils';
+
+type ProfileDraft = Omit<ConnectionProfile, 'id'> & { id?: string };
+
+const EMPTY_DRAFT: ProfileDraft = {
+  name: '',
+  baseUrl: 'http://localhost:8010',
+  namespace: 'default',
+  systemNamespace: DEFAULT_SYSTEM_NAMESPACE,
+  authHeader: '',
+  color: 'blue',
+};
+
+function ProfileFormDialog({
+  draft,
+  onClose,
+  onSave,
+}: {
+  draft: ProfileDraft | null;
+  onClose: () => void;
+  onSave: (draft: ProfileDraft) => void;
+}) {
+  const [form, setForm] = useState<ProfileDraft>(draft || EMPTY_DRAFT);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (field: keyof ProfileDraft, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = () => {
+    if (!form.name.trim()) {
+      setError('Profile name is required');
+      return;
+    }
+    if (!/^https?:\/\//.test(form.baseUrl.trim())) {
+      setError('URL must start with http:// or https://');
+      return;
+    }
+    onSave(form);
+  };
+
+  return (
+    <Dialog open={!!draft} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{form.id ? 'Edit Profile' : 'New Connection Profile'}</DialogTitle>
+          <DialogDescription>
+            Save a named cluster connection to switch to it from the header.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="profile-name">Name</Label>
+            <Input
+              id="profile-name"
+              placeholder="staging"
+              value={form.name}
+              onChange={(e) => update('name', e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="profile-url">Kubernetes API URL</Label>
+            <Input
+              id="profile-url"
+              placeholder="http://localhost:8010"
+              value={form.baseUrl}
+              onChange={(e) => update('baseUrl', e.target.value)}
+              className="font-mono"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="profile-namespace">Default Namespace</Label>
+              <Input
+                id="profile-namespace"
+                value={form.namespace}
+                onChange={(e) => update('namespace', e.target.value)}
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="profile-system-namespace">KAOS System Namespace</Label>
+              <Input
+                id="profile-system-namespace"
+                value={form.systemNamespace}
+                onChange={(e) => update('systemNamespace', e.target.value)}
+                className="font-mono"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="profile-auth">Authorization Header (optional)</Label>
+            <Input
+              id="profile-auth"
+              type="password"
+              placeholder="Bearer eyJhbGciOi..."
+              value={form.authHeader || ''}
+              onChange={(e) => update('authHeader', e.target.value)}
+              className="font-mono"
+            />
+            <p className="text-xs text-muted-foreground">
+              Sent as the <code className="bg-muted px-1 py-0.5 rounded">Authorization</code> header on every request.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label>Color</Label>
+            <div className="flex gap-2">
+              {(Object.keys(PROFILE_COLORS) as ProfileColor[]).map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => update('color', color)}
+                  className={cn(
+                    'h-6 w-6 rounded-full border-2 transition-all',
+                    PROFILE_COLORS[color],
+                    form.color === color ? 'border-foreground scale-110' : 'border-transparent'
+                  )}
+                  aria-label={color}
+                />
+              ))}
+            </div>
+          </div>
+          {error && (
+            <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">{error}</div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave}>
+            <Save className="h-4 w-4 mr-2" />
+            Save Profile
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function ConnectionProfilesSettings() {
+  const { toast } = useToast();
+  const {
+    profiles, activeProfileId, connected, baseUrl, namespace,
+    saveProfile, deleteProfile, importProfiles, switchProfile,
+  } = useKubernetesConnection();
+
+  const [draft, setDraft] = useState<ProfileDraft | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const [importText, setImportText] = useState('');
+  const [includeAuth, setIncludeAuth] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = (form: ProfileDraft) => {
+    const profile: ConnectionProfile = form.id
+      ? { ...form, id: form.id, name: form.name.trim(), baseUrl: normalizeBaseUrl(form.baseUrl), authHeader: form.authHeader || undefined }
+      : createProfile(form);
+    saveProfile(profile);
+    setDraft(null);
+    toast({ title: 'Profile saved', description: `"${profile.name}" is available in the cluster switcher.` });
+  };
+
+  const handleSaveCurrent = () => {
+    setDraft({ ...EMPTY_DRAFT, name: '', baseUrl, namespace });
+  };
+
+  const handleConnect = async (profile: ConnectionProfile) => {
+    const success = await switchProfile(profile.id);
+    toast(success
+      ? { title: 'Connected', description: `Switched to "${profile.name}"` }
+      : { title: 'Connection Failed', description: `Unable to connect to ${profile.baseUrl}`, variant: 'destructive' });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportProfiles(profiles, includeAuth)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'kaos-connection-profiles.json';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = (text: string) => {
+    try {
+      const imported = parseProfilesImport(text);
+      importProfiles(imported);
+      setImportOpen(false);
+      setImportText('');
+      toast({ title: 'Profiles imported', description: `${imported.length} profile(s) imported` });
+    } catch (error) {
+      toast({
+        title: 'Import failed',
+        description: error instanceof Error ? error.message : 'Invalid profiles file',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleFileSelected = async (file: File | undefined) => {
+    if (!file) return;
+    setImportText(await file.text());
+    setImportOpen(true);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  return (
+    <div className="space-y-6 max-w-2xl">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle>Connection Profiles</CardTitle>
+              <CardDescription>
+                Named clusters you can switch between from the header
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              {connected && (
+                <Button variant="outline" size="sm" onClick={handleSaveCurrent}>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save Current
+                </Button>
+              )}
+              <Button size="sm" onClick={() => setDraft(EMPTY_DRAFT)} data-testid="add-profile-button">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Profile
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {profiles.length === 0 && (
+            <p className="text-sm text-muted-foreground py-4 text-center">
+              No profiles yet. Add one for each cluster you work with.
+            </p>
+          )}
+          {profiles.map((profile) => {
+            const isActive = profile.id === activeProfileId;
+            return (
+              <div
+                key={profile.id}
+                className={cn(
+                  'flex items-center gap-3 p-3 rounded-lg border',
+                  isActive ? 'border-primary bg-primary/5' : 'border-border'
+                )}
+                data-testid={`profile-row-${profile.name}`}
+              >
+                <span className={cn('h-3 w-3 rounded-full shrink-0', PROFILE_COLORS[profile.color])} />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-sm">{profile.name}</span>
+                    {isActive && <Badge variant="success" className="text-[10px]">Active</Badge>}
+                    {(profile.authHeader || profile.auth) && (
+                      <KeyRound className="h-3 w-3 text-muted-foreground" aria-label="Uses credentials" />
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground font-mono truncate">{profile.baseUrl}</div>
+                  <div className="text-xs text-muted-foreground">
+                    ns: <span className="font-mono">{profile.namespace}</span>
+                    {' · '}system: <span className="font-mono">{profile.systemNamespace}</span>
+                  </div>
+                </div>
+                <div className="flex gap-1">
+                  {!isActive && (
+                    <Button variant="ghost" size="sm" onClick={() => handleConnect(profile)} title="Connect">
+                      <Plug className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => setDraft(profile)} title="Edit">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteProfile(profile.id)}
+                    title="Delete"
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Share Profiles</CardTitle>
+          <CardDescription>
+            Export profiles as JSON to share with your team, or import a teammate's file
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Switch id="include-auth" checked={includeAuth} onCheckedChange={setIncludeAuth} />
+            <Label htmlFor="include-auth" className="text-sm">Include authorization headers in export</Label>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleExport} disabled={profiles.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              Export JSON
+            </Button>
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import File
+            </Button>
+            <Button variant="ghost" onClick={() => setImportOpen(true)}>
+              Paste JSON
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => handleFileSelected(e.target.files?.[0])}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {draft && (
+        <ProfileFormDialog
+          key={draft.id || 'new'}
+          draft={draft}
+          onClose={() => setDraft(null)}
+          onSave={handleSave}
+        />
+      )}
+
+      <Dialog open={importOpen} onOpenChange={setImportOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Import Profiles</DialogTitle>
+            <DialogDescription>
+              Profiles with the same name as an existing profile will be updated.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={importText}
+            onChange={(e) => setImportText(e.target.value)}
+            placeholder='{ "version": 1, "profiles": [...] }'
+            className="font-mono text-xs min-h-[200px]"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setImportOpen(false)}>Cancel</Button>
+            <Button onClick={() => handleImport(importText)} disabled={!importText.trim()}>
+              Import
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
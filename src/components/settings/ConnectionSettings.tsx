@@ -8,6 +8,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Loader2, CheckCircle, XCircle, RefreshCw, Wifi, WifiOff } from 'lucide-react';
 import { k8sClient } from '@/lib/kubernetes-client';
 import { useToast } from '@/hooks/use-toast';
+import { AuthenticationSettings } from './AuthenticationSettings';
+import { KubeconfigImport } from './KubeconfigImport';
 import { ConnectionDiagnostics } from './ConnectionDiagnostics';
 import { CRUDTestPanel } from './CRUDTestPanel';
 import { useKubernetesConnection } from '@/contexts/KubernetesConnectionContext';
@@ -258,6 +260,12 @@ export function ConnectionSettings() {
         </CardContent>
       </Card>
 
+      {/* Kubeconfig Import Card */}
+      <KubeconfigImport />
+
+      {/* Authentication Card */}
+      <AuthenticationSettings />
+
       {/* Diagnostics Card */}
       <ConnectionDiagnostics />
 
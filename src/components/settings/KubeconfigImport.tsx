@@ -0,0 +1,215 @@
+import { useRef, useState } from 'react';
+import { AlertTriangle, FileUp, Loader2, Plug, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useKubernetesConnection } from '@/contexts/KubernetesConnectionContext';
+import { parseKubeconfig, type KubeconfigContext, type ParsedKubeconfig } from '@/lib/kubeconfig';
+import { createProfile } from '@/lib/connection-profiles';
+
+const PROXY_URL = 'http://localhost:8010';
+
+function describeAuth(context: KubeconfigContext): string {
+  if (!context.auth) return 'No credentials';
+  switch (context.auth.type) {
+    case 'token':
+    case 'kubeconfig':
+      return 'Bearer token';
+    case 'oidc':
+      return 'OIDC';
+  }
+}
+
+export function KubeconfigImport() {
+  const { toast } = useToast();
+  const { connect, connecting, saveProfile, profiles } = useKubernetesConnection();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [text, setText] = useState('');
+  const [parsed, setParsed] = useState<ParsedKubeconfig | null>(null);
+  const [selectedName, setSelectedName] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = parsed?.contexts.find((c) => c.name === selectedName);
+
+  const handleParse = (yaml: string) => {
+    try {
+      const result = parseKubeconfig(yaml);
+      setParsed(result);
+      setSelectedName(
+        result.contexts.some((c) => c.name === result.currentContext)
+          ? result.currentContext!
+          : result.contexts[0].name
+      );
+      setError(null);
+    } catch (e) {
+      setParsed(null);
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleFileSelected = async (file: File | undefined) => {
+    if (!file) return;
+    const content = await file.text();
+    setText(content);
+    handleParse(content);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const saveConnection = (baseUrl: string, namespace: string) => {
+    localStorage.setItem('k8s-config', JSON.stringify({ baseUrl, namespace }));
+  };
+
+  const handleConnect = async () => {
+    if (!selected?.server) return;
+    const success = await connect(selected.server, selected.namespace, { auth: selected.auth });
+    if (success) saveConnection(selected.server, selected.namespace);
+    toast(success
+      ? { title: 'Connected', description: `Connected using context "${selected.name}"` }
+      : {
+          title: 'Connection Failed',
+          description: `Unable to reach ${selected.server}. The API server may not allow browser (CORS) requests; try kubectl proxy instead.`,
+          variant: 'destructive',
+        });
+  };
+
+  const handleConnectViaProxy = async () => {
+    if (!selected) return;
+    const success = await connect(PROXY_URL, selected.namespace, {});
+    if (success) saveConnection(PROXY_URL, selected.namespace);
+    toast(success
+      ? { title: 'Connected', description: `Connected via proxy at ${PROXY_URL}` }
+      : { title: 'Connection Failed', description: `No proxy is listening on ${PROXY_URL}`, variant: 'destructive' });
+  };
+
+  const handleSaveProfile = () => {
+    if (!selected?.server) return;
+    const existing = profiles.find((p) => p.name === selected.name);
+    saveProfile({
+      ...createProfile({
+        name: selected.name,
+        baseUrl: selected.server,
+        namespace: selected.namespace,
+        auth: selected.auth,
+      }),
+      ...(existing && { id: existing.id, color: existing.color, systemNamespace: existing.systemNamespace }),
+    });
+    toast({ title: 'Profile saved', description: `Saved context "${selected.name}" as a cluster profile` });
+  };
+
+  return (
+    <Card data-testid="kubeconfig-import">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>Import from Kubeconfig</CardTitle>
+            <CardDescription>
+              Paste or upload a kubeconfig and pick a context to connect to
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <FileUp className="h-4 w-4 mr-2" />
+            Upload
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".yaml,.yml,.conf,text/yaml,text/plain"
+            className="hidden"
+            onChange={(e) => handleFileSelected(e.target.files?.[0])}
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Textarea
+          placeholder={'apiVersion: v1\nkind: Config\nclusters:\n  ...'}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          className="font-mono text-xs min-h-[120px]"
+          data-testid="kubeconfig-text"
+        />
+        <Button variant="secondary" size="sm" onClick={() => handleParse(text)} disabled={!text.trim()}>
+          Parse
+        </Button>
+
+        {error && (
+          <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">{error}</div>
+        )}
+
+        {parsed && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Context</Label>
+              <Select value={selectedName} onValueChange={setSelectedName}>
+                <SelectTrigger data-testid="kubeconfig-context">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {parsed.contexts.map((context) => (
+                    <SelectItem key={context.name} value={context.name}>
+                      {context.name}
+                      {context.name === parsed.currentContext && ' (current)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {selected && (
+              <div className="rounded-md border p-3 space-y-1 text-sm">
+                <div className="flex justify-between gap-4">
+                  <span className="text-muted-foreground">Server</span>
+                  <span className="font-mono text-xs truncate">{selected.server || '—'}</span>
+                </div>
+                <div className="flex justify-between gap-4">
+                  <span className="text-muted-foreground">Namespace</span>
+                  <span>{selected.namespace}</span>
+                </div>
+                <div className="flex justify-between gap-4">
+                  <span className="text-muted-foreground">User</span>
+                  <span className="flex items-center gap-2">
+                    {selected.user || '—'}
+                    <Badge variant="secondary">{describeAuth(selected)}</Badge>
+                  </span>
+                </div>
+              </div>
+            )}
+
+            {selected?.unsupportedReason ? (
+              <div className="p-3 rounded-md bg-amber-500/10 border border-amber-500/20 space-y-2">
+                <div className="flex items-start gap-2 text-sm">
+                  <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5 shrink-0" />
+                  <span>{selected.unsupportedReason}</span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Run a local proxy that authenticates for you, then connect through it:{' '}
+                  <code className="bg-muted px-1 py-0.5 rounded">
+                    kubectl --context {selected.name} proxy --port=8010
+                  </code>
+                </p>
+                <Button size="sm" variant="outline" onClick={handleConnectViaProxy} disabled={connecting}>
+                  <Plug className="h-4 w-4 mr-2" />
+                  Connect via {PROXY_URL}
+                </Button>
+              </div>
+            ) : selected && (
+              <div className="flex gap-2">
+                <Button onClick={handleConnect} disabled={connecting} data-testid="kubeconfig-connect">
+                  {connecting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plug className="h-4 w-4 mr-2" />}
+                  Connect
+                </Button>
+                <Button variant="outline" onClick={handleSaveProfile}>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save as Profile
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
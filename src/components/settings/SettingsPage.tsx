@@ -1,10 +1,11 @@
 import { useState } from 'react';
-import { Settings, Wifi, Palette } from 'lucide-react';
+import { Settings, Wifi, Palette, Layers } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { ConnectionSettings } from './ConnectionSettings';
+import { ConnectionProfilesSettings } from './ConnectionProfilesSettings';
 import { AppearanceSettings } from './AppearanceSettings';
 
-type SettingsSection = 'connectivity' | 'appearance';
+type SettingsSection = 'connectivity' | 'profiles' | 'appearance';
 
 interface SettingsNavItem {
   id: SettingsSection;
@@ -20,6 +21,12 @@ const settingsNavItems: SettingsNavItem[] = [
     icon: Wifi,
     description: 'Kubernetes cluster connection settings'
   },
+  { 
+    id: 'profiles', 
+    label: 'Cluster Profiles', 
+    icon: Layers,
+    description: 'Saved clusters, import and export'
+  },
   { 
     id: 'appearance', 
     label: 'Appearance', 
@@ -35,6 +42,8 @@ export function SettingsPage() {
     switch (activeSection) {
       case 'connectivity':
         return <ConnectionSettings />;
+      case 'profiles':
+        return <ConnectionProfilesSettings />;
       case 'appearance':
         return <AppearanceSettings />;
       default:
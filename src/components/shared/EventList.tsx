@@ -0,0 +1,72 @@
+import { AlertTriangle, Info } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { KubeEvent } from '@/lib/kubernetes-client';
+import { getEventTime } from '@/lib/k8s/events';
+import { isWarningEvent } from '@/lib/resource-events';
+import { cn } from '@/lib/utils';
+
+interface EventListProps {
+  events: KubeEvent[];
+  // Show the kind/name of the object each event is about
+  showObject?: boolean;
+  emptyMessage?: string;
+}
+
+function formatAge(time: number): string {
+  if (!time) return '';
+  const diffMins = Math.floor((Date.now() - time) / 60000);
+  const diffHours = Math.floor(diffMins / 60);
+  const diffDays = Math.floor(diffHours / 24);
+
+  if (diffDays > 0) return `${diffDays}d ago`;
+  if (diffHours > 0) return `${diffHours}h ago`;
+  if (diffMins > 0) return `${diffMins}m ago`;
+  return 'just now';
+}
+
+export function EventList({ events, showObject = true, emptyMessage = 'No events' }: EventListProps) {
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-8">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="space-y-1" data-testid="event-list">
+      {events.map((event) => {
+        const warning = isWarningEvent(event);
+        const time = getEventTime(event);
+        return (
+          <div
+            key={event.metadata.uid ?? event.metadata.name}
+            className={cn(
+              'flex items-start gap-3 p-3 rounded-lg transition-colors',
+              warning ? 'bg-warning/10 hover:bg-warning/15' : 'hover:bg-muted/30'
+            )}
+            data-testid={warning ? 'event-warning' : 'event-normal'}
+          >
+            <div className={cn('mt-0.5', warning ? 'text-warning' : 'text-muted-foreground')}>
+              {warning ? <AlertTriangle className="h-4 w-4" /> : <Info className="h-4 w-4" />}
+            </div>
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className={cn('text-sm font-medium', warning && 'text-warning')}>{event.reason || event.type}</span>
+                {showObject && (
+                  <Badge variant="outline" className="text-[10px] px-1.5 py-0 font-mono">
+                    {event.involvedObject.kind}/{event.involvedObject.name}
+                  </Badge>
+                )}
+                {event.count > 1 && (
+                  <Badge variant="secondary" className="text-[10px] px-1.5 py-0">×{event.count}</Badge>
+                )}
+              </div>
+              {event.message && <p className="text-sm text-muted-foreground mt-1 break-words">{event.message}</p>}
+              <div className="flex items-center gap-2 mt-1 text-[10px] text-muted-foreground">
+                <span title={time ? new Date(time).toLocaleString() : undefined}>{formatAge(time)}</span>
+                {event.source && <span className="font-mono">{event.source}</span>}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
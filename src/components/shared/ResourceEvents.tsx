@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { AlertCircle, CalendarClock, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { EventList } from '@/components/shared/EventList';
+import { useResourceEvents } from '@/hooks/useEvents';
+import { isWarningEvent, type EventTargetKind } from '@/lib/resource-events';
+
+interface ResourceEventsProps {
+  kind: EventTargetKind;
+  namespace: string;
+  name: string;
+  active: boolean;
+}
+
+/**
+ * Kubernetes Events of a resource and, for KAOS resources, of its
+ * Deployment, ReplicaSets and Pods.
+ */
+export function ResourceEvents({ kind, namespace, name, active }: ResourceEventsProps) {
+  const { events, loading, error, refresh } = useResourceEvents(kind, namespace, name, active);
+  const [warningsOnly, setWarningsOnly] = useState(false);
+
+  const warnings = events.filter(isWarningEvent);
+  const visible = warningsOnly ? warnings : events;
+
+  return (
+    <Card>
+      <CardHeader className="py-3 border-b border-border">
+        <CardTitle className="text-sm font-medium flex items-center justify-between gap-4">
+          <span className="flex items-center gap-2">
+            <CalendarClock className="h-4 w-4" />
+            Events
+            <Badge variant="secondary" className="text-xs font-normal">{events.length}</Badge>
+            {warnings.length > 0 && (
+              <Badge variant="warning" className="text-xs font-normal">{warnings.length} warnings</Badge>
+            )}
+          </span>
+          <span className="flex items-center gap-3">
+            <span className="flex items-center gap-2">
+              <Switch id={`warnings-only-${name}`} checked={warningsOnly} onCheckedChange={setWarningsOnly} />
+              <Label htmlFor={`warnings-only-${name}`} className="text-xs font-normal">Warnings only</Label>
+            </span>
+            <Button variant="outline" size="sm" onClick={refresh} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-2">
+        {error ? (
+          <div className="flex items-center gap-2 p-4 text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            <span className="text-sm">{error}</span>
+          </div>
+        ) : (
+          <EventList
+            events={visible}
+            showObject={kind !== 'Pod'}
+            emptyMessage={loading && events.length === 0 ? 'Loading events...' : 'No recent events'}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
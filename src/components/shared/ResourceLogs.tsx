@@ -0,0 +1,165 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, Download, RefreshCw, ScrollText, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { LogFollowControls } from '@/components/kubernetes/LogFollowControls';
+import { useKubernetesStore } from '@/stores/kubernetesStore';
+import { useAggregatedLogs } from '@/hooks/useAggregatedLogs';
+import { findResourcePods, type PodOwnerKind } from '@/lib/resource-pods';
+import { shortPodName, sourceColor, sourceKey } from '@/lib/aggregated-logs';
+import { cn } from '@/lib/utils';
+
+interface ResourceLogsProps {
+  resourceType: PodOwnerKind;
+  namespace: string;
+  name: string;
+  active: boolean;
+}
+
+/**
+ * Logs of every pod and container of a KAOS resource in one timeline, with
+ * pods joining and leaving as the deployment rolls.
+ */
+export function ResourceLogs({ resourceType, namespace, name, active }: ResourceLogsProps) {
+  const { pods } = useKubernetesStore();
+  const resourcePods = useMemo(() => findResourcePods(pods, resourceType, name), [pods, resourceType, name]);
+  const [hidden, setHidden] = useState<Set<string>>(new Set());
+  const [filter, setFilter] = useState('');
+
+  const {
+    lines, dropped, sources,
+    tailLines, setTailLines,
+    paused, setPaused, polling,
+    scrollRef, reload, handleDownload,
+  } = useAggregatedLogs({ namespace, pods: resourcePods, active });
+
+  const multiContainer = resourcePods.some((pod) => pod.spec.containers.length > 1);
+  const needle = filter.toLowerCase();
+  const visible = lines.filter((line) =>
+    !hidden.has(sourceKey(line.source)) && (!needle || line.text.toLowerCase().includes(needle))
+  );
+  const streaming = sources.some((source) => source.status === 'live');
+
+  const toggleSource = (key: string) => {
+    setHidden((current) => {
+      const next = new Set(current);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 flex-wrap">
+        <div className="relative w-64">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Filter lines..."
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            className="pl-8 h-9"
+          />
+        </div>
+
+        <Select value={String(tailLines)} onValueChange={(v) => setTailLines(Number(v))}>
+          <SelectTrigger className="w-[120px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="50">Last 50</SelectItem>
+            <SelectItem value="100">Last 100</SelectItem>
+            <SelectItem value="500">Last 500</SelectItem>
+            <SelectItem value="1000">Last 1000</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <LogFollowControls
+          mode={paused ? 'paused' : polling ? 'polling' : streaming ? 'live' : 'connecting'}
+          paused={paused}
+          onPausedChange={setPaused}
+          dropped={dropped}
+        />
+
+        <Button variant="outline" size="sm" onClick={reload}>
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+
+        <Button variant="outline" size="sm" onClick={() => handleDownload(name, visible)} disabled={visible.length === 0}>
+          <Download className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {/* One chip per pod/container; click to hide its lines */}
+      <div className="flex items-center gap-2 flex-wrap" data-testid="log-sources">
+        {sources.map((state) => {
+          const key = sourceKey(state.source);
+          const isHidden = hidden.has(key);
+          return (
+            <Tooltip key={key}>
+              <TooltipTrigger asChild>
+                <button
+                  type="button"
+                  onClick={() => toggleSource(key)}
+                  className={cn(
+                    'flex items-center gap-1.5 rounded-full border px-2.5 py-0.5 text-xs font-mono transition-opacity',
+                    isHidden && 'opacity-40',
+                    state.status === 'left' && 'border-dashed'
+                  )}
+                >
+                  <span className={cn('h-2 w-2 rounded-full bg-current', sourceColor(state.source))} />
+                  {shortPodName(state.source.pod)}
+                  {multiContainer && <span className="text-muted-foreground">/{state.source.container}</span>}
+                  {state.error && <AlertCircle className="h-3 w-3 text-destructive" />}
+                </button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p className="font-mono">{key}</p>
+                <p>{state.status === 'left' ? 'Pod is gone' : state.status}{state.error ? `: ${state.error}` : ''}</p>
+              </TooltipContent>
+            </Tooltip>
+          );
+        })}
+      </div>
+
+      <Card className="border-border">
+        <CardHeader className="py-3 border-b border-border">
+          <CardTitle className="text-sm font-medium flex items-center justify-between">
+            <span className="flex items-center gap-2">
+              <ScrollText className="h-4 w-4" />
+              Logs from {resourcePods.length} pod{resourcePods.length !== 1 ? 's' : ''}
+            </span>
+            <Badge variant="secondary" className="text-xs font-normal">
+              {visible.length} lines
+            </Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <ScrollArea ref={scrollRef as React.RefObject<HTMLDivElement>} className="h-[calc(100vh-440px)] min-h-[300px] bg-muted/30">
+            <div className="p-4 space-y-0.5" data-testid="aggregated-logs">
+              {resourcePods.length === 0 && lines.length === 0 ? (
+                <p className="text-muted-foreground text-sm">No pods found for this {resourceType}</p>
+              ) : visible.length === 0 ? (
+                <p className="text-muted-foreground text-sm">{lines.length === 0 ? 'Waiting for logs...' : 'No lines match'}</p>
+              ) : (
+                visible.map((line, index) => (
+                  <div key={index} className="flex gap-2 font-mono text-xs">
+                    <span className={cn('shrink-0', sourceColor(line.source))}>
+                      {shortPodName(line.source.pod)}{multiContainer ? `/${line.source.container}` : ''}
+                    </span>
+                    <span className="whitespace-pre-wrap break-all text-foreground/80">{line.text}</span>
+                  </div>
+                ))
+              )}
+            </div>
+          </ScrollArea>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
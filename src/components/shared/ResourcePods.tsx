@@ -4,8 +4,11 @@ import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { PodUsageCell } from '@/components/shared/ResourceUsage';
+import { usePodMetrics } from '@/hooks/usePodMetrics';
 import { useKubernetesStore } from '@/stores/kubernetesStore';
 import { getPodStatusInfo } from '@/lib/status-utils';
+import { findResourcePods, POD_OWNER_LABELS } from '@/lib/resource-pods';
 import type { Agent, MCPServer, ModelAPI, Pod } from '@/types/kubernetes';
 import { Box, CheckCircle, AlertCircle, Clock, RefreshCw, XCircle, Cpu, Server, Eye } from 'lucide-react';
 import { cn } from '@/lib/utils';
@@ -94,8 +97,7 @@ const RESOURCE_CONFIG: Record<ResourceType, {
   serviceLabel: string;
 }> = {
   Agent: {
-    labelKey: 'agent',
-    prefix: 'agent-',
+    ...POD_OWNER_LABELS.Agent,
     routePrefix: 'agents',
     colorClass: 'text-agent',
     icon: <Box className="h-4 w-4 text-agent" />,
@@ -103,8 +105,7 @@ const RESOURCE_CONFIG: Record<ResourceType, {
     serviceLabel: 'agent',
   },
   MCPServer: {
-    labelKey: 'mcpserver',
-    prefix: 'mcpserver-',
+    ...POD_OWNER_LABELS.MCPServer,
     routePrefix: 'mcpservers',
     colorClass: 'text-mcpserver',
     icon: <Box className="h-4 w-4 text-mcpserver" />,
@@ -112,8 +113,7 @@ const RESOURCE_CONFIG: Record<ResourceType, {
     serviceLabel: 'MCP server',
   },
   ModelAPI: {
-    labelKey: 'modelapi',
-    prefix: 'modelapi-',
+    ...POD_OWNER_LABELS.ModelAPI,
     routePrefix: 'modelapis',
     colorClass: 'text-modelapi',
     icon: <Box className="h-4 w-4 text-modelapi" />,
@@ -157,20 +157,11 @@ function getSecondaryCardContent(resourceType: ResourceType, resource: Agent | M
 export function ResourcePods({ resourceType, resource, namespace, name }: ResourcePodsProps) {
   const navigate = useNavigate();
   const { pods, deployments, services } = useKubernetesStore();
+  const { series: metrics } = usePodMetrics(namespace);
   const config = RESOURCE_CONFIG[resourceType];
 
   // Find pods for this resource
-  const resourcePods = pods.filter(pod => {
-    const labels = pod.metadata.labels || {};
-    const podName = pod.metadata.name.toLowerCase();
-    const resourceNameLower = name.toLowerCase();
-
-    return (
-      podName.includes(`${config.prefix}${resourceNameLower}`) ||
-      labels[config.labelKey] === name ||
-      labels['app.kubernetes.io/name'] === `${config.prefix}${name}`
-    );
-  });
+  const resourcePods = findResourcePods(pods, resourceType, name);
 
   // Calculate stats
   const totalPods = resourcePods.length;
@@ -328,6 +319,7 @@ export function ResourcePods({ resourceType, resource, namespace, name }: Resour
                     <TableHead>Status</TableHead>
                     <TableHead>Ready</TableHead>
                     <TableHead>Restarts</TableHead>
+                    <TableHead>CPU / Memory</TableHead>
                     <TableHead>Age</TableHead>
                     <TableHead>Host IP</TableHead>
                     <TableHead className="w-10"></TableHead>
@@ -380,6 +372,9 @@ export function ResourcePods({ resourceType, resource, namespace, name }: Resour
                             {restarts}
                           </span>
                         </TableCell>
+                        <TableCell>
+                          <PodUsageCell pod={pod} containers={metrics[pod.metadata.name]} />
+                        </TableCell>
                         <TableCell className="text-muted-foreground">
                           {getAge(pod.metadata.creationTimestamp)}
                         </TableCell>
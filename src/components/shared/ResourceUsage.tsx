@@ -0,0 +1,191 @@
+import { Cpu, Gauge, MemoryStick } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Sparkline } from '@/components/shared/Sparkline';
+import { usePodMetrics } from '@/hooks/usePodMetrics';
+import { useKubernetesStore } from '@/stores/kubernetesStore';
+import { findResourcePods, type PodOwnerKind } from '@/lib/resource-pods';
+import {
+  formatCpu,
+  formatMemory,
+  getContainerResources,
+  getPodResources,
+  sumContainerSeries,
+  type ContainerResources,
+  type MetricsSample,
+} from '@/lib/k8s/metrics';
+import { cn } from '@/lib/utils';
+import type { Pod } from '@/types/kubernetes';
+
+type Metric = 'cpu' | 'memory';
+
+// Usage above this share of the limit is flagged
+const NEAR_LIMIT_RATIO = 0.9;
+
+const METRIC_CONFIG: Record<Metric, { label: string; icon: typeof Cpu; format: (value: number) => string; request: keyof ContainerResources; limit: keyof ContainerResources }> = {
+  cpu: { label: 'CPU', icon: Cpu, format: formatCpu, request: 'cpuRequest', limit: 'cpuLimit' },
+  memory: { label: 'Memory', icon: MemoryStick, format: formatMemory, request: 'memoryRequest', limit: 'memoryLimit' },
+};
+
+interface UsageMeterProps {
+  metric: Metric;
+  samples: MetricsSample[];
+  resources: ContainerResources;
+  compact?: boolean;
+}
+
+function UsageMeter({ metric, samples, resources, compact }: UsageMeterProps) {
+  const config = METRIC_CONFIG[metric];
+  const values = samples.map((sample) => sample[metric]);
+  const current = values[values.length - 1];
+  const request = resources[config.request];
+  const limit = resources[config.limit];
+  const nearLimit = current !== undefined && limit !== undefined && current >= limit * NEAR_LIMIT_RATIO;
+
+  const summary = current === undefined
+    ? 'No data yet'
+    : `${config.format(current)}${limit !== undefined ? ` / ${config.format(limit)}` : request !== undefined ? ` (req ${config.format(request)})` : ''}`;
+
+  if (compact) {
+    return (
+      <div className="flex items-center gap-2" title={`${config.label}: ${summary}`}>
+        <Sparkline values={values} request={request} limit={limit} width={60} height={18} className={nearLimit ? 'text-destructive' : 'text-primary'} />
+        <span className={cn('text-xs font-mono', nearLimit && 'text-destructive')}>{current === undefined ? '-' : config.format(current)}</span>
+      </div>
+    );
+  }
+
+  const Icon = config.icon;
+  return (
+    <div className="space-y-1" data-testid={`usage-${metric}`}>
+      <div className="flex items-center justify-between text-xs">
+        <span className="flex items-center gap-1 text-muted-foreground">
+          <Icon className="h-3 w-3" />
+          {config.label}
+        </span>
+        <span className={cn('font-mono', nearLimit && 'text-destructive font-medium')}>{summary}</span>
+      </div>
+      <Sparkline values={values} request={request} limit={limit} width={240} height={32} className={cn('w-full', nearLimit ? 'text-destructive' : 'text-primary')} />
+      {nearLimit && (
+        <p className="text-[10px] text-destructive">
+          {metric === 'memory' ? 'Close to the memory limit; the container may be OOMKilled' : 'CPU is being throttled at the limit'}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function MetricsUnavailable({ available, error }: { available: boolean | null; error: string | null }) {
+  return (
+    <p className="text-sm text-muted-foreground">
+      {available === false
+        ? 'Metrics unavailable: metrics-server is not installed in this cluster'
+        : error ?? 'Waiting for metrics...'}
+    </p>
+  );
+}
+
+/**
+ * CPU and memory sparklines per container of a pod against its requests and limits.
+ */
+export function PodResourceUsage({ pod, className }: { pod: Pod; className?: string }) {
+  const { series, available, error } = usePodMetrics(pod.metadata.namespace);
+  const containers = series[pod.metadata.name];
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Gauge className="h-4 w-4" />
+          Resource Usage
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!containers ? (
+          <MetricsUnavailable available={available} error={error} />
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2">
+            {pod.spec.containers.map((container) => {
+              const resources = getContainerResources(pod, container.name);
+              const samples = containers[container.name] ?? [];
+              return (
+                <div key={container.name} className="space-y-3">
+                  {pod.spec.containers.length > 1 && <p className="text-sm font-medium text-muted-foreground">{container.name}</p>}
+                  <UsageMeter metric="cpu" samples={samples} resources={resources} />
+                  <UsageMeter metric="memory" samples={samples} resources={resources} />
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Compact CPU and memory sparklines of a whole pod, for tables.
+ */
+export function PodUsageCell({ pod, containers }: { pod: Pod; containers?: Record<string, MetricsSample[]> }) {
+  if (!containers) return <span className="text-xs text-muted-foreground">-</span>;
+  const samples = sumContainerSeries(containers);
+  const resources = getPodResources(pod);
+  return (
+    <div className="space-y-1">
+      <UsageMeter metric="cpu" samples={samples} resources={resources} compact />
+      <UsageMeter metric="memory" samples={samples} resources={resources} compact />
+    </div>
+  );
+}
+
+interface ResourceUsageCardProps {
+  resourceType: PodOwnerKind;
+  namespace: string;
+  name: string;
+  className?: string;
+}
+
+/**
+ * CPU and memory of every pod of a KAOS resource.
+ */
+export function ResourceUsageCard({ resourceType, namespace, name, className }: ResourceUsageCardProps) {
+  const { pods } = useKubernetesStore();
+  const { series, available, error } = usePodMetrics(namespace);
+  const resourcePods = findResourcePods(pods, resourceType, name);
+  const measured = resourcePods.filter((pod) => series[pod.metadata.name]);
+
+  return (
+    <Card className={className} data-testid="resource-usage">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Gauge className="h-4 w-4 text-primary" />
+          Resource Usage
+          {resourcePods.length > 1 && (
+            <Badge variant="outline" className="text-xs font-normal">{resourcePods.length} pods</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {resourcePods.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No pods running</p>
+        ) : measured.length === 0 ? (
+          <MetricsUnavailable available={available} error={error} />
+        ) : (
+          measured.map((pod) => {
+            const samples = sumContainerSeries(series[pod.metadata.name]);
+            const resources = getPodResources(pod);
+            return (
+              <div key={pod.metadata.name} className="space-y-2">
+                {resourcePods.length > 1 && <p className="text-xs font-mono text-muted-foreground">{pod.metadata.name}</p>}
+                <div className="grid gap-4 md:grid-cols-2">
+                  <UsageMeter metric="cpu" samples={samples} resources={resources} />
+                  <UsageMeter metric="memory" samples={samples} resources={resources} />
+                </div>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
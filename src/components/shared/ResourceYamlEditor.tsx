@@ -0,0 +1,334 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle2, GitCompare, Loader2, Pencil, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { useConflictAwareUpdate } from '@/hooks/useConflictAwareUpdate';
+import { ConflictResolutionDialog } from '@/components/resources/shared/ConflictResolutionDialog';
+import { parseYamlText, stringifyYaml } from '@/lib/yaml';
+import { diffLines } from '@/lib/text-diff';
+import { validateKaosResource, type KaosResourceKind, type ValidationIssue } from '@/lib/resource-validation';
+import { cn } from '@/lib/utils';
+import { YamlViewer } from './YamlViewer';
+import { highlightYaml } from './yamlHighlight';
+
+interface KaosResource {
+  apiVersion: string;
+  kind: string;
+  metadata: {
+    name: string;
+    namespace?: string;
+    resourceVersion?: string;
+    labels?: Record<string, string>;
+    annotations?: Record<string, string>;
+  };
+  spec?: unknown;
+}
+
+interface ResourceYamlEditorProps<T extends KaosResource> {
+  kind: KaosResourceKind;
+  resource: T;
+  update: (item: T, original?: T) => Promise<T>;
+  getLatest: (name: string, namespace?: string) => Promise<T>;
+  title?: string;
+  maxHeight?: string;
+}
+
+type EditedDocument = Pick<KaosResource, 'metadata' | 'spec'>;
+
+// Only the fields a user can change are editable; status and server-managed metadata stay read-only
+function toEditableYaml(resource: EditedDocument & Partial<KaosResource>): string {
+  return stringifyYaml({
+    apiVersion: resource.apiVersion,
+    kind: resource.kind,
+    metadata: {
+      name: resource.metadata.name,
+      namespace: resource.metadata.namespace,
+      labels: resource.metadata.labels,
+      annotations: resource.metadata.annotations,
+    },
+    spec: resource.spec,
+  });
+}
+
+interface ParseResult {
+  doc: EditedDocument | null;
+  parseError: string | null;
+  issues: ValidationIssue[];
+}
+
+function parseEdit(kind: KaosResourceKind, text: string, live: KaosResource): ParseResult {
+  let doc: unknown;
+  try {
+    doc = parseYamlText(text);
+  } catch (error) {
+    return { doc: null, parseError: error instanceof Error ? error.message : String(error), issues: [] };
+  }
+
+  const issues = validateKaosResource(kind, doc);
+  if (issues.length > 0) return { doc: null, parseError: null, issues };
+
+  const edited = doc as EditedDocument;
+  if (edited.metadata.name !== live.metadata.name) {
+    issues.push({ path: 'metadata.name', message: 'cannot be changed; create a new resource instead' });
+  }
+  if ((edited.metadata.namespace ?? live.metadata.namespace) !== live.metadata.namespace) {
+    issues.push({ path: 'metadata.namespace', message: 'cannot be changed' });
+  }
+  return { doc: issues.length > 0 ? null : edited, parseError: null, issues };
+}
+
+function YamlCodeEditor({ value, onChange, height }: { value: string; onChange: (value: string) => void; height: string }) {
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const highlighted = useMemo(() => highlightYaml(value), [value]);
+
+  const handleScroll = (event: React.UIEvent<HTMLTextAreaElement>) => {
+    if (!highlightRef.current) return;
+    highlightRef.current.scrollTop = event.currentTarget.scrollTop;
+    highlightRef.current.scrollLeft = event.currentTarget.scrollLeft;
+  };
+
+  // Indent with spaces instead of moving focus; YAML does not allow tabs
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key !== 'Tab' || event.shiftKey) return;
+    event.preventDefault();
+    const target = event.currentTarget;
+    const { selectionStart, selectionEnd } = target;
+    onChange(value.slice(0, selectionStart) + '  ' + value.slice(selectionEnd));
+    requestAnimationFrame(() => target.setSelectionRange(selectionStart + 2, selectionStart + 2));
+  };
+
+  const sharedClass = 'absolute inset-0 m-0 p-4 text-xs leading-5 font-mono whitespace-pre overflow-auto';
+
+  return (
+    <div className="relative rounded-lg border bg-muted/30" style={{ height }}>
+      <pre ref={highlightRef} aria-hidden className={cn(sharedClass, 'pointer-events-none [&>div]:min-h-5')}>
+        {highlighted}
+      </pre>
+      <textarea
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        onScroll={handleScroll}
+        onKeyDown={handleKeyDown}
+        spellCheck={false}
+        wrap="off"
+        className={cn(sharedClass, 'w-full h-full resize-none bg-transparent text-transparent caret-foreground outline-none focus-visible:ring-1 focus-visible:ring-ring rounded-lg')}
+        data-testid="yaml-editor"
+      />
+    </div>
+  );
+}
+
+function DiffView({ before, after, height }: { before: string; after: string; height: string }) {
+  const lines = useMemo(() => diffLines(before, after), [before, after]);
+  const changed = lines.some((line) => line.type !== 'same');
+
+  return (
+    <ScrollArea className="rounded-lg border bg-muted/30" style={{ height, maxHeight: height }}>
+      {changed ? (
+        <pre className="py-4 text-xs leading-5 font-mono whitespace-pre">
+          {lines.map((line, index) => (
+            <div
+              key={index}
+              className={cn(
+                'px-4',
+                line.type === 'added' && 'bg-green-500/15 text-green-700 dark:text-green-400',
+                line.type === 'removed' && 'bg-red-500/15 text-red-700 dark:text-red-400'
+              )}
+            >
+              {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+              {line.text}
+            </div>
+          ))}
+        </pre>
+      ) : (
+        <p className="p-4 text-sm text-muted-foreground">No changes compared to the live object.</p>
+      )}
+    </ScrollArea>
+  );
+}
+
+/**
+ * YAML tab for KAOS resources: read-only view with an edit mode that
+ * validates against the CRD schema, previews the diff against the live
+ * object and applies through the same conflict-aware update as the edit dialogs.
+ */
+export function ResourceYamlEditor<T extends KaosResource>({
+  kind,
+  resource,
+  update,
+  getLatest,
+  title = 'YAML',
+  maxHeight = '500px',
+}: ResourceYamlEditorProps<T>) {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState(false);
+  const [showDiff, setShowDiff] = useState(false);
+  const [text, setText] = useState('');
+  const [applying, setApplying] = useState(false);
+  const { submit, conflict, resolving, keepMine, keepTheirs, dismissConflict } = useConflictAwareUpdate({
+    resource,
+    open: editing,
+    update,
+    getLatest,
+  });
+
+  const liveYaml = useMemo(() => toEditableYaml(resource), [resource]);
+  const { doc, parseError, issues } = useMemo(
+    () => (editing ? parseEdit(kind, text, resource) : { doc: null, parseError: null, issues: [] }),
+    [editing, kind, text, resource]
+  );
+  // Normalize through the serializer so formatting-only edits don't show up as changes
+  const editedYaml = useMemo(() => (doc ? toEditableYaml({ ...resource, ...doc }) : null), [doc, resource]);
+  const hasChanges = editedYaml !== null && editedYaml !== liveYaml;
+
+  const startEditing = () => {
+    setText(liveYaml);
+    setShowDiff(false);
+    setEditing(true);
+  };
+
+  const stopEditing = () => {
+    setEditing(false);
+    setShowDiff(false);
+  };
+
+  const handleApply = async () => {
+    if (!doc) return;
+    const edited: T = {
+      ...resource,
+      metadata: { ...resource.metadata, labels: doc.metadata.labels, annotations: doc.metadata.annotations },
+      spec: doc.spec,
+    };
+    setApplying(true);
+    try {
+      const saved = await submit(edited);
+      if (!saved) return;
+      toast({ title: `${kind} updated`, description: `Applied YAML changes to "${resource.metadata.name}"` });
+      stopEditing();
+    } catch (error) {
+      toast({
+        title: 'Apply failed',
+        description: error instanceof Error ? error.message : `Failed to update ${kind}`,
+        variant: 'destructive',
+      });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const handleKeepMine = async () => {
+    try {
+      await keepMine();
+      toast({
+        title: `${kind} updated`,
+        description: `Applied your changes on top of the latest version of "${resource.metadata.name}"`,
+      });
+      stopEditing();
+    } catch (error) {
+      toast({
+        title: 'Apply failed',
+        description: error instanceof Error ? error.message : `Failed to update ${kind}`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleKeepTheirs = () => {
+    keepTheirs();
+    toast({ title: 'Changes discarded', description: `Kept the cluster version of "${resource.metadata.name}"` });
+    stopEditing();
+  };
+
+  if (!editing) {
+    return (
+      <YamlViewer
+        resource={resource}
+        title={title}
+        maxHeight={maxHeight}
+        actions={
+          <Button variant="ghost" size="sm" onClick={startEditing} data-testid="yaml-edit-button">
+            <Pencil className="h-4 w-4 mr-1" />
+            Edit
+          </Button>
+        }
+      />
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Pencil className="h-4 w-4 text-muted-foreground" />
+            Editing {title}
+          </CardTitle>
+          <div className="flex items-center gap-1">
+            <Button
+              variant={showDiff ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setShowDiff(!showDiff)}
+              disabled={!doc}
+            >
+              <GitCompare className="h-4 w-4 mr-1" />
+              Diff
+            </Button>
+            <Button variant="ghost" size="sm" onClick={stopEditing} disabled={applying}>
+              <X className="h-4 w-4 mr-1" />
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleApply} disabled={!hasChanges || applying} data-testid="yaml-apply-button">
+              {applying && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Apply
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0 space-y-3">
+        {showDiff && editedYaml !== null ? (
+          <DiffView before={liveYaml} after={editedYaml} height={maxHeight} />
+        ) : (
+          <YamlCodeEditor value={text} onChange={setText} height={maxHeight} />
+        )}
+
+        <div className="px-1 text-xs" data-testid="yaml-validation">
+          {parseError ? (
+            <p className="flex items-start gap-1.5 text-destructive">
+              <AlertCircle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+              {parseError}
+            </p>
+          ) : issues.length > 0 ? (
+            <ul className="space-y-1">
+              {issues.map((issue, index) => (
+                <li key={index} className="flex items-start gap-1.5 text-destructive">
+                  <AlertCircle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                  {issue.path && <code className="font-mono">{issue.path}</code>}
+                  <span>{issue.message}</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="flex items-center gap-1.5 text-muted-foreground">
+              <CheckCircle2 className="h-3.5 w-3.5 text-green-500" />
+              Valid {kind}
+              {hasChanges && <Badge variant="outline" className="ml-1 text-[10px]">modified</Badge>}
+            </p>
+          )}
+        </div>
+      </CardContent>
+
+      <ConflictResolutionDialog
+        kind={kind}
+        name={resource.metadata.name}
+        rows={conflict?.rows ?? null}
+        resolving={resolving}
+        onKeepMine={handleKeepMine}
+        onKeepTheirs={handleKeepTheirs}
+        onCancel={dismissConflict}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,348 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ChevronDown, History, Loader2, RotateCcw, Scaling } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { useKubernetesConnection } from '@/contexts/KubernetesConnectionContext';
+import { k8sClient, type RolloutRevision } from '@/lib/kubernetes-client';
+import { diffRevisions, getDeploymentController, getRolloutHistory, withReplicasOverride } from '@/lib/k8s/rollout';
+import { getResourceDeploymentName } from '@/lib/resource-pods';
+import type { KaosResource } from '@/lib/stack-export';
+import type { Deployment } from '@/types/kubernetes';
+
+type RolloutDialog = 'restart' | 'scale' | 'history' | null;
+
+interface RolloutActionsProps {
+  resource: KaosResource;
+}
+
+/**
+ * Rollout restart, scaling and revision history of the Deployment behind a
+ * KAOS resource.
+ */
+export function RolloutActions({ resource }: RolloutActionsProps) {
+  const { toast } = useToast();
+  const { refreshAll } = useKubernetesConnection();
+  const [dialog, setDialog] = useState<RolloutDialog>(null);
+  const [restarting, setRestarting] = useState(false);
+
+  const { name, namespace } = resource.metadata;
+  const deploymentName = getResourceDeploymentName(resource.kind, name);
+
+  const handleRestart = async () => {
+    setRestarting(true);
+    try {
+      await k8sClient.restartDeployment(deploymentName, namespace);
+      toast({ title: 'Rollout restarted', description: `New pods are rolling out for ${deploymentName}.` });
+      setDialog(null);
+      await refreshAll();
+    } catch (err) {
+      toast({
+        title: 'Restart failed',
+        description: err instanceof Error ? err.message : 'Failed to restart deployment',
+        variant: 'destructive',
+      });
+    } finally {
+      setRestarting(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" data-testid="rollout-actions">
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Rollout
+            <ChevronDown className="h-3 w-3 ml-1" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={() => setDialog('restart')}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Restart
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setDialog('scale')}>
+            <Scaling className="h-4 w-4 mr-2" />
+            Scale
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setDialog('history')}>
+            <History className="h-4 w-4 mr-2" />
+            History
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <AlertDialog open={dialog === 'restart'} onOpenChange={(open) => !open && setDialog(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restart {name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Pods of Deployment <span className="font-mono">{deploymentName}</span> are replaced one by one
+              following its rollout strategy.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={restarting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleRestart();
+              }}
+              disabled={restarting}
+            >
+              {restarting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Restart
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <ScaleDialog
+        resource={resource}
+        deploymentName={deploymentName}
+        open={dialog === 'scale'}
+        onClose={() => setDialog(null)}
+      />
+      <RolloutHistoryDialog
+        deploymentName={deploymentName}
+        namespace={namespace}
+        open={dialog === 'history'}
+        onClose={() => setDialog(null)}
+      />
+    </>
+  );
+}
+
+interface ScaleDialogProps {
+  resource: KaosResource;
+  deploymentName: string;
+  open: boolean;
+  onClose: () => void;
+}
+
+function ScaleDialog({ resource, deploymentName, open, onClose }: ScaleDialogProps) {
+  const { toast } = useToast();
+  const { updateAgent, updateMCPServer, updateModelAPI, refreshAll } = useKubernetesConnection();
+  const [deployment, setDeployment] = useState<Deployment | null>(null);
+  const [replicas, setReplicas] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const { namespace } = resource.metadata;
+
+  useEffect(() => {
+    if (!open) return;
+    setDeployment(null);
+    setError(null);
+    k8sClient.getDeployment(deploymentName, namespace)
+      .then((loaded) => {
+        setDeployment(loaded);
+        setReplicas(String(loaded.spec.replicas ?? 1));
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load deployment'));
+  }, [open, deploymentName, namespace]);
+
+  // The operator reverts replicas set on a Deployment it controls, so those
+  // go through the resource's podSpec override instead
+  const operatorOwned = deployment ? getDeploymentController(deployment) === resource.kind : false;
+  const count = Number(replicas);
+  const valid = replicas.trim() !== '' && Number.isInteger(count) && count >= 0;
+
+  const handleScale = async () => {
+    setSaving(true);
+    try {
+      if (operatorOwned) {
+        switch (resource.kind) {
+          case 'Agent': await updateAgent(withReplicasOverride(resource, count), resource); break;
+          case 'MCPServer': await updateMCPServer(withReplicasOverride(resource, count), resource); break;
+          case 'ModelAPI': await updateModelAPI(withReplicasOverride(resource, count), resource); break;
+        }
+      } else {
+        await k8sClient.scaleDeployment(deploymentName, count, namespace);
+      }
+      toast({ title: 'Scaled', description: `${resource.metadata.name} scaled to ${count} replica${count === 1 ? '' : 's'}.` });
+      onClose();
+      await refreshAll();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to scale');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-md" data-testid="scale-dialog">
+        <DialogHeader>
+          <DialogTitle>Scale {resource.metadata.name}</DialogTitle>
+          <DialogDescription>
+            {deployment
+              ? `Deployment ${deploymentName} currently has ${deployment.status?.readyReplicas ?? 0}/${deployment.spec.replicas} replicas ready.`
+              : `Loading Deployment ${deploymentName}...`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="scale-replicas">Replicas</Label>
+          <Input
+            id="scale-replicas"
+            type="number"
+            min={0}
+            value={replicas}
+            onChange={(e) => setReplicas(e.target.value)}
+            disabled={!deployment}
+          />
+          {operatorOwned && (
+            <p className="text-xs text-muted-foreground">
+              The operator manages this Deployment; the replica count is written to the {resource.kind}'s podSpec.
+            </p>
+          )}
+          {error && <p className="text-xs text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="ghost" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleScale} disabled={!deployment || !valid || saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Scale
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface RolloutHistoryDialogProps {
+  deploymentName: string;
+  namespace: string;
+  open: boolean;
+  onClose: () => void;
+}
+
+function RolloutHistoryDialog({ deploymentName, namespace, open, onClose }: RolloutHistoryDialogProps) {
+  const [revisions, setRevisions] = useState<RolloutRevision[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    setRevisions(null);
+    setError(null);
+    try {
+      const deployment = await k8sClient.getDeployment(deploymentName, namespace);
+      const replicaSets = await k8sClient.listReplicaSets(namespace, deployment.spec.selector.matchLabels);
+      setRevisions(getRolloutHistory(deployment, replicaSets));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load rollout history');
+    }
+  }, [deploymentName, namespace]);
+
+  useEffect(() => {
+    if (open) loadHistory();
+  }, [open, loadHistory]);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto" data-testid="rollout-history-dialog">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Rollout History
+          </DialogTitle>
+          <DialogDescription className="font-mono">{deploymentName}</DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : !revisions ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No revisions found</p>
+        ) : (
+          <div className="space-y-3">
+            {revisions.map((revision, index) => (
+              <RevisionEntry
+                key={revision.replicaSet}
+                revision={revision}
+                previous={revisions[index + 1]}
+                current={index === 0}
+              />
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RevisionEntry({ revision, previous, current }: { revision: RolloutRevision; previous?: RolloutRevision; current: boolean }) {
+  const changes = previous ? diffRevisions(previous, revision) : [];
+  const restarted = previous && revision.restartedAt !== previous.restartedAt;
+
+  return (
+    <div className="rounded-md border border-border p-3 space-y-2" data-testid={`revision-${revision.revision}`}>
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="font-medium">Revision {revision.revision}</span>
+        {current && <Badge variant="success" className="text-xs">Current</Badge>}
+        <span className="text-xs font-mono text-muted-foreground">{revision.replicaSet}</span>
+        <span className="ml-auto text-xs text-muted-foreground">
+          {revision.readyReplicas}/{revision.replicas} ready
+          {revision.createdAt && ` · ${new Date(revision.createdAt).toLocaleString()}`}
+        </span>
+      </div>
+
+      {!previous ? (
+        <div className="space-y-1">
+          {revision.containers.map((container) => (
+            <p key={container.name} className="text-xs font-mono text-muted-foreground break-all">
+              {container.name}: {container.image}
+            </p>
+          ))}
+        </div>
+      ) : changes.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          {restarted ? 'Rollout restart, no image or env changes' : 'No image or env changes'}
+        </p>
+      ) : (
+        <div className="space-y-1 font-mono text-xs">
+          {changes.map((change, i) => (
+            <div key={i} className="break-all">
+              <span className="text-muted-foreground">
+                {change.container} {change.field === 'image' ? 'image' : `env ${change.name}`}:{' '}
+              </span>
+              {change.before !== undefined && <span className="text-destructive line-through mr-2">{change.before}</span>}
+              {change.after !== undefined && <span className="text-success">{change.after}</span>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
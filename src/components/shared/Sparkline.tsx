@@ -0,0 +1,39 @@
+import { cn } from '@/lib/utils';
+
+interface SparklineProps {
+  values: number[];
+  // Reference lines drawn dashed across the chart
+  request?: number;
+  limit?: number;
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+/**
+ * Minimal SVG line chart scaled to include the request and limit lines.
+ */
+export function Sparkline({ values, request, limit, width = 120, height = 28, className }: SparklineProps) {
+  if (values.length === 0) return <svg width={width} height={height} className={className} />;
+
+  const max = Math.max(...values, request ?? 0, limit ?? 0) * 1.1 || 1;
+  const y = (value: number) => height - (value / max) * height;
+  const step = values.length > 1 ? width / (values.length - 1) : 0;
+  const points = values.map((value, index) => `${(index * step).toFixed(1)},${y(value).toFixed(1)}`).join(' ');
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className={cn('overflow-visible', className)}>
+      {request !== undefined && (
+        <line x1={0} x2={width} y1={y(request)} y2={y(request)} className="stroke-muted-foreground/50" strokeDasharray="2 2" />
+      )}
+      {limit !== undefined && (
+        <line x1={0} x2={width} y1={y(limit)} y2={y(limit)} className="stroke-destructive/60" strokeDasharray="3 2" />
+      )}
+      {values.length === 1 ? (
+        <circle cx={width} cy={y(values[0])} r={1.5} className="fill-current" />
+      ) : (
+        <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinejoin="round" />
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,115 @@
+/**
+ * YAML cleanup and syntax highlighting shared by the YAML viewer and editor.
+ */
+
+import React from 'react';
+
+// Fields to exclude from YAML output (internal K8s managed fields)
+const EXCLUDED_FIELDS = ['managedFields', 'selfLink', 'generation'];
+
+// Clean the resource by removing excluded fields
+export function cleanResource(obj: unknown): unknown {
+  if (obj === null || obj === undefined) {
+    return obj;
+  }
+  
+  if (Array.isArray(obj)) {
+    return obj.map(cleanResource);
+  }
+  
+  if (typeof obj === 'object') {
+    const cleaned: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(obj as Record<string, unknown>)) {
+      if (!EXCLUDED_FIELDS.includes(key)) {
+        cleaned[key] = cleanResource(value);
+      }
+    }
+    return cleaned;
+  }
+  
+  return obj;
+}
+
+// Syntax highlighting for YAML
+export function highlightYaml(yaml: string): React.ReactNode[] {
+  const lines = yaml.split('\n');
+  
+  return lines.map((line, index) => {
+    // Match key: value patterns
+    const keyValueMatch = line.match(/^(\s*)([a-zA-Z0-9_-]+)(:)(.*)$/);
+    if (keyValueMatch) {
+      const [, indent, key, colon, value] = keyValueMatch;
+      const trimmedValue = value.trim();
+      
+      // Determine value color
+      let valueElement: React.ReactNode = value;
+      if (trimmedValue.startsWith('"') || trimmedValue.startsWith("'") || /^[|>][-+]?$/.test(trimmedValue)) {
+        valueElement = <span className="text-green-500 dark:text-green-400">{value}</span>;
+      } else if (trimmedValue === 'true' || trimmedValue === 'false' || trimmedValue === 'null') {
+        valueElement = <span className="text-orange-500 dark:text-orange-400">{value}</span>;
+      } else if (/^\s*-?\d+(\.\d+)?$/.test(trimmedValue)) {
+        valueElement = <span className="text-blue-500 dark:text-blue-400">{value}</span>;
+      } else if (value) {
+        valueElement = <span className="text-foreground">{value}</span>;
+      }
+      
+      return (
+        <div key={index}>
+          {indent}
+          <span className="text-purple-500 dark:text-purple-400">{key}</span>
+          <span className="text-muted-foreground">{colon}</span>
+          {valueElement}
+        </div>
+      );
+    }
+    
+    // Match list items with key-value after dash
+    const listKeyValueMatch = line.match(/^(\s*)(-)(\s+)([a-zA-Z0-9_-]+)(:)(.*)$/);
+    if (listKeyValueMatch) {
+      const [, indent, dash, space, key, colon, value] = listKeyValueMatch;
+      const trimmedValue = value.trim();
+      
+      let valueElement: React.ReactNode = value;
+      if (trimmedValue.startsWith('"') || trimmedValue.startsWith("'")) {
+        valueElement = <span className="text-green-500 dark:text-green-400">{value}</span>;
+      } else if (trimmedValue === 'true' || trimmedValue === 'false' || trimmedValue === 'null') {
+        valueElement = <span className="text-orange-500 dark:text-orange-400">{value}</span>;
+      } else if (/^\s*-?\d+(\.\d+)?$/.test(trimmedValue)) {
+        valueElement = <span className="text-blue-500 dark:text-blue-400">{value}</span>;
+      } else if (value) {
+        valueElement = <span className="text-foreground">{value}</span>;
+      }
+      
+      return (
+        <div key={index}>
+          {indent}
+          <span className="text-muted-foreground">{dash}</span>
+          {space}
+          <span className="text-purple-500 dark:text-purple-400">{key}</span>
+          <span className="text-muted-foreground">{colon}</span>
+          {valueElement}
+        </div>
+      );
+    }
+    
+    // Match simple list items
+    const listMatch = line.match(/^(\s*)(-)(.*)$/);
+    if (listMatch) {
+      const [, indent, dash, rest] = listMatch;
+      return (
+        <div key={index}>
+          {indent}
+          <span className="text-muted-foreground">{dash}</span>
+          <span className="text-foreground">{rest}</span>
+        </div>
+      );
+    }
+    
+    // Multi-line string content (indented text after |)
+    if (line.match(/^\s{2,}\S/)) {
+      return <div key={index} className="text-green-500 dark:text-green-400">{line}</div>;
+    }
+    
+    return <div key={index}>{line}</div>;
+  });
+}
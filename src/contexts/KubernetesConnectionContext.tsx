@@ -6,9 +6,20 @@
  */
 
 import React, { createContext, useContext, useEffect, useState, useCallback, useRef } from 'react';
-import { k8sClient } from '@/lib/kubernetes-client';
-import { useKubernetesStore } from '@/stores/kubernetesStore';
+import { k8sClient, type K8sAuthConfig, type WatchableResource, type WatchHandle, type WatchStatus } from '@/lib/kubernetes-client';
+import { useKubernetesStore, type SyncMode, type WatchedResourceKey } from '@/stores/kubernetesStore';
 import { useResourceCrud } from '@/hooks/useResourceCrud';
+import {
+  loadProfiles,
+  saveProfiles,
+  getActiveProfileId,
+  setActiveProfileId,
+  applyProfileSettings,
+  mergeProfiles,
+  loadStoredAuth,
+  saveStoredAuth,
+  type ConnectionProfile,
+} from '@/lib/connection-profiles';
 import type { ModelAPI, MCPServer, Agent, LogEntry, K8sSecret } from '@/types/kubernetes';
 
 interface ConnectionState {
@@ -19,24 +30,42 @@ interface ConnectionState {
   namespace: string;
   baseUrl: string;
   namespaces: string[];
+  profiles: ConnectionProfile[];
+  activeProfileId: string | null;
+  // Set when the API server answers 401/403; drives the re-auth prompt
+  authError: string | null;
+}
+
+interface ConnectOptions {
+  authHeader?: string;
+  auth?: K8sAuthConfig;
 }
 
 interface KubernetesConnectionContextType extends ConnectionState {
-  connect: (baseUrl: string, namespace?: string) => Promise<boolean>;
+  connect: (baseUrl: string, namespace?: string, options?: ConnectOptions) => Promise<boolean>;
   disconnect: () => void;
   refreshAll: () => Promise<void>;
   refreshNamespaces: () => Promise<void>;
   switchNamespace: (namespace: string) => Promise<void>;
   startPolling: (intervalOverride?: number) => void;
   stopPolling: () => void;
+  startWatching: () => void;
+  stopWatching: () => void;
+  setSyncMode: (mode: SyncMode) => void;
+  switchProfile: (profileId: string) => Promise<boolean>;
+  saveProfile: (profile: ConnectionProfile) => void;
+  deleteProfile: (profileId: string) => void;
+  importProfiles: (profiles: ConnectionProfile[]) => void;
+  setAuth: (auth: K8sAuthConfig | undefined) => Promise<boolean>;
+  dismissAuthError: () => void;
   createModelAPI: (api: ModelAPI) => Promise<ModelAPI>;
-  updateModelAPI: (api: ModelAPI) => Promise<ModelAPI>;
+  updateModelAPI: (api: ModelAPI, original?: ModelAPI) => Promise<ModelAPI>;
   deleteModelAPI: (name: string, namespace?: string) => Promise<void>;
   createMCPServer: (server: MCPServer) => Promise<MCPServer>;
-  updateMCPServer: (server: MCPServer) => Promise<MCPServer>;
+  updateMCPServer: (server: MCPServer, original?: MCPServer) => Promise<MCPServer>;
   deleteMCPServer: (name: string, namespace?: string) => Promise<void>;
   createAgent: (agent: Agent) => Promise<Agent>;
-  updateAgent: (agent: Agent) => Promise<Agent>;
+  updateAgent: (agent: Agent, original?: Agent) => Promise<Agent>;
   deleteAgent: (name: string, namespace?: string) => Promise<void>;
   createSecret: (secret: K8sSecret) => Promise<K8sSecret>;
   deleteSecret: (name: string, namespace?: string) => Promise<void>;
@@ -44,6 +73,20 @@ interface KubernetesConnectionContextType extends ConnectionState {
 
 const KubernetesConnectionContext = createContext<KubernetesConnectionContextType | null>(null);
 
+// Collections streamed via list/watch when live sync is enabled
+const WATCHED_RESOURCES: { resource: WatchableResource; key: WatchedResourceKey }[] = [
+  { resource: 'modelapis', key: 'modelAPIs' },
+  { resource: 'mcpservers', key: 'mcpServers' },
+  { resource: 'agents', key: 'agents' },
+  { resource: 'pods', key: 'pods' },
+  { resource: 'deployments', key: 'deployments' },
+  { resource: 'services', key: 'services' },
+  { resource: 'secrets', key: 'secrets' },
+];
+
+// PVCs and namespaces have no watch stream; in watch mode they are re-listed on this slower interval
+export const UNWATCHED_REFRESH_INTERVAL = 60000;
+
 export function KubernetesConnectionProvider({ children }: { children: React.ReactNode }) {
   const [state, setState] = useState<ConnectionState>({
     connected: false,
@@ -53,9 +96,17 @@ export function KubernetesConnectionProvider({ children }: { children: React.Rea
     namespace: 'default',
     baseUrl: '',
     namespaces: [],
+    profiles: loadProfiles(),
+    activeProfileId: getActiveProfileId(),
+    authError: null,
   });
 
   const pollIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const unwatchedIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const watchHandlesRef = useRef<WatchHandle[]>([]);
+  // Incremented on every (re)start so late callbacks from stopped watchers are ignored
+  const watchGenerationRef = useRef(0);
+  const dismissedAuthErrorRef = useRef<string | null>(null);
   const store = useKubernetesStore();
 
   const addLogEntry = useCallback(
@@ -170,11 +221,129 @@ export function KubernetesConnectionProvider({ children }: { children: React.Rea
     store.setNextRefreshTime(null);
   }, [store]);
 
-  const connect = useCallback(async (baseUrl: string, namespace: string = 'default'): Promise<boolean> => {
+  // Re-list the collections that WATCHED_RESOURCES does not cover
+  const refreshUnwatched = useCallback(async () => {
+    if (!k8sClient.isConfigured()) return;
+    const [pvcs, namespacesList] = await Promise.all([
+      k8sClient.listPVCs().catch(() => null),
+      k8sClient.listNamespaces().catch(() => null),
+    ]);
+    if (pvcs) useKubernetesStore.getState().setPVCs(pvcs);
+    if (namespacesList && namespacesList.length > 0) {
+      setState(s => ({ ...s, namespaces: namespacesList.map(ns => ns.metadata.name) }));
+    }
+  }, []);
+
+  const stopWatching = useCallback(() => {
+    if (unwatchedIntervalRef.current) {
+      clearInterval(unwatchedIntervalRef.current);
+      unwatchedIntervalRef.current = null;
+    }
+    watchGenerationRef.current += 1;
+    watchHandlesRef.current.forEach((handle) => handle.stop());
+    watchHandlesRef.current = [];
+    useKubernetesStore.getState().setLiveSyncStatus('off');
+  }, []);
+
+  const startWatching = useCallback(() => {
+    stopWatching();
+    stopPolling();
+    if (!k8sClient.isConfigured()) return;
+
+    const generation = watchGenerationRef.current;
+    const isCurrent = () => generation === watchGenerationRef.current;
+    const statuses: Partial<Record<WatchableResource, WatchStatus>> = {};
+    const liveStore = useKubernetesStore.getState;
+
+    const updateOverallStatus = () => {
+      const values = WATCHED_RESOURCES.map(({ resource }) => statuses[resource]);
+      if (values.some((v) => v === 'reconnecting')) liveStore().setLiveSyncStatus('reconnecting');
+      else if (values.every((v) => v === 'live' || v === 'stopped')) liveStore().setLiveSyncStatus('live');
+      else liveStore().setLiveSyncStatus('connecting');
+    };
+
+    liveStore().setLiveSyncStatus('connecting');
+
+    watchHandlesRef.current = WATCHED_RESOURCES.map(({ resource, key }) =>
+      k8sClient.watchResource<{ metadata: { name: string } }>(resource, {
+        onSync: (items) => {
+          if (isCurrent()) liveStore().setWatchedResources(key, items);
+        },
+        onEvent: (type, object) => {
+          if (isCurrent()) liveStore().applyWatchEvent(key, type, object);
+        },
+        onStatus: (status) => {
+          if (!isCurrent()) return;
+          statuses[resource] = status;
+          if (status !== 'unavailable') updateOverallStatus();
+        },
+        onUnavailable: (error) => {
+          if (!isCurrent()) return;
+          // Fall back to interval polling for everything
+          stopWatching();
+          liveStore().setLiveSyncStatus('unavailable');
+          addLogEntry('warn', `Live sync unavailable (${error.message}), falling back to polling`, 'connection');
+          startPolling();
+        },
+      })
+    );
+
+    unwatchedIntervalRef.current = setInterval(() => {
+      if (isCurrent()) refreshUnwatched();
+    }, UNWATCHED_REFRESH_INTERVAL);
+
+    addLogEntry('info', 'Live sync started (watch)', 'connection');
+  }, [stopWatching, stopPolling, startPolling, refreshUnwatched, addLogEntry]);
+
+  // Start whichever sync strategy the user selected
+  const startSync = useCallback(() => {
+    if (useKubernetesStore.getState().syncMode === 'watch') {
+      startWatching();
+    } else {
+      startPolling();
+    }
+  }, [startWatching, startPolling]);
+
+  const setSyncMode = useCallback((mode: SyncMode) => {
+    store.setSyncMode(mode);
+    if (!k8sClient.isConfigured()) return;
+    if (mode === 'watch') {
+      startWatching();
+    } else {
+      stopWatching();
+      startPolling();
+    }
+  }, [store, startWatching, stopWatching, startPolling]);
+
+  const connect = useCallback(async (baseUrl: string, namespace: string = 'default', options?: ConnectOptions): Promise<boolean> => {
     setState(s => ({ ...s, connecting: true, error: null }));
+    stopWatching();
 
     const cleanUrl = baseUrl.replace(/\/$/, '');
-    k8sClient.setConfig({ baseUrl: cleanUrl, namespace });
+
+    // The active profile only stays selected while reconnecting to its own cluster
+    const activeId = getActiveProfileId();
+    const active = loadProfiles().find((p) => p.id === activeId);
+    const reconnectingActive = active?.baseUrl === cleanUrl;
+    if (active && !reconnectingActive) {
+      setActiveProfileId(null);
+      setState(s => ({ ...s, activeProfileId: null }));
+    }
+
+    // Without explicit options, reuse the credentials saved for this cluster
+    let authHeader = options?.authHeader;
+    let auth = options?.auth;
+    if (!options) {
+      if (reconnectingActive) {
+        authHeader = active.authHeader;
+        auth = active.auth;
+      } else {
+        auth = loadStoredAuth(cleanUrl);
+      }
+    } else if (!reconnectingActive) {
+      saveStoredAuth(cleanUrl, auth);
+    }
+    k8sClient.setConfig({ baseUrl: cleanUrl, namespace, authHeader, auth });
 
     try {
       const result = await k8sClient.testConnection();
@@ -187,12 +356,13 @@ export function KubernetesConnectionProvider({ children }: { children: React.Rea
           baseUrl: cleanUrl,
           namespace,
           error: null,
+          authError: null,
         }));
 
         addLogEntry('info', `Connected to Kubernetes ${result.version}`, 'connection');
         // refreshAll fetches namespaces along with all other resources
         await refreshAll();
-        startPolling();
+        startSync();
         return true;
       } else {
         setState(s => ({ ...s, connected: false, connecting: false, error: result.error || 'Connection failed' }));
@@ -203,7 +373,7 @@ export function KubernetesConnectionProvider({ children }: { children: React.Rea
       setState(s => ({ ...s, connected: false, connecting: false, error: message }));
       return false;
     }
-  }, [refreshAll, startPolling, addLogEntry]);
+  }, [refreshAll, startSync, stopWatching, addLogEntry]);
 
   const refreshNamespaces = useCallback(async () => {
     if (!k8sClient.isConfigured()) return;
@@ -223,20 +393,119 @@ export function KubernetesConnectionProvider({ children }: { children: React.Rea
     setState(s => ({ ...s, namespace: newNamespace }));
     localStorage.setItem('k8s-config', JSON.stringify({ baseUrl: state.baseUrl, namespace: newNamespace }));
 
+    const watching = watchHandlesRef.current.length > 0;
+    if (watching) stopWatching();
+
     await refreshAll();
+    if (watching) startWatching();
     addLogEntry('info', `Switched to namespace ${newNamespace}`, 'connection');
-  }, [state.connected, state.baseUrl, refreshAll, addLogEntry, store]);
+  }, [state.connected, state.baseUrl, refreshAll, addLogEntry, store, startWatching, stopWatching]);
 
   const disconnect = useCallback(() => {
     stopPolling();
-    k8sClient.setConfig({ baseUrl: '', namespace: 'default' });
+    stopWatching();
+    k8sClient.setConfig({ baseUrl: '', namespace: 'default', authHeader: undefined, auth: undefined });
     store.clearAllResources();
-    setState({
+    setActiveProfileId(null);
+    setState(s => ({
       connected: false, connecting: false, error: null, lastRefresh: null,
       namespace: 'default', baseUrl: '', namespaces: [],
-    });
+      profiles: s.profiles, activeProfileId: null, authError: null,
+    }));
     addLogEntry('info', 'Disconnected from cluster', 'connection');
-  }, [stopPolling, store, addLogEntry]);
+  }, [stopPolling, stopWatching, store, addLogEntry]);
+
+  // Tear down the current cluster's state and connect using a saved profile
+  const switchProfile = useCallback(async (profileId: string): Promise<boolean> => {
+    const profile = state.profiles.find((p) => p.id === profileId);
+    if (!profile) return false;
+
+    stopPolling();
+    stopWatching();
+    store.clearAllResources();
+    store.setSelectedResource(null);
+    store.setSelectedResourceMode(null);
+    applyProfileSettings(profile);
+    setActiveProfileId(profile.id);
+    setState(s => ({ ...s, activeProfileId: profile.id, namespaces: [], lastRefresh: null }));
+    addLogEntry('info', `Switching to cluster profile "${profile.name}"`, 'connection');
+
+    return connect(profile.baseUrl, profile.namespace, { authHeader: profile.authHeader, auth: profile.auth });
+  }, [state.profiles, stopPolling, stopWatching, store, connect, addLogEntry]);
+
+  const updateProfiles = useCallback((update: (profiles: ConnectionProfile[]) => ConnectionProfile[]) => {
+    setState(s => {
+      const profiles = update(s.profiles);
+      saveProfiles(profiles);
+      return { ...s, profiles };
+    });
+  }, []);
+
+  const saveProfile = useCallback((profile: ConnectionProfile) => {
+    updateProfiles((profiles) => profiles.some((p) => p.id === profile.id)
+      ? profiles.map((p) => p.id === profile.id ? profile : p)
+      : [...profiles, profile]);
+    // Keep the live client in sync when editing the active profile's credentials
+    if (profile.id === getActiveProfileId() && k8sClient.getConfig().baseUrl === profile.baseUrl) {
+      k8sClient.setConfig({ authHeader: profile.authHeader, auth: profile.auth });
+      applyProfileSettings({ ...profile, namespace: k8sClient.getConfig().namespace });
+    }
+  }, [updateProfiles]);
+
+  const deleteProfile = useCallback((profileId: string) => {
+    updateProfiles((profiles) => profiles.filter((p) => p.id !== profileId));
+    if (profileId === getActiveProfileId()) {
+      setActiveProfileId(null);
+      setState(s => ({ ...s, activeProfileId: null }));
+    }
+  }, [updateProfiles]);
+
+  const importProfiles = useCallback((imported: ConnectionProfile[]) => {
+    updateProfiles((profiles) => mergeProfiles(profiles, imported));
+    addLogEntry('info', `Imported ${imported.length} connection profile(s)`, 'connection');
+  }, [updateProfiles, addLogEntry]);
+
+  // Persist credentials on the active profile, or per-URL for profile-less connections
+  const persistAuth = useCallback((auth: K8sAuthConfig | undefined) => {
+    const { baseUrl } = k8sClient.getConfig();
+    const activeId = getActiveProfileId();
+    const active = loadProfiles().find((p) => p.id === activeId);
+    if (active && active.baseUrl === baseUrl) {
+      updateProfiles((profiles) => profiles.map((p) => p.id === active.id ? { ...p, auth } : p));
+    } else {
+      saveStoredAuth(baseUrl, auth);
+    }
+  }, [updateProfiles]);
+
+  // Replace the cluster credentials and reconnect with them
+  const setAuth = useCallback(async (auth: K8sAuthConfig | undefined): Promise<boolean> => {
+    persistAuth(auth);
+    dismissedAuthErrorRef.current = null;
+    setState(s => ({ ...s, authError: null }));
+    const { baseUrl, namespace, authHeader } = k8sClient.getConfig();
+    addLogEntry('info', auth ? `Updated cluster credentials (${auth.type})` : 'Cleared cluster credentials', 'connection');
+    return connect(baseUrl || state.baseUrl, namespace, { authHeader, auth });
+  }, [persistAuth, connect, addLogEntry, state.baseUrl]);
+
+  // Don't re-prompt for the same failure on every poll once the user dismissed it
+  const dismissAuthError = useCallback(() => {
+    setState(s => {
+      dismissedAuthErrorRef.current = s.authError;
+      return { ...s, authError: null };
+    });
+  }, []);
+
+  useEffect(() => {
+    const unsubscribeError = k8sClient.onAuthError((error) => {
+      if (dismissedAuthErrorRef.current === error.message) return;
+      setState(s => s.authError === error.message ? s : { ...s, authError: error.message });
+    });
+    const unsubscribeRefresh = k8sClient.onAuthRefreshed(persistAuth);
+    return () => {
+      unsubscribeError();
+      unsubscribeRefresh();
+    };
+  }, [persistAuth]);
 
   // Auto-connect on mount if saved config exists or URL param is provided
   useEffect(() => {
@@ -251,6 +520,16 @@ export function KubernetesConnectionProvider({ children }: { children: React.Rea
       return;
     }
 
+    const activeProfile = state.profiles.find((p) => p.id === state.activeProfileId);
+    if (activeProfile) {
+      applyProfileSettings({ ...activeProfile, namespace: urlNamespace || activeProfile.namespace });
+      connect(activeProfile.baseUrl, urlNamespace || activeProfile.namespace, {
+        authHeader: activeProfile.authHeader,
+        auth: activeProfile.auth,
+      });
+      return;
+    }
+
     const savedConfig = localStorage.getItem('k8s-config');
     if (savedConfig) {
       try {
@@ -266,7 +545,10 @@ export function KubernetesConnectionProvider({ children }: { children: React.Rea
     }
 
     connect('http://localhost:8010', urlNamespace || 'default');
-    return () => stopPolling();
+    return () => {
+      stopPolling();
+      stopWatching();
+    };
   }, []);  // eslint-disable-line react-hooks/exhaustive-deps
 
   // CRUD operations delegated to k8s client via useResourceCrud
@@ -281,6 +563,15 @@ export function KubernetesConnectionProvider({ children }: { children: React.Rea
     switchNamespace,
     startPolling,
     stopPolling,
+    startWatching,
+    stopWatching,
+    setSyncMode,
+    switchProfile,
+    saveProfile,
+    deleteProfile,
+    importProfiles,
+    setAuth,
+    dismissAuthError,
     ...crud,
   };
 
@@ -294,6 +585,7 @@ export function KubernetesConnectionProvider({ children }: { children: React.Rea
 const defaultContextValue: KubernetesConnectionContextType = {
   connected: false, connecting: false, error: null, lastRefresh: null,
   namespace: 'default', baseUrl: '', namespaces: [],
+  profiles: [], activeProfileId: null, authError: null,
   connect: async () => false,
   disconnect: () => {},
   refreshAll: async () => {},
@@ -301,6 +593,15 @@ const defaultContextValue: KubernetesConnectionContextType = {
   switchNamespace: async () => {},
   startPolling: () => {},
   stopPolling: () => {},
+  startWatching: () => {},
+  stopWatching: () => {},
+  setSyncMode: () => {},
+  switchProfile: async () => false,
+  saveProfile: () => {},
+  deleteProfile: () => {},
+  importProfiles: () => {},
+  setAuth: async () => false,
+  dismissAuthError: () => {},
   createModelAPI: async (api) => api,
   updateModelAPI: async (api) => api,
   deleteModelAPI: async () => {},
@@ -6,11 +6,24 @@
  * - Progress/reasoning step display during tool execution
  * - Background request survival across tab switches
  * - Session history recovery
+ * - Branching: editing a question or regenerating a reply forks the conversation
  */
 
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { flushSync } from 'react-dom';
-import { streamAgentChat } from '@/lib/agent-client';
+import { streamAgentChat, type ChatTelemetry } from '@/lib/agent-client';
+import {
+  addMessages,
+  createChatTree,
+  getActiveMessages,
+  getActivePath,
+  getBranchInfo as getTreeBranchInfo,
+  getBranchSessionId,
+  getPathTo,
+  switchBranch as switchTreeBranch,
+  updateMessage,
+  type ChatTree,
+} from '@/lib/chat-tree';
 import type { ProgressStep } from '@/components/agent/ReasoningSteps';
 
 export interface ChatMessage {
@@ -20,6 +33,8 @@ export interface ChatMessage {
   timestamp: Date;
   isStreaming?: boolean;
   progressSteps?: ProgressStep[];
+  // Timings and token usage of an assistant reply
+  telemetry?: ChatTelemetry;
 }
 
 interface UseAgentChatOptions {
@@ -34,18 +49,34 @@ interface UseAgentChatOptions {
   initialMessages?: ChatMessage[];
 }
 
+export interface BranchOptions {
+  // Send the new branch in a fresh memory session so it doesn't see the old one
+  forkSession?: boolean;
+}
+
+// A new memory session for a forked branch; without a session there is nothing to fork
+function forkSessionId(base: string | undefined): string | undefined {
+  return base ? `${base}-branch-${Math.random().toString(36).substring(2, 8)}` : undefined;
+}
+
 export function useAgentChat(options: UseAgentChatOptions) {
   const { agentName, namespace, serviceName, model, temperature, sessionId, seed, onSessionIdReceived, initialMessages = [] } = options;
   
-  const [messages, setMessages] = useState<ChatMessage[]>(initialMessages);
+  const [tree, setTree] = useState<ChatTree>(() => createChatTree(initialMessages));
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  const streamingIdRef = useRef<string | null>(null);
+
+  // The conversation along the selected branches
+  const messages = useMemo(() => getActiveMessages(tree), [tree]);
+  // Memory session of the selected branch when it was forked
+  const branchSessionId = useMemo(() => getBranchSessionId(getActivePath(tree)), [tree]);
   
   // Sync with external messages when they change
   useEffect(() => {
     if (initialMessages.length > 0 && messages.length === 0) {
-      setMessages(initialMessages);
+      setTree(createChatTree(initialMessages));
     }
   }, [initialMessages, messages.length]);
 
@@ -53,35 +84,42 @@ export function useAgentChat(options: UseAgentChatOptions) {
 
   const generateId = () => `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
-  const sendMessage = useCallback(async (content: string) => {
-    if (!content.trim() || isLoading) return;
-
+  /**
+   * Add a turn below `parentId` and stream the agent's reply. `userMessage`
+   * is omitted when regenerating the reply to an existing question.
+   */
+  const streamTurn = useCallback(async (
+    parentId: string | null,
+    userMessage: ChatMessage | null,
+    history: ChatMessage[],
+    turnSessionId: string | undefined,
+    forkedSessionId?: string,
+  ) => {
     setError(null);
     setIsLoading(true);
 
-    const userMessage: ChatMessage = {
-      id: generateId(),
-      role: 'user',
-      content: content.trim(),
-      timestamp: new Date(),
-    };
-
+    const assistantId = generateId();
     const assistantMessage: ChatMessage = {
-      id: generateId(),
+      id: assistantId,
       role: 'assistant',
       content: '',
       timestamp: new Date(),
       isStreaming: true,
       progressSteps: [],
     };
+    streamingIdRef.current = assistantId;
 
-    setMessages(prev => [...prev, userMessage, assistantMessage]);
+    setTree(prev => addMessages(prev, parentId, userMessage ? [userMessage, assistantMessage] : [assistantMessage], forkedSessionId));
 
-    const apiMessages = [...messages, userMessage].map(m => ({
+    const apiMessages = [...history, ...(userMessage ? [userMessage] : [])].map(m => ({
       role: m.role,
       content: m.content,
     }));
 
+    const updateReply = (update: (message: ChatMessage) => ChatMessage) => {
+      setTree(prev => updateMessage(prev, assistantId, update));
+    };
+
     // Create abort controller for this request
     const abortController = new AbortController();
     abortControllerRef.current = abortController;
@@ -96,34 +134,25 @@ export function useAgentChat(options: UseAgentChatOptions) {
           namespace,
           model,
           temperature,
-          sessionId,
+          sessionId: turnSessionId,
           seed,
           stream: true,
           signal: abortController.signal,
           onProgress: (progress) => {
             console.log(`[useAgentChat] Progress:`, progress);
             flushSync(() => {
-              setMessages(prev => {
-                const updated = [...prev];
-                const lastMessage = updated[updated.length - 1];
-                if (lastMessage.role === 'assistant') {
-                  const existingSteps = (lastMessage.progressSteps || []).map(s => ({ ...s, completed: true } as ProgressStep));
-                  lastMessage.progressSteps = [...existingSteps, { ...progress, type: 'progress' as const }];
-                }
-                return updated;
-              });
+              updateReply(m => ({
+                ...m,
+                progressSteps: [
+                  ...(m.progressSteps || []).map(s => ({ ...s, completed: true } as ProgressStep)),
+                  { ...progress, type: 'progress' as const },
+                ],
+              }));
             });
           },
           onChunk: (chunk) => {
             flushSync(() => {
-              setMessages(prev => {
-                const updated = [...prev];
-                const lastMessage = updated[updated.length - 1];
-                if (lastMessage.role === 'assistant') {
-                  lastMessage.content += chunk;
-                }
-                return updated;
-              });
+              updateReply(m => ({ ...m, content: m.content + chunk }));
             });
           },
           onDone: (metadata) => {
@@ -131,35 +160,28 @@ export function useAgentChat(options: UseAgentChatOptions) {
             if (metadata?.sessionId && onSessionIdReceived) {
               onSessionIdReceived(metadata.sessionId);
             }
-            setMessages(prev => {
-              const updated = [...prev];
-              const lastMessage = updated[updated.length - 1];
-              if (lastMessage.role === 'assistant') {
-                lastMessage.isStreaming = false;
-                lastMessage.content = lastMessage.content.trim();
-                if (lastMessage.progressSteps) {
-                  lastMessage.progressSteps = lastMessage.progressSteps.map(s => ({ ...s, completed: true }));
-                }
-              }
-              return updated;
-            });
+            updateReply(m => ({
+              ...m,
+              isStreaming: false,
+              content: m.content.trim(),
+              ...(metadata?.telemetry && { telemetry: metadata.telemetry }),
+              ...(m.progressSteps && { progressSteps: m.progressSteps.map(s => ({ ...s, completed: true })) }),
+            }));
             setIsLoading(false);
             abortControllerRef.current = null;
+            streamingIdRef.current = null;
           },
           onError: (err) => {
             console.error('[useAgentChat] Stream error:', err);
             setError(err.message);
-            setMessages(prev => {
-              const updated = [...prev];
-              const lastMessage = updated[updated.length - 1];
-              if (lastMessage.role === 'assistant') {
-                lastMessage.isStreaming = false;
-                lastMessage.content = lastMessage.content || 'Error: Failed to get response';
-              }
-              return updated;
-            });
+            updateReply(m => ({
+              ...m,
+              isStreaming: false,
+              content: m.content || 'Error: Failed to get response',
+            }));
             setIsLoading(false);
             abortControllerRef.current = null;
+            streamingIdRef.current = null;
           },
         }
       );
@@ -168,11 +190,54 @@ export function useAgentChat(options: UseAgentChatOptions) {
       console.error('[useAgentChat] Error:', err);
       setError(err instanceof Error ? err.message : 'Unknown error');
       setIsLoading(false);
+      streamingIdRef.current = null;
     }
-  }, [messages, isLoading, resolvedServiceName, namespace, model, temperature, sessionId, seed, onSessionIdReceived]);
+  }, [resolvedServiceName, namespace, model, temperature, seed, onSessionIdReceived]);
+
+  const sendMessage = useCallback(async (content: string) => {
+    if (!content.trim() || isLoading) return;
+    const path = getActivePath(tree);
+    const parentId = path.length > 0 ? path[path.length - 1].message.id : null;
+    const userMessage: ChatMessage = { id: generateId(), role: 'user', content: content.trim(), timestamp: new Date() };
+    await streamTurn(parentId, userMessage, messages, getBranchSessionId(path) ?? sessionId);
+  }, [tree, messages, isLoading, sessionId, streamTurn]);
+
+  /**
+   * Ask an edited version of an earlier question as a new branch, sending
+   * only the conversation before it.
+   */
+  const editMessage = useCallback(async (messageId: string, content: string, branch: BranchOptions = {}) => {
+    const node = tree.nodes[messageId];
+    if (!node || node.message.role !== 'user' || !content.trim() || isLoading) return;
+    const before = getPathTo(tree, node.parentId);
+    const branchSessionId = getBranchSessionId(before) ?? sessionId;
+    const forked = branch.forkSession ? forkSessionId(branchSessionId) : undefined;
+    const userMessage: ChatMessage = { id: generateId(), role: 'user', content: content.trim(), timestamp: new Date() };
+    await streamTurn(node.parentId, userMessage, before.map(n => n.message), forked ?? branchSessionId, forked);
+  }, [tree, isLoading, sessionId, streamTurn]);
+
+  /**
+   * Generate another reply to the question before an assistant message, as
+   * a new branch.
+   */
+  const regenerate = useCallback(async (messageId: string, branch: BranchOptions = {}) => {
+    const node = tree.nodes[messageId];
+    if (!node || node.message.role !== 'assistant' || !node.parentId || isLoading) return;
+    const history = getPathTo(tree, node.parentId);
+    const branchSessionId = getBranchSessionId(history) ?? sessionId;
+    const forked = branch.forkSession ? forkSessionId(branchSessionId) : undefined;
+    await streamTurn(node.parentId, null, history.map(n => n.message), forked ?? branchSessionId, forked);
+  }, [tree, isLoading, sessionId, streamTurn]);
+
+  const getBranchInfo = useCallback((messageId: string) => getTreeBranchInfo(tree, messageId), [tree]);
+
+  const switchBranch = useCallback((messageId: string, offset: number) => {
+    if (isLoading) return;
+    setTree(prev => switchTreeBranch(prev, messageId, offset));
+  }, [isLoading]);
 
   const clearMessages = useCallback(() => {
-    setMessages([]);
+    setTree(createChatTree());
     setError(null);
   }, []);
 
@@ -182,14 +247,11 @@ export function useAgentChat(options: UseAgentChatOptions) {
       abortControllerRef.current = null;
     }
     setIsLoading(false);
-    setMessages(prev => {
-      const updated = [...prev];
-      const lastMessage = updated[updated.length - 1];
-      if (lastMessage?.role === 'assistant' && lastMessage.isStreaming) {
-        lastMessage.isStreaming = false;
-      }
-      return updated;
-    });
+    if (streamingIdRef.current) {
+      const streamingId = streamingIdRef.current;
+      setTree(prev => updateMessage(prev, streamingId, m => ({ ...m, isStreaming: false })));
+      streamingIdRef.current = null;
+    }
   }, []);
 
   return {
@@ -199,5 +261,10 @@ export function useAgentChat(options: UseAgentChatOptions) {
     sendMessage,
     clearMessages,
     stopGeneration,
+    editMessage,
+    regenerate,
+    getBranchInfo,
+    switchBranch,
+    branchSessionId,
   };
 }
@@ -0,0 +1,135 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { streamAgentChat } from '@/lib/agent-client';
+import {
+  buildAgentHistory,
+  createResponse,
+  type ComparisonResponse,
+  type ComparisonTurn,
+} from '@/lib/agent-compare';
+import type { ProgressStep } from '@/components/agent/ReasoningSteps';
+import type { Agent } from '@/types/kubernetes';
+
+/**
+ * Send each prompt to several agents in parallel and stream their answers
+ * into per-agent columns. Turns advance in lockstep: a new prompt can only be
+ * sent once every agent has finished the previous one.
+ */
+export function useAgentComparison(namespace: string) {
+  const [turns, setTurns] = useState<ComparisonTurn[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const controllersRef = useRef<Record<string, AbortController>>({});
+  // Agent session IDs, so memory-enabled agents keep one session per comparison
+  const sessionIdsRef = useRef<Record<string, string>>({});
+
+  const updateResponse = useCallback((turnId: string, agentName: string, update: (r: ComparisonResponse) => ComparisonResponse) => {
+    setTurns((prev) => prev.map((turn) => (
+      turn.id === turnId
+        ? { ...turn, responses: { ...turn.responses, [agentName]: update(turn.responses[agentName]) } }
+        : turn
+    )));
+  }, []);
+
+  const finish = useCallback((agentName: string) => {
+    delete controllersRef.current[agentName];
+    if (Object.keys(controllersRef.current).length === 0) setIsRunning(false);
+  }, []);
+
+  const send = useCallback((agents: Agent[], prompt: string, seed?: number) => {
+    const content = prompt.trim();
+    if (!content || isRunning || agents.length === 0) return;
+
+    const turnId = `turn-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+    const startedAt = Date.now();
+    const elapsed = () => Date.now() - startedAt;
+    setTurns((prev) => [...prev, {
+      id: turnId,
+      prompt: content,
+      sentAt: new Date(startedAt).toISOString(),
+      responses: Object.fromEntries(agents.map((a) => [a.metadata.name, createResponse()])),
+    }]);
+    setIsRunning(true);
+
+    for (const agent of agents) {
+      const agentName = agent.metadata.name;
+      const controller = new AbortController();
+      controllersRef.current[agentName] = controller;
+      const messages = [...buildAgentHistory(turns, agentName), { role: 'user', content }];
+
+      streamAgentChat(`agent-${agentName}`, messages, {
+        namespace,
+        sessionId: sessionIdsRef.current[agentName],
+        seed,
+        signal: controller.signal,
+        onProgress: (progress) => updateResponse(turnId, agentName, (r) => ({
+          ...r,
+          progressSteps: [
+            ...r.progressSteps.map((s) => ({ ...s, completed: true })),
+            { ...progress, type: 'progress' } as ProgressStep,
+          ],
+        })),
+        onChunk: (chunk) => updateResponse(turnId, agentName, (r) => ({
+          ...r,
+          content: r.content + chunk,
+          firstTokenMs: r.firstTokenMs ?? elapsed(),
+        })),
+        onDone: (metadata) => {
+          if (metadata?.sessionId) sessionIdsRef.current[agentName] = metadata.sessionId;
+          updateResponse(turnId, agentName, (r) => ({
+            ...r,
+            content: r.content.trim(),
+            progressSteps: r.progressSteps.map((s) => ({ ...s, completed: true })),
+            status: 'done',
+            latencyMs: elapsed(),
+          }));
+          finish(agentName);
+        },
+        onError: (err) => {
+          updateResponse(turnId, agentName, (r) => ({ ...r, status: 'error', error: err.message, latencyMs: elapsed() }));
+          finish(agentName);
+        },
+      }).catch((err) => {
+        if (controller.signal.aborted) return;
+        updateResponse(turnId, agentName, (r) => ({
+          ...r,
+          status: 'error',
+          error: err instanceof Error ? err.message : 'Unknown error',
+          latencyMs: elapsed(),
+        }));
+        finish(agentName);
+      });
+    }
+  }, [turns, isRunning, namespace, updateResponse, finish]);
+
+  const stop = useCallback(() => {
+    Object.values(controllersRef.current).forEach((controller) => controller.abort());
+    controllersRef.current = {};
+    setIsRunning(false);
+    setTurns((prev) => prev.map((turn) => ({
+      ...turn,
+      responses: Object.fromEntries(Object.entries(turn.responses).map(([name, r]) => [
+        name,
+        r.status === 'streaming' ? { ...r, status: 'stopped' as const } : r,
+      ])),
+    })));
+  }, []);
+
+  // Leaving the page must not leave streams running against the agents
+  useEffect(() => () => {
+    Object.values(controllersRef.current).forEach((controller) => controller.abort());
+    controllersRef.current = {};
+  }, []);
+
+  const reset = useCallback(() => {
+    stop();
+    setTurns([]);
+    sessionIdsRef.current = {};
+  }, [stop]);
+
+  const togglePreferred = useCallback((turnId: string, agentName: string) => {
+    setTurns((prev) => prev.map((turn) => (
+      turn.id === turnId ? { ...turn, preferred: turn.preferred === agentName ? undefined : agentName } : turn
+    )));
+  }, []);
+
+  return { turns, isRunning, send, stop, reset, togglePreferred };
+}
@@ -0,0 +1,185 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { k8sClient, type LogStreamHandle, type LogStreamStatus } from '@/lib/kubernetes-client';
+import { compareLogTimestamps, parseLogLine } from '@/lib/k8s/logs';
+import { mergeLogLines, sourceKey, type LogSource, type SourcedLogLine } from '@/lib/aggregated-logs';
+import type { Pod } from '@/types/kubernetes';
+
+interface UseAggregatedLogsOptions {
+  namespace: string | undefined;
+  pods: Pod[];
+  active: boolean;
+  maxLines?: number;
+}
+
+export interface SourceState {
+  source: LogSource;
+  status: LogStreamStatus | 'polling' | 'left';
+  error?: string;
+}
+
+const DEFAULT_MAX_LINES = 10000;
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * Follows every container of a set of pods and merges their lines into one
+ * timeline. Streams start and stop as pods join and leave the set; lines of
+ * pods that left are kept. Falls back to polling each container when the
+ * proxy can't stream.
+ */
+export function useAggregatedLogs({ namespace, pods, active, maxLines = DEFAULT_MAX_LINES }: UseAggregatedLogsOptions) {
+  const [timeline, setTimeline] = useState<{ lines: SourcedLogLine[]; dropped: number }>({ lines: [], dropped: 0 });
+  const [sourceStates, setSourceStates] = useState<Record<string, SourceState>>({});
+  const [tailLines, setTailLines] = useState<number>(100);
+  const [paused, setPaused] = useState(false);
+  const [streamingUnavailable, setStreamingUnavailable] = useState(false);
+  // Bumped to restart every stream from scratch
+  const [generation, setGeneration] = useState(0);
+  const handlesRef = useRef(new Map<string, LogStreamHandle>());
+  const lastTimestampsRef = useRef(new Map<string, string>());
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keyed by membership so pod status updates don't restart streams
+  const sourceKeys = pods
+    .flatMap((pod) => pod.spec.containers.map((container) => sourceKey({ pod: pod.metadata.name, container: container.name })))
+    .join(',');
+  const sources = useMemo<LogSource[]>(
+    () => (sourceKeys ? sourceKeys.split(',').map((key) => {
+      const [pod, container] = key.split('/');
+      return { pod, container };
+    }) : []),
+    [sourceKeys]
+  );
+
+  const updateSource = useCallback((source: LogSource, update: Partial<SourceState>) => {
+    setSourceStates((current) => {
+      const key = sourceKey(source);
+      const previous = current[key] ?? { source, status: 'connecting' as const };
+      return { ...current, [key]: { ...previous, ...update } };
+    });
+  }, []);
+
+  const appendLines = useCallback((source: LogSource, lines: SourcedLogLine[]) => {
+    const last = lines[lines.length - 1]?.timestamp;
+    if (last) lastTimestampsRef.current.set(sourceKey(source), last);
+    setTimeline((current) => {
+      const next = mergeLogLines(current.lines, lines, maxLines);
+      return { lines: next.lines, dropped: current.dropped + next.dropped };
+    });
+    requestAnimationFrame(() => {
+      if (scrollRef.current) {
+        scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+      }
+    });
+  }, [maxLines]);
+
+  const stopAll = useCallback(() => {
+    handlesRef.current.forEach((handle) => handle.stop());
+    handlesRef.current.clear();
+  }, []);
+
+  // A different namespace or tail length starts a fresh timeline
+  useEffect(() => {
+    stopAll();
+    lastTimestampsRef.current.clear();
+    setTimeline({ lines: [], dropped: 0 });
+    setSourceStates({});
+  }, [namespace, tailLines, generation, stopAll]);
+
+  // Start streams for pods that joined, stop those of pods that left
+  useEffect(() => {
+    if (!active || paused || streamingUnavailable || !namespace) {
+      stopAll();
+      return;
+    }
+
+    const wanted = new Map(sources.map((source) => [sourceKey(source), source]));
+    handlesRef.current.forEach((handle, key) => {
+      if (wanted.has(key)) return;
+      handle.stop();
+      handlesRef.current.delete(key);
+      setSourceStates((current) => (current[key] ? { ...current, [key]: { ...current[key], status: 'left' } } : current));
+    });
+
+    wanted.forEach((source, key) => {
+      if (handlesRef.current.has(key)) return;
+      const handle = k8sClient.followPodLogs(
+        source.pod,
+        namespace,
+        { container: source.container, tailLines, sinceTime: lastTimestampsRef.current.get(key) },
+        {
+          onLines: (lines) => {
+            updateSource(source, { error: undefined });
+            appendLines(source, lines.map((line) => ({ ...line, source })));
+          },
+          onStatus: (status) => {
+            if (status !== 'stopped' && status !== 'unavailable') updateSource(source, { status });
+          },
+          onError: (error) => updateSource(source, { error: error.message }),
+          onUnavailable: () => setStreamingUnavailable(true),
+        }
+      );
+      handlesRef.current.set(key, handle);
+    });
+  }, [active, paused, streamingUnavailable, namespace, sources, tailLines, generation, stopAll, updateSource, appendLines]);
+
+  useEffect(() => stopAll, [stopAll]);
+
+  const poll = useCallback(async () => {
+    if (!namespace) return;
+    await Promise.all(sources.map(async (source) => {
+      const key = sourceKey(source);
+      const since = lastTimestampsRef.current.get(key);
+      try {
+        const content = await k8sClient.getPodLogs(source.pod, namespace, {
+          container: source.container,
+          timestamps: true,
+          ...(since ? { sinceTime: since } : { tailLines }),
+        });
+        const lines = content.split('\n').filter(Boolean).map(parseLogLine)
+          .filter((line) => !since || !line.timestamp || compareLogTimestamps(line.timestamp, since) > 0);
+        updateSource(source, { status: 'polling', error: undefined });
+        if (lines.length > 0) appendLines(source, lines.map((line) => ({ ...line, source })));
+      } catch (err) {
+        updateSource(source, { status: 'polling', error: err instanceof Error ? err.message : 'Failed to fetch logs' });
+      }
+    }));
+  }, [namespace, sources, tailLines, updateSource, appendLines]);
+
+  // Polling fallback when the proxy buffers streaming responses
+  useEffect(() => {
+    if (!streamingUnavailable || !active || paused) return;
+
+    poll();
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [streamingUnavailable, active, paused, poll]);
+
+  const reload = useCallback(() => setGeneration((n) => n + 1), []);
+
+  const handleDownload = (name: string, lines: SourcedLogLine[] = timeline.lines) => {
+    const content = lines
+      .map((line) => `[${line.source.pod}/${line.source.container}] ${line.timestamp ? `${line.timestamp} ` : ''}${line.text}`)
+      .join('\n');
+    const blob = new Blob([content], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${name}-logs.txt`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return {
+    lines: timeline.lines,
+    dropped: timeline.dropped,
+    sources: Object.values(sourceStates),
+    tailLines,
+    setTailLines,
+    paused,
+    setPaused,
+    polling: streamingUnavailable,
+    scrollRef,
+    reload,
+    handleDownload,
+  };
+}
@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { fetchMemoryEvents, fetchMemorySessions } from '@/lib/agent-memory';
+import {
+  loadLocalSessions,
+  memoryEventsToChatMessages,
+  saveLocalSessions,
+  sortSessions,
+  summarizeSessions,
+  type LocalChatSession,
+  type LocalChatSessions,
+} from '@/lib/chat-sessions';
+import type { MemoryEvent } from '@/lib/agent-memory';
+import type { ChatMessage } from '@/hooks/useAgentChat';
+
+/**
+ * The chat sessions of an agent from its memory plus locally kept ones, with
+ * local rename/pin and snapshots. Memory is fetched while `active`.
+ */
+export function useChatSessions(namespace: string, name: string, active: boolean) {
+  const serviceName = `agent-${name}`;
+  const [sessionIds, setSessionIds] = useState<string[]>([]);
+  const [events, setEvents] = useState<MemoryEvent[]>([]);
+  const [local, setLocal] = useState<LocalChatSessions>(() => loadLocalSessions(namespace, name));
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLocal(loadLocalSessions(namespace, name));
+  }, [namespace, name]);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [ids, allEvents] = await Promise.all([
+        fetchMemorySessions(serviceName, namespace),
+        fetchMemoryEvents(serviceName, namespace),
+      ]);
+      setSessionIds(ids);
+      setEvents(allEvents);
+      setError(null);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to load sessions';
+      setError(message.includes('404') ? 'Agent memory endpoints not available; showing sessions kept in this browser.' : message);
+    } finally {
+      setLoading(false);
+    }
+  }, [serviceName, namespace]);
+
+  useEffect(() => {
+    if (active) refresh();
+  }, [active, refresh]);
+
+  const sessions = useMemo(() => sortSessions(summarizeSessions(sessionIds, events, local)), [sessionIds, events, local]);
+
+  const updateLocal = useCallback((id: string, patch: Partial<LocalChatSession>) => {
+    setLocal((prev) => {
+      const next = { ...prev, [id]: { ...prev[id], ...patch } };
+      saveLocalSessions(namespace, name, next);
+      return next;
+    });
+  }, [namespace, name]);
+
+  const rename = useCallback((id: string, title: string) => updateLocal(id, { title: title.trim() || undefined }), [updateLocal]);
+
+  const togglePin = useCallback((id: string) => updateLocal(id, { pinned: !local[id]?.pinned }), [updateLocal, local]);
+
+  // Keep a copy of a conversation before switching away from it
+  const snapshot = useCallback((id: string, messages: ChatMessage[]) => {
+    if (!id || messages.length === 0) return;
+    updateLocal(id, { messages, updatedAt: new Date().toISOString() });
+  }, [updateLocal]);
+
+  /**
+   * The transcript of a session from the agent's memory, falling back to the
+   * local snapshot when memory has nothing for it.
+   */
+  const loadSession = useCallback(async (id: string): Promise<ChatMessage[]> => {
+    try {
+      const messages = memoryEventsToChatMessages(await fetchMemoryEvents(serviceName, namespace, id));
+      if (messages.length > 0) return messages;
+    } catch (err) {
+      console.warn('[useChatSessions] Failed to load session from memory:', err);
+    }
+    return local[id]?.messages ?? [];
+  }, [serviceName, namespace, local]);
+
+  return { sessions, loading, error, refresh, rename, togglePin, snapshot, loadSession };
+}
@@ -0,0 +1,96 @@
+/**
+ * Hook for edit dialogs: submits updates guarded by the loaded
+ * resourceVersion and turns 409 conflicts into a three-way merge.
+ *
+ * Conflicts caused only by unrelated changes (operator status writes, a
+ * teammate editing other fields) are rebased and retried automatically;
+ * overlapping edits are surfaced for the user to resolve.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { K8sConflictError } from '@/lib/kubernetes-client';
+import { getEditableFields, rebaseEdit, threeWayDiff, type ThreeWayDiffRow } from '@/lib/k8s/patch';
+
+interface EditableResource {
+  metadata: {
+    name: string;
+    namespace?: string;
+    resourceVersion?: string;
+    labels?: Record<string, string>;
+    annotations?: Record<string, string>;
+  };
+  spec?: unknown;
+}
+
+export interface UpdateConflict<T> {
+  loaded: T;
+  edited: T;
+  latest: T;
+  rows: ThreeWayDiffRow[];
+}
+
+interface Options<T> {
+  // The resource being edited; snapshotted as the merge base when the dialog opens
+  resource: T;
+  open: boolean;
+  update: (item: T, original?: T) => Promise<T>;
+  getLatest: (name: string, namespace?: string) => Promise<T>;
+}
+
+export function useConflictAwareUpdate<T extends EditableResource>({ resource, open, update, getLatest }: Options<T>) {
+  const loadedRef = useRef(resource);
+  const [conflict, setConflict] = useState<UpdateConflict<T> | null>(null);
+  const [resolving, setResolving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      loadedRef.current = resource;
+      setConflict(null);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps -- only re-snapshot when the dialog opens or targets another resource
+  }, [open, resource.metadata.name]);
+
+  /**
+   * Returns the saved object, or null when a conflict needs the user's decision.
+   */
+  const submit = async (edited: T): Promise<T | null> => {
+    const loaded = loadedRef.current;
+    try {
+      return await update(edited, loaded);
+    } catch (error) {
+      if (!(error instanceof K8sConflictError)) throw error;
+
+      const latest = await getLatest(loaded.metadata.name, loaded.metadata.namespace);
+      const rows = threeWayDiff(getEditableFields(loaded), getEditableFields(edited), getEditableFields(latest));
+      if (!rows.some((row) => row.conflict)) {
+        const saved = await update(rebaseEdit(loaded, edited, latest), latest);
+        loadedRef.current = saved;
+        return saved;
+      }
+      setConflict({ loaded, edited, latest, rows });
+      return null;
+    }
+  };
+
+  // Re-apply the user's changes on top of the cluster version, overwriting conflicting fields
+  const keepMine = async (): Promise<T | null> => {
+    if (!conflict) return null;
+    setResolving(true);
+    try {
+      const saved = await update(rebaseEdit(conflict.loaded, conflict.edited, conflict.latest), conflict.latest);
+      loadedRef.current = saved;
+      setConflict(null);
+      return saved;
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  // Drop the user's changes; the cluster version stays as is
+  const keepTheirs = () => {
+    if (conflict) loadedRef.current = conflict.latest;
+    setConflict(null);
+  };
+
+  return { submit, conflict, resolving, keepMine, keepTheirs, dismissConflict: () => setConflict(null) };
+}
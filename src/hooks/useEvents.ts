@@ -0,0 +1,95 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { k8sClient, type KubeEvent } from '@/lib/kubernetes-client';
+import { mergeEvents } from '@/lib/k8s/events';
+import { getEventScope, type EventTargetKind } from '@/lib/resource-events';
+import { findResourcePods } from '@/lib/resource-pods';
+import { useKubernetesStore } from '@/stores/kubernetesStore';
+
+const POLL_INTERVAL_MS = 10000;
+const MAX_NAMESPACE_EVENTS = 200;
+
+/**
+ * Events of a KAOS resource or Pod and the objects it owns, polled while
+ * `active`.
+ */
+export function useResourceEvents(kind: EventTargetKind, namespace: string | undefined, name: string | undefined, active: boolean) {
+  const { pods } = useKubernetesStore();
+  const [events, setEvents] = useState<KubeEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keyed by membership so pod status updates don't refetch
+  const podNames = kind === 'Pod' || !name ? '' : findResourcePods(pods, kind, name).map((pod) => pod.metadata.name).join(',');
+  const scope = useMemo(
+    () => getEventScope(kind, name ?? '', podNames ? podNames.split(',') : []),
+    [kind, name, podNames]
+  );
+
+  const fetchEvents = useCallback(async () => {
+    if (!namespace || !name) return;
+    setLoading(true);
+    try {
+      const lists = await Promise.all(scope.selectors.map((selector) => k8sClient.listEvents(namespace, selector)));
+      setEvents(mergeEvents(...lists).filter(scope.matches));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch events');
+    } finally {
+      setLoading(false);
+    }
+  }, [namespace, name, scope]);
+
+  useEffect(() => {
+    if (!active) return;
+    fetchEvents();
+    const interval = setInterval(fetchEvents, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [active, fetchEvents]);
+
+  return { events, loading, error, refresh: fetchEvents };
+}
+
+/**
+ * All events of a namespace, newest first, kept live with a watch and
+ * polled when the proxy can't stream.
+ */
+export function useNamespaceEvents(namespace: string | undefined, active: boolean) {
+  const [events, setEvents] = useState<KubeEvent[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [polling, setPolling] = useState(false);
+
+  useEffect(() => {
+    if (!active || !namespace || polling) return;
+
+    const handle = k8sClient.watchResource<KubeEvent>('events', {
+      onSync: (items) => setEvents(mergeEvents(items).slice(0, MAX_NAMESPACE_EVENTS)),
+      onEvent: (type, event) => {
+        setEvents((current) => {
+          if (type === 'DELETED') return current.filter((e) => e.metadata.uid !== event.metadata.uid);
+          return mergeEvents(current, [event]).slice(0, MAX_NAMESPACE_EVENTS);
+        });
+      },
+      onUnavailable: () => setPolling(true),
+    }, namespace);
+    return () => handle.stop();
+  }, [active, namespace, polling]);
+
+  useEffect(() => {
+    if (!active || !namespace || !polling) return;
+
+    const poll = async () => {
+      try {
+        const items = await k8sClient.listEvents(namespace);
+        setEvents(mergeEvents(items).slice(0, MAX_NAMESPACE_EVENTS));
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch events');
+      }
+    };
+    poll();
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [active, namespace, polling]);
+
+  return { events, error, live: !polling };
+}
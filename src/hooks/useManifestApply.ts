@@ -0,0 +1,62 @@
+/**
+ * Dry-run plan and ordered apply of a set of manifests, with per-object
+ * results. Shared by the manifest import and the stack template wizard.
+ */
+
+import { useState } from 'react';
+import { k8sClient, type ApplyPlanItem } from '@/lib/kubernetes-client';
+import { manifestKey, type Manifest } from '@/lib/manifests';
+
+export type ApplyResult = { status: 'applied' } | { status: 'failed'; message: string };
+
+export function useManifestApply() {
+  const [plan, setPlan] = useState<ApplyPlanItem[] | null>(null);
+  const [results, setResults] = useState<Record<string, ApplyResult>>({});
+  const [planning, setPlanning] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  const pending = plan?.filter((item) => !item.error && (item.action === 'create' || item.action === 'update')) ?? [];
+
+  const reset = () => {
+    setPlan(null);
+    setResults({});
+  };
+
+  const runPlan = async (manifests: Manifest[]) => {
+    setResults({});
+    setPlanning(true);
+    try {
+      const items: ApplyPlanItem[] = [];
+      for (const manifest of manifests) {
+        items.push(await k8sClient.planManifest(manifest));
+      }
+      setPlan(items);
+    } finally {
+      setPlanning(false);
+    }
+  };
+
+  /**
+   * Apply the planned creates and updates. Returns the number of failures.
+   */
+  const apply = async (): Promise<number> => {
+    setApplying(true);
+    let failures = 0;
+    // Sequential on purpose: dependencies (Secrets, ModelAPIs, MCPServers) are created before Agents
+    for (const item of pending) {
+      const key = manifestKey(item.manifest);
+      try {
+        await k8sClient.applyPlanItem(item);
+        setResults((prev) => ({ ...prev, [key]: { status: 'applied' } }));
+      } catch (error) {
+        failures++;
+        const message = error instanceof Error ? error.message : String(error);
+        setResults((prev) => ({ ...prev, [key]: { status: 'failed', message } }));
+      }
+    }
+    setApplying(false);
+    return failures;
+  };
+
+  return { plan, results, pending, planning, applying, runPlan, apply, reset };
+}
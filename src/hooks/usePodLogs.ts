@@ -1,21 +1,88 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { k8sClient } from '@/lib/kubernetes-client';
+import { k8sClient, type LogLine, type LogStreamStatus } from '@/lib/kubernetes-client';
+import { appendLogLines, parseLogLine } from '@/lib/k8s/logs';
 
 interface UsePodLogsOptions {
   namespace: string | undefined;
   podName: string | undefined;
   containerName: string;
   active: boolean;
+  // Lines kept in memory; older lines are dropped
+  maxLines?: number;
 }
 
-export function usePodLogs({ namespace, podName, containerName, active }: UsePodLogsOptions) {
-  const [logs, setLogs] = useState<string>('');
+export type PodLogsMode = LogStreamStatus | 'polling' | 'paused';
+
+const DEFAULT_MAX_LINES = 5000;
+const POLL_INTERVAL_MS = 1000;
+
+/**
+ * Follows a container's log as a stream, falling back to polling `tailLines`
+ * every second when the proxy can't stream. Pausing stops the stream;
+ * resuming picks up from the last line received.
+ */
+export function usePodLogs({ namespace, podName, containerName, active, maxLines = DEFAULT_MAX_LINES }: UsePodLogsOptions) {
+  const [buffer, setBuffer] = useState<{ lines: LogLine[]; dropped: number }>({ lines: [], dropped: 0 });
   const [logsLoading, setLogsLoading] = useState(false);
   const [logsError, setLogsError] = useState<string | null>(null);
   const [tailLines, setTailLines] = useState<number>(200);
-  const [autoRefresh, setAutoRefresh] = useState(true);
+  const [paused, setPaused] = useState(false);
+  const [status, setStatus] = useState<LogStreamStatus>('connecting');
+  const [streamingUnavailable, setStreamingUnavailable] = useState(false);
+  // Bumped to restart the stream from scratch
+  const [generation, setGeneration] = useState(0);
+  const lastTimestampRef = useRef<string | undefined>(undefined);
   const scrollRef = useRef<HTMLDivElement>(null);
 
+  const scrollToBottom = useCallback(() => {
+    requestAnimationFrame(() => {
+      if (scrollRef.current) {
+        scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+      }
+    });
+  }, []);
+
+  // A different container or tail length starts a fresh buffer
+  useEffect(() => {
+    setBuffer({ lines: [], dropped: 0 });
+    setLogsError(null);
+    lastTimestampRef.current = undefined;
+  }, [namespace, podName, containerName, tailLines, generation]);
+
+  useEffect(() => {
+    if (!active || paused || streamingUnavailable || !namespace || !podName) return;
+
+    setLogsLoading(!lastTimestampRef.current);
+    const handle = k8sClient.followPodLogs(
+      podName,
+      namespace,
+      { container: containerName || undefined, tailLines, sinceTime: lastTimestampRef.current },
+      {
+        onLines: (received) => {
+          const last = received[received.length - 1].timestamp;
+          if (last) lastTimestampRef.current = last;
+          setBuffer((current) => {
+            const next = appendLogLines(current.lines, received, maxLines);
+            return { lines: next.lines, dropped: current.dropped + next.dropped };
+          });
+          setLogsLoading(false);
+          setLogsError(null);
+          scrollToBottom();
+        },
+        onStatus: (next) => {
+          setStatus(next);
+          if (next === 'live') setLogsLoading(false);
+        },
+        onError: (error) => {
+          setLogsError(error.message);
+          setLogsLoading(false);
+        },
+        onUnavailable: () => setStreamingUnavailable(true),
+      }
+    );
+    return () => handle.stop();
+  }, [active, paused, streamingUnavailable, namespace, podName, containerName, tailLines, maxLines, generation, scrollToBottom]);
+
   const fetchLogs = useCallback(async () => {
     if (!namespace || !podName) return;
 
@@ -26,37 +93,43 @@ export function usePodLogs({ namespace, podName, containerName, active }: UsePod
       const logContent = await k8sClient.getPodLogs(podName, namespace, {
         container: containerName || undefined,
         tailLines,
+        timestamps: true,
       });
-      setLogs(logContent);
-
-      if (scrollRef.current) {
-        scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
-      }
+      const fetched = logContent.split('\n').filter(Boolean).map(parseLogLine);
+      setBuffer({ lines: fetched.slice(-maxLines), dropped: 0 });
+      lastTimestampRef.current = fetched[fetched.length - 1]?.timestamp;
+      scrollToBottom();
     } catch (err) {
       setLogsError(err instanceof Error ? err.message : 'Failed to fetch logs');
-      setLogs('');
+      setBuffer({ lines: [], dropped: 0 });
     } finally {
       setLogsLoading(false);
     }
-  }, [namespace, podName, containerName, tailLines]);
+  }, [namespace, podName, containerName, tailLines, maxLines, scrollToBottom]);
 
-  // Fetch logs when active
+  // Polling fallback when the proxy buffers streaming responses
   useEffect(() => {
-    if (active) {
+    if (!streamingUnavailable || !active || paused) return;
+
+    fetchLogs();
+    const interval = setInterval(fetchLogs, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [streamingUnavailable, active, paused, fetchLogs]);
+
+  const reload = useCallback(() => {
+    if (streamingUnavailable) {
       fetchLogs();
+    } else {
+      setGeneration((n) => n + 1);
     }
-  }, [active, fetchLogs]);
+  }, [streamingUnavailable, fetchLogs]);
 
-  // Auto-refresh logs
-  useEffect(() => {
-    if (!autoRefresh || !active) return;
-
-    const interval = setInterval(fetchLogs, 1000);
-    return () => clearInterval(interval);
-  }, [autoRefresh, active, fetchLogs]);
+  const { lines, dropped } = buffer;
+  const mode: PodLogsMode = paused ? 'paused' : streamingUnavailable ? 'polling' : status;
 
   const handleDownload = () => {
-    const blob = new Blob([logs], { type: 'text/plain' });
+    const content = lines.map((line) => (line.timestamp ? `${line.timestamp} ${line.text}` : line.text)).join('\n');
+    const blob = new Blob([content], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -66,15 +139,17 @@ export function usePodLogs({ namespace, podName, containerName, active }: UsePod
   };
 
   return {
-    logs,
+    lines,
+    dropped,
     logsLoading,
     logsError,
     tailLines,
     setTailLines,
-    autoRefresh,
-    setAutoRefresh,
+    paused,
+    setPaused,
+    mode,
     scrollRef,
-    fetchLogs,
+    fetchLogs: reload,
     handleDownload,
   };
 }
@@ -0,0 +1,69 @@
+import { useEffect } from 'react';
+import { k8sClient } from '@/lib/kubernetes-client';
+import { useMetricsStore } from '@/stores/metricsStore';
+
+const POLL_INTERVAL_MS = 15000;
+
+// One poller per namespace, shared by every mounted consumer
+const pollers = new Map<string, { subscribers: number; timer?: ReturnType<typeof setInterval> }>();
+
+function stopPoller(namespace: string) {
+  const poller = pollers.get(namespace);
+  if (poller?.timer) clearInterval(poller.timer);
+  if (poller) poller.timer = undefined;
+}
+
+async function scrape(namespace: string) {
+  const store = useMetricsStore.getState();
+  try {
+    const metrics = await k8sClient.listPodMetrics(namespace);
+    if (!pollers.has(namespace)) return;
+    if (metrics === null) {
+      // metrics-server isn't installed; retried when a consumer mounts again
+      store.setUnavailable(namespace);
+      stopPoller(namespace);
+    } else {
+      store.recordMetrics(namespace, metrics);
+    }
+  } catch (err) {
+    store.setMetricsError(err instanceof Error ? err.message : 'Failed to fetch metrics');
+  }
+}
+
+function subscribe(namespace: string): () => void {
+  const poller = pollers.get(namespace) ?? { subscribers: 0 };
+  pollers.set(namespace, poller);
+  poller.subscribers += 1;
+  if (!poller.timer) {
+    void scrape(namespace);
+    poller.timer = setInterval(() => void scrape(namespace), POLL_INTERVAL_MS);
+  }
+
+  return () => {
+    poller.subscribers -= 1;
+    if (poller.subscribers === 0) {
+      stopPoller(namespace);
+      pollers.delete(namespace);
+    }
+  };
+}
+
+/**
+ * Rolling CPU/memory series of the pods in a namespace from metrics.k8s.io.
+ * Scraping runs while at least one component uses the hook.
+ */
+export function usePodMetrics(namespace: string | undefined) {
+  const { namespace: recorded, series, available, error } = useMetricsStore();
+
+  useEffect(() => {
+    if (!namespace) return;
+    return subscribe(namespace);
+  }, [namespace]);
+
+  const current = recorded === namespace;
+  return {
+    series: current ? series : {},
+    available: current ? available : null,
+    error,
+  };
+}
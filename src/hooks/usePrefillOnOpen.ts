@@ -0,0 +1,17 @@
+/**
+ * Hook for create dialogs that double as duplicate dialogs: fills the form
+ * from the source resource each time the dialog opens for it.
+ */
+
+import { useEffect } from 'react';
+
+export function usePrefillOnOpen<T extends { metadata: { name: string } }>(
+  open: boolean,
+  source: T | undefined,
+  prefill: (source: T) => void
+) {
+  useEffect(() => {
+    if (open && source) prefill(source);
+  // eslint-disable-next-line react-hooks/exhaustive-deps -- prefill only when opened, so store refreshes don't wipe in-progress edits
+  }, [open, source?.metadata.name]);
+}
@@ -15,12 +15,22 @@ type LogFn = (
   resourceKind?: string
 ) => void;
 
+/**
+ * Re-list shortly after a change so the store catches server-side defaults.
+ * Live watches already deliver the change, so this only runs while polling.
+ */
+function scheduleRefreshUnlessWatching(refreshAll: () => Promise<void>) {
+  const { syncMode, liveSyncStatus } = useKubernetesStore.getState();
+  if (syncMode === 'watch' && liveSyncStatus !== 'unavailable' && liveSyncStatus !== 'off') return;
+  setTimeout(() => refreshAll(), 500);
+}
+
 /** Creates create/update/delete operations for a CRD resource type */
-function makeCrud<T extends { metadata: { name: string } }>(
+function makeCrud<T extends { metadata: { name: string; namespace?: string } }>(
   kind: string,
   client: {
     create: (item: T) => Promise<T>;
-    update: (item: T) => Promise<T>;
+    update: (item: T, original?: T) => Promise<T>;
     delete: (name: string, ns?: string) => Promise<unknown>;
   },
   storeOps: {
@@ -31,18 +41,20 @@ function makeCrud<T extends { metadata: { name: string } }>(
   log: LogFn,
   refreshAll: () => Promise<void>,
 ) {
-  const scheduleRefresh = () => setTimeout(() => refreshAll(), 500);
+  const scheduleRefresh = () => scheduleRefreshUnlessWatching(refreshAll);
+  // The store only mirrors the active namespace; duplicates into another one must not touch it
+  const inActiveNamespace = (namespace?: string) => !namespace || namespace === k8sClient.getConfig().namespace;
 
   return {
     create: async (item: T): Promise<T> => {
       const result = await client.create(item);
-      storeOps.add(result);
+      if (inActiveNamespace(result.metadata.namespace)) storeOps.add(result);
       log('info', `Created ${kind} ${result.metadata.name}`, 'api', result.metadata.name, kind);
       scheduleRefresh();
       return result;
     },
-    update: async (item: T): Promise<T> => {
-      const result = await client.update(item);
+    update: async (item: T, original?: T): Promise<T> => {
+      const result = await client.update(item, original);
       storeOps.update(result.metadata.name, result);
       log('info', `Updated ${kind} ${result.metadata.name}`, 'api', result.metadata.name, kind);
       scheduleRefresh();
@@ -50,7 +62,7 @@ function makeCrud<T extends { metadata: { name: string } }>(
     },
     delete: async (name: string, namespace?: string): Promise<void> => {
       await client.delete(name, namespace);
-      storeOps.delete(name);
+      if (inActiveNamespace(namespace)) storeOps.delete(name);
       log('info', `Deleted ${kind} ${name}`, 'api', name, kind);
       scheduleRefresh();
     },
@@ -62,21 +74,21 @@ export function useResourceCrud(addLogEntry: LogFn, refreshAll: () => Promise<vo
 
   const modelAPI = makeCrud<ModelAPI>(
     'ModelAPI',
-    { create: (a) => k8sClient.createModelAPI(a), update: (a) => k8sClient.updateModelAPI(a), delete: (n, ns) => k8sClient.deleteModelAPI(n, ns) },
+    { create: (a) => k8sClient.createModelAPI(a), update: (a, o) => k8sClient.updateModelAPI(a, o), delete: (n, ns) => k8sClient.deleteModelAPI(n, ns) },
     { add: store.addModelAPI, update: store.updateModelAPI, delete: store.deleteModelAPI },
     addLogEntry, refreshAll,
   );
 
   const mcpServer = makeCrud<MCPServer>(
     'MCPServer',
-    { create: (s) => k8sClient.createMCPServer(s), update: (s) => k8sClient.updateMCPServer(s), delete: (n, ns) => k8sClient.deleteMCPServer(n, ns) },
+    { create: (s) => k8sClient.createMCPServer(s), update: (s, o) => k8sClient.updateMCPServer(s, o), delete: (n, ns) => k8sClient.deleteMCPServer(n, ns) },
     { add: store.addMCPServer, update: store.updateMCPServer, delete: store.deleteMCPServer },
     addLogEntry, refreshAll,
   );
 
   const agent = makeCrud<Agent>(
     'Agent',
-    { create: (a) => k8sClient.createAgent(a), update: (a) => k8sClient.updateAgent(a), delete: (n, ns) => k8sClient.deleteAgent(n, ns) },
+    { create: (a) => k8sClient.createAgent(a), update: (a, o) => k8sClient.updateAgent(a, o), delete: (n, ns) => k8sClient.deleteAgent(n, ns) },
     { add: store.addAgent, update: store.updateAgent, delete: store.deleteAgent },
     addLogEntry, refreshAll,
   );
@@ -89,7 +101,7 @@ export function useResourceCrud(addLogEntry: LogFn, refreshAll: () => Promise<vo
     };
     store.addSecret(secretWithKeys);
     addLogEntry('info', `Created Secret ${created.metadata.name}`, 'api', created.metadata.name, 'Secret');
-    setTimeout(() => refreshAll(), 500);
+    scheduleRefreshUnlessWatching(refreshAll);
     return secretWithKeys;
   };
 
@@ -97,7 +109,7 @@ export function useResourceCrud(addLogEntry: LogFn, refreshAll: () => Promise<vo
     await k8sClient.deleteSecret(name, namespace);
     store.deleteSecret(name);
     addLogEntry('info', `Deleted Secret ${name}`, 'api', name, 'Secret');
-    setTimeout(() => refreshAll(), 500);
+    scheduleRefreshUnlessWatching(refreshAll);
   };
 
   return {
@@ -0,0 +1,56 @@
+/**
+ * Built-in stack templates plus the team's own from the templates ConfigMap
+ * in the KAOS system namespace.
+ */
+
+import { useEffect, useState } from 'react';
+import { k8sClient } from '@/lib/kubernetes-client';
+import { getSystemNamespace } from '@/lib/connection-profiles';
+import {
+  BUILTIN_TEMPLATES,
+  TEMPLATES_CONFIGMAP,
+  parseTemplatesConfigMap,
+  type StackTemplate,
+} from '@/lib/stack-templates';
+
+export function useStackTemplates(active: boolean) {
+  const [customTemplates, setCustomTemplates] = useState<StackTemplate[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!active) return;
+    let cancelled = false;
+
+    setLoading(true);
+    k8sClient.getConfigMap(TEMPLATES_CONFIGMAP, getSystemNamespace())
+      .then((configMap) => {
+        if (cancelled) return;
+        const parsed = parseTemplatesConfigMap(configMap.data);
+        setCustomTemplates(parsed.templates);
+        setErrors(parsed.errors);
+      })
+      .catch(() => {
+        // No ConfigMap (or no access to the system namespace): built-in templates only
+        if (cancelled) return;
+        setCustomTemplates([]);
+        setErrors([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [active]);
+
+  const builtin = BUILTIN_TEMPLATES.map((template) => ({ ...template, source: 'builtin' as const }));
+  // Team templates with the same id replace the built-in one
+  const templates = [
+    ...builtin.filter((template) => !customTemplates.some((custom) => custom.id === template.id)),
+    ...customTemplates,
+  ];
+
+  return { templates, errors, loading };
+}
@@ -6,7 +6,27 @@
  * and progress block parsing.
  */
 
-import { k8sClient } from './kubernetes-client';
+import { k8sClient, K8sAuthError } from './kubernetes-client';
+
+export const DEFAULT_CHAT_TEMPERATURE = 0.7;
+
+export interface ChatUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+}
+
+/**
+ * Timings of one chat completion, in milliseconds from sending the request.
+ */
+export interface ChatTelemetry {
+  firstTokenMs?: number;
+  durationMs: number;
+  // Token counts, when the agent reports `usage`
+  usage?: ChatUsage;
+  // One entry per progress step, in the order they were received
+  steps: { startMs: number; durationMs: number }[];
+}
 
 export interface StreamAgentChatOptions {
   namespace?: string;
@@ -19,10 +39,37 @@ export interface StreamAgentChatOptions {
   signal?: AbortSignal;
   onChunk: (content: string) => void;
   onProgress?: (progress: { type: string; step: number; max_steps: number; action: string; target: string }) => void;
-  onDone: (metadata?: { sessionId?: string }) => void;
+  onDone: (metadata?: { sessionId?: string; telemetry?: ChatTelemetry }) => void;
   onError: (error: Error) => void;
 }
 
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+function parseUsage(usage: OpenAIUsage | undefined): ChatUsage | undefined {
+  if (!usage || typeof usage !== 'object') return undefined;
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+  };
+}
+
+/**
+ * A step lasts until the next step starts, or until the first response
+ * token (or the end) for the last one.
+ */
+export function buildTelemetry(stepStarts: number[], durationMs: number, firstTokenMs?: number, usage?: ChatUsage): ChatTelemetry {
+  const steps = stepStarts.map((startMs, index) => {
+    const next = stepStarts[index + 1] ?? (firstTokenMs !== undefined && firstTokenMs > startMs ? firstTokenMs : durationMs);
+    return { startMs, durationMs: Math.max(0, next - startMs) };
+  });
+  return { firstTokenMs, durationMs, ...(usage && { usage }), steps };
+}
+
 /**
  * Stream a chat completion request to an agent service via the K8s API proxy.
  * 
@@ -38,7 +85,7 @@ export async function streamAgentChat(
   const {
     namespace,
     model = 'default',
-    temperature = 0.7,
+    temperature = DEFAULT_CHAT_TEMPERATURE,
     maxTokens,
     sessionId,
     seed,
@@ -71,8 +118,7 @@ export async function streamAgentChat(
 
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
-    'X-Requested-With': 'XMLHttpRequest',
-    'bypass-tunnel-reminder': '1',
+    ...k8sClient.getRequestHeaders(),
   };
 
   if (stream) {
@@ -81,16 +127,26 @@ export async function streamAgentChat(
     headers['Connection'] = 'keep-alive';
   }
 
+  const startedAt = performance.now();
+  const elapsed = () => Math.round(performance.now() - startedAt);
+  const stepStarts: number[] = [];
+  let firstTokenMs: number | undefined;
+  let usage: ChatUsage | undefined;
+  const telemetry = () => buildTelemetry(stepStarts, elapsed(), firstTokenMs, usage);
+
   try {
     console.log(`[agentClient] POST ${proxyUrl} (stream=${stream})`);
 
-    const response = await fetch(proxyUrl, {
+    const response = await k8sClient.fetchWithAuth(proxyUrl, {
       method: 'POST',
       headers,
       body,
       signal,
     });
 
+    if (response.status === 401 || response.status === 403) {
+      throw new K8sAuthError(response.status);
+    }
     if (!response.ok) {
       const errorText = await response.text();
       throw new Error(`Chat API error ${response.status}: ${errorText}`);
@@ -101,9 +157,11 @@ export async function streamAgentChat(
       console.log('[agentClient] Non-streaming response:', JSON.stringify(data).substring(0, 500));
       const content = data.choices?.[0]?.message?.content;
       if (content) {
+        firstTokenMs = elapsed();
         onChunk(content);
       }
-      onDone({ sessionId: data.session_id });
+      usage = parseUsage(data.usage);
+      onDone({ sessionId: data.session_id, telemetry: telemetry() });
       return;
     }
 
@@ -132,7 +190,7 @@ export async function streamAgentChat(
         if (trimmed.startsWith('data: ')) {
           const data = trimmed.slice(6);
           if (data === '[DONE]') {
-            onDone({ sessionId: receivedSessionId });
+            onDone({ sessionId: receivedSessionId, telemetry: telemetry() });
             return;
           }
 
@@ -142,6 +200,9 @@ export async function streamAgentChat(
             if (parsed.session_id) {
               receivedSessionId = parsed.session_id;
             }
+            if (parsed.usage) {
+              usage = parseUsage(parsed.usage);
+            }
 
             const content = parsed.choices?.[0]?.delta?.content;
             if (content !== undefined && content !== null && content !== '') {
@@ -153,6 +214,7 @@ export async function streamAgentChat(
                   const progressData = JSON.parse(trimmedContent);
                   if (progressData?.type === 'progress' && onProgress) {
                     console.log('[agentClient] Progress block:', progressData);
+                    stepStarts.push(elapsed());
                     onProgress(progressData);
                     continue;
                   }
@@ -161,6 +223,7 @@ export async function streamAgentChat(
                 }
               }
 
+              if (firstTokenMs === undefined) firstTokenMs = elapsed();
               onChunk(content);
             }
           } catch {
@@ -171,7 +234,7 @@ export async function streamAgentChat(
     }
 
     // Stream ended without [DONE]
-    onDone({ sessionId: receivedSessionId });
+    onDone({ sessionId: receivedSessionId, telemetry: telemetry() });
   } catch (error) {
     if (signal?.aborted) {
       console.log('[agentClient] Stream aborted by user');
@@ -0,0 +1,114 @@
+/**
+ * Side-by-side agent comparison: one prompt per turn sent to several agents,
+ * each keeping its own conversation history, plus export of the result.
+ */
+
+import type { ProgressStep } from '@/components/agent/ReasoningSteps';
+import type { Agent } from '@/types/kubernetes';
+
+export const MIN_COMPARED_AGENTS = 2;
+export const MAX_COMPARED_AGENTS = 4;
+
+export type ComparisonStatus = 'streaming' | 'done' | 'error' | 'stopped';
+
+export interface ComparisonResponse {
+  content: string;
+  progressSteps: ProgressStep[];
+  status: ComparisonStatus;
+  error?: string;
+  // Milliseconds from sending the prompt
+  firstTokenMs?: number;
+  latencyMs?: number;
+}
+
+export interface ComparisonTurn {
+  id: string;
+  prompt: string;
+  sentAt: string;
+  // Keyed by agent name
+  responses: Record<string, ComparisonResponse>;
+  preferred?: string;
+}
+
+export interface ComparisonExport {
+  version: 1;
+  exportedAt: string;
+  namespace: string;
+  seed?: number;
+  agents: { name: string; model: string; modelAPI: string }[];
+  turns: ComparisonTurn[];
+}
+
+export function createResponse(): ComparisonResponse {
+  return { content: '', progressSteps: [], status: 'streaming' };
+}
+
+export function countSteps(steps: ProgressStep[]): { toolCalls: number; delegations: number } {
+  return {
+    toolCalls: steps.filter((s) => s.action === 'tool_call').length,
+    delegations: steps.filter((s) => s.action === 'delegate').length,
+  };
+}
+
+/**
+ * The chat history an agent is sent for the next prompt: every earlier
+ * prompt with that agent's own answer to it. Failed answers are left out.
+ */
+export function buildAgentHistory(turns: ComparisonTurn[], agentName: string): { role: string; content: string }[] {
+  return turns.flatMap((turn) => {
+    const response = turn.responses[agentName];
+    const messages = [{ role: 'user', content: turn.prompt }];
+    if (response && response.status !== 'error' && response.content) {
+      messages.push({ role: 'assistant', content: response.content });
+    }
+    return messages;
+  });
+}
+
+export function createComparisonExport(agents: Agent[], turns: ComparisonTurn[], namespace: string, seed?: number): ComparisonExport {
+  return {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    namespace,
+    ...(seed !== undefined && { seed }),
+    agents: agents.map((a) => ({ name: a.metadata.name, model: a.spec.model, modelAPI: a.spec.modelAPI })),
+    turns,
+  };
+}
+
+function formatMs(ms?: number): string {
+  return ms === undefined ? '-' : `${(ms / 1000).toFixed(2)}s`;
+}
+
+export function comparisonToMarkdown(comparison: ComparisonExport): string {
+  const out = [
+    '# Agent comparison',
+    '',
+    `- **Namespace:** \`${comparison.namespace}\``,
+    ...(comparison.seed !== undefined ? [`- **Seed:** \`${comparison.seed}\``] : []),
+    `- **Exported:** \`${comparison.exportedAt}\``,
+    '',
+    '| Agent | Model | ModelAPI |',
+    '|-------|-------|----------|',
+    ...comparison.agents.map((a) => `| ${a.name} | ${a.model} | ${a.modelAPI} |`),
+  ];
+
+  comparison.turns.forEach((turn, index) => {
+    out.push('', `## Turn ${index + 1}`, '', ...turn.prompt.split('\n').map((line) => `> ${line}`));
+    for (const agent of comparison.agents) {
+      const response = turn.responses[agent.name];
+      if (!response) continue;
+      const { toolCalls, delegations } = countSteps(response.progressSteps);
+      const preferred = turn.preferred === agent.name ? ' (preferred)' : '';
+      out.push(
+        '',
+        `### ${agent.name}${preferred}`,
+        '',
+        `*${response.status} · latency ${formatMs(response.latencyMs)} · first token ${formatMs(response.firstTokenMs)} · ${toolCalls} tool calls · ${delegations} delegations*`,
+        '',
+        response.error ? `Error: ${response.error}` : response.content,
+      );
+    }
+  });
+  return `${out.join('\n')}\n`;
+}
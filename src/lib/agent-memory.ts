@@ -0,0 +1,51 @@
+/**
+ * Read access to an agent's debug memory endpoints (`/memory/events`,
+ * `/memory/sessions`), available when AGENT_DEBUG_MEMORY_ENDPOINTS=true.
+ */
+
+import { k8sClient } from './kubernetes-client';
+
+export interface MemoryEvent {
+  id: string;
+  type: string;
+  content?: string | Record<string, unknown>;
+  timestamp?: string;
+  session_id?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Normalize a raw memory event from the backend API.
+ * The backend returns event_type/event_id but the UI uses type/id.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function normalizeMemoryEvent(raw: any): MemoryEvent {
+  return {
+    id: raw.event_id || raw.id,
+    type: raw.event_type || raw.type || 'unknown',
+    content: raw.content,
+    timestamp: raw.timestamp,
+    session_id: raw.session_id,
+    metadata: raw.metadata,
+  };
+}
+
+async function getMemory<T>(serviceName: string, path: string, namespace: string): Promise<T> {
+  const response = await k8sClient.proxyServiceRequest(serviceName, path, { method: 'GET' }, namespace);
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Memory fetch failed: ${response.status} - ${errorText}`);
+  }
+  return response.json();
+}
+
+export async function fetchMemoryEvents(serviceName: string, namespace: string, sessionId?: string): Promise<MemoryEvent[]> {
+  const query = sessionId ? `?session_id=${encodeURIComponent(sessionId)}` : '';
+  const data = await getMemory<{ events?: unknown[] }>(serviceName, `/memory/events${query}`, namespace);
+  return (data.events || []).map(normalizeMemoryEvent);
+}
+
+export async function fetchMemorySessions(serviceName: string, namespace: string): Promise<string[]> {
+  const data = await getMemory<{ sessions?: string[] }>(serviceName, '/memory/sessions', namespace);
+  return data.sessions || [];
+}
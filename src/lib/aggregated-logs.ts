@@ -0,0 +1,78 @@
+/**
+ * Merging of log lines from several pods into one timeline, the way stern
+ * does: each line keeps its source, and lines are interleaved by timestamp.
+ */
+
+import { compareLogTimestamps, type LogLine } from './k8s/logs';
+
+export interface LogSource {
+  pod: string;
+  container: string;
+}
+
+export interface SourcedLogLine extends LogLine {
+  source: LogSource;
+}
+
+export function sourceKey({ pod, container }: LogSource): string {
+  return `${pod}/${container}`;
+}
+
+// Tailwind text colours, distinguishable on light and dark backgrounds
+export const SOURCE_COLORS = [
+  'text-sky-500',
+  'text-emerald-500',
+  'text-amber-500',
+  'text-fuchsia-500',
+  'text-rose-500',
+  'text-lime-500',
+  'text-violet-500',
+  'text-orange-500',
+];
+
+/**
+ * Stable colour for a source, so a pod keeps its colour as others come and go.
+ */
+export function sourceColor(source: LogSource): string {
+  const key = sourceKey(source);
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 31 + key.charCodeAt(i)) | 0;
+  }
+  return SOURCE_COLORS[Math.abs(hash) % SOURCE_COLORS.length];
+}
+
+/**
+ * Short label for a pod: the ReplicaSet and pod hash suffixes of a
+ * Deployment pod ("agent-foo-5d9c7b-x2x8q" → "x2x8q"), else the full name.
+ */
+export function shortPodName(pod: string): string {
+  const match = /-[a-z0-9]{8,10}-([a-z0-9]{5})$/.exec(pod);
+  return match ? match[1] : pod;
+}
+
+/**
+ * Insert lines into a timeline sorted by timestamp, dropping the oldest lines
+ * beyond `maxLines`. Lines without a timestamp go at the end. Lines arrive in
+ * order per source, so each insert scans back from the end.
+ */
+export function mergeLogLines(
+  timeline: SourcedLogLine[],
+  lines: SourcedLogLine[],
+  maxLines: number
+): { lines: SourcedLogLine[]; dropped: number } {
+  const merged = timeline.slice();
+  for (const line of lines) {
+    let index = merged.length;
+    if (line.timestamp) {
+      while (index > 0) {
+        const previous = merged[index - 1].timestamp;
+        if (!previous || compareLogTimestamps(previous, line.timestamp) <= 0) break;
+        index -= 1;
+      }
+    }
+    merged.splice(index, 0, line);
+  }
+  const dropped = Math.max(0, merged.length - maxLines);
+  return { lines: dropped > 0 ? merged.slice(dropped) : merged, dropped };
+}
@@ -0,0 +1,195 @@
+/**
+ * Chat sessions of an agent: summaries for the session browser built from the
+ * agent's memory, conversion of memory events back into chat messages, and
+ * the local titles, pins and message snapshots kept per agent in localStorage.
+ */
+
+import type { ChatMessage } from '@/hooks/useAgentChat';
+import type { ProgressStep } from '@/components/agent/ReasoningSteps';
+import type { MemoryEvent } from './agent-memory';
+
+export interface LocalChatSession {
+  title?: string;
+  pinned?: boolean;
+  // Snapshot of the conversation, so sessions survive without agent memory
+  messages?: ChatMessage[];
+  updatedAt?: string;
+}
+
+export type LocalChatSessions = Record<string, LocalChatSession>;
+
+export interface ChatSessionSummary {
+  id: string;
+  title?: string;
+  pinned: boolean;
+  preview: string;
+  startedAt?: string;
+  lastActivity?: string;
+  messageCount: number;
+}
+
+const PREVIEW_LENGTH = 80;
+// Sessions whose message snapshots are kept; older ones keep only title/pin
+const MAX_LOCAL_SNAPSHOTS = 20;
+
+const STEP_ACTIONS: Record<string, { action: string; targetKey: string }> = {
+  tool_call: { action: 'tool_call', targetKey: 'tool' },
+  delegation_request: { action: 'delegate', targetKey: 'agent' },
+};
+
+const getSessionsKey = (namespace: string, name: string) => `agent-chat-sessions-${namespace}-${name}`;
+
+function contentText(content: MemoryEvent['content']): string {
+  if (typeof content === 'string') return content;
+  return content ? JSON.stringify(content) : '';
+}
+
+function truncate(text: string): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > PREVIEW_LENGTH ? `${line.slice(0, PREVIEW_LENGTH - 1)}…` : line;
+}
+
+/**
+ * Rebuild the chat transcript of one session from its memory events. Tool
+ * calls and delegations between a user message and the agent's response
+ * become that response's progress steps.
+ */
+export function memoryEventsToChatMessages(events: MemoryEvent[]): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  let steps: ProgressStep[] = [];
+
+  events.forEach((event, index) => {
+    const timestamp = event.timestamp ? new Date(event.timestamp) : new Date();
+    const id = event.id || `hist-${index}`;
+
+    if (event.type === 'user_message') {
+      steps = [];
+      messages.push({ id, role: 'user', content: contentText(event.content), timestamp });
+    } else if (event.type === 'agent_response') {
+      const progressSteps = steps.map((step) => ({ ...step, max_steps: steps.length }));
+      messages.push({
+        id,
+        role: 'assistant',
+        content: contentText(event.content),
+        timestamp,
+        isStreaming: false,
+        ...(progressSteps.length > 0 && { progressSteps }),
+      });
+      steps = [];
+    } else if (STEP_ACTIONS[event.type]) {
+      const { action, targetKey } = STEP_ACTIONS[event.type];
+      const content = event.content && typeof event.content === 'object' ? event.content : {};
+      steps.push({
+        type: 'progress',
+        step: steps.length + 1,
+        max_steps: 0,
+        action,
+        target: String(content[targetKey] ?? 'unknown'),
+        completed: true,
+      });
+    }
+  });
+
+  return messages;
+}
+
+/**
+ * One summary per session known to the agent's memory or stored locally.
+ */
+export function summarizeSessions(sessionIds: string[], events: MemoryEvent[], local: LocalChatSessions): ChatSessionSummary[] {
+  const bySession = new Map<string, MemoryEvent[]>();
+  for (const id of sessionIds) bySession.set(id, []);
+  for (const event of events) {
+    if (!event.session_id) continue;
+    const sessionEvents = bySession.get(event.session_id) ?? [];
+    sessionEvents.push(event);
+    bySession.set(event.session_id, sessionEvents);
+  }
+
+  const summaries = new Map<string, ChatSessionSummary>();
+  for (const [id, sessionEvents] of bySession) {
+    const conversation = sessionEvents.filter((e) => e.type === 'user_message' || e.type === 'agent_response');
+    const firstUser = sessionEvents.find((e) => e.type === 'user_message');
+    const times = sessionEvents.map((e) => e.timestamp).filter((t): t is string => !!t).sort();
+    summaries.set(id, {
+      id,
+      title: local[id]?.title,
+      pinned: !!local[id]?.pinned,
+      preview: truncate(contentText(firstUser?.content)),
+      startedAt: times[0],
+      lastActivity: times[times.length - 1],
+      messageCount: conversation.length,
+    });
+  }
+
+  // Sessions only kept locally (memory disabled or since pruned)
+  for (const [id, session] of Object.entries(local)) {
+    if (summaries.has(id) || !session.messages?.length) continue;
+    const firstUser = session.messages.find((m) => m.role === 'user');
+    summaries.set(id, {
+      id,
+      title: session.title,
+      pinned: !!session.pinned,
+      preview: truncate(firstUser?.content ?? ''),
+      startedAt: new Date(session.messages[0].timestamp).toISOString(),
+      lastActivity: session.updatedAt,
+      messageCount: session.messages.length,
+    });
+  }
+
+  return [...summaries.values()];
+}
+
+/**
+ * Pinned sessions first, then most recently active.
+ */
+export function sortSessions(sessions: ChatSessionSummary[]): ChatSessionSummary[] {
+  return [...sessions].sort((a, b) => {
+    if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+    return (b.lastActivity ?? '').localeCompare(a.lastActivity ?? '');
+  });
+}
+
+export function searchSessions(sessions: ChatSessionSummary[], query: string): ChatSessionSummary[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return sessions;
+  return sessions.filter((s) => [s.id, s.title, s.preview].some((field) => field?.toLowerCase().includes(needle)));
+}
+
+/**
+ * Messages parsed from JSON with their timestamps revived.
+ */
+export function restoreChatMessages(messages: ChatMessage[]): ChatMessage[] {
+  return messages.map((m) => ({ ...m, timestamp: new Date(m.timestamp), isStreaming: false }));
+}
+
+export function loadLocalSessions(namespace: string, name: string): LocalChatSessions {
+  try {
+    const stored = localStorage.getItem(getSessionsKey(namespace, name));
+    const sessions: LocalChatSessions = stored ? JSON.parse(stored) : {};
+    for (const session of Object.values(sessions)) {
+      if (session.messages) session.messages = restoreChatMessages(session.messages);
+    }
+    return sessions;
+  } catch (e) {
+    console.warn('Failed to load chat sessions:', e);
+    return {};
+  }
+}
+
+export function saveLocalSessions(namespace: string, name: string, sessions: LocalChatSessions): void {
+  // Drop the snapshots of all but the most recently updated sessions
+  const keep = new Set(
+    Object.entries(sessions)
+      .filter(([, s]) => s.messages?.length)
+      .sort(([, a], [, b]) => (b.updatedAt ?? '').localeCompare(a.updatedAt ?? ''))
+      .slice(0, MAX_LOCAL_SNAPSHOTS)
+      .map(([id]) => id)
+  );
+  const trimmed = Object.fromEntries(Object.entries(sessions).map(([id, s]) => [id, keep.has(id) ? s : { ...s, messages: undefined }]));
+  try {
+    localStorage.setItem(getSessionsKey(namespace, name), JSON.stringify(trimmed));
+  } catch (e) {
+    console.warn('Failed to persist chat sessions:', e);
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Summaries of the per-reply telemetry captured by `streamAgentChat`, for
+ * spotting slow tool calls and chatty agents.
+ */
+
+import type { ChatMessage } from '@/hooks/useAgentChat';
+import type { ChatTelemetry } from './agent-client';
+import type { ProgressStep } from '@/components/agent/ReasoningSteps';
+
+// Steps at least this long are highlighted as slow
+export const SLOW_STEP_MS = 5000;
+
+export interface ChatTelemetrySummary {
+  replies: number;
+  avgDurationMs?: number;
+  avgFirstTokenMs?: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  toolCalls: number;
+  delegations: number;
+  slowestStep?: { target: string; action: string; durationMs: number };
+}
+
+export function formatDuration(ms?: number): string {
+  if (ms === undefined) return '–';
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(ms < 10000 ? 2 : 1)}s`;
+}
+
+/**
+ * The progress steps of a reply with how long each took.
+ */
+export function getTimedSteps(steps: ProgressStep[] = [], telemetry?: ChatTelemetry): { target: string; action: string; durationMs?: number }[] {
+  return steps.map((step, index) => ({
+    target: step.target,
+    action: step.action,
+    durationMs: telemetry?.steps[index]?.durationMs,
+  }));
+}
+
+/**
+ * Completion tokens per second of response streaming, when known.
+ */
+export function getTokensPerSecond(telemetry?: ChatTelemetry): number | undefined {
+  const tokens = telemetry?.usage?.completionTokens;
+  if (!telemetry || !tokens) return undefined;
+  const streamingMs = telemetry.durationMs - (telemetry.firstTokenMs ?? 0);
+  return streamingMs > 0 ? tokens / (streamingMs / 1000) : undefined;
+}
+
+export function summarizeChatTelemetry(messages: ChatMessage[]): ChatTelemetrySummary {
+  const replies = messages.flatMap((message) => (
+    message.role === 'assistant' && message.telemetry ? [{ message, telemetry: message.telemetry }] : []
+  ));
+  const average = (values: number[]) => (values.length ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : undefined);
+
+  const summary: ChatTelemetrySummary = {
+    replies: replies.length,
+    avgDurationMs: average(replies.map(({ telemetry }) => telemetry.durationMs)),
+    avgFirstTokenMs: average(replies.map(({ telemetry }) => telemetry.firstTokenMs).filter((v): v is number => v !== undefined)),
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    toolCalls: 0,
+    delegations: 0,
+  };
+
+  for (const { message, telemetry } of replies) {
+    const usage = telemetry.usage;
+    summary.promptTokens += usage?.promptTokens ?? 0;
+    summary.completionTokens += usage?.completionTokens ?? 0;
+    summary.totalTokens += usage?.totalTokens ?? (usage?.promptTokens ?? 0) + (usage?.completionTokens ?? 0);
+    for (const step of getTimedSteps(message.progressSteps, telemetry)) {
+      if (step.action === 'delegate') summary.delegations += 1;
+      else summary.toolCalls += 1;
+      if (step.durationMs !== undefined && step.durationMs > (summary.slowestStep?.durationMs ?? -1)) {
+        summary.slowestStep = { target: step.target, action: step.action, durationMs: step.durationMs };
+      }
+    }
+  }
+  return summary;
+}
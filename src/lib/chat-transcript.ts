@@ -0,0 +1,226 @@
+/**
+ * Agent conversation transcripts: export as JSON, Markdown or a self-contained
+ * HTML page for bug reports, and parsing of exported JSON for replaying the
+ * user turns against an agent.
+ */
+
+import type { ChatMessage } from '@/hooks/useAgentChat';
+import type { ChatTelemetry } from './agent-client';
+import type { ProgressStep } from '@/components/agent/ReasoningSteps';
+import type { Agent, AgentSpec } from '@/types/kubernetes';
+
+export interface TranscriptMessage {
+  role: ChatMessage['role'];
+  content: string;
+  timestamp: string;
+  progressSteps?: ProgressStep[];
+  telemetry?: ChatTelemetry;
+}
+
+export interface ChatTranscript {
+  version: 1;
+  exportedAt: string;
+  agent: {
+    name: string;
+    namespace: string;
+    // Spec snapshot at export time, to compare against the agent used for replay
+    spec: AgentSpec;
+  };
+  sessionId?: string;
+  model?: string;
+  seed?: number;
+  temperature?: number;
+  messages: TranscriptMessage[];
+}
+
+export type TranscriptFormat = 'json' | 'markdown' | 'html';
+
+export const TRANSCRIPT_FORMATS: Record<TranscriptFormat, { label: string; extension: string; mimeType: string }> = {
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  html: { label: 'HTML', extension: 'html', mimeType: 'text/html' },
+};
+
+export function createTranscript({ agent, messages, sessionId, seed, temperature }: {
+  agent: Agent;
+  messages: ChatMessage[];
+  sessionId?: string;
+  seed?: number;
+  temperature?: number;
+}): ChatTranscript {
+  return {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    agent: {
+      name: agent.metadata.name,
+      namespace: agent.metadata.namespace || 'default',
+      spec: agent.spec,
+    },
+    ...(sessionId && { sessionId }),
+    model: agent.spec.model,
+    ...(seed !== undefined && { seed }),
+    ...(temperature !== undefined && { temperature }),
+    messages: messages
+      .filter((m) => !m.isStreaming)
+      .map((m) => ({
+        role: m.role,
+        content: m.content,
+        timestamp: new Date(m.timestamp).toISOString(),
+        ...(m.progressSteps?.length && { progressSteps: m.progressSteps }),
+        ...(m.telemetry && { telemetry: m.telemetry }),
+      })),
+  };
+}
+
+function describeStep(step: ProgressStep): string {
+  return `${step.action === 'delegate' ? 'Delegate to' : 'Tool call'} ${step.target}`;
+}
+
+function metadataLines(transcript: ChatTranscript): [string, string][] {
+  const { agent, model, sessionId, seed, temperature, exportedAt } = transcript;
+  const lines: [string, string][] = [
+    ['Agent', `${agent.namespace}/${agent.name}`],
+    ['Model', model ?? agent.spec.model],
+    ['ModelAPI', agent.spec.modelAPI],
+  ];
+  if (sessionId) lines.push(['Session', sessionId]);
+  if (seed !== undefined) lines.push(['Seed', String(seed)]);
+  if (temperature !== undefined) lines.push(['Temperature', String(temperature)]);
+  lines.push(['Exported', exportedAt]);
+  return lines;
+}
+
+const ROLE_LABELS: Record<TranscriptMessage['role'], string> = { user: 'User', assistant: 'Assistant', system: 'System' };
+
+export function transcriptToMarkdown(transcript: ChatTranscript): string {
+  const out = [`# Conversation with ${transcript.agent.name}`, ''];
+  for (const [label, value] of metadataLines(transcript)) out.push(`- **${label}:** \`${value}\``);
+
+  for (const message of transcript.messages) {
+    out.push('', `## ${ROLE_LABELS[message.role]} (${message.timestamp})`, '');
+    if (message.progressSteps?.length) {
+      for (const step of message.progressSteps) out.push(`> ${step.step}. ${describeStep(step)}`);
+      out.push('');
+    }
+    out.push(message.content);
+  }
+  return `${out.join('\n')}\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const HTML_STYLE = `
+body { font-family: system-ui, sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; color: #1f2937; }
+h1 { font-size: 1.4rem; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; font-size: 0.85rem; }
+dt { color: #6b7280; }
+dd { margin: 0; font-family: ui-monospace, monospace; }
+.message { border-radius: 8px; padding: 0.75rem 1rem; margin: 1rem 0; }
+.user { background: #eff6ff; }
+.assistant { background: #f3f4f6; }
+.meta { font-size: 0.75rem; color: #6b7280; margin-bottom: 0.5rem; }
+.steps { font-size: 0.8rem; color: #6b21a8; margin: 0 0 0.5rem; padding-left: 1.25rem; }
+.content { white-space: pre-wrap; word-break: break-word; margin: 0; font-family: inherit; }
+details pre { font-size: 0.75rem; overflow-x: auto; }
+`;
+
+/**
+ * A standalone HTML page with the transcript and its metadata; message
+ * content is shown as plain text so the page runs no markup from the agent.
+ */
+export function transcriptToHtml(transcript: ChatTranscript): string {
+  const metadata = metadataLines(transcript)
+    .map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`)
+    .join('\n');
+  const messages = transcript.messages
+    .map((message) => {
+      const steps = message.progressSteps?.length
+        ? `<ol class="steps">${message.progressSteps.map((s) => `<li>${escapeHtml(describeStep(s))}</li>`).join('')}</ol>`
+        : '';
+      return [
+        `<div class="message ${message.role}">`,
+        `<div class="meta">${ROLE_LABELS[message.role]} &middot; ${escapeHtml(message.timestamp)}</div>`,
+        steps,
+        `<pre class="content">${escapeHtml(message.content)}</pre>`,
+        '</div>',
+      ].join('\n');
+    })
+    .join('\n');
+  const title = `Conversation with ${escapeHtml(transcript.agent.name)}`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<h1>${title}</h1>
+<dl>
+${metadata}
+</dl>
+<details><summary>Agent spec</summary><pre>${escapeHtml(JSON.stringify(transcript.agent.spec, null, 2))}</pre></details>
+${messages}
+</body>
+</html>
+`;
+}
+
+export function formatTranscript(transcript: ChatTranscript, format: TranscriptFormat): string {
+  switch (format) {
+    case 'markdown': return transcriptToMarkdown(transcript);
+    case 'html': return transcriptToHtml(transcript);
+    default: return JSON.stringify(transcript, null, 2);
+  }
+}
+
+export function transcriptFilename(transcript: ChatTranscript, format: TranscriptFormat): string {
+  const suffix = transcript.sessionId || transcript.exportedAt.slice(0, 19).replace(/[:T]/g, '-');
+  return `${transcript.agent.name}-${suffix}.${TRANSCRIPT_FORMATS[format].extension}`;
+}
+
+/**
+ * Parse and validate an exported JSON transcript.
+ */
+export function parseTranscriptImport(text: string): ChatTranscript {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid JSON');
+  }
+
+  const transcript = parsed as Partial<ChatTranscript>;
+  if (!transcript || !Array.isArray(transcript.messages)) {
+    throw new Error('Expected a "messages" array');
+  }
+  transcript.messages.forEach((message, index) => {
+    if (!message || !Object.keys(ROLE_LABELS).includes(message.role)) {
+      throw new Error(`Message ${index + 1}: "role" must be "user", "assistant" or "system"`);
+    }
+    if (typeof message.content !== 'string') {
+      throw new Error(`Message ${index + 1}: "content" must be a string`);
+    }
+  });
+  if (!transcript.messages.some((m) => m.role === 'user')) {
+    throw new Error('Transcript has no user messages to replay');
+  }
+  if (transcript.seed !== undefined && typeof transcript.seed !== 'number') {
+    throw new Error('"seed" must be a number');
+  }
+  return transcript as ChatTranscript;
+}
+
+/**
+ * The user messages of a transcript, in the order they are replayed.
+ */
+export function getReplayTurns(transcript: ChatTranscript): string[] {
+  return transcript.messages.filter((m) => m.role === 'user').map((m) => m.content);
+}
@@ -0,0 +1,112 @@
+/**
+ * Branching chat conversations. Every message is a node whose parent is the
+ * message before it; editing a question or regenerating a reply adds a
+ * sibling branch. The conversation shown and sent to the agent is the path
+ * following the selected child of each node.
+ */
+
+import type { ChatMessage } from '@/hooks/useAgentChat';
+
+export interface ChatTreeNode {
+  message: ChatMessage;
+  parentId: string | null;
+  // Memory session of the branch starting at this node, when it was forked
+  sessionId?: string;
+}
+
+export interface ChatTree {
+  nodes: Record<string, ChatTreeNode>;
+  // Child IDs per node in creation order; top-level messages are under ROOT
+  children: Record<string, string[]>;
+  // The child followed from each node
+  selected: Record<string, string>;
+}
+
+const ROOT = '';
+
+const keyOf = (parentId: string | null) => parentId ?? ROOT;
+
+export function createChatTree(messages: ChatMessage[] = []): ChatTree {
+  return addMessages({ nodes: {}, children: {}, selected: {} }, null, messages);
+}
+
+/**
+ * Add a chain of messages below `parentId` and select it.
+ */
+export function addMessages(tree: ChatTree, parentId: string | null, messages: ChatMessage[], sessionId?: string): ChatTree {
+  const nodes = { ...tree.nodes };
+  const children = { ...tree.children };
+  const selected = { ...tree.selected };
+
+  let parent = parentId;
+  messages.forEach((message, index) => {
+    const key = keyOf(parent);
+    nodes[message.id] = { message, parentId: parent, ...(index === 0 && sessionId && { sessionId }) };
+    children[key] = [...(children[key] ?? []), message.id];
+    selected[key] = message.id;
+    parent = message.id;
+  });
+  return { nodes, children, selected };
+}
+
+export function updateMessage(tree: ChatTree, id: string, update: (message: ChatMessage) => ChatMessage): ChatTree {
+  const node = tree.nodes[id];
+  if (!node) return tree;
+  return { ...tree, nodes: { ...tree.nodes, [id]: { ...node, message: update(node.message) } } };
+}
+
+/**
+ * The nodes from the first message down to the selected leaf.
+ */
+export function getActivePath(tree: ChatTree): ChatTreeNode[] {
+  const path: ChatTreeNode[] = [];
+  let id = tree.selected[ROOT];
+  while (id && tree.nodes[id]) {
+    path.push(tree.nodes[id]);
+    id = tree.selected[id];
+  }
+  return path;
+}
+
+export function getActiveMessages(tree: ChatTree): ChatMessage[] {
+  return getActivePath(tree).map((node) => node.message);
+}
+
+/**
+ * The nodes from the first message down to (and including) `id`.
+ */
+export function getPathTo(tree: ChatTree, id: string | null): ChatTreeNode[] {
+  const path: ChatTreeNode[] = [];
+  let current = id;
+  while (current && tree.nodes[current]) {
+    path.unshift(tree.nodes[current]);
+    current = tree.nodes[current].parentId;
+  }
+  return path;
+}
+
+/**
+ * The memory session of the innermost forked branch on a path.
+ */
+export function getBranchSessionId(path: ChatTreeNode[]): string | undefined {
+  return [...path].reverse().find((node) => node.sessionId)?.sessionId;
+}
+
+export function getBranchInfo(tree: ChatTree, id: string): { index: number; count: number } {
+  const node = tree.nodes[id];
+  const siblings = node ? tree.children[keyOf(node.parentId)] ?? [] : [];
+  return { index: siblings.indexOf(id), count: siblings.length };
+}
+
+/**
+ * Select the sibling branch `offset` positions away from the message `id`.
+ */
+export function switchBranch(tree: ChatTree, id: string, offset: number): ChatTree {
+  const node = tree.nodes[id];
+  if (!node) return tree;
+  const key = keyOf(node.parentId);
+  const siblings = tree.children[key] ?? [];
+  const target = siblings[siblings.indexOf(id) + offset];
+  if (!target) return tree;
+  return { ...tree, selected: { ...tree.selected, [key]: target } };
+}
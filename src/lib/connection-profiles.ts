@@ -0,0 +1,294 @@
+/**
+ * Named cluster connection profiles persisted in localStorage.
+ *
+ * A profile captures everything needed to (re)connect to a KAOS cluster so
+ * users can switch between dev/staging/prod without retyping URLs. Their
+ * credentials are kept in sessionStorage unless the user opts in to
+ * remembering them, since localStorage holds them in plain text indefinitely.
+ */
+
+import { isAuthConfig, type K8sAuthConfig } from '@/lib/k8s/auth';
+
+export type ProfileColor = 'slate' | 'blue' | 'green' | 'amber' | 'red' | 'purple';
+
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  // Kubernetes API proxy URL (no trailing slash)
+  baseUrl: string;
+  // Namespace selected when switching to this profile
+  namespace: string;
+  // Namespace where the KAOS operator is installed
+  systemNamespace: string;
+  // Optional Authorization header value (e.g. "Bearer <token>")
+  authHeader?: string;
+  // Bearer token / OIDC credentials (see lib/k8s/auth)
+  auth?: K8sAuthConfig;
+  color: ProfileColor;
+}
+
+export interface ProfilesExport {
+  version: 1;
+  profiles: Omit<ConnectionProfile, 'id'>[];
+}
+
+const PROFILES_KEY = 'k8s-connection-profiles';
+const ACTIVE_PROFILE_KEY = 'k8s-active-profile';
+const LEGACY_CONFIG_KEY = 'k8s-config';
+const SYSTEM_NAMESPACE_KEY = 'kaos-system-namespace';
+// Credentials for connections made without a profile, scoped to their URL
+const STORED_AUTH_KEY = 'k8s-auth';
+// Profile credentials for the current browser session, keyed by profile id
+const SESSION_CREDENTIALS_KEY = 'k8s-profile-credentials';
+// Set when the user opted in to keeping credentials in localStorage
+const REMEMBER_CREDENTIALS_KEY = 'k8s-remember-credentials';
+
+type ProfileCredentials = Pick<ConnectionProfile, 'authHeader' | 'auth'>;
+
+export const DEFAULT_SYSTEM_NAMESPACE = 'kaos-system';
+
+export const PROFILE_COLORS: Record<ProfileColor, string> = {
+  slate: 'bg-slate-400',
+  blue: 'bg-blue-500',
+  green: 'bg-green-500',
+  amber: 'bg-amber-500',
+  red: 'bg-red-500',
+  purple: 'bg-purple-500',
+};
+
+const generateProfileId = () => `profile-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+export function createProfile(fields: Partial<Omit<ConnectionProfile, 'id'>> & { name: string; baseUrl: string }): ConnectionProfile {
+  return {
+    id: generateProfileId(),
+    name: fields.name.trim(),
+    baseUrl: normalizeBaseUrl(fields.baseUrl),
+    namespace: fields.namespace || 'default',
+    systemNamespace: fields.systemNamespace || DEFAULT_SYSTEM_NAMESPACE,
+    authHeader: fields.authHeader || undefined,
+    auth: fields.auth,
+    color: fields.color || 'slate',
+  };
+}
+
+/**
+ * Load saved profiles. On first use, seeds a "Default" profile from the
+ * legacy single `k8s-config` entry so existing users keep their connection.
+ */
+export function loadProfiles(): ConnectionProfile[] {
+  const saved = localStorage.getItem(PROFILES_KEY);
+  if (saved) {
+    try {
+      const parsed: ConnectionProfile[] = JSON.parse(saved);
+      if (Array.isArray(parsed)) {
+        const credentials = readSessionCredentials();
+        const profiles = parsed.map((profile) => ({ ...profile, ...credentials[profile.id] }));
+        // Move credentials saved before the opt-in existed out of localStorage
+        if (!getRememberCredentials() && parsed.some((profile) => profile.authHeader || profile.auth)) {
+          saveProfiles(profiles);
+        }
+        return profiles;
+      }
+    } catch (e) {
+      console.warn('Failed to parse saved connection profiles:', e);
+    }
+    return [];
+  }
+
+  const legacy = localStorage.getItem(LEGACY_CONFIG_KEY);
+  if (!legacy) return [];
+  try {
+    const config = JSON.parse(legacy);
+    if (!config.baseUrl) return [];
+    const profile = createProfile({
+      name: 'Default',
+      baseUrl: config.baseUrl,
+      namespace: config.namespace,
+      systemNamespace: localStorage.getItem(SYSTEM_NAMESPACE_KEY) || undefined,
+    });
+    saveProfiles([profile]);
+    setActiveProfileId(profile.id);
+    return [profile];
+  } catch {
+    return [];
+  }
+}
+
+export function saveProfiles(profiles: ConnectionProfile[]): void {
+  if (getRememberCredentials()) {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+    sessionStorage.removeItem(SESSION_CREDENTIALS_KEY);
+    return;
+  }
+  const credentials: Record<string, ProfileCredentials> = {};
+  const stripped = profiles.map(({ authHeader, auth, ...profile }) => {
+    if (authHeader || auth) credentials[profile.id] = { authHeader, auth };
+    return profile;
+  });
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(stripped));
+  sessionStorage.setItem(SESSION_CREDENTIALS_KEY, JSON.stringify(credentials));
+}
+
+function readSessionCredentials(): Record<string, ProfileCredentials> {
+  try {
+    const parsed = JSON.parse(sessionStorage.getItem(SESSION_CREDENTIALS_KEY) || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function getRememberCredentials(): boolean {
+  return localStorage.getItem(REMEMBER_CREDENTIALS_KEY) === 'true';
+}
+
+/**
+ * Opt in or out of keeping credentials in localStorage, moving the ones
+ * already saved to the matching storage.
+ */
+export function setRememberCredentials(remember: boolean): void {
+  const profiles = loadProfiles();
+  const storedAuth = readStoredAuth();
+  if (remember) {
+    localStorage.setItem(REMEMBER_CREDENTIALS_KEY, 'true');
+  } else {
+    localStorage.removeItem(REMEMBER_CREDENTIALS_KEY);
+  }
+  saveProfiles(profiles);
+  if (storedAuth) saveStoredAuth(storedAuth.baseUrl, storedAuth.auth);
+}
+
+export function getActiveProfileId(): string | null {
+  return localStorage.getItem(ACTIVE_PROFILE_KEY);
+}
+
+export function setActiveProfileId(id: string | null): void {
+  if (id) {
+    localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_PROFILE_KEY);
+  }
+}
+
+/**
+ * Persist the per-cluster settings other pages read (last connection and KAOS system namespace).
+ */
+export function applyProfileSettings(profile: ConnectionProfile): void {
+  localStorage.setItem(LEGACY_CONFIG_KEY, JSON.stringify({ baseUrl: profile.baseUrl, namespace: profile.namespace }));
+  localStorage.setItem(SYSTEM_NAMESPACE_KEY, profile.systemNamespace);
+}
+
+export function getSystemNamespace(): string {
+  return localStorage.getItem(SYSTEM_NAMESPACE_KEY) || DEFAULT_SYSTEM_NAMESPACE;
+}
+
+function readStoredAuth(): { baseUrl: string; auth: K8sAuthConfig } | undefined {
+  for (const storage of [sessionStorage, localStorage]) {
+    try {
+      const stored = JSON.parse(storage.getItem(STORED_AUTH_KEY) || 'null');
+      if (typeof stored?.baseUrl === 'string' && isAuthConfig(stored.auth)) return stored;
+    } catch {
+      // Ignore malformed entries
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Credentials saved for a profile-less connection, if they belong to `baseUrl`.
+ */
+export function loadStoredAuth(baseUrl: string): K8sAuthConfig | undefined {
+  const stored = readStoredAuth();
+  // Move an entry saved before the opt-in existed out of localStorage
+  if (stored && !getRememberCredentials() && localStorage.getItem(STORED_AUTH_KEY)) {
+    saveStoredAuth(stored.baseUrl, stored.auth);
+  }
+  return stored?.baseUrl === normalizeBaseUrl(baseUrl) ? stored.auth : undefined;
+}
+
+export function saveStoredAuth(baseUrl: string, auth: K8sAuthConfig | undefined): void {
+  sessionStorage.removeItem(STORED_AUTH_KEY);
+  localStorage.removeItem(STORED_AUTH_KEY);
+  if (auth) {
+    const storage = getRememberCredentials() ? localStorage : sessionStorage;
+    storage.setItem(STORED_AUTH_KEY, JSON.stringify({ baseUrl: normalizeBaseUrl(baseUrl), auth }));
+  }
+}
+
+/**
+ * Serialize profiles for sharing. Credentials are omitted unless explicitly requested.
+ */
+export function exportProfiles(profiles: ConnectionProfile[], includeAuth = false): string {
+  const payload: ProfilesExport = {
+    version: 1,
+    profiles: profiles.map(({ name, baseUrl, namespace, systemNamespace, color, authHeader, auth }) => ({
+      name,
+      baseUrl,
+      namespace,
+      systemNamespace,
+      color,
+      ...(includeAuth && authHeader && { authHeader }),
+      ...(includeAuth && auth && { auth }),
+    })),
+  };
+  return JSON.stringify(payload, null, 2);
+}
+
+/**
+ * Parse and validate an exported profiles document. Accepts either the
+ * `{ version, profiles }` envelope or a bare array of profiles.
+ */
+export function parseProfilesImport(text: string): ConnectionProfile[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid JSON');
+  }
+
+  const list = Array.isArray(parsed) ? parsed : (parsed as Partial<ProfilesExport>)?.profiles;
+  if (!Array.isArray(list)) {
+    throw new Error('Expected a "profiles" array');
+  }
+
+  return list.map((entry, index) => {
+    const item = entry as Partial<ConnectionProfile>;
+    if (!item || typeof item.name !== 'string' || !item.name.trim()) {
+      throw new Error(`Profile ${index + 1}: "name" is required`);
+    }
+    if (typeof item.baseUrl !== 'string' || !/^https?:\/\//.test(item.baseUrl)) {
+      throw new Error(`Profile "${item.name}": "baseUrl" must be an http(s) URL`);
+    }
+    const color = item.color && item.color in PROFILE_COLORS ? item.color : 'slate';
+    return createProfile({
+      name: item.name,
+      baseUrl: item.baseUrl,
+      namespace: typeof item.namespace === 'string' ? item.namespace : undefined,
+      systemNamespace: typeof item.systemNamespace === 'string' ? item.systemNamespace : undefined,
+      authHeader: typeof item.authHeader === 'string' ? item.authHeader : undefined,
+      auth: isAuthConfig(item.auth) ? item.auth : undefined,
+      color,
+    });
+  });
+}
+
+/**
+ * Merge imported profiles into the existing list; same-named profiles are
+ * updated in place (keeping their id), others are appended.
+ */
+export function mergeProfiles(existing: ConnectionProfile[], imported: ConnectionProfile[]): ConnectionProfile[] {
+  const result = [...existing];
+  for (const profile of imported) {
+    const index = result.findIndex((p) => p.name === profile.name);
+    if (index >= 0) {
+      result[index] = { ...profile, id: result[index].id };
+    } else {
+      result.push(profile);
+    }
+  }
+  return result;
+}
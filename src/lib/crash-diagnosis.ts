@@ -0,0 +1,168 @@
+/**
+ * Diagnosis of crashing KAOS pods from the container's last termination and
+ * the logs of its previous run. Each rule recognises one common failure and
+ * points at the resource whose spec has to change.
+ */
+
+import type { ContainerState, Pod } from '@/types/kubernetes';
+import { isResourcePod, type PodOwnerKind } from './resource-pods';
+import type { KaosResource, StackInventory } from './stack-export';
+
+export type CrashCause = 'oom-killed' | 'missing-secret' | 'modelapi-unreachable' | 'mcp-code-error';
+
+export interface ContainerTermination {
+  container: string;
+  restartCount: number;
+  // Why the container is not running now, e.g. CrashLoopBackOff
+  waitingReason?: string;
+  waitingMessage?: string;
+  // The last run that ended, current or previous
+  terminated?: NonNullable<ContainerState['terminated']>;
+  // Whether `terminated` is the previous run, so previous logs exist
+  previous: boolean;
+}
+
+export interface CrashDiagnosis {
+  cause: CrashCause;
+  title: string;
+  detail: string;
+  // Log line or status message the diagnosis is based on
+  evidence?: string;
+  // The resource to edit to fix it
+  fix?: { kind: PodOwnerKind; name: string; label: string };
+}
+
+const CRASH_WAITING_REASONS = ['CrashLoopBackOff', 'CreateContainerConfigError', 'RunContainerError', 'Error'];
+
+const SECRET_NOT_FOUND_PATTERN = /secret "([^"]+)" not found/i;
+const SECRET_KEY_PATTERN = /couldn't find key (\S+) in Secret [^/\s]+\/(\S+)/i;
+const API_KEY_PATTERN = /(AuthenticationError|Incorrect API key|invalid[_ ]api[_ ]key|api[_ ]key (?:is )?(?:not set|missing|required)|No API key|\b401\b.*Unauthorized|_API_KEY\b.*(?:not set|must be set|missing))/i;
+const CONNECTION_PATTERN = /(Connection refused|ConnectError|APIConnectionError|Failed to establish a new connection|Name or service not known|Temporary failure in name resolution|getaddrinfo|ECONNREFUSED|ENOTFOUND|Connection error)/i;
+const PYTHON_ERROR_PATTERN = /^\s*(SyntaxError|IndentationError|NameError|ImportError|ModuleNotFoundError|TypeError|AttributeError|ValueError)\b.*$/m;
+
+export function getContainerTermination(pod: Pod, container: string): ContainerTermination | undefined {
+  const status = pod.status?.containerStatuses?.find((c) => c.name === container);
+  if (!status) return undefined;
+  const previous = status.lastState?.terminated;
+  return {
+    container,
+    restartCount: status.restartCount,
+    waitingReason: status.state?.waiting?.reason,
+    waitingMessage: status.state?.waiting?.message,
+    terminated: previous ?? status.state?.terminated,
+    previous: !!previous,
+  };
+}
+
+/**
+ * Whether the container has failed and is worth diagnosing.
+ */
+export function isCrashing(termination: ContainerTermination): boolean {
+  if (termination.waitingReason && CRASH_WAITING_REASONS.includes(termination.waitingReason)) return true;
+  const exitCode = termination.terminated?.exitCode;
+  return exitCode !== undefined && exitCode !== 0;
+}
+
+/**
+ * The KAOS resource that owns a pod. When several names match the pod name
+ * prefix, the longest wins ("agent-chat-worker" over "agent-chat").
+ */
+export function findPodOwner(pod: Pod, inventory: StackInventory): KaosResource | undefined {
+  const candidates: KaosResource[] = [...inventory.agents, ...inventory.mcpServers, ...inventory.modelAPIs];
+  return candidates
+    .filter((resource) => isResourcePod(pod, resource.kind, resource.metadata.name))
+    .sort((a, b) => b.metadata.name.length - a.metadata.name.length)[0];
+}
+
+function firstMatch(pattern: RegExp, logs: string): string | undefined {
+  const match = pattern.exec(logs);
+  if (!match) return undefined;
+  // Report the whole line the match is on
+  const start = logs.lastIndexOf('\n', match.index) + 1;
+  const end = logs.indexOf('\n', match.index);
+  return logs.slice(start, end === -1 ? undefined : end).trim();
+}
+
+function usesInlineTools(server: KaosResource): boolean {
+  if (server.kind !== 'MCPServer') return false;
+  return server.spec.runtime === 'python-string' || !!server.spec.config?.tools?.fromString;
+}
+
+function editFix(resource: KaosResource, label = `Edit ${resource.kind}`): CrashDiagnosis['fix'] {
+  return { kind: resource.kind, name: resource.metadata.name, label };
+}
+
+/**
+ * Recognise the common failures of a crashed container. `logs` are those of
+ * the previous run when the container restarted, else of the current one.
+ */
+export function diagnoseCrash(
+  pod: Pod,
+  termination: ContainerTermination,
+  logs: string,
+  inventory: StackInventory,
+): CrashDiagnosis[] {
+  const owner = findPodOwner(pod, inventory);
+  const diagnoses: CrashDiagnosis[] = [];
+
+  if (termination.terminated?.reason === 'OOMKilled') {
+    diagnoses.push({
+      cause: 'oom-killed',
+      title: 'Out of memory',
+      detail: 'The container exceeded its memory limit and was killed. Raise the limit under container resources, or use a smaller model.',
+      evidence: `Exit code ${termination.terminated.exitCode ?? 137} (OOMKilled)`,
+      fix: owner && editFix(owner, 'Edit resources'),
+    });
+  }
+
+  const secretMissing = termination.waitingMessage && (
+    SECRET_NOT_FOUND_PATTERN.exec(termination.waitingMessage) ?? SECRET_KEY_PATTERN.exec(termination.waitingMessage)
+  );
+  const apiKeyError = firstMatch(API_KEY_PATTERN, logs);
+  if (secretMissing) {
+    diagnoses.push({
+      cause: 'missing-secret',
+      title: 'Missing Secret',
+      detail: 'The container references a Secret or Secret key that does not exist. Create the Secret or point the reference at an existing one.',
+      evidence: termination.waitingMessage,
+      fix: owner && editFix(owner),
+    });
+  } else if (apiKeyError) {
+    // The ModelAPI holds the key; Agents only reach it through the ModelAPI
+    const modelAPI = owner?.kind === 'ModelAPI' ? owner : undefined;
+    diagnoses.push({
+      cause: 'missing-secret',
+      title: 'Missing or invalid API key',
+      detail: 'The model provider rejected the request because the API key is missing or wrong. Check the API key Secret of the ModelAPI.',
+      evidence: apiKeyError,
+      fix: modelAPI && editFix(modelAPI, 'Edit API key'),
+    });
+  }
+
+  const connectionError = owner?.kind === 'Agent' ? firstMatch(CONNECTION_PATTERN, logs) : undefined;
+  if (owner?.kind === 'Agent' && connectionError) {
+    const modelAPI = inventory.modelAPIs.find((m) => m.metadata.name === owner.spec.modelAPI);
+    diagnoses.push({
+      cause: 'modelapi-unreachable',
+      title: 'ModelAPI unreachable',
+      detail: modelAPI
+        ? `The agent could not connect to ModelAPI "${modelAPI.metadata.name}"${modelAPI.status?.ready ? '' : ', which is not ready'}. Check its endpoint and backend.`
+        : `The agent references ModelAPI "${owner.spec.modelAPI}", which does not exist in this namespace.`,
+      evidence: connectionError,
+      fix: modelAPI ? editFix(modelAPI) : editFix(owner, 'Change ModelAPI'),
+    });
+  }
+
+  const codeError = owner && usesInlineTools(owner) ? firstMatch(PYTHON_ERROR_PATTERN, logs) : undefined;
+  if (owner && codeError) {
+    diagnoses.push({
+      cause: 'mcp-code-error',
+      title: 'Error in tool code',
+      detail: 'The Python code defining the MCP server tools fails to load. Fix the tool definitions.',
+      evidence: codeError,
+      fix: editFix(owner, 'Edit tool code'),
+    });
+  }
+
+  return diagnoses;
+}
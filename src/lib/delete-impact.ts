@@ -0,0 +1,179 @@
+/**
+ * Impact of deleting a KAOS resource: the Agents that reference it and the
+ * Secrets it uses, and the step plans for deleting it alone, detaching the
+ * references first, or cascading to everything that depends on it.
+ */
+
+import type { Agent, K8sSecret } from '@/types/kubernetes';
+import { collectSecretRefs, type KaosResource, type StackInventory } from './stack-export';
+
+export type DeleteMode = 'delete' | 'detach' | 'cascade';
+
+export interface Dependent {
+  agent: Agent;
+  // Fields of the Agent that reference the deleted resource
+  fields: ('spec.modelAPI' | 'spec.mcpServers' | 'spec.agentNetwork.access')[];
+}
+
+export interface SecretUsage {
+  name: string;
+  // Other resources that keep using the Secret after a cascade delete
+  usedBy: string[];
+}
+
+export interface DeleteImpact {
+  dependents: Dependent[];
+  // Dependents, transitively through peer access, removed by a cascade
+  cascade: Agent[];
+  // Secrets referenced by the resource and by the cascaded Agents
+  secrets: SecretUsage[];
+  // Why references can't be detached, when they can't
+  detachBlockedReason?: string;
+}
+
+export type DeleteStep =
+  | { action: 'detach'; original: Agent; updated: Agent }
+  | { action: 'delete'; kind: KaosResource['kind'] | 'Secret'; name: string; namespace: string };
+
+export interface DeleteInventory extends StackInventory {
+  secrets: K8sSecret[];
+}
+
+function referenceFields(agent: Agent, target: KaosResource): Dependent['fields'] {
+  const { name } = target.metadata;
+  const fields: Dependent['fields'] = [];
+  if (target.kind === 'ModelAPI' && agent.spec.modelAPI === name) fields.push('spec.modelAPI');
+  if (target.kind === 'MCPServer' && agent.spec.mcpServers?.includes(name)) fields.push('spec.mcpServers');
+  if (target.kind === 'Agent' && agent.spec.agentNetwork?.access?.includes(name)) fields.push('spec.agentNetwork.access');
+  return fields;
+}
+
+function findDependents(target: KaosResource, agents: Agent[]): Dependent[] {
+  return agents
+    .filter((agent) => !(target.kind === 'Agent' && agent.metadata.name === target.metadata.name))
+    .map((agent) => ({ agent, fields: referenceFields(agent, target) }))
+    .filter((dependent) => dependent.fields.length > 0);
+}
+
+function resourceId(resource: KaosResource): string {
+  return `${resource.kind}/${resource.metadata.name}`;
+}
+
+export function computeDeleteImpact(target: KaosResource, inventory: DeleteInventory): DeleteImpact {
+  const dependents = findDependents(target, inventory.agents);
+
+  // Agents that depend on the target, then Agents that use those as peers, and so on
+  const cascade: Agent[] = [];
+  const queue: KaosResource[] = [target];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const { agent } of findDependents(current, inventory.agents)) {
+      if (agent.metadata.name === target.metadata.name && target.kind === 'Agent') continue;
+      if (cascade.includes(agent)) continue;
+      cascade.push(agent);
+      queue.push(agent);
+    }
+  }
+
+  const removed = new Set([target, ...cascade].map(resourceId));
+  const survivors = [...inventory.agents, ...inventory.modelAPIs, ...inventory.mcpServers]
+    .filter((resource) => !removed.has(resourceId(resource)));
+  const secretNames = new Set<string>();
+  [target, ...cascade].forEach((resource) => collectSecretRefs(resource.spec).forEach((_, name) => secretNames.add(name)));
+  const secrets = [...secretNames]
+    .filter((name) => inventory.secrets.some((secret) => secret.metadata.name === name))
+    .map((name) => ({
+      name,
+      usedBy: survivors.filter((resource) => collectSecretRefs(resource.spec).has(name)).map(resourceId),
+    }));
+
+  const detachBlockedReason = dependents.some((d) => d.fields.includes('spec.modelAPI'))
+    ? 'Agents require a ModelAPI, so their spec.modelAPI cannot be removed'
+    : undefined;
+
+  return { dependents, cascade, secrets, detachBlockedReason };
+}
+
+export function detachReference(agent: Agent, target: KaosResource): Agent {
+  const { name } = target.metadata;
+  const spec = structuredClone(agent.spec);
+  if (target.kind === 'MCPServer' && spec.mcpServers) {
+    spec.mcpServers = spec.mcpServers.filter((server) => server !== name);
+  }
+  if (target.kind === 'Agent' && spec.agentNetwork?.access) {
+    spec.agentNetwork.access = spec.agentNetwork.access.filter((peer) => peer !== name);
+  }
+  return { ...agent, spec };
+}
+
+/**
+ * Ordered steps for the chosen mode. Detach edits come before the delete so
+ * they can be rolled back if it fails; cascades delete dependents first and
+ * the opted-in Secrets last. Only KAOS resources are checked for Secret
+ * usage, so Secrets are never deleted unless named in `secretsToDelete`.
+ */
+export function planDelete(target: KaosResource, impact: DeleteImpact, mode: DeleteMode, secretsToDelete: string[] = []): DeleteStep[] {
+  const namespace = target.metadata.namespace || 'default';
+  const deleteStep = (kind: KaosResource['kind'] | 'Secret', name: string): DeleteStep => ({ action: 'delete', kind, name, namespace });
+
+  if (mode === 'detach') {
+    return [
+      ...impact.dependents.map(({ agent }): DeleteStep => ({ action: 'detach', original: agent, updated: detachReference(agent, target) })),
+      deleteStep(target.kind, target.metadata.name),
+    ];
+  }
+  if (mode === 'cascade') {
+    return [
+      ...impact.cascade.map((agent) => deleteStep('Agent', agent.metadata.name)),
+      deleteStep(target.kind, target.metadata.name),
+      ...impact.secrets
+        .filter((secret) => secret.usedBy.length === 0 && secretsToDelete.includes(secret.name))
+        .map((secret) => deleteStep('Secret', secret.name)),
+    ];
+  }
+  return [deleteStep(target.kind, target.metadata.name)];
+}
+
+export interface DeletePlanOps {
+  updateAgent: (agent: Agent, original: Agent) => Promise<Agent>;
+  deleteResource: (kind: KaosResource['kind'] | 'Secret', name: string, namespace: string) => Promise<void>;
+}
+
+export type DeleteStepStatus = 'running' | 'done' | 'failed' | 'rolled-back';
+
+/**
+ * Run the steps in order, stopping at the first failure. Detach edits made
+ * before the failure are reverted; deletes can't be.
+ */
+export async function executeDeletePlan(
+  steps: DeleteStep[],
+  ops: DeletePlanOps,
+  onStep: (index: number, status: DeleteStepStatus, error?: string) => void
+): Promise<boolean> {
+  const detached: { index: number; step: Extract<DeleteStep, { action: 'detach' }>; saved: Agent }[] = [];
+
+  for (const [index, step] of steps.entries()) {
+    onStep(index, 'running');
+    try {
+      if (step.action === 'detach') {
+        const saved = await ops.updateAgent(step.updated, step.original);
+        detached.push({ index, step, saved });
+      } else {
+        await ops.deleteResource(step.kind, step.name, step.namespace);
+      }
+      onStep(index, 'done');
+    } catch (error) {
+      onStep(index, 'failed', error instanceof Error ? error.message : String(error));
+      for (const { index: detachedIndex, step: detachStep, saved } of detached.reverse()) {
+        try {
+          await ops.updateAgent({ ...detachStep.original, metadata: saved.metadata }, saved);
+          onStep(detachedIndex, 'rolled-back');
+        } catch (rollbackError) {
+          onStep(detachedIndex, 'failed', `Rollback failed: ${rollbackError instanceof Error ? rollbackError.message : String(rollbackError)}`);
+        }
+      }
+      return false;
+    }
+  }
+  return true;
+}
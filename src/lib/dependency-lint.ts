@@ -0,0 +1,180 @@
+/**
+ * Pre-flight checks of the references between KAOS resources: the ModelAPI,
+ * model, MCPServers and peers an Agent points at, and the Secrets any
+ * resource reads through secretKeyRef. Runs over the store contents, so it
+ * only sees the current namespace.
+ */
+
+import type { Agent, K8sSecret, ModelAPI } from '@/types/kubernetes';
+import { collectSecretRefs, type KaosResource, type StackInventory } from './stack-export';
+
+export type LintSeverity = 'error' | 'warning';
+
+export type LintCode =
+  | 'missing-modelapi'
+  | 'unsupported-model'
+  | 'missing-mcpserver'
+  | 'missing-peer'
+  | 'peer-not-exposed'
+  | 'missing-secret'
+  | 'missing-secret-key';
+
+export interface LintIssue {
+  severity: LintSeverity;
+  code: LintCode;
+  // The resource with the broken reference
+  resource: { kind: KaosResource['kind']; name: string };
+  // Spec field holding the reference, e.g. "spec.mcpServers"
+  field: string;
+  message: string;
+  // The referenced object, when it is a KAOS resource that could be opened or created
+  target?: { kind: KaosResource['kind']; name: string };
+}
+
+export interface LintInventory extends StackInventory {
+  secrets: K8sSecret[];
+}
+
+/**
+ * Whether `model` matches one of the patterns of a ModelAPI ("*", "openai/*"
+ * or an exact name).
+ */
+export function modelMatches(model: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => {
+    if (pattern === '*') return true;
+    if (pattern.endsWith('*')) return model.startsWith(pattern.slice(0, -1));
+    return pattern === model;
+  });
+}
+
+/**
+ * Models a ModelAPI serves: the reported status.supportedModels, else what
+ * the spec declares (proxy models, with the provider prefix when set, or the
+ * hosted Ollama model).
+ */
+export function modelAPIModels(api: ModelAPI): string[] {
+  if (api.status?.supportedModels?.length) return api.status.supportedModels;
+  if (api.spec.mode === 'Hosted') {
+    const model = api.spec.hostedConfig?.model;
+    return model ? [model, `ollama/${model}`] : [];
+  }
+  const { models = [], provider } = api.spec.proxyConfig ?? {};
+  if (!provider) return models;
+  return [...models, ...models.map((model) => `${provider}/${model}`)];
+}
+
+function lintSecretRefs(resource: KaosResource, secrets: K8sSecret[]): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const ref = { kind: resource.kind, name: resource.metadata.name };
+  for (const [name, keys] of collectSecretRefs(resource.spec)) {
+    const secret = secrets.find((s) => s.metadata.name === name);
+    if (!secret) {
+      issues.push({
+        severity: 'error',
+        code: 'missing-secret',
+        resource: ref,
+        field: 'secretKeyRef',
+        message: `Secret "${name}" does not exist`,
+      });
+      continue;
+    }
+    const available = secret.dataKeys ?? Object.keys(secret.data ?? {});
+    keys.forEach((key) => {
+      if (!available.includes(key)) {
+        issues.push({
+          severity: 'error',
+          code: 'missing-secret-key',
+          resource: ref,
+          field: 'secretKeyRef',
+          message: `Secret "${name}" has no key "${key}"`,
+        });
+      }
+    });
+  }
+  return issues;
+}
+
+export function lintAgent(agent: Agent, inventory: LintInventory): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const ref = { kind: 'Agent' as const, name: agent.metadata.name };
+  const { spec } = agent;
+
+  if (spec.modelAPI) {
+    const api = inventory.modelAPIs.find((m) => m.metadata.name === spec.modelAPI);
+    const target = { kind: 'ModelAPI' as const, name: spec.modelAPI };
+    if (!api) {
+      issues.push({
+        severity: 'error',
+        code: 'missing-modelapi',
+        resource: ref,
+        field: 'spec.modelAPI',
+        message: `ModelAPI "${spec.modelAPI}" does not exist`,
+        target,
+      });
+    } else if (spec.model) {
+      const models = modelAPIModels(api);
+      if (models.length > 0 && !modelMatches(spec.model, models)) {
+        issues.push({
+          // Only certain once the ModelAPI reports what it actually serves
+          severity: api.status?.supportedModels?.length ? 'error' : 'warning',
+          code: 'unsupported-model',
+          resource: ref,
+          field: 'spec.model',
+          message: `Model "${spec.model}" is not served by ModelAPI "${spec.modelAPI}" (${models.join(', ')})`,
+          target,
+        });
+      }
+    }
+  }
+
+  spec.mcpServers?.forEach((name) => {
+    if (!inventory.mcpServers.some((s) => s.metadata.name === name)) {
+      issues.push({
+        severity: 'error',
+        code: 'missing-mcpserver',
+        resource: ref,
+        field: 'spec.mcpServers',
+        message: `MCPServer "${name}" does not exist`,
+        target: { kind: 'MCPServer', name },
+      });
+    }
+  });
+
+  spec.agentNetwork?.access?.forEach((name) => {
+    const peer = inventory.agents.find((a) => a.metadata.name === name);
+    const target = { kind: 'Agent' as const, name };
+    if (!peer) {
+      issues.push({
+        severity: 'error',
+        code: 'missing-peer',
+        resource: ref,
+        field: 'spec.agentNetwork.access',
+        message: `Peer Agent "${name}" does not exist`,
+        target,
+      });
+    } else if (peer.spec.agentNetwork?.expose === false) {
+      issues.push({
+        severity: 'error',
+        code: 'peer-not-exposed',
+        resource: ref,
+        field: 'spec.agentNetwork.access',
+        message: `Peer Agent "${name}" is not exposed on the agent network`,
+        target,
+      });
+    }
+  });
+
+  return [...issues, ...lintSecretRefs(agent, inventory.secrets)];
+}
+
+/**
+ * Lint every resource in the inventory: Agent references plus the Secret
+ * references of ModelAPIs and MCPServers.
+ */
+export function lintNamespace(inventory: LintInventory): LintIssue[] {
+  return [
+    ...inventory.agents.flatMap((agent) => lintAgent(agent, inventory)),
+    ...inventory.modelAPIs.flatMap((api) => lintSecretRefs(api, inventory.secrets)),
+    ...inventory.mcpServers.flatMap((server) => lintSecretRefs(server, inventory.secrets)),
+  ];
+}
@@ -0,0 +1,150 @@
+/**
+ * Duplicate KAOS resources: fresh metadata for the copy, optional clones of
+ * an Agent's dependencies, and rewriting of the Agent references
+ * (modelAPI, mcpServers, agentNetwork.access) to point at the clones.
+ * Clones are created before the Agent and deleted again if a later create fails.
+ */
+
+import type { Agent, AgentSpec } from '@/types/kubernetes';
+import { LAST_APPLIED_ANNOTATION, type KaosResource } from './stack-export';
+
+// New names of cloned dependencies, keyed by "Kind/name" of the original
+export type CloneRenames = Map<string, string>;
+
+const KIND_ORDER: Record<KaosResource['kind'], number> = { ModelAPI: 0, MCPServer: 1, Agent: 2 };
+
+export function renameKey(kind: KaosResource['kind'], name: string): string {
+  return `${kind}/${name}`;
+}
+
+/**
+ * First free "<name>-<suffix>", "<name>-<suffix>-2", ... not in `taken`.
+ */
+export function suggestCopyName(name: string, taken: string[], suffix = 'copy'): string {
+  const base = `${name}-${suffix}`;
+  let candidate = base;
+  for (let i = 2; taken.includes(candidate); i++) {
+    candidate = `${base}-${i}`;
+  }
+  return candidate;
+}
+
+export function rewriteAgentReferences(spec: AgentSpec, renames: CloneRenames): AgentSpec {
+  const rename = (kind: KaosResource['kind'], name: string) => renames.get(renameKey(kind, name)) ?? name;
+  const result: AgentSpec = { ...spec, modelAPI: rename('ModelAPI', spec.modelAPI) };
+  if (spec.mcpServers) {
+    result.mcpServers = spec.mcpServers.map((name) => rename('MCPServer', name));
+  }
+  if (spec.agentNetwork?.access) {
+    result.agentNetwork = { ...spec.agentNetwork, access: spec.agentNetwork.access.map((name) => rename('Agent', name)) };
+  }
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Lay form-built spec fields over the source spec. Keys present in the
+ * overlay win (undefined clears them), nested objects merge, and fields the
+ * form doesn't know about are kept from the source.
+ */
+export function mergeSpec<T>(base: T, overlay: Partial<T>): T {
+  const result: Record<string, unknown> = { ...(base as Record<string, unknown>) };
+  for (const [key, value] of Object.entries(overlay)) {
+    result[key] = isPlainObject(value) && isPlainObject(result[key]) ? mergeSpec(result[key], value) : value;
+  }
+  return result as T;
+}
+
+/**
+ * Copy of a resource under a new name and namespace, without server-managed
+ * metadata or status.
+ */
+export function cloneResource<T extends KaosResource>(resource: T, name: string, namespace: string): T {
+  const annotations = { ...resource.metadata.annotations };
+  delete annotations[LAST_APPLIED_ANNOTATION];
+  return {
+    apiVersion: resource.apiVersion,
+    kind: resource.kind,
+    metadata: {
+      name,
+      namespace,
+      labels: resource.metadata.labels,
+      annotations: Object.keys(annotations).length > 0 ? annotations : undefined,
+    },
+    spec: structuredClone(resource.spec),
+  } as T;
+}
+
+/**
+ * Clone the given dependencies as "<name>-<suffix>" into `namespace`, with
+ * references between cloned Agents rewritten. Returns the clones in
+ * creation order and the renames to apply to the duplicated Agent.
+ */
+export function planDependencyClones(
+  dependencies: KaosResource[],
+  suffix: string,
+  namespace: string
+): { resources: KaosResource[]; renames: CloneRenames } {
+  const renames: CloneRenames = new Map(
+    dependencies.map((resource) => [renameKey(resource.kind, resource.metadata.name), `${resource.metadata.name}-${suffix}`])
+  );
+  const resources = dependencies
+    .map((resource) => {
+      const clone = cloneResource(resource, renames.get(renameKey(resource.kind, resource.metadata.name))!, namespace);
+      if (clone.kind === 'Agent') clone.spec = rewriteAgentReferences(clone.spec, renames);
+      return clone;
+    })
+    .sort((a, b) => KIND_ORDER[a.kind] - KIND_ORDER[b.kind]);
+  return { resources, renames };
+}
+
+// Names already in use in the target namespace, by kind
+export type ExistingNames = Record<KaosResource['kind'], string[]>;
+
+/**
+ * Resources about to be created whose name is already taken in the target
+ * namespace.
+ */
+export function findNameConflicts(planned: KaosResource[], existing: ExistingNames): KaosResource[] {
+  return planned.filter((resource) => existing[resource.kind].includes(resource.metadata.name));
+}
+
+export interface ClonePlanOps {
+  create: (resource: KaosResource) => Promise<unknown>;
+  delete: (resource: KaosResource) => Promise<void>;
+}
+
+export interface ClonePlanResult {
+  error?: string;
+  // Clones created before the failure that could not be deleted again
+  leftBehind: KaosResource[];
+}
+
+/**
+ * Create the clones in order, then the Agent, stopping at the first failure.
+ * Clones created before the failure are deleted again, newest first.
+ */
+export async function executeClonePlan(clones: KaosResource[], agent: Agent, ops: ClonePlanOps): Promise<ClonePlanResult> {
+  const created: KaosResource[] = [];
+  try {
+    for (const clone of clones) {
+      await ops.create(clone);
+      created.push(clone);
+    }
+    await ops.create(agent);
+    return { leftBehind: [] };
+  } catch (error) {
+    const leftBehind: KaosResource[] = [];
+    for (const clone of created.reverse()) {
+      try {
+        await ops.delete(clone);
+      } catch {
+        leftBehind.unshift(clone);
+      }
+    }
+    return { error: error instanceof Error ? error.message : String(error), leftBehind };
+  }
+}
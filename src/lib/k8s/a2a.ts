@@ -5,6 +5,7 @@
 
 import type { AgentCard, A2ATask, JsonRpcResponse, ListTasksResult } from '@/types/a2a';
 import { k8sClient } from './index';
+import { authErrorFromResponse, isAuthStatus } from './auth';
 
 /**
  * Fetch agent card from /.well-known/agent.json via K8s service proxy.
@@ -24,6 +25,7 @@ export async function getAgentCard(
 
   if (!response.ok) {
     const text = await response.text();
+    if (isAuthStatus(response.status)) throw authErrorFromResponse(response.status, text);
     throw new Error(`Failed to fetch agent card: ${response.status} — ${text}`);
   }
 
@@ -60,6 +62,7 @@ export async function sendA2AJsonRpc(
 
   if (!response.ok) {
     const text = await response.text();
+    if (isAuthStatus(response.status)) throw authErrorFromResponse(response.status, text);
     throw new Error(`A2A JSON-RPC request failed: ${response.status} — ${text}`);
   }
 
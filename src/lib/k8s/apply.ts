@@ -0,0 +1,153 @@
+/**
+ * Bulk manifest apply: plan each object with a server-side dry run, then
+ * create or patch it for real.
+ *
+ * Specs and Secret data in a manifest replace what is on the cluster; labels
+ * and annotations are merged so keys added by other tools are kept.
+ */
+
+import type { Manifest } from '@/lib/manifests';
+
+import { createMergePatch } from './patch';
+import { FIELD_MANAGER } from './resources';
+import { KubernetesClientWithWatch } from './watch';
+
+// 'error' means the object could not even be looked up
+export type ApplyAction = 'create' | 'update' | 'unchanged' | 'error';
+
+export interface ApplyPlanItem {
+  manifest: Manifest;
+  action: ApplyAction;
+  // Merge patch (with resourceVersion precondition) for updates
+  patch?: Record<string, unknown>;
+  // Dry-run or lookup failure; the object is skipped on apply
+  error?: string;
+}
+
+interface ClusterObject {
+  metadata: {
+    resourceVersion?: string;
+    labels?: Record<string, string>;
+    annotations?: Record<string, string>;
+  };
+  spec?: unknown;
+  data?: Record<string, string>;
+}
+
+const PLURALS: Record<Manifest['kind'], string> = {
+  ModelAPI: 'modelapis',
+  MCPServer: 'mcpservers',
+  Agent: 'agents',
+  Secret: 'secrets',
+};
+
+function encodeBase64(value: string): string {
+  let binary = '';
+  new TextEncoder().encode(value).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+// The fields a manifest manages, shaped the same for the manifest and the live object
+function managedFields(manifest: Manifest, existing: ClusterObject) {
+  const metadata = {
+    labels: manifest.metadata.labels ? { ...existing.metadata.labels, ...manifest.metadata.labels } : existing.metadata.labels,
+    annotations: manifest.metadata.annotations
+      ? { ...existing.metadata.annotations, ...manifest.metadata.annotations }
+      : existing.metadata.annotations,
+  };
+  const liveMetadata = { labels: existing.metadata.labels, annotations: existing.metadata.annotations };
+  if (manifest.kind !== 'Secret') {
+    return { desired: { metadata, spec: manifest.spec }, live: { metadata: liveMetadata, spec: existing.spec } };
+  }
+  const data = { ...manifest.data };
+  for (const [key, value] of Object.entries(manifest.stringData ?? {})) {
+    data[key] = encodeBase64(value);
+  }
+  return { desired: { metadata, data }, live: { metadata: liveMetadata, data: existing.data } };
+}
+
+export class KubernetesClientWithApply extends KubernetesClientWithWatch {
+  private manifestPath(manifest: Manifest, withName: boolean): string {
+    const { namespace, name } = manifest.metadata;
+    const resource = PLURALS[manifest.kind];
+    if (manifest.kind === 'Secret') {
+      const base = `/api/v1/namespaces/${namespace}/${resource}`;
+      return withName ? `${base}/${name}` : base;
+    }
+    return this.getCrdPath(resource, namespace, withName ? name : undefined);
+  }
+
+  private async getExisting(manifest: Manifest): Promise<ClusterObject | null> {
+    const response = await this.fetchWithAuth(`${this.config.baseUrl}${this.manifestPath(manifest, true)}`, {
+      headers: this.getRequestHeaders(),
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) await this.throwResponseError(response);
+    return response.json();
+  }
+
+  private async createManifest<T>(manifest: Manifest, dryRun: boolean): Promise<T> {
+    const query = `?fieldManager=${FIELD_MANAGER}${dryRun ? '&dryRun=All' : ''}`;
+    return this.request<T>(`${this.manifestPath(manifest, false)}${query}`, {
+      method: 'POST',
+      body: JSON.stringify(manifest),
+    });
+  }
+
+  /**
+   * Decide whether a manifest creates, updates or leaves its object unchanged,
+   * and validate creates and updates with a server-side dry run.
+   */
+  async planManifest(manifest: Manifest): Promise<ApplyPlanItem> {
+    let existing: ClusterObject | null;
+    try {
+      existing = await this.getExisting(manifest);
+    } catch (error) {
+      return { manifest, action: 'error', error: error instanceof Error ? error.message : String(error) };
+    }
+
+    let item: ApplyPlanItem = { manifest, action: 'create' };
+    if (existing) {
+      const { desired, live } = managedFields(manifest, existing);
+      const patch = createMergePatch(live, desired) as Record<string, unknown>;
+      if (Object.keys(patch).length === 0) {
+        return { manifest, action: 'unchanged' };
+      }
+      const { resourceVersion } = existing.metadata;
+      if (resourceVersion) {
+        patch.metadata = { ...(patch.metadata as Record<string, unknown> | undefined), resourceVersion };
+      }
+      item = { manifest, action: 'update', patch };
+    }
+
+    try {
+      if (item.patch) {
+        await this.mergePatch(this.manifestPath(manifest, true), item.patch, { dryRun: true });
+      } else {
+        await this.createManifest(manifest, true);
+      }
+      return item;
+    } catch (error) {
+      return { ...item, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Apply one planned item. A resourceVersion change since planning fails
+   * with K8sConflictError rather than overwriting someone else's edit.
+   */
+  async applyPlanItem(item: ApplyPlanItem): Promise<unknown> {
+    if (item.error) {
+      throw new Error(item.error);
+    }
+    if (item.action === 'create') {
+      return this.createManifest(item.manifest, false);
+    }
+    if (item.action === 'update' && item.patch) {
+      return this.mergePatch(this.manifestPath(item.manifest, true), item.patch);
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * Authentication for the Kubernetes API server.
+ *
+ * Supports static bearer tokens, tokens taken from a pasted kubeconfig user
+ * entry, and OIDC id-tokens refreshed with a refresh token. Client
+ * certificates are not supported since browsers cannot attach them to fetch().
+ */
+
+import { parseYamlText } from '@/lib/yaml';
+
+export interface K8sTokenAuth {
+  type: 'token';
+  token: string;
+}
+
+export interface K8sKubeconfigAuth {
+  type: 'kubeconfig';
+  // Name of the kubeconfig user entry the token was read from
+  user: string;
+  token: string;
+}
+
+export interface K8sOidcAuth {
+  type: 'oidc';
+  issuerUrl: string;
+  clientId: string;
+  clientSecret?: string;
+  idToken: string;
+  refreshToken: string;
+}
+
+export type K8sAuthConfig = K8sTokenAuth | K8sKubeconfigAuth | K8sOidcAuth;
+
+/**
+ * Thrown when the API server rejects the request credentials (401) or the
+ * authenticated user lacks permission (403).
+ */
+export class K8sAuthError extends Error {
+  readonly status: 401 | 403;
+
+  constructor(status: 401 | 403, detail?: string) {
+    super(
+      status === 401
+        ? 'Authentication required: the cluster rejected the current credentials.'
+        : `Permission denied${detail ? `: ${detail}` : '.'}`
+    );
+    this.name = 'K8sAuthError';
+    this.status = status;
+  }
+}
+
+/**
+ * Runtime check for persisted or imported auth configs.
+ */
+export function isAuthConfig(value: unknown): value is K8sAuthConfig {
+  if (!value || typeof value !== 'object') return false;
+  const auth = value as Record<string, unknown>;
+  switch (auth.type) {
+    case 'token':
+      return typeof auth.token === 'string';
+    case 'kubeconfig':
+      return typeof auth.token === 'string' && typeof auth.user === 'string';
+    case 'oidc':
+      return typeof auth.issuerUrl === 'string'
+        && typeof auth.clientId === 'string'
+        && typeof auth.idToken === 'string'
+        && typeof auth.refreshToken === 'string';
+    default:
+      return false;
+  }
+}
+
+export function isAuthStatus(status: number): status is 401 | 403 {
+  return status === 401 || status === 403;
+}
+
+/**
+ * Build a K8sAuthError from a failed response, using the Status message when present.
+ */
+export function authErrorFromResponse(status: 401 | 403, body: string): K8sAuthError {
+  let detail: string | undefined;
+  try {
+    detail = JSON.parse(body)?.message;
+  } catch {
+    detail = body.trim() || undefined;
+  }
+  return new K8sAuthError(status, detail);
+}
+
+export function getBearerToken(auth: K8sAuthConfig | undefined): string | undefined {
+  if (!auth) return undefined;
+  return auth.type === 'oidc' ? auth.idToken : auth.token;
+}
+
+/**
+ * Read the `exp` claim of a JWT, in milliseconds. Returns null for opaque tokens.
+ */
+export function getTokenExpiry(token: string): number | null {
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+  try {
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+    const exp = JSON.parse(json)?.exp;
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+// Refresh slightly before expiry so in-flight requests don't race the deadline
+const EXPIRY_SKEW_MS = 60_000;
+
+export function isTokenExpiring(token: string, now = Date.now()): boolean {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - EXPIRY_SKEW_MS <= now;
+}
+
+/**
+ * Exchange the OIDC refresh token for a new id-token using the issuer's
+ * discovered token endpoint.
+ */
+export async function refreshOidcToken(
+  auth: K8sOidcAuth,
+  fetchFn: typeof fetch = fetch
+): Promise<K8sOidcAuth> {
+  const issuer = auth.issuerUrl.replace(/\/+$/, '');
+  const discovery = await fetchFn(`${issuer}/.well-known/openid-configuration`);
+  if (!discovery.ok) {
+    throw new Error(`OIDC discovery failed: HTTP ${discovery.status}`);
+  }
+  const { token_endpoint: tokenEndpoint } = await discovery.json();
+  if (!tokenEndpoint) {
+    throw new Error('OIDC discovery document has no token_endpoint');
+  }
+
+  const body = new URLSearchParams({
+    grant_type: 'refresh_token',
+    refresh_token: auth.refreshToken,
+    client_id: auth.clientId,
+  });
+  if (auth.clientSecret) {
+    body.set('client_secret', auth.clientSecret);
+  }
+
+  const response = await fetchFn(tokenEndpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body,
+  });
+  if (!response.ok) {
+    throw new Error(`OIDC token refresh failed: HTTP ${response.status}`);
+  }
+
+  const tokens = await response.json();
+  if (!tokens.id_token) {
+    throw new Error('OIDC token response has no id_token');
+  }
+  return {
+    ...auth,
+    idToken: tokens.id_token,
+    // Providers that rotate refresh tokens return a new one
+    refreshToken: tokens.refresh_token || auth.refreshToken,
+  };
+}
+
+export interface KubeconfigUserFields {
+  token?: string;
+  tokenFile?: string;
+  exec?: unknown;
+  'client-certificate'?: string;
+  'client-certificate-data'?: string;
+  'auth-provider'?: {
+    name?: string;
+    config?: Record<string, string>;
+  };
+}
+
+/**
+ * Convert the `user` map of a kubeconfig user entry into an auth config.
+ */
+export function authFromKubeconfigUser(name: string, user: KubeconfigUserFields | undefined): K8sAuthConfig {
+  if (!user || typeof user !== 'object') {
+    throw new Error(`User "${name}" has no credentials`);
+  }
+  if (user.token) {
+    return { type: 'kubeconfig', user: name, token: user.token };
+  }
+
+  const provider = user['auth-provider'];
+  if (provider?.name === 'oidc' && provider.config) {
+    const config = provider.config;
+    if (!config['idp-issuer-url'] || !config['client-id'] || !config['refresh-token']) {
+      throw new Error(`User "${name}": OIDC auth-provider needs idp-issuer-url, client-id and refresh-token`);
+    }
+    return {
+      type: 'oidc',
+      issuerUrl: config['idp-issuer-url'],
+      clientId: config['client-id'],
+      clientSecret: config['client-secret'] || undefined,
+      idToken: config['id-token'] || '',
+      refreshToken: config['refresh-token'],
+    };
+  }
+
+  if (user.tokenFile) {
+    throw new Error(`User "${name}": tokenFile cannot be read from the browser, paste the token instead`);
+  }
+  if (user.exec) {
+    throw new Error(`User "${name}": exec credential plugins are not supported, paste a token instead`);
+  }
+  if (user['client-certificate'] || user['client-certificate-data']) {
+    throw new Error(`User "${name}": client certificates are not supported in the browser`);
+  }
+  throw new Error(`User "${name}" has no supported credentials (token or OIDC)`);
+}
+
+/**
+ * Parse a pasted kubeconfig user entry. Accepts a full kubeconfig (optionally
+ * selecting a user by name), a `users` list item, or just the `user` map.
+ */
+export function parseKubeconfigUser(text: string, userName?: string): K8sAuthConfig {
+  const doc = parseYamlText(text);
+  if (!doc || typeof doc !== 'object') {
+    throw new Error('Expected a kubeconfig user entry');
+  }
+
+  const entries: { name?: string; user?: KubeconfigUserFields }[] | undefined = Array.isArray(doc)
+    ? doc
+    : (doc as { users?: [] }).users;
+
+  if (entries) {
+    if (entries.length === 0) throw new Error('No users found');
+    const entry = userName ? entries.find((u) => u?.name === userName) : entries[0];
+    if (!entry) throw new Error(`User "${userName}" not found`);
+    return authFromKubeconfigUser(entry.name || 'user', entry.user);
+  }
+
+  const single = doc as { name?: string; user?: KubeconfigUserFields } & KubeconfigUserFields;
+  if (single.user) {
+    return authFromKubeconfigUser(single.name || 'user', single.user);
+  }
+  return authFromKubeconfigUser(userName || 'user', single);
+}
@@ -2,9 +2,23 @@
  * Base Kubernetes HTTP client with configuration and request methods.
  */
 
+import {
+  type K8sAuthConfig,
+  K8sAuthError,
+  authErrorFromResponse,
+  getBearerToken,
+  isAuthStatus,
+  isTokenExpiring,
+  refreshOidcToken,
+} from './auth';
+
 export interface K8sClientConfig {
   baseUrl: string;
   namespace: string;
+  // Optional Authorization header value sent with every request (e.g. "Bearer <token>")
+  authHeader?: string;
+  // Bearer token / OIDC credentials; takes precedence over authHeader
+  auth?: K8sAuthConfig;
 }
 
 export interface K8sListResponse<T> {
@@ -27,12 +41,44 @@ export interface K8sStatus {
   code: number;
 }
 
+/**
+ * Thrown for non-2xx API responses; carries the HTTP status so callers don't
+ * have to match on the message text.
+ */
+export class K8sApiError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'K8sApiError';
+    this.status = status;
+  }
+}
+
+/**
+ * Thrown for 409 responses: a stale resourceVersion on update, or a create
+ * for a name that already exists.
+ */
+export class K8sConflictError extends K8sApiError {
+  readonly reason?: string;
+
+  constructor(message: string, reason?: string) {
+    super(message, 409);
+    this.name = 'K8sConflictError';
+    this.reason = reason;
+  }
+}
+
 export class KubernetesClientBase {
   protected config: K8sClientConfig = {
     baseUrl: '',
     namespace: 'default',
   };
 
+  private authRefresh: Promise<void> | null = null;
+  private authErrorListeners = new Set<(error: K8sAuthError) => void>();
+  private authRefreshListeners = new Set<(auth: K8sAuthConfig) => void>();
+
   setConfig(config: Partial<K8sClientConfig>) {
     this.config = { ...this.config, ...config };
   }
@@ -45,6 +91,110 @@ export class KubernetesClientBase {
     return !!this.config.baseUrl;
   }
 
+  /**
+   * Subscribe to 401/403 responses from any request made through the client.
+   */
+  onAuthError(listener: (error: K8sAuthError) => void): () => void {
+    this.authErrorListeners.add(listener);
+    return () => this.authErrorListeners.delete(listener);
+  }
+
+  /**
+   * Subscribe to refreshed OIDC credentials so they can be persisted.
+   */
+  onAuthRefreshed(listener: (auth: K8sAuthConfig) => void): () => void {
+    this.authRefreshListeners.add(listener);
+    return () => this.authRefreshListeners.delete(listener);
+  }
+
+  /**
+   * Headers sent with every API server request.
+   */
+  getRequestHeaders(): Record<string, string> {
+    return {
+      // Headers to bypass tunnel warnings (for various proxy tools)
+      'X-Requested-With': 'XMLHttpRequest',
+      'bypass-tunnel-reminder': '1',
+      ...this.getAuthHeaders(),
+    };
+  }
+
+  protected getAuthHeaders(): Record<string, string> {
+    const token = getBearerToken(this.config.auth);
+    if (token) return { Authorization: `Bearer ${token}` };
+    if (this.config.authHeader) return { Authorization: this.config.authHeader };
+    return {};
+  }
+
+  /**
+   * Refresh OIDC credentials when the id-token is missing or about to expire
+   * (or unconditionally with `force`). Concurrent callers share one refresh.
+   */
+  async refreshAuth(force = false): Promise<void> {
+    const auth = this.config.auth;
+    if (auth?.type !== 'oidc') return;
+    if (!force && auth.idToken && !isTokenExpiring(auth.idToken)) return;
+
+    if (!this.authRefresh) {
+      this.authRefresh = refreshOidcToken(auth)
+        .then((refreshed) => {
+          this.config = { ...this.config, auth: refreshed };
+          this.authRefreshListeners.forEach((listener) => listener(refreshed));
+        })
+        .catch((error) => {
+          console.warn('[k8sClient] OIDC token refresh failed:', error);
+        })
+        .finally(() => {
+          this.authRefresh = null;
+        });
+    }
+    await this.authRefresh;
+  }
+
+  /**
+   * fetch() with the configured credentials. Refreshes OIDC tokens before they
+   * expire and retries once after a 401; 401/403 responses are reported to
+   * onAuthError listeners and returned to the caller unchanged.
+   */
+  async fetchWithAuth(url: string, init: RequestInit = {}): Promise<Response> {
+    await this.refreshAuth();
+
+    const send = () => fetch(url, {
+      ...init,
+      headers: { ...init.headers as Record<string, string>, ...this.getAuthHeaders() },
+    });
+
+    let response = await send();
+    if (response.status === 401 && this.config.auth?.type === 'oidc') {
+      await this.refreshAuth(true);
+      response = await send();
+    }
+
+    if (isAuthStatus(response.status)) {
+      const body = await response.clone().text().catch(() => '');
+      const error = authErrorFromResponse(response.status, body);
+      this.authErrorListeners.forEach((listener) => listener(error));
+    }
+    return response;
+  }
+
+  protected async throwResponseError(response: Response): Promise<never> {
+    const errorText = await response.text();
+    if (isAuthStatus(response.status)) {
+      throw authErrorFromResponse(response.status, errorText);
+    }
+    if (response.status === 409) {
+      let status: Partial<K8sStatus> = {};
+      try {
+        status = JSON.parse(errorText);
+      } catch {
+        // Not a Status object
+      }
+      throw new K8sConflictError(`K8s API error 409: ${status.message || errorText}`, status.reason);
+    }
+    throw new K8sApiError(`K8s API error ${response.status}: ${errorText}`, response.status);
+  }
+
   protected async request<T>(path: string, options: RequestInit = {}): Promise<T> {
     if (!this.config.baseUrl) {
       throw new Error('Kubernetes API not configured. Please set the base URL.');
@@ -52,17 +202,13 @@ export class KubernetesClientBase {
 
     const url = `${this.config.baseUrl}${path}`;
     
-    const headers: HeadersInit = {};
+    const headers: Record<string, string> = this.getRequestHeaders();
     
     if (options.body) {
       headers['Content-Type'] = 'application/json';
     }
     
-    // Headers to bypass tunnel warnings (for various proxy tools)
-    headers['X-Requested-With'] = 'XMLHttpRequest';
-    headers['bypass-tunnel-reminder'] = '1';
-    
-    const response = await fetch(url, {
+    const response = await this.fetchWithAuth(url, {
       ...options,
       headers: {
         ...headers,
@@ -71,8 +217,7 @@ export class KubernetesClientBase {
     });
 
     if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`K8s API error ${response.status}: ${errorText}`);
+      await this.throwResponseError(response);
     }
 
     // Use arrayBuffer + TextDecoder to handle chunked/encoded responses (e.g. pods)
@@ -88,11 +233,11 @@ export class KubernetesClientBase {
     }
 
     const url = `${this.config.baseUrl}${path}`;
-    const response = await fetch(url);
+    // No custom headers beyond credentials, so unauthenticated proxies see a CORS simple request
+    const response = await this.fetchWithAuth(url);
 
     if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`K8s API error ${response.status}: ${errorText}`);
+      await this.throwResponseError(response);
     }
 
     return response.json();
@@ -103,6 +248,9 @@ export class KubernetesClientBase {
       const result = await this.simpleRequest<{ gitVersion: string }>('/version');
       return { success: true, version: result.gitVersion, method: 'simple' };
     } catch (simpleError) {
+      if (simpleError instanceof K8sAuthError) {
+        return { success: false, error: simpleError.message };
+      }
       console.log('Simple request failed, trying with headers:', simpleError);
     }
 
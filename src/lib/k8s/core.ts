@@ -5,13 +5,20 @@
 import type {
   Pod,
   Deployment,
+  ReplicaSet,
   PersistentVolumeClaim,
   Service,
   ConfigMap,
   SecretRef,
 } from '@/types/kubernetes';
 
-import { type K8sListResponse, type K8sStatus } from './client';
+import { K8sApiError, type K8sListResponse, type K8sStatus } from './client';
+import { getBearerToken, isAuthStatus } from './auth';
+import { buildEventFieldSelector, normalizeEvent, type EventApi, type EventSelector, type KubeEvent, type RawEvent } from './events';
+import { EXEC_PROTOCOLS, PodExecSession, bearerProtocol, buildExecUrl, type ExecHandlers, type PodExecOptions, type WebSocketFactory } from './exec';
+import type { PodMetrics } from './metrics';
+import { RESTARTED_AT_ANNOTATION } from './rollout';
+import { PodLogStream, type LogStreamHandle, type LogStreamHandlers, type PodLogOptions } from './logs';
 import { KubernetesClientWithResources } from './resources';
 
 export class KubernetesClientWithCore extends KubernetesClientWithResources {
@@ -39,26 +46,17 @@ export class KubernetesClientWithCore extends KubernetesClientWithResources {
     });
   }
 
-  async getPodLogs(
-    name: string,
-    namespace?: string,
-    options?: { container?: string; tailLines?: number }
-  ): Promise<string> {
+  async getPodLogs(name: string, namespace?: string, options?: PodLogOptions): Promise<string> {
     const ns = namespace || this.config.namespace;
-    const params = new URLSearchParams();
-    if (options?.container) params.set('container', options.container);
-    if (options?.tailLines) params.set('tailLines', String(options.tailLines));
-    
-    const queryString = params.toString();
-    const path = `/api/v1/namespaces/${ns}/pods/${name}/log${queryString ? '?' + queryString : ''}`;
+    const path = `/api/v1/namespaces/${ns}/pods/${name}/log${this.buildLogQuery(options)}`;
     
-    const response = await fetch(`${this.config.baseUrl}${path}`, {
-      headers: { 
-        'X-Requested-With': 'XMLHttpRequest',
-        'bypass-tunnel-reminder': 'true',
-      },
+    const response = await this.fetchWithAuth(`${this.config.baseUrl}${path}`, {
+      headers: this.getRequestHeaders(),
     });
     
+    if (isAuthStatus(response.status)) {
+      await this.throwResponseError(response);
+    }
     if (!response.ok) {
       throw new Error(`Failed to get logs: ${response.status}`);
     }
@@ -66,6 +64,73 @@ export class KubernetesClientWithCore extends KubernetesClientWithResources {
     return response.text();
   }
 
+  /**
+   * Follow a container's log. The first connection starts from `tailLines`
+   * (or `sinceTime`); reconnects resume after the last line received.
+   */
+  followPodLogs(
+    name: string,
+    namespace: string | undefined,
+    options: Omit<PodLogOptions, 'timestamps'>,
+    handlers: LogStreamHandlers
+  ): LogStreamHandle {
+    const ns = namespace || this.config.namespace;
+    return new PodLogStream(
+      {
+        sinceTime: options.sinceTime,
+        openStream: async (sinceTime, signal) => {
+          const query = this.buildLogQuery({
+            container: options.container,
+            ...(sinceTime ? { sinceTime } : { tailLines: options.tailLines }),
+            timestamps: true,
+          }, true);
+          const response = await this.fetchWithAuth(`${this.config.baseUrl}/api/v1/namespaces/${ns}/pods/${name}/log${query}`, {
+            headers: this.getRequestHeaders(),
+            signal,
+          });
+          if (isAuthStatus(response.status)) {
+            await this.throwResponseError(response);
+          }
+          return response;
+        },
+      },
+      handlers,
+    ).start();
+  }
+
+  /**
+   * Open an interactive exec session in a container. The bearer token (if
+   * any) is passed as a subprotocol since WebSockets can't carry headers.
+   */
+  async execPod(
+    name: string,
+    namespace: string | undefined,
+    options: PodExecOptions,
+    handlers: ExecHandlers,
+    createSocket?: WebSocketFactory
+  ): Promise<PodExecSession> {
+    if (!this.config.baseUrl) {
+      throw new Error('Kubernetes API not configured. Please set the base URL.');
+    }
+    await this.refreshAuth();
+    const ns = namespace || this.config.namespace;
+    const token = getBearerToken(this.config.auth) ?? /^Bearer\s+(.+)$/i.exec(this.config.authHeader ?? '')?.[1];
+    const protocols = token ? [...EXEC_PROTOCOLS, bearerProtocol(token)] : EXEC_PROTOCOLS;
+    return new PodExecSession(buildExecUrl(this.config.baseUrl, ns, name, options), protocols, handlers, createSocket);
+  }
+
+  private buildLogQuery(options?: PodLogOptions, follow = false): string {
+    const params = new URLSearchParams();
+    if (options?.container) params.set('container', options.container);
+    if (options?.tailLines) params.set('tailLines', String(options.tailLines));
+    if (options?.sinceTime) params.set('sinceTime', options.sinceTime);
+    if (options?.timestamps) params.set('timestamps', 'true');
+    if (options?.previous) params.set('previous', 'true');
+    if (follow) params.set('follow', 'true');
+    const queryString = params.toString();
+    return queryString ? `?${queryString}` : '';
+  }
+
   // ============= Deployment Operations =============
   async listDeployments(namespace?: string): Promise<Deployment[]> {
     const ns = namespace || this.config.namespace;
@@ -113,6 +178,25 @@ export class KubernetesClientWithCore extends KubernetesClientWithResources {
     return this.updateDeployment(deployment);
   }
 
+  /**
+   * Rollout restart as `kubectl rollout restart` does it: bumping the
+   * restartedAt annotation of the pod template rolls out new pods.
+   */
+  async restartDeployment(name: string, namespace?: string): Promise<Deployment> {
+    const ns = namespace || this.config.namespace;
+    return this.mergePatch<Deployment>(`/apis/apps/v1/namespaces/${ns}/deployments/${name}`, {
+      spec: { template: { metadata: { annotations: { [RESTARTED_AT_ANNOTATION]: new Date().toISOString() } } } },
+    });
+  }
+
+  async listReplicaSets(namespace?: string, labelSelector?: Record<string, string>): Promise<ReplicaSet[]> {
+    const ns = namespace || this.config.namespace;
+    const selector = Object.entries(labelSelector ?? {}).map(([key, value]) => `${key}=${value}`).join(',');
+    const query = selector ? `?labelSelector=${encodeURIComponent(selector)}` : '';
+    const response = await this.request<K8sListResponse<ReplicaSet>>(`/apis/apps/v1/namespaces/${ns}/replicasets${query}`);
+    return response.items;
+  }
+
   // ============= Service Operations =============
   async listServices(namespace?: string): Promise<Service[]> {
     const ns = namespace || this.config.namespace;
@@ -187,6 +271,11 @@ export class KubernetesClientWithCore extends KubernetesClientWithResources {
     return response.items;
   }
 
+  async getConfigMap(name: string, namespace?: string): Promise<ConfigMap> {
+    const ns = namespace || this.config.namespace;
+    return this.request<ConfigMap>(`/api/v1/namespaces/${ns}/configmaps/${name}`);
+  }
+
   async listSecrets(namespace?: string): Promise<SecretRef[]> {
     const ns = namespace || this.config.namespace;
     const response = await this.request<K8sListResponse<SecretRef & { data?: Record<string, string> }>>(`/api/v1/namespaces/${ns}/secrets`);
@@ -223,6 +312,36 @@ export class KubernetesClientWithCore extends KubernetesClientWithResources {
     });
   }
 
+  // ============= Events =============
+  /**
+   * List the events of a namespace, optionally only those about objects
+   * matching `selector`. Events of either API are returned in one shape.
+   */
+  async listEvents(namespace?: string, selector: EventSelector = {}, api: EventApi = 'v1'): Promise<KubeEvent[]> {
+    const ns = namespace || this.config.namespace;
+    const base = api === 'v1' ? '/api/v1' : '/apis/events.k8s.io/v1';
+    const fieldSelector = buildEventFieldSelector(selector, api);
+    const query = fieldSelector ? `?fieldSelector=${encodeURIComponent(fieldSelector)}` : '';
+    const response = await this.request<K8sListResponse<RawEvent>>(`${base}/namespaces/${ns}/events${query}`);
+    return response.items.map(normalizeEvent);
+  }
+
+  // ============= Metrics =============
+  /**
+   * Current CPU and memory usage of every pod in a namespace. Returns null
+   * when the metrics API is not served (metrics-server not installed).
+   */
+  async listPodMetrics(namespace?: string): Promise<PodMetrics[] | null> {
+    const ns = namespace || this.config.namespace;
+    try {
+      const response = await this.request<K8sListResponse<PodMetrics>>(`/apis/metrics.k8s.io/v1beta1/namespaces/${ns}/pods`);
+      return response.items;
+    } catch (error) {
+      if (error instanceof K8sApiError && (error.status === 404 || error.status === 503)) return null;
+      throw error;
+    }
+  }
+
   // ============= Namespaces =============
   async listNamespaces(): Promise<{ metadata: { name: string } }[]> {
     const response = await this.request<K8sListResponse<{ metadata: { name: string } }>>('/api/v1/namespaces');
@@ -0,0 +1,109 @@
+/**
+ * Kubernetes Events from either API: the legacy core/v1 Event and the
+ * events.k8s.io/v1 Event (which renames involvedObject to regarding, message
+ * to note and moves counts into series). Both are normalized to one shape.
+ */
+
+export type EventApi = 'v1' | 'events.k8s.io/v1';
+
+export interface EventObjectRef {
+  kind: string;
+  name: string;
+  namespace?: string;
+  uid?: string;
+}
+
+export interface KubeEvent {
+  metadata: {
+    name: string;
+    namespace?: string;
+    uid?: string;
+    resourceVersion?: string;
+    creationTimestamp?: string;
+  };
+  involvedObject: EventObjectRef;
+  /** Normal or Warning */
+  type: string;
+  reason?: string;
+  message?: string;
+  count: number;
+  firstTimestamp?: string;
+  lastTimestamp?: string;
+  /** Component that reported the event, e.g. kubelet or kaos-operator */
+  source?: string;
+}
+
+/** Matches events about an object; unset fields match anything */
+export interface EventSelector {
+  kind?: string;
+  name?: string;
+  uid?: string;
+}
+
+export interface RawEvent {
+  metadata: KubeEvent['metadata'];
+  type?: string;
+  reason?: string;
+  // core/v1
+  involvedObject?: EventObjectRef;
+  message?: string;
+  count?: number;
+  firstTimestamp?: string;
+  lastTimestamp?: string;
+  eventTime?: string;
+  source?: { component?: string; host?: string };
+  reportingComponent?: string;
+  // events.k8s.io/v1
+  regarding?: EventObjectRef;
+  note?: string;
+  deprecatedCount?: number;
+  deprecatedFirstTimestamp?: string;
+  deprecatedLastTimestamp?: string;
+  series?: { count?: number; lastObservedTime?: string };
+  reportingController?: string;
+}
+
+export function buildEventFieldSelector(selector: EventSelector, api: EventApi = 'v1'): string {
+  const prefix = api === 'v1' ? 'involvedObject' : 'regarding';
+  return (['kind', 'name', 'uid'] as const)
+    .filter((field) => selector[field])
+    .map((field) => `${prefix}.${field}=${selector[field]}`)
+    .join(',');
+}
+
+export function normalizeEvent(raw: RawEvent): KubeEvent {
+  const involvedObject = raw.involvedObject ?? raw.regarding ?? { kind: '', name: '' };
+  const lastTimestamp = raw.series?.lastObservedTime
+    ?? raw.lastTimestamp
+    ?? raw.deprecatedLastTimestamp
+    ?? raw.eventTime
+    ?? raw.metadata.creationTimestamp;
+  return {
+    metadata: raw.metadata,
+    involvedObject,
+    type: raw.type || 'Normal',
+    reason: raw.reason,
+    message: raw.message ?? raw.note,
+    count: raw.series?.count ?? raw.count ?? raw.deprecatedCount ?? 1,
+    firstTimestamp: raw.firstTimestamp ?? raw.deprecatedFirstTimestamp ?? raw.eventTime ?? lastTimestamp,
+    lastTimestamp,
+    source: raw.source?.component ?? raw.reportingController ?? raw.reportingComponent,
+  };
+}
+
+export function getEventTime(event: KubeEvent): number {
+  const time = event.lastTimestamp ?? event.firstTimestamp ?? event.metadata.creationTimestamp;
+  return time ? new Date(time).getTime() : 0;
+}
+
+/**
+ * Merge event lists, newest first. Events are keyed by uid (or name), so an
+ * event returned by several queries or updated by the watch appears once.
+ */
+export function mergeEvents(...lists: KubeEvent[][]): KubeEvent[] {
+  const byKey = new Map<string, KubeEvent>();
+  for (const event of lists.flat()) {
+    byKey.set(event.metadata.uid ?? event.metadata.name, event);
+  }
+  return [...byKey.values()].sort((a, b) => getEventTime(b) - getEventTime(a));
+}
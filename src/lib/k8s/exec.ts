@@ -0,0 +1,186 @@
+/**
+ * Interactive `exec` into a container over WebSocket.
+ *
+ * The API server speaks the channel.k8s.io subprotocols: every binary frame
+ * starts with a channel byte (0 stdin, 1 stdout, 2 stderr, 3 error status,
+ * 4 terminal resize). v5 adds a close signal (channel 255) so stdin can be
+ * closed without dropping the socket; v4 is offered as a fallback. Browsers
+ * can't set an Authorization header on a WebSocket, so a bearer token rides
+ * along as a `base64url.bearer.authorization.k8s.io.` subprotocol.
+ */
+
+export const EXEC_PROTOCOLS = ['v5.channel.k8s.io', 'v4.channel.k8s.io'];
+
+const BEARER_PROTOCOL_PREFIX = 'base64url.bearer.authorization.k8s.io.';
+
+export const ExecChannel = {
+  stdin: 0,
+  stdout: 1,
+  stderr: 2,
+  error: 3,
+  resize: 4,
+  close: 255,
+} as const;
+
+export interface PodExecOptions {
+  container?: string;
+  command: string[];
+  /** Allocate a TTY; stderr is then merged into stdout */
+  tty?: boolean;
+}
+
+export type ExecStatus = 'connecting' | 'open' | 'closed';
+
+export interface ExecHandlers {
+  onOutput: (text: string, stream: 'stdout' | 'stderr') => void;
+  onStatus?: (status: ExecStatus) => void;
+  /** The command finished; exitCode is undefined when the server didn't report one */
+  onExit?: (exitCode: number | undefined, message?: string) => void;
+  onError?: (error: Error) => void;
+}
+
+export interface ExecHandle {
+  send: (data: string) => void;
+  resize: (cols: number, rows: number) => void;
+  close: () => void;
+}
+
+export interface ExecStatusResult {
+  exitCode?: number;
+  message?: string;
+}
+
+export type WebSocketFactory = (url: string, protocols: string[]) => WebSocket;
+
+/**
+ * ws(s):// URL of a pod's exec subresource. A relative base URL (served by a
+ * same-origin proxy) is resolved against `origin`.
+ */
+export function buildExecUrl(baseUrl: string, namespace: string, pod: string, options: PodExecOptions, origin?: string): string {
+  const url = new URL(`${baseUrl}/api/v1/namespaces/${namespace}/pods/${pod}/exec`, origin ?? globalThis.location?.href);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  const params = url.searchParams;
+  options.command.forEach((part) => params.append('command', part));
+  if (options.container) params.set('container', options.container);
+  params.set('stdin', 'true');
+  params.set('stdout', 'true');
+  params.set('stderr', String(!options.tty));
+  params.set('tty', String(!!options.tty));
+  return url.toString();
+}
+
+export function bearerProtocol(token: string): string {
+  const bytes = new TextEncoder().encode(token);
+  const base64 = btoa(String.fromCharCode(...bytes));
+  return BEARER_PROTOCOL_PREFIX + base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function encodeFrame(channel: number, data: string | Uint8Array = new Uint8Array()): Uint8Array<ArrayBuffer> {
+  const payload = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const frame = new Uint8Array(payload.length + 1);
+  frame[0] = channel;
+  frame.set(payload, 1);
+  return frame;
+}
+
+export function encodeResize(cols: number, rows: number): Uint8Array<ArrayBuffer> {
+  return encodeFrame(ExecChannel.resize, JSON.stringify({ Width: cols, Height: rows }));
+}
+
+/**
+ * The metav1.Status sent on the error channel when the command ends.
+ */
+export function parseExecStatus(text: string): ExecStatusResult {
+  let status: { status?: string; message?: string; reason?: string; details?: { causes?: { reason?: string; message?: string }[] } };
+  try {
+    status = JSON.parse(text);
+  } catch {
+    return { message: text };
+  }
+  if (status.status === 'Success') return { exitCode: 0 };
+  const exitCause = status.details?.causes?.find((cause) => cause.reason === 'ExitCode');
+  return {
+    exitCode: exitCause?.message !== undefined ? Number(exitCause.message) : undefined,
+    message: status.message,
+  };
+}
+
+/**
+ * One exec connection. Output is decoded per stream so multi-byte characters
+ * split across frames survive.
+ */
+export class PodExecSession implements ExecHandle {
+  private readonly socket: WebSocket;
+  private readonly decoders = { stdout: new TextDecoder(), stderr: new TextDecoder() };
+  private opened = false;
+  private exited = false;
+  private closed = false;
+
+  constructor(url: string, protocols: string[], private readonly handlers: ExecHandlers, createSocket: WebSocketFactory = (u, p) => new WebSocket(u, p)) {
+    handlers.onStatus?.('connecting');
+    this.socket = createSocket(url, protocols);
+    this.socket.binaryType = 'arraybuffer';
+    this.socket.onopen = () => {
+      this.opened = true;
+      handlers.onStatus?.('open');
+    };
+    this.socket.onmessage = (event) => this.handleFrame(event.data);
+    this.socket.onerror = () => {
+      // The browser hides the HTTP status of a refused upgrade; onclose reports it
+    };
+    this.socket.onclose = (event) => this.handleClose(event);
+  }
+
+  get protocol(): string {
+    return this.socket.protocol;
+  }
+
+  send(data: string): void {
+    if (this.socket.readyState === WebSocket.OPEN) this.socket.send(encodeFrame(ExecChannel.stdin, data));
+  }
+
+  resize(cols: number, rows: number): void {
+    if (this.socket.readyState === WebSocket.OPEN) this.socket.send(encodeResize(cols, rows));
+  }
+
+  close(): void {
+    if (this.closed) return;
+    if (this.socket.readyState === WebSocket.OPEN && this.socket.protocol === EXEC_PROTOCOLS[0]) {
+      this.socket.send(new Uint8Array([ExecChannel.close, ExecChannel.stdin]));
+    }
+    this.socket.close();
+  }
+
+  private handleFrame(data: unknown): void {
+    if (!(data instanceof ArrayBuffer) || data.byteLength === 0) return;
+    const bytes = new Uint8Array(data);
+    const payload = bytes.subarray(1);
+    switch (bytes[0]) {
+      case ExecChannel.stdout:
+        this.handlers.onOutput(this.decoders.stdout.decode(payload, { stream: true }), 'stdout');
+        break;
+      case ExecChannel.stderr:
+        this.handlers.onOutput(this.decoders.stderr.decode(payload, { stream: true }), 'stderr');
+        break;
+      case ExecChannel.error: {
+        const { exitCode, message } = parseExecStatus(new TextDecoder().decode(payload));
+        this.exited = true;
+        this.handlers.onExit?.(exitCode, message);
+        break;
+      }
+    }
+  }
+
+  private handleClose(event: CloseEvent): void {
+    this.closed = true;
+    if (!this.opened) {
+      this.handlers.onError?.(new Error(
+        'Could not open a WebSocket to the exec endpoint. The proxy in front of the API server must forward ' +
+        "WebSocket upgrades; kubectl proxy also rejects exec unless started with --reject-paths='^$'."
+      ));
+    } else if (!this.exited && event.code !== 1000 && event.code !== 1005) {
+      this.handlers.onError?.(new Error(`Connection closed (${event.code}${event.reason ? `: ${event.reason}` : ''})`));
+    }
+    this.handlers.onStatus?.('closed');
+  }
+}
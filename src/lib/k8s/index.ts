@@ -3,16 +3,28 @@
  * and singleton for backward compatibility.
  */
 
-export { KubernetesClientWithProxy as KubernetesClient } from './proxy';
+export { KubernetesClientWithApply as KubernetesClient } from './apply';
 export type { K8sClientConfig, K8sListResponse, K8sStatus } from './client';
+export { K8sApiError, K8sConflictError } from './client';
+export type { K8sAuthConfig, K8sOidcAuth } from './auth';
+export { K8sAuthError, parseKubeconfigUser } from './auth';
+export type { WatchableResource, WatchHandle, WatchHandlers, WatchStatus } from './watch';
+export type { ApplyAction, ApplyPlanItem } from './apply';
+export type { LogLine, LogStreamHandle, LogStreamStatus, PodLogOptions } from './logs';
+export type { ExecHandle, ExecHandlers, ExecStatus, PodExecOptions } from './exec';
+export type { EventApi, EventSelector, KubeEvent } from './events';
+export type { MetricsSample, MetricsSeries, PodMetrics } from './metrics';
+export type { RevisionChange, RolloutRevision } from './rollout';
 
 // Re-export submodule classes for consumers that need finer granularity
 export { KubernetesClientBase } from './client';
 export { KubernetesClientWithResources } from './resources';
 export { KubernetesClientWithCore } from './core';
 export { KubernetesClientWithProxy } from './proxy';
+export { KubernetesClientWithWatch } from './watch';
+export { KubernetesClientWithApply } from './apply';
 
-import { KubernetesClientWithProxy } from './proxy';
+import { KubernetesClientWithApply } from './apply';
 
 // Singleton instance
-export const k8sClient = new KubernetesClientWithProxy();
+export const k8sClient = new KubernetesClientWithApply();
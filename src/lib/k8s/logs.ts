@@ -0,0 +1,275 @@
+/**
+ * Follow-mode pod log streaming.
+ *
+ * Opens `/log?follow=true&timestamps=true` and delivers complete lines as the
+ * chunks arrive. Each line's RFC3339 timestamp is the resume point: when the
+ * stream drops it reconnects with `sinceTime` and skips the replayed lines up
+ * to the last one it delivered. A proxy that buffers the response (headers never arrive) or a
+ * stream that can't be established at all is reported as unavailable so the
+ * caller can fall back to polling.
+ */
+
+export interface PodLogOptions {
+  container?: string;
+  tailLines?: number;
+  /** RFC3339 time; only lines at or after it are returned (second precision) */
+  sinceTime?: string;
+  /** Prefix each line with its RFC3339Nano timestamp */
+  timestamps?: boolean;
+  /** Logs of the previous, terminated run of the container */
+  previous?: boolean;
+}
+
+export interface LogLine {
+  timestamp?: string;
+  text: string;
+}
+
+export type LogStreamStatus = 'connecting' | 'live' | 'reconnecting' | 'unavailable' | 'stopped';
+
+export interface LogStreamHandlers {
+  onLines: (lines: LogLine[]) => void;
+  onStatus?: (status: LogStreamStatus) => void;
+  /** Called for errors the stream retries through (e.g. container not started yet) */
+  onError?: (error: Error) => void;
+  /** Called once when streaming can't work through this proxy; the stream stops itself */
+  onUnavailable?: (error: Error) => void;
+}
+
+export interface LogStreamHandle {
+  stop: () => void;
+}
+
+export interface PodLogStreamOptions {
+  openStream: (sinceTime: string | undefined, signal: AbortSignal) => Promise<Response>;
+  /** Resume point for the first connection, e.g. after a pause */
+  sinceTime?: string;
+  /** How long to wait for response headers before giving up (ms) */
+  headersTimeout?: number;
+  /** Failed attempts before a never-established stream is declared unavailable */
+  maxInitialFailures?: number;
+  sleep?: (ms: number, signal: AbortSignal) => Promise<void>;
+}
+
+const MIN_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+
+const TIMESTAMP_PATTERN = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z) (.*)$/;
+
+/**
+ * Split the timestamp prefix added by `timestamps=true` from a log line.
+ */
+export function parseLogLine(line: string): LogLine {
+  const match = TIMESTAMP_PATTERN.exec(line);
+  return match ? { timestamp: match[1], text: match[2] } : { text: line };
+}
+
+/**
+ * Order two RFC3339Nano timestamps. The API server trims trailing zeros from
+ * the fraction, so they can't be compared as plain strings.
+ */
+export function compareLogTimestamps(a: string, b: string): number {
+  const [aSeconds, aFraction = ''] = a.replace('Z', '').split('.');
+  const [bSeconds, bFraction = ''] = b.replace('Z', '').split('.');
+  if (aSeconds !== bSeconds) return aSeconds < bSeconds ? -1 : 1;
+  const aNanos = aFraction.padEnd(9, '0');
+  const bNanos = bFraction.padEnd(9, '0');
+  return aNanos === bNanos ? 0 : aNanos < bNanos ? -1 : 1;
+}
+
+/**
+ * Append lines to a capped buffer, dropping the oldest. Returns the new buffer
+ * and how many lines were dropped.
+ */
+export function appendLogLines(buffer: LogLine[], lines: LogLine[], maxLines: number): { lines: LogLine[]; dropped: number } {
+  const combined = buffer.concat(lines);
+  const dropped = Math.max(0, combined.length - maxLines);
+  return { lines: dropped > 0 ? combined.slice(dropped) : combined, dropped };
+}
+
+class LogStreamUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LogStreamUnavailableError';
+  }
+}
+
+class LogStreamRequestError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'LogStreamRequestError';
+  }
+}
+
+function abortableSleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Drives one followed log stream, reconnecting until stopped.
+ */
+export class PodLogStream implements LogStreamHandle {
+  private readonly controller = new AbortController();
+  private lastTimestamp: string | undefined;
+  /** Timestamp of the last delivered line; replayed lines up to it are skipped after a resume */
+  private lastDelivered: string | undefined;
+  private replayCutoff: string | undefined;
+  private established = false;
+  private failures = 0;
+  private stopped = false;
+
+  constructor(
+    private readonly options: PodLogStreamOptions,
+    private readonly handlers: LogStreamHandlers,
+  ) {
+    this.lastTimestamp = options.sinceTime;
+  }
+
+  start(): this {
+    void this.run();
+    return this;
+  }
+
+  stop(): void {
+    if (this.stopped) return;
+    this.stopped = true;
+    this.controller.abort();
+    this.handlers.onStatus?.('stopped');
+  }
+
+  private get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  private async run(): Promise<void> {
+    const sleep = this.options.sleep ?? abortableSleep;
+    const maxInitialFailures = this.options.maxInitialFailures ?? 3;
+
+    this.handlers.onStatus?.('connecting');
+
+    while (!this.stopped) {
+      try {
+        const received = await this.streamOnce();
+        // The server closed the stream (container exited or restarted): resume
+        // from the last line, backing off while nothing new arrives
+        if (received > 0) this.failures = 0;
+        else this.failures += 1;
+      } catch (error) {
+        if (this.stopped) return;
+
+        const err = error instanceof Error ? error : new Error(String(error));
+        this.failures += 1;
+
+        if (error instanceof LogStreamUnavailableError || (!this.established && !(error instanceof LogStreamRequestError) && this.failures >= maxInitialFailures)) {
+          console.warn('[k8sLogs] Log streaming unavailable, giving up:', err.message);
+          this.stopped = true;
+          this.handlers.onStatus?.('unavailable');
+          this.handlers.onUnavailable?.(err);
+          return;
+        }
+        if (error instanceof LogStreamRequestError) this.handlers.onError?.(err);
+      }
+
+      if (this.stopped) return;
+      this.handlers.onStatus?.('reconnecting');
+      await sleep(Math.min(MAX_BACKOFF_MS, MIN_BACKOFF_MS * 2 ** Math.max(0, this.failures - 1)), this.signal);
+    }
+  }
+
+  /**
+   * Open one stream and consume it until it ends. Returns the number of new
+   * lines delivered.
+   */
+  private async streamOnce(): Promise<number> {
+    const headersTimeout = this.options.headersTimeout ?? 10000;
+    const attempt = new AbortController();
+    const forwardAbort = () => attempt.abort();
+    this.signal.addEventListener('abort', forwardAbort, { once: true });
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      attempt.abort();
+    }, headersTimeout);
+
+    this.replayCutoff = this.lastDelivered;
+
+    try {
+      let response: Response;
+      try {
+        response = await this.options.openStream(this.lastTimestamp, attempt.signal);
+      } catch (error) {
+        if (timedOut) {
+          throw new LogStreamUnavailableError('Timed out waiting for the log stream — the proxy may be buffering responses');
+        }
+        throw error;
+      } finally {
+        clearTimeout(timer);
+      }
+
+      if (!response.ok) {
+        const text = await response.text().catch(() => '');
+        const message = `Failed to stream logs: ${response.status}${text ? ` ${text}` : ''}`;
+        throw response.status >= 500 ? new Error(message) : new LogStreamRequestError(response.status, message);
+      }
+
+      const reader = response.body?.getReader();
+      if (!reader) {
+        throw new LogStreamUnavailableError('Log response has no readable body');
+      }
+
+      this.established = true;
+      this.handlers.onStatus?.('live');
+
+      return await this.consume(reader);
+    } finally {
+      this.signal.removeEventListener('abort', forwardAbort);
+    }
+  }
+
+  private async consume(reader: ReadableStreamDefaultReader<Uint8Array>): Promise<number> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let received = 0;
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const parts = buffer.split('\n');
+        buffer = parts.pop() || '';
+        received += this.deliver(parts);
+      }
+
+      if (buffer) received += this.deliver([buffer]);
+    } finally {
+      reader.cancel().catch(() => {});
+    }
+    return received;
+  }
+
+  private deliver(rawLines: string[]): number {
+    const lines = rawLines.map(parseLogLine).filter((line) => {
+      if (!line.timestamp) return true;
+      // sinceTime has second precision, so a resumed stream repeats lines already
+      // seen; skip those until the first newer line, then deliver everything
+      if (this.replayCutoff) {
+        if (compareLogTimestamps(line.timestamp, this.replayCutoff) <= 0) return false;
+        this.replayCutoff = undefined;
+      }
+      this.lastTimestamp = line.timestamp;
+      this.lastDelivered = line.timestamp;
+      return true;
+    });
+    if (lines.length > 0) this.handlers.onLines(lines);
+    return lines.length;
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Pod resource usage from metrics.k8s.io (metrics-server): quantity parsing
+ * and a rolling per-container time series built from successive scrapes.
+ */
+
+import type { Pod } from '@/types/kubernetes';
+
+export interface PodMetrics {
+  metadata: { name: string; namespace?: string };
+  timestamp: string;
+  window: string;
+  containers: { name: string; usage: { cpu: string; memory: string } }[];
+}
+
+export interface MetricsSample {
+  /** Epoch milliseconds of the scrape */
+  time: number;
+  /** Millicores */
+  cpu: number;
+  /** Bytes */
+  memory: number;
+}
+
+/** Samples per pod, then per container */
+export type MetricsSeries = Record<string, Record<string, MetricsSample[]>>;
+
+export interface ContainerResources {
+  cpuRequest?: number;
+  cpuLimit?: number;
+  memoryRequest?: number;
+  memoryLimit?: number;
+}
+
+const BINARY_SUFFIXES: Record<string, number> = { Ki: 2 ** 10, Mi: 2 ** 20, Gi: 2 ** 30, Ti: 2 ** 40, Pi: 2 ** 50, Ei: 2 ** 60 };
+const DECIMAL_SUFFIXES: Record<string, number> = {
+  n: 1e-9, u: 1e-6, m: 1e-3, '': 1, k: 1e3, M: 1e6, G: 1e9, T: 1e12, P: 1e15, E: 1e18,
+};
+
+/**
+ * Parse a Kubernetes quantity ("250m", "1.5", "128Mi", "1e3") into its plain
+ * numeric value. Returns undefined for anything unparseable.
+ */
+export function parseQuantity(quantity: string | number | undefined): number | undefined {
+  if (quantity === undefined) return undefined;
+  if (typeof quantity === 'number') return quantity;
+  const match = /^([+-]?\d*\.?\d+(?:[eE][+-]?\d+)?)([a-zA-Z]*)$/.exec(quantity.trim());
+  if (!match) return undefined;
+  const [, number, suffix] = match;
+  const multiplier = BINARY_SUFFIXES[suffix] ?? DECIMAL_SUFFIXES[suffix];
+  return multiplier === undefined ? undefined : Number(number) * multiplier;
+}
+
+export function parseCpuMillicores(quantity: string | number | undefined): number | undefined {
+  const cores = parseQuantity(quantity);
+  return cores === undefined ? undefined : cores * 1000;
+}
+
+export function formatCpu(millicores: number): string {
+  return millicores >= 1000 ? `${(millicores / 1000).toFixed(2)} cores` : `${Math.round(millicores)}m`;
+}
+
+export function formatMemory(bytes: number): string {
+  if (bytes >= 2 ** 30) return `${(bytes / 2 ** 30).toFixed(2)}Gi`;
+  if (bytes >= 2 ** 20) return `${Math.round(bytes / 2 ** 20)}Mi`;
+  return `${Math.round(bytes / 2 ** 10)}Ki`;
+}
+
+export function getContainerResources(pod: Pod, container: string): ContainerResources {
+  const resources = pod.spec.containers.find((c) => c.name === container)?.resources;
+  return {
+    cpuRequest: parseCpuMillicores(resources?.requests?.cpu),
+    cpuLimit: parseCpuMillicores(resources?.limits?.cpu),
+    memoryRequest: parseQuantity(resources?.requests?.memory),
+    memoryLimit: parseQuantity(resources?.limits?.memory),
+  };
+}
+
+/**
+ * Requests and limits of the whole pod. A total is only known when every
+ * container sets it.
+ */
+export function getPodResources(pod: Pod): ContainerResources {
+  const perContainer = pod.spec.containers.map((container) => getContainerResources(pod, container.name));
+  const total = (key: keyof ContainerResources) => perContainer.every((r) => r[key] !== undefined)
+    ? perContainer.reduce((sum, r) => sum + (r[key] ?? 0), 0)
+    : undefined;
+  return {
+    cpuRequest: total('cpuRequest'),
+    cpuLimit: total('cpuLimit'),
+    memoryRequest: total('memoryRequest'),
+    memoryLimit: total('memoryLimit'),
+  };
+}
+
+/**
+ * Add one scrape to the series. Pods missing from the scrape are gone and
+ * dropped; samples already recorded for the same timestamp are skipped
+ * because metrics-server only refreshes once per window.
+ */
+export function appendMetrics(series: MetricsSeries, metrics: PodMetrics[], maxSamples: number): MetricsSeries {
+  const next: MetricsSeries = {};
+  for (const pod of metrics) {
+    const time = new Date(pod.timestamp).getTime();
+    const previous = series[pod.metadata.name] ?? {};
+    next[pod.metadata.name] = Object.fromEntries(pod.containers.map((container) => {
+      const samples = previous[container.name] ?? [];
+      if (samples[samples.length - 1]?.time === time) return [container.name, samples];
+      const sample: MetricsSample = {
+        time,
+        cpu: parseCpuMillicores(container.usage.cpu) ?? 0,
+        memory: parseQuantity(container.usage.memory) ?? 0,
+      };
+      return [container.name, [...samples, sample].slice(-maxSamples)];
+    }));
+  }
+  return next;
+}
+
+/**
+ * Sum the containers of a pod into one series, aligned by scrape time.
+ */
+export function sumContainerSeries(containers: Record<string, MetricsSample[]>): MetricsSample[] {
+  const byTime = new Map<number, MetricsSample>();
+  for (const samples of Object.values(containers)) {
+    for (const sample of samples) {
+      const total = byTime.get(sample.time) ?? { time: sample.time, cpu: 0, memory: 0 };
+      byTime.set(sample.time, { time: sample.time, cpu: total.cpu + sample.cpu, memory: total.memory + sample.memory });
+    }
+  }
+  return [...byTime.values()].sort((a, b) => a.time - b.time);
+}
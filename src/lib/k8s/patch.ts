@@ -0,0 +1,142 @@
+/**
+ * JSON merge patch (RFC 7386) helpers and three-way diffing for
+ * conflict-aware updates of KAOS resources.
+ */
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Compute the merge patch that turns `original` into `modified`. Removed keys
+ * are set to null; arrays are replaced wholesale, per RFC 7386.
+ */
+export function createMergePatch(original: unknown, modified: unknown): unknown {
+  if (!isObject(original) || !isObject(modified)) {
+    return modified === undefined ? null : modified;
+  }
+
+  const patch: JsonObject = {};
+  for (const key of Object.keys(original)) {
+    if (original[key] !== undefined && modified[key] === undefined) {
+      patch[key] = null;
+    }
+  }
+  for (const [key, value] of Object.entries(modified)) {
+    if (value === undefined || isEqual(original[key], value)) continue;
+    patch[key] = isObject(original[key]) && isObject(value)
+      ? createMergePatch(original[key], value)
+      : value;
+  }
+  return patch;
+}
+
+export function applyMergePatch<T>(target: T, patch: unknown): T {
+  if (!isObject(patch)) return patch as T;
+
+  const result: JsonObject = isObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
+  return result as T;
+}
+
+export interface EditableFields {
+  metadata: { labels?: Record<string, string>; annotations?: Record<string, string> };
+  spec: unknown;
+}
+
+/**
+ * The parts of a resource the UI edits. Status and server-managed metadata
+ * are excluded so operator writes never show up as user changes.
+ */
+export function getEditableFields(resource: { metadata: EditableFields['metadata']; spec?: unknown }): EditableFields {
+  return {
+    metadata: {
+      labels: resource.metadata.labels,
+      annotations: resource.metadata.annotations,
+    },
+    spec: resource.spec,
+  };
+}
+
+/**
+ * Merge patch for an edit, guarded by the loaded object's resourceVersion so
+ * the API server rejects it with 409 if the object changed in the meantime.
+ */
+export function createUpdatePatch(
+  original: { metadata: EditableFields['metadata'] & { resourceVersion?: string }; spec?: unknown } | undefined,
+  updated: { metadata: EditableFields['metadata'] & { resourceVersion?: string }; spec?: unknown }
+): JsonObject {
+  const patch = createMergePatch(
+    original ? getEditableFields(original) : {},
+    getEditableFields(updated)
+  ) as JsonObject;
+  const resourceVersion = (original ?? updated).metadata.resourceVersion;
+  if (resourceVersion) {
+    patch.metadata = { ...(patch.metadata as JsonObject | undefined), resourceVersion };
+  }
+  return patch;
+}
+
+export interface ThreeWayDiffRow {
+  path: string;
+  base: unknown;
+  mine: unknown;
+  theirs: unknown;
+  // Both sides changed this path to different values
+  conflict: boolean;
+}
+
+function flatten(value: unknown, prefix: string, out: Map<string, unknown>) {
+  if (isObject(value) && Object.keys(value).length > 0) {
+    for (const [key, child] of Object.entries(value)) {
+      flatten(child, prefix ? `${prefix}.${key}` : key, out);
+    }
+  } else if (value !== undefined) {
+    out.set(prefix, value);
+  }
+}
+
+/**
+ * Compare what the user loaded (base), what they submitted (mine) and what
+ * is on the cluster now (theirs), leaf by leaf. Only changed paths are returned.
+ */
+export function threeWayDiff(base: unknown, mine: unknown, theirs: unknown): ThreeWayDiffRow[] {
+  const maps = [base, mine, theirs].map((value) => {
+    const out = new Map<string, unknown>();
+    flatten(value, '', out);
+    return out;
+  });
+  const paths = [...new Set(maps.flatMap((m) => [...m.keys()]))].sort();
+
+  return paths
+    .map((path) => {
+      const [b, m, t] = maps.map((map) => map.get(path));
+      const mineChanged = !isEqual(b, m);
+      const theirsChanged = !isEqual(b, t);
+      return { path, base: b, mine: m, theirs: t, conflict: mineChanged && theirsChanged && !isEqual(m, t) };
+    })
+    .filter((row) => !isEqual(row.base, row.mine) || !isEqual(row.base, row.theirs));
+}
+
+/**
+ * Re-apply the user's edit (base → mine) on top of the latest cluster object.
+ * On conflicting paths the user's values win.
+ */
+export function rebaseEdit<T extends { metadata: EditableFields['metadata']; spec?: unknown }>(base: T, mine: T, theirs: T): T {
+  const patch = createMergePatch(getEditableFields(base), getEditableFields(mine));
+  const merged = applyMergePatch(getEditableFields(theirs), patch);
+  return {
+    ...theirs,
+    metadata: { ...theirs.metadata, labels: merged.metadata.labels, annotations: merged.metadata.annotations },
+    spec: merged.spec,
+  };
+}
@@ -524,14 +524,13 @@ export class KubernetesClientWithProxy extends KubernetesClientWithCore {
     
     console.log(`[k8sClient] Proxying request to: ${url}`);
     
-    return fetch(url, {
+    return this.fetchWithAuth(url, {
       ...options,
       headers: {
         'Content-Type': 'application/json',
         // FastMCP requires Accept header to include both application/json and text/event-stream
         'Accept': 'application/json, text/event-stream',
-        'X-Requested-With': 'XMLHttpRequest',
-        'bypass-tunnel-reminder': '1',
+        ...this.getRequestHeaders(),
         ...options.headers,
       },
     });
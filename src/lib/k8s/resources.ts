@@ -9,6 +9,10 @@ import type {
 } from '@/types/kubernetes';
 
 import { KubernetesClientBase, type K8sListResponse, type K8sStatus } from './client';
+import { createUpdatePatch } from './patch';
+
+// Field manager recorded in managedFields for every write made from the UI
+export const FIELD_MANAGER = 'kaos-ui';
 
 export class KubernetesClientWithResources extends KubernetesClientBase {
   // ============= CRD API Group Configuration =============
@@ -21,6 +25,21 @@ export class KubernetesClientWithResources extends KubernetesClientBase {
     return name ? `${basePath}/${name}` : basePath;
   }
 
+  /**
+   * Apply a JSON merge patch. A resourceVersion in the patch acts as a
+   * precondition: the server answers 409 (K8sConflictError) if the object
+   * changed since. Updates pass the object as loaded for editing as
+   * `original` so only the fields the user changed are sent.
+   */
+  protected async mergePatch<T>(path: string, patch: unknown, options: { dryRun?: boolean } = {}): Promise<T> {
+    const dryRun = options.dryRun ? '&dryRun=All' : '';
+    return this.request<T>(`${path}?fieldManager=${FIELD_MANAGER}${dryRun}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/merge-patch+json' },
+      body: JSON.stringify(patch),
+    });
+  }
+
   // ============= ModelAPI CRUD =============
   async listModelAPIs(namespace?: string): Promise<ModelAPI[]> {
     const ns = namespace || this.config.namespace;
@@ -48,12 +67,9 @@ export class KubernetesClientWithResources extends KubernetesClientBase {
     });
   }
 
-  async updateModelAPI(api: ModelAPI): Promise<ModelAPI> {
+  async updateModelAPI(api: ModelAPI, original?: ModelAPI): Promise<ModelAPI> {
     const ns = api.metadata.namespace || this.config.namespace;
-    return this.request<ModelAPI>(this.getCrdPath('modelapis', ns, api.metadata.name), {
-      method: 'PUT',
-      body: JSON.stringify(api),
-    });
+    return this.mergePatch<ModelAPI>(this.getCrdPath('modelapis', ns, api.metadata.name), createUpdatePatch(original, api));
   }
 
   async deleteModelAPI(name: string, namespace?: string): Promise<K8sStatus> {
@@ -89,12 +105,9 @@ export class KubernetesClientWithResources extends KubernetesClientBase {
     });
   }
 
-  async updateMCPServer(server: MCPServer): Promise<MCPServer> {
+  async updateMCPServer(server: MCPServer, original?: MCPServer): Promise<MCPServer> {
     const ns = server.metadata.namespace || this.config.namespace;
-    return this.request<MCPServer>(this.getCrdPath('mcpservers', ns, server.metadata.name), {
-      method: 'PUT',
-      body: JSON.stringify(server),
-    });
+    return this.mergePatch<MCPServer>(this.getCrdPath('mcpservers', ns, server.metadata.name), createUpdatePatch(original, server));
   }
 
   async deleteMCPServer(name: string, namespace?: string): Promise<K8sStatus> {
@@ -130,12 +143,9 @@ export class KubernetesClientWithResources extends KubernetesClientBase {
     });
   }
 
-  async updateAgent(agent: Agent): Promise<Agent> {
+  async updateAgent(agent: Agent, original?: Agent): Promise<Agent> {
     const ns = agent.metadata.namespace || this.config.namespace;
-    return this.request<Agent>(this.getCrdPath('agents', ns, agent.metadata.name), {
-      method: 'PUT',
-      body: JSON.stringify(agent),
-    });
+    return this.mergePatch<Agent>(this.getCrdPath('agents', ns, agent.metadata.name), createUpdatePatch(original, agent));
   }
 
   async deleteAgent(name: string, namespace?: string): Promise<K8sStatus> {
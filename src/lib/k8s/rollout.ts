@@ -0,0 +1,96 @@
+/**
+ * Deployment rollouts: restart annotation, replica ownership and the
+ * revision history kept in a Deployment's ReplicaSets.
+ */
+
+import type { Deployment, EnvVar, ReplicaSet } from '@/types/kubernetes';
+
+export const RESTARTED_AT_ANNOTATION = 'kubectl.kubernetes.io/restartedAt';
+export const REVISION_ANNOTATION = 'deployment.kubernetes.io/revision';
+
+export interface RevisionContainer {
+  name: string;
+  image: string;
+  env: EnvVar[];
+}
+
+export interface RolloutRevision {
+  revision: number;
+  replicaSet: string;
+  createdAt?: string;
+  replicas: number;
+  readyReplicas: number;
+  restartedAt?: string;
+  containers: RevisionContainer[];
+}
+
+export type RevisionChange =
+  | { container: string; field: 'image'; before?: string; after?: string }
+  | { container: string; field: 'env'; name: string; before?: string; after?: string };
+
+/**
+ * The kind of the object controlling the Deployment, if any. A controller
+ * reconciles the Deployment spec, so replicas set directly on it are reverted.
+ */
+export function getDeploymentController(deployment: Deployment): string | undefined {
+  return deployment.metadata.ownerReferences?.find((owner) => owner.controller)?.kind;
+}
+
+/**
+ * Copy of a KAOS resource with a replica count in its podSpec override, for
+ * Deployments the operator owns.
+ */
+export function withReplicasOverride<T extends { spec: { podSpec?: Record<string, unknown> } }>(resource: T, replicas: number): T {
+  return { ...resource, spec: { ...resource.spec, podSpec: { ...resource.spec.podSpec, replicas } } };
+}
+
+/**
+ * Revisions of a Deployment, newest first, from the ReplicaSets it controls.
+ */
+export function getRolloutHistory(deployment: Deployment, replicaSets: ReplicaSet[]): RolloutRevision[] {
+  const uid = deployment.metadata.uid;
+  return replicaSets
+    .filter((rs) => rs.metadata.ownerReferences?.some((owner) => owner.kind === 'Deployment' && (uid ? owner.uid === uid : owner.name === deployment.metadata.name)))
+    .map((rs) => ({
+      revision: Number(rs.metadata.annotations?.[REVISION_ANNOTATION] ?? 0),
+      replicaSet: rs.metadata.name,
+      createdAt: rs.metadata.creationTimestamp,
+      replicas: rs.status?.replicas ?? 0,
+      readyReplicas: rs.status?.readyReplicas ?? 0,
+      restartedAt: rs.spec.template?.metadata?.annotations?.[RESTARTED_AT_ANNOTATION],
+      containers: (rs.spec.template?.spec?.containers ?? []).map((c) => ({ name: c.name, image: c.image, env: c.env ?? [] })),
+    }))
+    .sort((a, b) => b.revision - a.revision);
+}
+
+export function describeEnvValue(env: EnvVar): string {
+  const { secretKeyRef, configMapKeyRef } = env.valueFrom ?? {};
+  if (secretKeyRef) return `secret ${secretKeyRef.name}/${secretKeyRef.key}`;
+  if (configMapKeyRef) return `configmap ${configMapKeyRef.name}/${configMapKeyRef.key}`;
+  return env.value ?? '';
+}
+
+/**
+ * Image and environment changes from one revision to another, per container.
+ */
+export function diffRevisions(from: RolloutRevision, to: RolloutRevision): RevisionChange[] {
+  const changes: RevisionChange[] = [];
+  const names = [...new Set([...from.containers, ...to.containers].map((c) => c.name))];
+
+  for (const container of names) {
+    const before = from.containers.find((c) => c.name === container);
+    const after = to.containers.find((c) => c.name === container);
+    if (before?.image !== after?.image) {
+      changes.push({ container, field: 'image', before: before?.image, after: after?.image });
+    }
+
+    const beforeEnv = new Map((before?.env ?? []).map((env) => [env.name, describeEnvValue(env)]));
+    const afterEnv = new Map((after?.env ?? []).map((env) => [env.name, describeEnvValue(env)]));
+    for (const name of new Set([...beforeEnv.keys(), ...afterEnv.keys()])) {
+      if (beforeEnv.get(name) !== afterEnv.get(name)) {
+        changes.push({ container, field: 'env', name, before: beforeEnv.get(name), after: afterEnv.get(name) });
+      }
+    }
+  }
+  return changes;
+}
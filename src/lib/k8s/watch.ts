@@ -0,0 +1,357 @@
+/**
+ * List/watch support for live resource sync.
+ *
+ * Implements the Kubernetes `?watch=true` streaming protocol: an initial list
+ * establishes the resourceVersion, then a long-lived watch stream delivers
+ * ADDED/MODIFIED/DELETED events. Bookmarks advance the resourceVersion,
+ * 410 Gone triggers a relist, and dropped streams reconnect with backoff.
+ */
+
+import type { SecretRef } from '@/types/kubernetes';
+
+import { K8sApiError, type K8sListResponse, type K8sStatus } from './client';
+import { normalizeEvent, type RawEvent } from './events';
+import { KubernetesClientWithProxy } from './proxy';
+
+export type WatchEventType = 'ADDED' | 'MODIFIED' | 'DELETED' | 'BOOKMARK' | 'ERROR';
+
+export interface WatchEvent<T> {
+  type: WatchEventType;
+  object: T;
+}
+
+export type WatchableResource =
+  | 'modelapis'
+  | 'mcpservers'
+  | 'agents'
+  | 'pods'
+  | 'deployments'
+  | 'services'
+  | 'secrets'
+  | 'events';
+
+export type WatchStatus = 'connecting' | 'live' | 'reconnecting' | 'unavailable' | 'stopped';
+
+export interface WatchedObject {
+  metadata: { name: string; resourceVersion?: string };
+}
+
+export interface WatchHandlers<T> {
+  /** Called with the full collection after every (re)list */
+  onSync: (items: T[]) => void;
+  /** Called for each incremental change */
+  onEvent: (type: 'ADDED' | 'MODIFIED' | 'DELETED', object: T) => void;
+  onStatus?: (status: WatchStatus) => void;
+  /** Called once when the proxy cannot serve watch streams; the watcher stops itself */
+  onUnavailable?: (error: Error) => void;
+}
+
+export interface WatchHandle {
+  stop: () => void;
+}
+
+export interface ResourceWatcherOptions<T> {
+  list: (signal: AbortSignal) => Promise<K8sListResponse<T>>;
+  openWatch: (resourceVersion: string, signal: AbortSignal) => Promise<Response>;
+  transform?: (object: T) => T;
+  /** How long to wait for watch response headers before giving up (ms) */
+  headersTimeout?: number;
+  /** Failed attempts before a never-established watch is declared unavailable */
+  maxInitialFailures?: number;
+  sleep?: (ms: number, signal: AbortSignal) => Promise<void>;
+}
+
+const MIN_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+
+/**
+ * Exponential reconnect delay: 1s, 2s, 4s ... capped at 30s.
+ */
+export function getWatchBackoff(attempt: number): number {
+  return Math.min(MAX_BACKOFF_MS, MIN_BACKOFF_MS * 2 ** Math.max(0, attempt));
+}
+
+class WatchGoneError extends Error {
+  constructor() {
+    super('Watch resourceVersion expired (410 Gone)');
+    this.name = 'WatchGoneError';
+  }
+}
+
+class WatchUnsupportedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WatchUnsupportedError';
+  }
+}
+
+function abortableSleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Drives a single list/watch loop for one collection until stopped.
+ */
+export class ResourceWatcher<T extends WatchedObject> implements WatchHandle {
+  private readonly controller = new AbortController();
+  private resourceVersion = '';
+  private established = false;
+  private failures = 0;
+  private stopped = false;
+
+  constructor(
+    private readonly options: ResourceWatcherOptions<T>,
+    private readonly handlers: WatchHandlers<T>,
+  ) {}
+
+  start(): this {
+    void this.run();
+    return this;
+  }
+
+  stop(): void {
+    if (this.stopped) return;
+    this.stopped = true;
+    this.controller.abort();
+    this.handlers.onStatus?.('stopped');
+  }
+
+  private get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  private async run(): Promise<void> {
+    const sleep = this.options.sleep ?? abortableSleep;
+    const maxInitialFailures = this.options.maxInitialFailures ?? 3;
+
+    this.handlers.onStatus?.('connecting');
+
+    while (!this.stopped) {
+      try {
+        if (!this.resourceVersion) {
+          const listed = await this.relist();
+          if (!listed) return;
+        }
+        await this.watchOnce();
+        // Server closed the stream normally (timeoutSeconds elapsed) — resume from last version
+        this.failures = 0;
+      } catch (error) {
+        if (this.stopped) return;
+
+        if (error instanceof WatchGoneError) {
+          this.resourceVersion = '';
+          continue;
+        }
+
+        const err = error instanceof Error ? error : new Error(String(error));
+        this.failures += 1;
+
+        if (error instanceof WatchUnsupportedError || (!this.established && this.failures >= maxInitialFailures)) {
+          console.warn('[k8sWatch] Watch unavailable, giving up:', err.message);
+          this.stopped = true;
+          this.handlers.onStatus?.('unavailable');
+          this.handlers.onUnavailable?.(err);
+          return;
+        }
+
+        console.warn(`[k8sWatch] Watch interrupted, reconnecting (attempt ${this.failures}):`, err.message);
+        this.handlers.onStatus?.('reconnecting');
+        await sleep(getWatchBackoff(this.failures - 1), this.signal);
+      }
+    }
+  }
+
+  /**
+   * List the collection and reset the resourceVersion. Returns false when the
+   * resource type does not exist on the cluster (e.g. KAOS CRDs not installed).
+   */
+  private async relist(): Promise<boolean> {
+    try {
+      const response = await this.options.list(this.signal);
+      this.resourceVersion = response.metadata.resourceVersion;
+      const transform = this.options.transform;
+      this.handlers.onSync(transform ? response.items.map(transform) : response.items);
+      return true;
+    } catch (error) {
+      if (error instanceof K8sApiError && error.status === 404) {
+        this.handlers.onSync([]);
+        this.stop();
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Open one watch stream and consume it until it closes. Timeouts and error
+   * statuses only mark the proxy as unsupported before the first stream has
+   * gone live; after that they are ordinary interruptions retried with backoff.
+   */
+  private async watchOnce(): Promise<void> {
+    const headersTimeout = this.options.headersTimeout ?? 10000;
+    const attempt = new AbortController();
+    const forwardAbort = () => attempt.abort();
+    this.signal.addEventListener('abort', forwardAbort, { once: true });
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      attempt.abort();
+    }, headersTimeout);
+
+    try {
+      let response: Response;
+      try {
+        response = await this.options.openWatch(this.resourceVersion, attempt.signal);
+      } catch (error) {
+        if (timedOut) {
+          const message = 'Timed out waiting for watch stream — the proxy may be buffering responses';
+          throw this.established ? new Error(message) : new WatchUnsupportedError(message);
+        }
+        throw error;
+      } finally {
+        clearTimeout(timer);
+      }
+
+      if (response.status === 410) throw new WatchGoneError();
+      if (!response.ok) {
+        const text = await response.text().catch(() => '');
+        const message = `K8s watch error ${response.status}: ${text}`;
+        throw this.established || response.status >= 500 ? new Error(message) : new WatchUnsupportedError(message);
+      }
+
+      const reader = response.body?.getReader();
+      if (!reader) {
+        throw new WatchUnsupportedError('Watch response has no readable body');
+      }
+
+      this.established = true;
+      this.failures = 0;
+      this.handlers.onStatus?.('live');
+
+      await this.consume(reader);
+    } finally {
+      this.signal.removeEventListener('abort', forwardAbort);
+    }
+  }
+
+  private async consume(reader: ReadableStreamDefaultReader<Uint8Array>): Promise<void> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (line.trim()) this.handleLine(line);
+        }
+      }
+
+      if (buffer.trim()) this.handleLine(buffer);
+    } finally {
+      reader.cancel().catch(() => {});
+    }
+  }
+
+  private handleLine(line: string): void {
+    let event: WatchEvent<T | K8sStatus>;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      console.warn('[k8sWatch] Skipping unparseable watch line:', line);
+      return;
+    }
+
+    if (event.type === 'ERROR') {
+      const status = event.object as K8sStatus;
+      if (status.code === 410) throw new WatchGoneError();
+      throw new Error(`K8s watch error ${status.code}: ${status.message || status.reason || 'unknown'}`);
+    }
+
+    const object = event.object as T;
+    const version = object.metadata?.resourceVersion;
+    if (version) this.resourceVersion = version;
+
+    if (event.type === 'BOOKMARK') return;
+
+    const transform = this.options.transform;
+    this.handlers.onEvent(event.type, transform ? transform(object) : object);
+  }
+}
+
+/**
+ * Strip secret values from watched Secrets, keeping only key names (mirrors listSecrets).
+ */
+function redactSecret<T>(object: T): T {
+  const secret = object as unknown as SecretRef & { data?: Record<string, string> };
+  return {
+    apiVersion: secret.apiVersion,
+    kind: secret.kind,
+    metadata: secret.metadata,
+    type: secret.type,
+    dataKeys: secret.data ? Object.keys(secret.data) : [],
+  } as unknown as T;
+}
+
+function normalizeWatchedEvent<T>(object: T): T {
+  return normalizeEvent(object as unknown as RawEvent) as unknown as T;
+}
+
+export class KubernetesClientWithWatch extends KubernetesClientWithProxy {
+  private getWatchPath(resource: WatchableResource, namespace: string): string {
+    switch (resource) {
+      case 'modelapis':
+      case 'mcpservers':
+      case 'agents':
+        return this.getCrdPath(resource, namespace);
+      case 'deployments':
+        return `/apis/apps/v1/namespaces/${namespace}/deployments`;
+      default:
+        return `/api/v1/namespaces/${namespace}/${resource}`;
+    }
+  }
+
+  /**
+   * Start a list/watch loop for a namespaced collection.
+   */
+  watchResource<T extends WatchedObject>(
+    resource: WatchableResource,
+    handlers: WatchHandlers<T>,
+    namespace?: string
+  ): WatchHandle {
+    const ns = namespace || this.config.namespace;
+    const path = this.getWatchPath(resource, ns);
+
+    return new ResourceWatcher<T>(
+      {
+        list: (signal) => this.request<K8sListResponse<T>>(path, { signal }),
+        openWatch: (resourceVersion, signal) => {
+          const params = new URLSearchParams({
+            watch: 'true',
+            allowWatchBookmarks: 'true',
+            resourceVersion,
+            timeoutSeconds: '300',
+          });
+          return this.fetchWithAuth(`${this.config.baseUrl}${path}?${params.toString()}`, {
+            headers: this.getRequestHeaders(),
+            signal,
+          });
+        },
+        transform: resource === 'secrets' ? redactSecret : resource === 'events' ? normalizeWatchedEvent : undefined,
+      },
+      handlers,
+    ).start();
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Kubeconfig parsing for bootstrapping connections.
+ *
+ * Resolves each context to the server URL, namespace and browser-usable
+ * credentials so a connection can be made without hand-entering a proxy URL.
+ */
+
+import { parseYamlText } from '@/lib/yaml';
+import { authFromKubeconfigUser, type K8sAuthConfig, type KubeconfigUserFields } from '@/lib/k8s/auth';
+
+export interface KubeconfigContext {
+  name: string;
+  cluster: string;
+  user: string;
+  namespace: string;
+  // API server URL from the referenced cluster entry
+  server?: string;
+  auth?: K8sAuthConfig;
+  // Why this context cannot be used directly from the browser
+  unsupportedReason?: string;
+}
+
+export interface ParsedKubeconfig {
+  contexts: KubeconfigContext[];
+  currentContext?: string;
+}
+
+type NamedEntry = { name?: string } & Record<string, unknown>;
+
+interface RawKubeconfig {
+  'current-context'?: string;
+  clusters?: NamedEntry[];
+  users?: NamedEntry[];
+  contexts?: NamedEntry[];
+}
+
+function findEntry(entries: NamedEntry[] | undefined, name: string, field: string): Record<string, unknown> | undefined {
+  const entry = entries?.find((e) => e?.name === name);
+  const value = entry?.[field];
+  return value && typeof value === 'object' ? value as Record<string, unknown> : undefined;
+}
+
+/**
+ * Parse a kubeconfig document. Throws when the YAML is invalid or defines no contexts.
+ */
+export function parseKubeconfig(text: string): ParsedKubeconfig {
+  const doc = parseYamlText(text) as RawKubeconfig;
+  if (!doc || typeof doc !== 'object' || !Array.isArray(doc.contexts) || doc.contexts.length === 0) {
+    throw new Error('No contexts found in kubeconfig');
+  }
+
+  const contexts = doc.contexts
+    .filter((entry) => typeof entry?.name === 'string')
+    .map((entry): KubeconfigContext => {
+      const context = (entry.context || {}) as Record<string, string>;
+      const clusterName = context.cluster || '';
+      const userName = context.user || '';
+      const cluster = findEntry(doc.clusters, clusterName, 'cluster');
+      const user = findEntry(doc.users, userName, 'user');
+
+      const result: KubeconfigContext = {
+        name: entry.name as string,
+        cluster: clusterName,
+        user: userName,
+        namespace: context.namespace || 'default',
+        server: typeof cluster?.server === 'string' ? cluster.server.replace(/\/+$/, '') : undefined,
+      };
+
+      if (!result.server) {
+        result.unsupportedReason = `Cluster "${clusterName}" has no server URL`;
+      } else if (user && Object.keys(user).length > 0) {
+        try {
+          result.auth = authFromKubeconfigUser(userName, user as KubeconfigUserFields);
+        } catch (e) {
+          result.unsupportedReason = e instanceof Error ? e.message : String(e);
+        }
+      }
+      return result;
+    });
+
+  return { contexts, currentContext: doc['current-context'] };
+}
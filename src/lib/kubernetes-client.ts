@@ -5,5 +5,5 @@
  * All implementations live in src/lib/k8s/.
  */
 
-export { KubernetesClient, k8sClient } from './k8s';
-export type { K8sClientConfig } from './k8s';
+export { KubernetesClient, k8sClient, K8sAuthError, K8sConflictError, parseKubeconfigUser } from './k8s';
+export type { ApplyPlanItem, EventSelector, ExecHandle, ExecStatus, K8sAuthConfig, K8sClientConfig, KubeEvent, LogLine, LogStreamHandle, LogStreamStatus, MetricsSample, PodLogOptions, PodMetrics, RevisionChange, RolloutRevision, WatchableResource, WatchHandle, WatchStatus } from './k8s';
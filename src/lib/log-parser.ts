@@ -0,0 +1,188 @@
+/**
+ * Parsing of container log lines into structured entries. Agent runtimes log
+ * JSON (structlog, python-json-logger, OpenTelemetry) while the operator and
+ * most sidecars log plain text, so each line is tried as JSON first and falls
+ * back to picking the level, logger and trace ID out of the text.
+ */
+
+import type { LogLine } from './k8s/logs';
+
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug' | 'other';
+
+export const LOG_LEVELS: LogLevel[] = ['error', 'warn', 'info', 'debug', 'other'];
+
+export interface ParsedLogEntry {
+  raw: string;
+  level: LogLevel;
+  message: string;
+  /** ISO timestamp from the line itself, else from the API server */
+  timestamp?: string;
+  logger?: string;
+  traceId?: string;
+  /** Remaining fields of a JSON line */
+  fields?: Record<string, unknown>;
+  json: boolean;
+}
+
+const LEVEL_KEYS = ['level', 'lvl', 'severity', 'levelname', 'log.level', 'severity_text', 'loglevel'];
+const TIME_KEYS = ['timestamp', 'time', 'ts', '@timestamp', 'asctime', 'datetime'];
+const LOGGER_KEYS = ['logger', 'logger_name', 'name', 'caller', 'module'];
+const MESSAGE_KEYS = ['message', 'msg', 'event', 'body'];
+const TRACE_KEYS = ['trace_id', 'traceId', 'traceid', 'otelTraceID', 'trace.id', 'dd.trace_id'];
+
+const TEXT_LEVEL_PATTERN = /\b(FATAL|CRITICAL|PANIC|ERROR|ERR|WARN(?:ING)?|INFO|DEBUG|TRACE)\b/i;
+const KLOG_PATTERN = /^([IWEF])\d{4} \d{2}:\d{2}:\d{2}\.\d+\s+\d+\s+([^\]]+)\] (.*)$/;
+// "2024-05-01 10:00:00,123 - kaos.agent - INFO - message" (Python logging)
+const PYTHON_PATTERN = /^\S+ \S+ - ([\w.]+) - (\w+) - (.*)$/;
+const TEXT_TRACE_PATTERN = /\b(?:trace[_-]?id|traceID|otelTraceID)[=:]\s*"?([0-9a-f]{16,32})\b/i;
+const TRACEPARENT_PATTERN = /\b00-([0-9a-f]{32})-[0-9a-f]{16}-[0-9a-f]{2}\b/;
+
+export function normalizeLevel(value: unknown): LogLevel {
+  if (typeof value === 'number') {
+    // pino/bunyan numeric levels
+    if (value >= 50) return 'error';
+    if (value >= 40) return 'warn';
+    if (value >= 30) return 'info';
+    return 'debug';
+  }
+  const level = String(value ?? '').toLowerCase();
+  if (['fatal', 'critical', 'panic', 'error', 'err', 'e', 'f', 'crit', 'alert', 'emergency'].includes(level)) return 'error';
+  if (['warn', 'warning', 'w'].includes(level)) return 'warn';
+  if (['info', 'information', 'notice', 'i'].includes(level)) return 'info';
+  if (['debug', 'trace', 'verbose', 'd'].includes(level)) return 'debug';
+  return 'other';
+}
+
+function pick(record: Record<string, unknown>, keys: string[]): [string, unknown] | undefined {
+  for (const key of keys) {
+    if (record[key] !== undefined && record[key] !== null && record[key] !== '') return [key, record[key]];
+  }
+  return undefined;
+}
+
+function toIsoTimestamp(value: unknown): string | undefined {
+  if (typeof value === 'number') {
+    // Seconds or milliseconds since the epoch
+    const date = new Date(value < 1e12 ? value * 1000 : value);
+    return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+  }
+  if (typeof value !== 'string') return undefined;
+  const date = new Date(value.replace(',', '.'));
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function findTextTrace(text: string): string | undefined {
+  return TEXT_TRACE_PATTERN.exec(text)?.[1] ?? TRACEPARENT_PATTERN.exec(text)?.[1];
+}
+
+function parseJson(line: LogLine, record: Record<string, unknown>): ParsedLogEntry {
+  const fields = { ...record };
+  const take = (keys: string[]) => {
+    const found = pick(fields, keys);
+    if (found) delete fields[found[0]];
+    return found?.[1];
+  };
+
+  const level = take(LEVEL_KEYS);
+  const time = take(TIME_KEYS);
+  const logger = take(LOGGER_KEYS);
+  const message = take(MESSAGE_KEYS);
+  const trace = take(TRACE_KEYS);
+
+  return {
+    raw: line.text,
+    level: normalizeLevel(level),
+    message: typeof message === 'string' ? message : message === undefined ? '' : JSON.stringify(message),
+    timestamp: toIsoTimestamp(time) ?? line.timestamp,
+    logger: logger === undefined ? undefined : String(logger),
+    traceId: trace === undefined ? findTextTrace(line.text) : String(trace),
+    fields: Object.keys(fields).length > 0 ? fields : undefined,
+    json: true,
+  };
+}
+
+function parseText(line: LogLine): ParsedLogEntry {
+  const { text } = line;
+  const base = { raw: text, timestamp: line.timestamp, traceId: findTextTrace(text), json: false };
+
+  const klog = KLOG_PATTERN.exec(text);
+  if (klog) {
+    return { ...base, level: normalizeLevel(klog[1]), logger: klog[2].trim(), message: klog[3] };
+  }
+  const python = PYTHON_PATTERN.exec(text);
+  if (python && normalizeLevel(python[2]) !== 'other') {
+    return { ...base, level: normalizeLevel(python[2]), logger: python[1], message: python[3] };
+  }
+  const level = TEXT_LEVEL_PATTERN.exec(text)?.[1];
+  return { ...base, level: level ? normalizeLevel(level) : 'other', message: text };
+}
+
+export function parseLogEntry(line: LogLine): ParsedLogEntry {
+  const trimmed = line.text.trim();
+  if (trimmed.startsWith('{') && trimmed.endsWith('}')) {
+    try {
+      const record = JSON.parse(trimmed);
+      if (record && typeof record === 'object' && !Array.isArray(record)) return parseJson(line, record);
+    } catch {
+      // Not JSON after all
+    }
+  }
+  return parseText(line);
+}
+
+export interface LogFilter {
+  levels: Set<LogLevel>;
+  pattern?: RegExp;
+  /** Entries before this ISO time are hidden */
+  since?: string;
+  traceId?: string;
+}
+
+/**
+ * Build the search pattern for a query; plain queries match literally.
+ * Returns an error message for invalid regular expressions.
+ */
+export function buildSearchPattern(query: string, regex: boolean, caseSensitive = false): RegExp | string | undefined {
+  if (!query) return undefined;
+  const source = regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  try {
+    return new RegExp(source, caseSensitive ? 'g' : 'gi');
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid regular expression';
+  }
+}
+
+function matches(pattern: RegExp, text: string): boolean {
+  pattern.lastIndex = 0;
+  return pattern.test(text);
+}
+
+export function filterLogEntries(entries: ParsedLogEntry[], filter: LogFilter): ParsedLogEntry[] {
+  return entries.filter((entry) => {
+    if (!filter.levels.has(entry.level)) return false;
+    if (filter.traceId && entry.traceId !== filter.traceId) return false;
+    // Entries without a timestamp can't be placed, so they stay visible
+    if (filter.since && entry.timestamp && entry.timestamp < filter.since) return false;
+    if (filter.pattern && !matches(filter.pattern, entry.raw)) return false;
+    return true;
+  });
+}
+
+/**
+ * Split text into alternating unmatched and matched segments for highlighting.
+ */
+export function highlightSegments(text: string, pattern?: RegExp): { text: string; match: boolean }[] {
+  if (!pattern) return [{ text, match: false }];
+  const segments: { text: string; match: boolean }[] = [];
+  let last = 0;
+  pattern.lastIndex = 0;
+  for (const found of text.matchAll(pattern)) {
+    if (found[0] === '') continue;
+    const start = found.index ?? 0;
+    if (start > last) segments.push({ text: text.slice(last, start), match: false });
+    segments.push({ text: found[0], match: true });
+    last = start + found[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments.length > 0 ? segments : [{ text, match: false }];
+}
@@ -0,0 +1,171 @@
+/**
+ * Parsing, validation and ordering of KAOS manifests (ModelAPI, MCPServer,
+ * Agent and Secret documents) for bulk import from multi-document YAML.
+ */
+
+import { parseYamlDocuments } from './yaml';
+import { validateKaosResource, type KaosResourceKind } from './resource-validation';
+
+export type ManifestKind = KaosResourceKind | 'Secret';
+
+export interface Manifest {
+  apiVersion: string;
+  kind: ManifestKind;
+  metadata: {
+    name: string;
+    namespace: string;
+    labels?: Record<string, string>;
+    annotations?: Record<string, string>;
+  };
+  spec?: unknown;
+  // Secret only
+  type?: string;
+  data?: Record<string, string>;
+  stringData?: Record<string, string>;
+}
+
+export interface ManifestError {
+  // 1-based position of the document in the YAML stream
+  document: number;
+  name?: string;
+  message: string;
+}
+
+export interface ParsedManifests {
+  manifests: Manifest[];
+  errors: ManifestError[];
+}
+
+// Set by the stack export on Secrets whose values are placeholders
+export const REDACTED_ANNOTATION = 'kaos.tools/redacted-values';
+
+// Creation order: Secrets and the resources Agents reference come first
+const KIND_ORDER: ManifestKind[] = ['Secret', 'ModelAPI', 'MCPServer', 'Agent'];
+
+export function manifestKey(manifest: Pick<Manifest, 'kind' | 'metadata'>): string {
+  return `${manifest.kind}/${manifest.metadata.namespace}/${manifest.metadata.name}`;
+}
+
+function isStringMap(value: unknown): value is Record<string, string> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+    && Object.values(value).every((v) => typeof v === 'string');
+}
+
+function validateSecret(doc: Record<string, unknown>): string | null {
+  if (doc.apiVersion !== 'v1') return 'apiVersion must be "v1" for a Secret';
+  const metadata = doc.metadata as { name?: unknown; annotations?: Record<string, string> } | undefined;
+  if (typeof metadata?.name !== 'string' || !metadata.name) return 'metadata.name is required';
+  if (metadata.annotations?.[REDACTED_ANNOTATION]) {
+    return `values were redacted on export; fill them in and remove the ${REDACTED_ANNOTATION} annotation`;
+  }
+  for (const field of ['data', 'stringData'] as const) {
+    if (doc[field] !== undefined && !isStringMap(doc[field])) return `${field} must be a map of strings`;
+  }
+  return null;
+}
+
+/**
+ * Keep only the fields the import writes, so manifests exported from a
+ * cluster (with status, uid, resourceVersion...) can be imported as is.
+ */
+function normalize(doc: Record<string, unknown>, defaultNamespace: string): Manifest {
+  const metadata = doc.metadata as Manifest['metadata'];
+  const manifest: Manifest = {
+    apiVersion: doc.apiVersion as string,
+    kind: doc.kind as ManifestKind,
+    metadata: {
+      name: metadata.name,
+      namespace: metadata.namespace || defaultNamespace,
+      labels: metadata.labels,
+      annotations: metadata.annotations,
+    },
+  };
+  if (manifest.kind === 'Secret') {
+    manifest.type = (doc.type as string | undefined) ?? 'Opaque';
+    manifest.data = doc.data as Record<string, string> | undefined;
+    manifest.stringData = doc.stringData as Record<string, string> | undefined;
+  } else {
+    manifest.spec = doc.spec;
+  }
+  return manifest;
+}
+
+/**
+ * Parse and validate a multi-document YAML stream. Invalid documents are
+ * reported in `errors` and left out of `manifests`, which is sorted into
+ * creation order.
+ */
+export function parseManifests(text: string, defaultNamespace: string): ParsedManifests {
+  const manifests: Manifest[] = [];
+  const errors: ManifestError[] = [];
+
+  parseYamlDocuments(text).forEach((value, index) => {
+    const document = index + 1;
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      errors.push({ document, message: 'Expected a YAML mapping' });
+      return;
+    }
+    const doc = value as Record<string, unknown>;
+    const kind = doc.kind as ManifestKind;
+    const name = (doc.metadata as { name?: string } | undefined)?.name;
+
+    if (!KIND_ORDER.includes(kind)) {
+      errors.push({ document, name, message: `Unsupported kind "${String(doc.kind)}"` });
+      return;
+    }
+    if (kind === 'Secret') {
+      const error = validateSecret(doc);
+      if (error) {
+        errors.push({ document, name, message: error });
+        return;
+      }
+    } else {
+      const issues = validateKaosResource(kind as KaosResourceKind, doc);
+      if (issues.length > 0) {
+        const details = issues.map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message));
+        errors.push({ document, name, message: `${kind}: ${details.join('; ')}` });
+        return;
+      }
+    }
+
+    const manifest = normalize(doc, defaultNamespace);
+    const duplicate = manifests.some((m) => manifestKey(m) === manifestKey(manifest));
+    if (duplicate) {
+      errors.push({ document, name, message: `Duplicate ${kind} "${manifest.metadata.name}"` });
+      return;
+    }
+    manifests.push(manifest);
+  });
+
+  return { manifests: sortManifests(manifests), errors };
+}
+
+/**
+ * Order manifests so dependencies are created first: Secrets, ModelAPIs,
+ * MCPServers, then Agents. Agents that other Agents reach through
+ * `agentNetwork.access` come before those Agents.
+ */
+export function sortManifests(manifests: Manifest[]): Manifest[] {
+  const byKind = (m: Manifest) => KIND_ORDER.indexOf(m.kind);
+  const sorted = [...manifests].sort((a, b) => byKind(a) - byKind(b));
+
+  const agents = sorted.filter((m) => m.kind === 'Agent');
+  const ordered: Manifest[] = [];
+  const visiting = new Set<string>();
+  const visit = (agent: Manifest) => {
+    const key = manifestKey(agent);
+    if (ordered.includes(agent) || visiting.has(key)) return;
+    visiting.add(key);
+    const access = (agent.spec as { agentNetwork?: { access?: string[] } }).agentNetwork?.access ?? [];
+    for (const peer of access) {
+      const dependency = agents.find(
+        (m) => m.metadata.name === peer && m.metadata.namespace === agent.metadata.namespace
+      );
+      if (dependency) visit(dependency);
+    }
+    ordered.push(agent);
+  };
+  agents.forEach(visit);
+
+  return [...sorted.filter((m) => m.kind !== 'Agent'), ...ordered];
+}
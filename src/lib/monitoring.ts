@@ -0,0 +1,14 @@
+/**
+ * Location of the observability dashboard (SigNoz or Jaeger) that
+ * `kaos ui --monitoring-enabled` port-forwards to localhost.
+ */
+
+export const MONITORING_PORT = 8011;
+export const MONITORING_URL = `http://localhost:${MONITORING_PORT}`;
+
+/**
+ * Trace view of the dashboard; SigNoz and Jaeger both serve it at /trace/:id.
+ */
+export function getTraceUrl(traceId: string): string {
+  return `${MONITORING_URL}/trace/${traceId}`;
+}
@@ -0,0 +1,57 @@
+/**
+ * Which Kubernetes Events belong to a KAOS resource: those about the resource
+ * itself and about the Deployment, ReplicaSets and Pods the operator creates
+ * for it, including pods that are already gone.
+ */
+
+import type { EventSelector, KubeEvent } from './k8s/events';
+import { getResourceDeploymentName, type PodOwnerKind } from './resource-pods';
+
+export type EventTargetKind = PodOwnerKind | 'Pod';
+
+export interface EventScope {
+  /** One field-selector query per object kind */
+  selectors: EventSelector[];
+  matches: (event: KubeEvent) => boolean;
+}
+
+/**
+ * `podNames` are the current pods of the resource (see findResourcePods), for
+ * pods matched by label rather than by name.
+ */
+export function getEventScope(kind: EventTargetKind, name: string, podNames: string[] = []): EventScope {
+  if (kind === 'Pod') {
+    return {
+      selectors: [{ kind: 'Pod', name }],
+      matches: (event) => event.involvedObject.kind === 'Pod' && event.involvedObject.name === name,
+    };
+  }
+
+  // The operator names the Deployment after the resource; ReplicaSets and
+  // Pods append their hashes to it
+  const deployment = getResourceDeploymentName(kind, name);
+  const knownPods = new Set(podNames);
+  const owned = (objectName: string) => objectName.startsWith(`${deployment}-`);
+
+  return {
+    selectors: [
+      { kind, name },
+      { kind: 'Deployment', name: deployment },
+      { kind: 'ReplicaSet' },
+      { kind: 'Pod' },
+    ],
+    matches: ({ involvedObject: { kind: objectKind, name: objectName } }) => {
+      switch (objectKind) {
+        case kind: return objectName === name;
+        case 'Deployment': return objectName === deployment;
+        case 'ReplicaSet': return owned(objectName);
+        case 'Pod': return owned(objectName) || knownPods.has(objectName);
+        default: return false;
+      }
+    },
+  };
+}
+
+export function isWarningEvent(event: KubeEvent): boolean {
+  return event.type === 'Warning';
+}
@@ -0,0 +1,35 @@
+/**
+ * Matching of pods to the KAOS resource that owns them, by the operator's
+ * naming prefix or labels.
+ */
+
+import type { Pod } from '@/types/kubernetes';
+
+export type PodOwnerKind = 'Agent' | 'MCPServer' | 'ModelAPI';
+
+export const POD_OWNER_LABELS: Record<PodOwnerKind, { labelKey: string; prefix: string }> = {
+  Agent: { labelKey: 'agent', prefix: 'agent-' },
+  MCPServer: { labelKey: 'mcpserver', prefix: 'mcpserver-' },
+  ModelAPI: { labelKey: 'modelapi', prefix: 'modelapi-' },
+};
+
+/**
+ * Name of the Deployment the operator creates for a resource.
+ */
+export function getResourceDeploymentName(kind: PodOwnerKind, name: string): string {
+  return `${POD_OWNER_LABELS[kind].prefix}${name}`;
+}
+
+export function isResourcePod(pod: Pod, kind: PodOwnerKind, name: string): boolean {
+  const { labelKey, prefix } = POD_OWNER_LABELS[kind];
+  const labels = pod.metadata.labels || {};
+  return (
+    pod.metadata.name.toLowerCase().includes(`${prefix}${name.toLowerCase()}`) ||
+    labels[labelKey] === name ||
+    labels['app.kubernetes.io/name'] === `${prefix}${name}`
+  );
+}
+
+export function findResourcePods(pods: Pod[], kind: PodOwnerKind, name: string): Pod[] {
+  return pods.filter((pod) => isResourcePod(pod, kind, name));
+}
@@ -0,0 +1,188 @@
+/**
+ * Schema validation for KAOS custom resources edited as YAML.
+ *
+ * The schemas mirror the AgentSpec / MCPServerSpec / ModelAPISpec shapes in
+ * types/kubernetes.ts. Spec objects are strict so misspelled fields are
+ * reported instead of being silently dropped by the API server.
+ */
+
+import { z } from 'zod';
+
+export type KaosResourceKind = 'Agent' | 'MCPServer' | 'ModelAPI';
+
+export const KAOS_API_VERSION = 'kaos.tools/v1alpha1';
+
+export interface ValidationIssue {
+  // Dotted path to the offending field, e.g. "spec.config.memory.enabled"
+  path: string;
+  message: string;
+}
+
+const keyRef = z.strictObject({ name: z.string().min(1), key: z.string().min(1) });
+
+const envVar = z.strictObject({
+  name: z.string().min(1),
+  value: z.string().optional(),
+  valueFrom: z.strictObject({
+    secretKeyRef: keyRef.optional(),
+    configMapKeyRef: keyRef.optional(),
+  }).optional(),
+});
+
+const gatewayRoute = z.strictObject({
+  timeout: z.string().optional(),
+  retries: z.number().int().min(0).optional(),
+});
+
+// Free-form Kubernetes structures (ResourceRequirements, PodSpec) are passed through
+const container = z.strictObject({
+  image: z.string().optional(),
+  env: z.array(envVar).optional(),
+  resources: z.record(z.string(), z.unknown()).optional(),
+});
+
+const podSpec = z.record(z.string(), z.unknown());
+
+const telemetry = z.strictObject({
+  enabled: z.boolean().optional(),
+  endpoint: z.string().optional(),
+});
+
+const modelAPISpec = z.strictObject({
+  mode: z.enum(['Proxy', 'Hosted']),
+  proxyConfig: z.strictObject({
+    models: z.array(z.string()).min(1),
+    provider: z.string().optional(),
+    apiBase: z.string().optional(),
+    apiKey: z.strictObject({
+      value: z.string().optional(),
+      valueFrom: z.strictObject({
+        secretKeyRef: keyRef.optional(),
+        configMapKeyRef: keyRef.optional(),
+      }).optional(),
+    }).optional(),
+    configYaml: z.strictObject({
+      fromString: z.string().optional(),
+      fromSecretKeyRef: keyRef.optional(),
+    }).optional(),
+    env: z.array(envVar).optional(),
+  }).optional(),
+  hostedConfig: z.strictObject({
+    model: z.string().min(1),
+    env: z.array(envVar).optional(),
+  }).optional(),
+  gatewayRoute: gatewayRoute.optional(),
+  container: container.optional(),
+  podSpec: podSpec.optional(),
+}).superRefine((spec, ctx) => {
+  if (spec.mode === 'Proxy' && !spec.proxyConfig) {
+    ctx.addIssue({ code: 'custom', path: ['proxyConfig'], message: 'proxyConfig is required in Proxy mode' });
+  }
+  if (spec.mode === 'Hosted' && !spec.hostedConfig) {
+    ctx.addIssue({ code: 'custom', path: ['hostedConfig'], message: 'hostedConfig is required in Hosted mode' });
+  }
+});
+
+const mcpServerSpec = z.strictObject({
+  runtime: z.string().optional(),
+  params: z.string().optional(),
+  serviceAccountName: z.string().optional(),
+  type: z.enum(['python-runtime', 'node-runtime']).optional(),
+  config: z.strictObject({
+    tools: z.strictObject({
+      fromPackage: z.string().optional(),
+      fromString: z.string().optional(),
+      fromSecretKeyRef: keyRef.optional(),
+    }).optional(),
+    env: z.array(envVar).optional(),
+  }).optional(),
+  gatewayRoute: gatewayRoute.optional(),
+  podSpec: podSpec.optional(),
+  container: container.optional(),
+  telemetry: telemetry.optional(),
+});
+
+const optionalCount = z.number().int().min(0).optional();
+
+const agentSpec = z.strictObject({
+  modelAPI: z.string().min(1),
+  model: z.string().min(1),
+  mcpServers: z.array(z.string()).optional(),
+  agentNetwork: z.strictObject({
+    expose: z.boolean().optional(),
+    access: z.array(z.string()).optional(),
+  }).optional(),
+  config: z.strictObject({
+    description: z.string().optional(),
+    instructions: z.string().optional(),
+    reasoningLoopMaxSteps: z.number().int().min(1).max(20).optional(),
+    toolCallMode: z.enum(['auto', 'native', 'string']).optional(),
+    memory: z.strictObject({
+      enabled: z.boolean().optional(),
+      type: z.literal('local').optional(),
+      contextLimit: optionalCount,
+      maxSessions: optionalCount,
+      maxSessionEvents: optionalCount,
+    }).optional(),
+    telemetry: telemetry.optional(),
+    autonomous: z.strictObject({
+      goal: z.string().optional(),
+      intervalSeconds: optionalCount,
+      maxIterRuntimeSeconds: optionalCount,
+    }).optional(),
+    taskConfig: z.strictObject({
+      maxIterations: optionalCount,
+      maxRuntimeSeconds: optionalCount,
+      maxToolCalls: optionalCount,
+    }).optional(),
+    env: z.array(envVar).optional(),
+  }).optional(),
+  waitForDependencies: z.boolean().optional(),
+  gatewayRoute: gatewayRoute.optional(),
+  container: container.optional(),
+  podSpec: podSpec.optional(),
+});
+
+const SPEC_SCHEMAS: Record<KaosResourceKind, z.ZodType> = {
+  Agent: agentSpec,
+  MCPServer: mcpServerSpec,
+  ModelAPI: modelAPISpec,
+};
+
+const DNS_SUBDOMAIN = /^[a-z0-9]([-a-z0-9.]*[a-z0-9])?$/;
+
+const stringMap = z.record(z.string(), z.string());
+
+const metadataSchema = z.object({
+  name: z.string().max(253).regex(DNS_SUBDOMAIN, 'must be a lowercase RFC 1123 subdomain'),
+  namespace: z.string().optional(),
+  labels: stringMap.optional(),
+  annotations: stringMap.optional(),
+});
+
+function formatPath(path: PropertyKey[]): string {
+  return path.map(String).join('.');
+}
+
+/**
+ * Validate a parsed KAOS resource document. Returns an empty list when valid.
+ */
+export function validateKaosResource(kind: KaosResourceKind, doc: unknown): ValidationIssue[] {
+  if (!doc || typeof doc !== 'object' || Array.isArray(doc)) {
+    return [{ path: '', message: 'Expected a YAML mapping' }];
+  }
+
+  const schema = z.object({
+    apiVersion: z.literal(KAOS_API_VERSION),
+    kind: z.literal(kind),
+    metadata: metadataSchema,
+    spec: SPEC_SCHEMAS[kind],
+  });
+
+  const result = schema.safeParse(doc);
+  if (result.success) return [];
+  return result.error.issues.map((issue) => ({
+    path: formatPath(issue.path),
+    message: issue.message,
+  }));
+}
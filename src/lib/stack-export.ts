@@ -0,0 +1,164 @@
+/**
+ * Export KAOS resources as a reusable manifest bundle: selected resources plus
+ * the ModelAPIs, MCPServers, peer Agents and Secrets they reference, with
+ * server-managed fields stripped and Secret values redacted.
+ */
+
+import type { Agent, MCPServer, ModelAPI } from '@/types/kubernetes';
+import { KAOS_API_VERSION } from './resource-validation';
+import { REDACTED_ANNOTATION, sortManifests, type Manifest } from './manifests';
+import { stringifyYaml } from './yaml';
+import type { ZipEntry } from './zip';
+
+export type KaosResource = Agent | MCPServer | ModelAPI;
+
+export interface StackInventory {
+  agents: Agent[];
+  mcpServers: MCPServer[];
+  modelAPIs: ModelAPI[];
+}
+
+export interface StackExportOptions {
+  includeDependencies: boolean;
+  // undefined keeps each object's namespace, '' drops it so the bundle imports into any namespace
+  namespace?: string;
+  // Replaces the tag (or digest) of every spec.container.image
+  imageTag?: string;
+}
+
+export const REDACTED_VALUE = '<redacted>';
+
+export const LAST_APPLIED_ANNOTATION = 'kubectl.kubernetes.io/last-applied-configuration';
+
+function findByName<T extends KaosResource>(items: T[], name: string, namespace: string): T | undefined {
+  return items.find((item) => item.metadata.name === name && (item.metadata.namespace || 'default') === namespace);
+}
+
+// Secret names and keys referenced anywhere in a spec (env valueFrom, apiKey, tools, configYaml)
+export function collectSecretRefs(spec: unknown, refs = new Map<string, Set<string>>()): Map<string, Set<string>> {
+  if (Array.isArray(spec)) {
+    spec.forEach((item) => collectSecretRefs(item, refs));
+  } else if (spec && typeof spec === 'object') {
+    for (const [key, value] of Object.entries(spec)) {
+      const ref = value as { name?: unknown; key?: unknown } | null;
+      if ((key === 'secretKeyRef' || key === 'fromSecretKeyRef') && typeof ref?.name === 'string') {
+        const keys = refs.get(ref.name) ?? new Set<string>();
+        if (typeof ref.key === 'string') keys.add(ref.key);
+        refs.set(ref.name, keys);
+      } else {
+        collectSecretRefs(value, refs);
+      }
+    }
+  }
+  return refs;
+}
+
+function toManifest(resource: KaosResource): Manifest {
+  const annotations = { ...resource.metadata.annotations };
+  delete annotations[LAST_APPLIED_ANNOTATION];
+  return {
+    apiVersion: KAOS_API_VERSION,
+    kind: resource.kind as Manifest['kind'],
+    metadata: {
+      name: resource.metadata.name,
+      namespace: resource.metadata.namespace || 'default',
+      labels: resource.metadata.labels,
+      annotations: Object.keys(annotations).length > 0 ? annotations : undefined,
+    },
+    spec: structuredClone(resource.spec),
+  };
+}
+
+/**
+ * Resolve the selection to the full set of objects it needs, following
+ * Agent references (modelAPI, mcpServers, agentNetwork.access).
+ */
+export function resolveStack(selection: KaosResource[], inventory: StackInventory, includeDependencies: boolean): KaosResource[] {
+  const result = new Map<string, KaosResource>();
+  const add = (resource: KaosResource | undefined) => {
+    if (!resource) return;
+    const key = `${resource.kind}/${resource.metadata.namespace || 'default'}/${resource.metadata.name}`;
+    if (result.has(key)) return;
+    result.set(key, resource);
+    if (!includeDependencies || resource.kind !== 'Agent') return;
+
+    const agent = resource as Agent;
+    const namespace = agent.metadata.namespace || 'default';
+    add(findByName(inventory.modelAPIs, agent.spec.modelAPI, namespace));
+    agent.spec.mcpServers?.forEach((name) => add(findByName(inventory.mcpServers, name, namespace)));
+    agent.spec.agentNetwork?.access?.forEach((name) => add(findByName(inventory.agents, name, namespace)));
+  };
+  selection.forEach(add);
+  return [...result.values()];
+}
+
+export function retagImage(image: string, tag: string): string {
+  const withoutDigest = image.split('@')[0];
+  const lastSlash = withoutDigest.lastIndexOf('/');
+  const lastColon = withoutDigest.lastIndexOf(':');
+  // A colon before the last slash belongs to a registry port, not a tag
+  const repository = lastColon > lastSlash ? withoutDigest.slice(0, lastColon) : withoutDigest;
+  return `${repository}:${tag}`;
+}
+
+function parameterise(manifest: Manifest, options: StackExportOptions): Record<string, unknown> {
+  const metadata: Record<string, unknown> = { ...manifest.metadata };
+  if (options.namespace === '') {
+    delete metadata.namespace;
+  } else if (options.namespace) {
+    metadata.namespace = options.namespace;
+  }
+
+  const spec = manifest.spec as { container?: { image?: string } } | undefined;
+  if (options.imageTag && spec?.container?.image) {
+    spec.container.image = retagImage(spec.container.image, options.imageTag);
+  }
+
+  return { ...manifest, metadata };
+}
+
+/**
+ * Build the ordered export documents (Secrets, ModelAPIs, MCPServers, Agents).
+ */
+export function buildStackExport(
+  selection: KaosResource[],
+  inventory: StackInventory,
+  options: StackExportOptions
+): Record<string, unknown>[] {
+  const resources = resolveStack(selection, inventory, options.includeDependencies);
+  const manifests = resources.map(toManifest);
+
+  const secrets = new Map<string, Manifest>();
+  for (const resource of resources) {
+    const namespace = resource.metadata.namespace || 'default';
+    for (const [name, keys] of collectSecretRefs(resource.spec)) {
+      const existing = secrets.get(`${namespace}/${name}`);
+      const stringData = { ...existing?.stringData };
+      keys.forEach((key) => {
+        stringData[key] = REDACTED_VALUE;
+      });
+      secrets.set(`${namespace}/${name}`, {
+        apiVersion: 'v1',
+        kind: 'Secret',
+        metadata: { name, namespace, annotations: { [REDACTED_ANNOTATION]: 'true' } },
+        type: 'Opaque',
+        stringData,
+      });
+    }
+  }
+
+  return sortManifests([...secrets.values(), ...manifests]).map((manifest) => parameterise(manifest, options));
+}
+
+export function stackToYaml(documents: Record<string, unknown>[]): string {
+  return documents.map((doc) => stringifyYaml(doc)).join('---\n');
+}
+
+export function stackToZipEntries(documents: Record<string, unknown>[]): ZipEntry[] {
+  const width = String(documents.length).length;
+  return documents.map((doc, index) => {
+    const { kind, metadata } = doc as Pick<Manifest, 'kind' | 'metadata'>;
+    const prefix = String(index + 1).padStart(width, '0');
+    return { name: `${prefix}-${kind.toLowerCase()}-${metadata.name}.yaml`, content: stringifyYaml(doc) };
+  });
+}
@@ -0,0 +1,278 @@
+/**
+ * Stack templates: typed descriptions of a coordinated set of ModelAPI,
+ * MCPServer and Agent resources with wired references.
+ *
+ * Strings in resource names and specs may contain `{{param}}` placeholders.
+ * Every template has an implicit `name` parameter used to prefix resource
+ * names so references between the resources stay consistent. Besides the
+ * built-in templates below, teams can ship their own in the
+ * `kaos-ui-stack-templates` ConfigMap in the KAOS system namespace: one
+ * template (or a list of templates) per data key, as YAML or JSON.
+ */
+
+import { z } from 'zod';
+import { parseYamlText } from './yaml';
+import { KAOS_API_VERSION, validateKaosResource, type KaosResourceKind } from './resource-validation';
+import { sortManifests, type Manifest } from './manifests';
+
+export const TEMPLATES_CONFIGMAP = 'kaos-ui-stack-templates';
+
+export const STACK_LABEL = 'kaos.tools/stack';
+export const TEMPLATE_LABEL = 'kaos.tools/template';
+
+export interface TemplateParameter {
+  key: string;
+  label: string;
+  default?: string;
+  description?: string;
+}
+
+export interface TemplateResource {
+  kind: KaosResourceKind;
+  name: string;
+  spec: unknown;
+}
+
+export interface StackTemplate {
+  id: string;
+  name: string;
+  description: string;
+  parameters: TemplateParameter[];
+  resources: TemplateResource[];
+  // Set for templates loaded from the cluster
+  source?: 'builtin' | 'configmap';
+}
+
+const templateSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'must be lowercase letters, digits and dashes'),
+  name: z.string().min(1),
+  description: z.string().default(''),
+  parameters: z.array(z.object({
+    key: z.string().regex(/^\w+$/),
+    label: z.string().min(1),
+    default: z.string().optional(),
+    description: z.string().optional(),
+  })).default([]),
+  resources: z.array(z.object({
+    kind: z.enum(['Agent', 'MCPServer', 'ModelAPI']),
+    name: z.string().min(1),
+    spec: z.record(z.string(), z.unknown()),
+  })).min(1),
+});
+
+const CALCULATOR_TOOLS = `def add(a: float, b: float) -> float:
+    """Add two numbers."""
+    return a + b
+
+
+def multiply(a: float, b: float) -> float:
+    """Multiply two numbers."""
+    return a * b
+`;
+
+export const BUILTIN_TEMPLATES: StackTemplate[] = [
+  {
+    id: 'ollama-chat-agent',
+    name: 'Ollama-hosted chat agent',
+    description: 'A small model served by Ollama inside the cluster and a chat agent that uses it.',
+    parameters: [
+      { key: 'model', label: 'Ollama model', default: 'smollm2:135m' },
+      { key: 'instructions', label: 'Instructions', default: 'You are a helpful assistant.' },
+    ],
+    resources: [
+      { kind: 'ModelAPI', name: '{{name}}-ollama', spec: { mode: 'Hosted', hostedConfig: { model: '{{model}}' } } },
+      {
+        kind: 'Agent',
+        name: '{{name}}-agent',
+        spec: {
+          modelAPI: '{{name}}-ollama',
+          model: 'ollama/{{model}}',
+          config: { description: 'Chat agent', instructions: '{{instructions}}' },
+          agentNetwork: { expose: true },
+        },
+      },
+    ],
+  },
+  {
+    id: 'litellm-calculator-agent',
+    name: 'LiteLLM proxy + calculator MCP + agent',
+    description: 'A LiteLLM proxy to an external provider, a Python calculator MCP server and an agent using both.',
+    parameters: [
+      { key: 'model', label: 'Model', default: 'openai/gpt-4o-mini' },
+      { key: 'apiBase', label: 'Provider API base', default: 'https://api.openai.com/v1' },
+      { key: 'apiKeySecret', label: 'API key Secret', default: 'llm-api-key', description: 'Secret with an API_KEY entry' },
+    ],
+    resources: [
+      {
+        kind: 'ModelAPI',
+        name: '{{name}}-llm',
+        spec: {
+          mode: 'Proxy',
+          proxyConfig: {
+            models: ['{{model}}'],
+            apiBase: '{{apiBase}}',
+            apiKey: { valueFrom: { secretKeyRef: { name: '{{apiKeySecret}}', key: 'API_KEY' } } },
+          },
+        },
+      },
+      { kind: 'MCPServer', name: '{{name}}-calculator', spec: { runtime: 'python-string', params: CALCULATOR_TOOLS } },
+      {
+        kind: 'Agent',
+        name: '{{name}}-agent',
+        spec: {
+          modelAPI: '{{name}}-llm',
+          model: '{{model}}',
+          mcpServers: ['{{name}}-calculator'],
+          config: { description: 'Agent with calculator tools', instructions: 'Use the calculator tools for arithmetic.' },
+          agentNetwork: { expose: true },
+        },
+      },
+    ],
+  },
+  {
+    id: 'autonomous-researcher',
+    name: 'Autonomous researcher with delegation',
+    description: 'An autonomous coordinator pursuing a goal and delegating to researcher and writer agents over A2A.',
+    parameters: [
+      { key: 'model', label: 'Model', default: 'openai/gpt-4o' },
+      { key: 'goal', label: 'Goal', default: 'Research recent developments in AI agents and write a summary.' },
+      { key: 'apiKeySecret', label: 'API key Secret', default: 'llm-api-key', description: 'Secret with an API_KEY entry' },
+    ],
+    resources: [
+      {
+        kind: 'ModelAPI',
+        name: '{{name}}-llm',
+        spec: {
+          mode: 'Proxy',
+          proxyConfig: {
+            models: ['{{model}}'],
+            apiKey: { valueFrom: { secretKeyRef: { name: '{{apiKeySecret}}', key: 'API_KEY' } } },
+          },
+        },
+      },
+      {
+        kind: 'Agent',
+        name: '{{name}}-researcher',
+        spec: {
+          modelAPI: '{{name}}-llm',
+          model: '{{model}}',
+          config: { description: 'Finds and summarises sources', instructions: 'Research the topic you are given and report key findings.' },
+          agentNetwork: { expose: true },
+        },
+      },
+      {
+        kind: 'Agent',
+        name: '{{name}}-writer',
+        spec: {
+          modelAPI: '{{name}}-llm',
+          model: '{{model}}',
+          config: { description: 'Writes reports', instructions: 'Turn research notes into a clear, concise report.' },
+          agentNetwork: { expose: true },
+        },
+      },
+      {
+        kind: 'Agent',
+        name: '{{name}}-coordinator',
+        spec: {
+          modelAPI: '{{name}}-llm',
+          model: '{{model}}',
+          config: {
+            description: 'Coordinates research and writing',
+            instructions: 'Delegate research to the researcher and writing to the writer.',
+            autonomous: { goal: '{{goal}}', intervalSeconds: 3600 },
+          },
+          agentNetwork: { expose: true, access: ['{{name}}-researcher', '{{name}}-writer'] },
+        },
+      },
+    ],
+  },
+];
+
+export interface ParsedTemplates {
+  templates: StackTemplate[];
+  errors: string[];
+}
+
+/**
+ * Parse the data of the templates ConfigMap. Invalid entries are reported
+ * and skipped so one broken template doesn't hide the others.
+ */
+export function parseTemplatesConfigMap(data: Record<string, string> | undefined): ParsedTemplates {
+  const templates: StackTemplate[] = [];
+  const errors: string[] = [];
+
+  for (const [key, text] of Object.entries(data ?? {})) {
+    let value: unknown;
+    try {
+      value = parseYamlText(text);
+    } catch (error) {
+      errors.push(`${key}: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+    (Array.isArray(value) ? value : [value]).forEach((item, index) => {
+      const result = templateSchema.safeParse(item);
+      if (!result.success) {
+        const issue = result.error.issues[0];
+        const at = Array.isArray(value) ? `${key}[${index}]` : key;
+        errors.push(`${at}: ${issue.path.map(String).join('.') || 'template'} ${issue.message}`);
+        return;
+      }
+      templates.push({ ...result.data, source: 'configmap' });
+    });
+  }
+  return { templates, errors };
+}
+
+function substitute(value: unknown, values: Record<string, string>): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => values[key] ?? '');
+  }
+  if (Array.isArray(value)) return value.map((item) => substitute(item, values));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, substitute(v, values)]));
+  }
+  return value;
+}
+
+export function defaultTemplateValues(template: StackTemplate): Record<string, string> {
+  const values: Record<string, string> = { name: template.id.split('-')[0] };
+  template.parameters.forEach((param) => {
+    values[param.key] = param.default ?? '';
+  });
+  return values;
+}
+
+export interface InstantiatedTemplate {
+  manifests: Manifest[];
+  // Validation problems per resource, keyed by "Kind/name"
+  errors: string[];
+}
+
+/**
+ * Render a template into manifests, labelled with the stack name and
+ * template id, ordered so dependencies are created first.
+ */
+export function instantiateTemplate(
+  template: StackTemplate,
+  values: Record<string, string>,
+  namespace: string
+): InstantiatedTemplate {
+  const errors: string[] = [];
+  const manifests = template.resources.map((resource): Manifest => {
+    const manifest: Manifest = {
+      apiVersion: KAOS_API_VERSION,
+      kind: resource.kind,
+      metadata: {
+        name: substitute(resource.name, values) as string,
+        namespace,
+        labels: { [STACK_LABEL]: values.name, [TEMPLATE_LABEL]: template.id },
+      },
+      spec: substitute(resource.spec, values),
+    };
+    validateKaosResource(resource.kind, manifest).forEach((issue) => {
+      errors.push(`${resource.kind}/${manifest.metadata.name}: ${issue.path ? `${issue.path} ` : ''}${issue.message}`);
+    });
+    return manifest;
+  });
+  return { manifests: sortManifests(manifests), errors };
+}
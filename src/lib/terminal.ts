@@ -0,0 +1,222 @@
+/**
+ * Minimal terminal emulation for exec sessions: a text screen with cursor
+ * movement, erasing and line wrap for the VT100 sequences shells and line
+ * editors commonly emit. Colors and other attributes are dropped.
+ */
+
+const ESC = '\x1b';
+const BEL = '\x07';
+
+// Patterns match what follows the ESC character
+const CSI_PATTERN = /^\[([?>=]?[\d;]*)([ -/]*[@-~])/;
+const PARTIAL_CSI_PATTERN = /^\[[?>=]?[\d;]*[ -/]*$/;
+// Charset selection and other two-byte escapes
+const SHORT_ESCAPE_PATTERN = /^(?:[()*+][0-9A-Za-z]|[^[\]()*+])/;
+
+const TAB_WIDTH = 8;
+
+export interface KeyInput {
+  key: string;
+  ctrlKey?: boolean;
+  altKey?: boolean;
+  metaKey?: boolean;
+}
+
+const KEY_SEQUENCES: Record<string, string> = {
+  Enter: '\r',
+  Backspace: '\x7f',
+  Tab: '\t',
+  Escape: '\x1b',
+  ArrowUp: '\x1b[A',
+  ArrowDown: '\x1b[B',
+  ArrowRight: '\x1b[C',
+  ArrowLeft: '\x1b[D',
+  Home: '\x1b[H',
+  End: '\x1b[F',
+  Delete: '\x1b[3~',
+  PageUp: '\x1b[5~',
+  PageDown: '\x1b[6~',
+};
+
+/**
+ * Bytes a key press sends to the remote TTY, or undefined for keys that
+ * aren't input (modifiers alone, browser shortcuts with meta).
+ */
+export function keyToSequence({ key, ctrlKey, altKey, metaKey }: KeyInput): string | undefined {
+  if (metaKey) return undefined;
+  if (KEY_SEQUENCES[key]) return KEY_SEQUENCES[key];
+  if (key.length !== 1) return undefined;
+  if (ctrlKey) {
+    const code = key.toUpperCase().charCodeAt(0);
+    // Ctrl+@ .. Ctrl+_ map to the C0 control codes
+    return code >= 64 && code <= 95 ? String.fromCharCode(code - 64) : undefined;
+  }
+  return altKey ? `\x1b${key}` : key;
+}
+
+export class TerminalScreen {
+  private lines: string[] = [''];
+  private row = 0;
+  private col = 0;
+  // Incomplete escape sequence held until the rest arrives
+  private pending = '';
+
+  constructor(
+    private cols = 80,
+    private rows = 24,
+    private readonly maxLines = 2000,
+  ) {}
+
+  resize(cols: number, rows: number): void {
+    this.cols = Math.max(1, cols);
+    this.rows = Math.max(1, rows);
+  }
+
+  getLines(): string[] {
+    return this.lines;
+  }
+
+  getCursor(): { row: number; col: number } {
+    return { row: this.row, col: this.col };
+  }
+
+  write(data: string): void {
+    let text = this.pending + data;
+    this.pending = '';
+
+    while (text.length > 0) {
+      const char = text[0];
+      if (char === ESC) {
+        const consumed = this.handleEscape(text);
+        if (consumed === 0) {
+          this.pending = text;
+          break;
+        }
+        text = text.slice(consumed);
+        continue;
+      }
+
+      switch (char) {
+        case '\r': this.col = 0; break;
+        case '\n': this.lineFeed(); break;
+        case '\b': this.col = Math.max(0, this.col - 1); break;
+        case '\t': this.col = Math.min(this.cols - 1, (Math.floor(this.col / TAB_WIDTH) + 1) * TAB_WIDTH); break;
+        default:
+          if (char >= ' ') this.print(char);
+      }
+      text = text.slice(1);
+    }
+    this.trimScrollback();
+  }
+
+  clear(): void {
+    this.lines = [''];
+    this.row = 0;
+    this.col = 0;
+  }
+
+  private get screenTop(): number {
+    return Math.max(0, this.lines.length - this.rows);
+  }
+
+  private print(char: string): void {
+    if (this.col >= this.cols) {
+      this.lineFeed();
+      this.col = 0;
+    }
+    const line = this.lines[this.row].padEnd(this.col);
+    this.lines[this.row] = line.slice(0, this.col) + char + line.slice(this.col + 1);
+    this.col += 1;
+  }
+
+  private lineFeed(): void {
+    this.row += 1;
+    if (this.row >= this.lines.length) this.lines.push('');
+  }
+
+  private moveTo(row: number, col: number): void {
+    this.row = this.screenTop + Math.max(0, Math.min(row, this.rows - 1));
+    while (this.row >= this.lines.length) this.lines.push('');
+    this.col = Math.max(0, Math.min(col, this.cols - 1));
+  }
+
+  /**
+   * Apply the escape sequence at the start of `text`. Returns the number of
+   * characters consumed, or 0 when the sequence is incomplete.
+   */
+  private handleEscape(text: string): number {
+    if (text.length < 2) return 0;
+    const rest = text.slice(1);
+
+    // OSC (window title, ...) ends with BEL or ST
+    if (rest[0] === ']') {
+      const bell = rest.indexOf(BEL);
+      const st = rest.indexOf(`${ESC}\\`);
+      if (bell === -1 && st === -1) return 0;
+      return bell !== -1 && (st === -1 || bell < st) ? bell + 2 : st + 3;
+    }
+
+    if (rest[0] === '[') {
+      const csi = CSI_PATTERN.exec(rest);
+      if (!csi) return PARTIAL_CSI_PATTERN.test(rest) ? 0 : 2;
+      this.handleCsi(csi[1], csi[2]);
+      return csi[0].length + 1;
+    }
+
+    const short = SHORT_ESCAPE_PATTERN.exec(rest);
+    if (short) return short[0].length + 1;
+    return rest.length === 1 ? 0 : 1;
+  }
+
+  private handleCsi(params: string, command: string): void {
+    // Private modes (cursor visibility, bracketed paste, ...) don't affect the text
+    if (/^[?>=]/.test(params)) return;
+    const args = params.split(';').map((value) => (value === '' ? undefined : Number(value)));
+    const n = args[0] ?? 1;
+    const line = this.lines[this.row];
+
+    switch (command) {
+      case 'A': this.row = Math.max(this.screenTop, this.row - n); break;
+      case 'B': this.row = Math.min(this.lines.length - 1, this.row + n); break;
+      case 'C': this.col = Math.min(this.cols - 1, this.col + n); break;
+      case 'D': this.col = Math.max(0, this.col - n); break;
+      case 'G': this.col = Math.max(0, Math.min(n - 1, this.cols - 1)); break;
+      case 'H':
+      case 'f':
+        this.moveTo((args[0] ?? 1) - 1, (args[1] ?? 1) - 1);
+        break;
+      case 'K': {
+        const mode = args[0] ?? 0;
+        if (mode === 0) this.lines[this.row] = line.slice(0, this.col);
+        else if (mode === 1) this.lines[this.row] = ' '.repeat(this.col + 1) + line.slice(this.col + 1);
+        else this.lines[this.row] = '';
+        break;
+      }
+      case 'J': {
+        const mode = args[0] ?? 0;
+        if (mode === 0) {
+          this.lines[this.row] = line.slice(0, this.col);
+          this.lines.length = this.row + 1;
+        } else if (mode === 2 || mode === 3) {
+          // Scroll the screen contents away, keeping them as scrollback
+          const offset = this.row - this.screenTop;
+          for (let i = 0; i < this.rows; i++) this.lines.push('');
+          this.row = this.screenTop + offset;
+        }
+        break;
+      }
+      case 'P': this.lines[this.row] = line.slice(0, this.col) + line.slice(this.col + n); break;
+      case '@': this.lines[this.row] = line.slice(0, this.col).padEnd(this.col) + ' '.repeat(n) + line.slice(this.col); break;
+      case 'X': this.lines[this.row] = line.slice(0, this.col).padEnd(this.col) + ' '.repeat(n) + line.slice(this.col + n); break;
+      // 'm' (colors) and anything else is ignored
+    }
+  }
+
+  private trimScrollback(): void {
+    const excess = this.lines.length - this.maxLines;
+    if (excess > 0) {
+      this.lines.splice(0, excess);
+      this.row = Math.max(0, this.row - excess);
+    }
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * YAML helpers shared by kubeconfig, manifest parsing and the YAML views.
+ */
+
+import { parseAllDocuments, parseDocument, stringify } from 'yaml';
+
+/**
+ * Parse a single YAML document, throwing `Invalid YAML: ...` on syntax errors.
+ */
+export function parseYamlText(text: string): unknown {
+  const document = parseDocument(text);
+  if (document.errors.length > 0) {
+    throw new Error(`Invalid YAML: ${document.errors[0].message}`);
+  }
+  return document.toJS();
+}
+
+/**
+ * Parse a multi-document YAML stream. Empty documents (e.g. a trailing `---`)
+ * are skipped; a syntax error in any document throws.
+ */
+export function parseYamlDocuments(text: string): unknown[] {
+  const documents = parseAllDocuments(text);
+  const failed = documents.find((document) => document.errors.length > 0);
+  if (failed) {
+    throw new Error(`Invalid YAML: ${failed.errors[0].message}`);
+  }
+  return documents.map((document) => document.toJS()).filter((value) => value !== null && value !== undefined);
+}
+
+export function stringifyYaml(value: unknown): string {
+  // lineWidth 0 keeps long strings (instructions, params) on one line instead of folding them
+  return stringify(value, { lineWidth: 0 });
+}
@@ -1,30 +1,25 @@
 import React, { useEffect, useState, useCallback, useRef } from 'react';
 import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
-import { ArrowLeft, Bot, Edit, Trash2, RefreshCw, Box, FileCode, Radio } from 'lucide-react';
+import { ArrowLeft, Bot, Edit, Copy, Trash2, RefreshCw, Box, FileCode, Radio, ScrollText, CalendarClock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-  AlertDialogTrigger,
-} from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
 import { useKubernetesStore } from '@/stores/kubernetesStore';
 import { useKubernetesConnection } from '@/contexts/KubernetesConnectionContext';
+import { k8sClient } from '@/lib/kubernetes-client';
 import { AgentChat } from '@/components/agent/AgentChat';
 import { AgentOverview } from '@/components/agent/AgentOverview';
 import { AgentMemory } from '@/components/agent/AgentMemory';
 import { AgentA2ADebug } from '@/components/agent/AgentA2ADebug';
 import { ResourcePods } from '@/components/shared/ResourcePods';
+import { ResourceLogs } from '@/components/shared/ResourceLogs';
+import { ResourceEvents } from '@/components/shared/ResourceEvents';
+import { RolloutActions } from '@/components/shared/RolloutActions';
 import { AgentEditDialog } from '@/components/resources/AgentEditDialog';
-import { YamlViewer } from '@/components/shared/YamlViewer';
+import { AgentCreateDialog } from '@/components/resources/AgentCreateDialog';
+import { DeleteResourceDialog } from '@/components/resources/shared/DeleteResourceDialog';
+import { ResourceYamlEditor } from '@/components/shared/ResourceYamlEditor';
 import type { Agent } from '@/types/kubernetes';
 import type { ChatMessage } from '@/hooks/useAgentChat';
 
@@ -37,11 +32,12 @@ export default function AgentDetail() {
   const navigate = useNavigate();
   const { toast } = useToast();
   const { agents } = useKubernetesStore();
-  const { deleteAgent, refreshAll, connected } = useKubernetesConnection();
+  const { updateAgent, refreshAll, connected } = useKubernetesConnection();
   
   const [agent, setAgent] = useState<Agent | null>(null);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
-  const [isDeleting, setIsDeleting] = useState(false);
+  const [duplicateDialogOpen, setDuplicateDialogOpen] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<Agent | null>(null);
   
   // Handler for closing edit dialog - refresh data to get latest state
   const handleEditDialogClose = async () => {
@@ -124,26 +120,12 @@ export default function AgentDetail() {
     setAgent(found || null);
   }, [agents, name, namespace]);
 
-  const handleDelete = async () => {
-    if (!agent) return;
-    
-    setIsDeleting(true);
-    try {
-      await deleteAgent(agent.metadata.name, agent.metadata.namespace);
-      toast({
-        title: 'Agent deleted',
-        description: `${agent.metadata.name} has been deleted.`,
-      });
-      navigate('/');
-    } catch (error) {
-      toast({
-        variant: 'destructive',
-        title: 'Failed to delete agent',
-        description: error instanceof Error ? error.message : 'Unknown error',
-      });
-    } finally {
-      setIsDeleting(false);
-    }
+  const handleDeleted = () => {
+    toast({
+      title: 'Agent deleted',
+      description: `${deleteTarget?.metadata.name} has been deleted.`,
+    });
+    navigate('/');
   };
 
   if (!connected) {
@@ -214,6 +196,7 @@ export default function AgentDetail() {
         </div>
 
         <div className="flex items-center gap-2">
+          <RolloutActions resource={agent} />
           <Button
             variant="outline"
             size="sm"
@@ -222,39 +205,25 @@ export default function AgentDetail() {
             <Edit className="h-4 w-4 mr-2" />
             Edit
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setDuplicateDialogOpen(true)}
+          >
+            <Copy className="h-4 w-4 mr-2" />
+            Duplicate
+          </Button>
           
-          <AlertDialog>
-            <AlertDialogTrigger asChild>
-              <Button variant="destructive" size="sm" disabled={isDeleting}>
-                <Trash2 className="h-4 w-4 mr-2" />
-                Delete
-              </Button>
-            </AlertDialogTrigger>
-            <AlertDialogContent>
-              <AlertDialogHeader>
-                <AlertDialogTitle>Delete Agent?</AlertDialogTitle>
-                <AlertDialogDescription>
-                  This will permanently delete the agent "{agent.metadata.name}".
-                  This action cannot be undone.
-                </AlertDialogDescription>
-              </AlertDialogHeader>
-              <AlertDialogFooter>
-                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                <AlertDialogAction
-                  onClick={handleDelete}
-                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                >
-                  Delete
-                </AlertDialogAction>
-              </AlertDialogFooter>
-            </AlertDialogContent>
-          </AlertDialog>
+          <Button variant="destructive" size="sm" onClick={() => setDeleteTarget(agent)}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </Button>
         </div>
       </div>
 
       {/* Tabs Content */}
       <Tabs value={currentTab} onValueChange={setCurrentTab} className="space-y-6">
-        <TabsList className="grid w-full max-w-2xl grid-cols-6">
+        <TabsList className="grid w-full max-w-4xl grid-cols-8">
           <TabsTrigger value="overview" data-testid="tab-overview">Overview</TabsTrigger>
           <TabsTrigger value="chat" data-testid="tab-chat">Chat</TabsTrigger>
           <TabsTrigger value="a2a" data-testid="tab-a2a" className="flex items-center gap-1">
@@ -266,6 +235,14 @@ export default function AgentDetail() {
             <Box className="h-3 w-3" />
             Pods
           </TabsTrigger>
+          <TabsTrigger value="logs" data-testid="tab-logs" className="flex items-center gap-1">
+            <ScrollText className="h-3 w-3" />
+            Logs
+          </TabsTrigger>
+          <TabsTrigger value="events" data-testid="tab-events" className="flex items-center gap-1">
+            <CalendarClock className="h-3 w-3" />
+            Events
+          </TabsTrigger>
           <TabsTrigger value="yaml" data-testid="tab-yaml" className="flex items-center gap-1">
             <FileCode className="h-3 w-3" />
             YAML
@@ -285,6 +262,7 @@ export default function AgentDetail() {
             onSessionChange={handleSessionChange}
             onMessagesChange={setChatMessages}
             onNewSession={handleNewSession}
+            active={currentTab === 'chat'}
           />
         </div>
 
@@ -300,8 +278,23 @@ export default function AgentDetail() {
           <ResourcePods resourceType="Agent" resource={agent} namespace={namespace!} name={name!} />
         </TabsContent>
 
+        <TabsContent value="logs" className="space-y-6">
+          <ResourceLogs resourceType="Agent" namespace={namespace!} name={name!} active={currentTab === 'logs'} />
+        </TabsContent>
+
+        <TabsContent value="events" className="space-y-6">
+          <ResourceEvents kind="Agent" namespace={namespace!} name={name!} active={currentTab === 'events'} />
+        </TabsContent>
+
         <TabsContent value="yaml" className="space-y-6">
-          <YamlViewer resource={agent} title="Agent YAML" maxHeight="calc(100vh - 380px)" />
+          <ResourceYamlEditor
+            kind="Agent"
+            resource={agent}
+            update={updateAgent}
+            getLatest={(name, namespace) => k8sClient.getAgent(name, namespace)}
+            title="Agent YAML"
+            maxHeight="calc(100vh - 380px)"
+          />
         </TabsContent>
       </Tabs>
 
@@ -311,6 +304,19 @@ export default function AgentDetail() {
         open={editDialogOpen}
         onClose={handleEditDialogClose}
       />
+
+      {/* Duplicate Dialog */}
+      <AgentCreateDialog
+        source={agent}
+        open={duplicateDialogOpen}
+        onClose={() => setDuplicateDialogOpen(false)}
+      />
+
+      <DeleteResourceDialog
+        resource={deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        onDeleted={handleDeleted}
+      />
     </div>
   );
 }
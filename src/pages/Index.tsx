@@ -1,12 +1,17 @@
 import { OverviewDashboard } from '@/components/dashboard/OverviewDashboard';
 import { VisualMap } from '@/components/dashboard/VisualMap';
+import { NamespaceLintReport } from '@/components/dashboard/NamespaceLintReport';
 import { ModelAPIList } from '@/components/resources/ModelAPIList';
 import { MCPServerList } from '@/components/resources/MCPServerList';
 import { AgentList } from '@/components/resources/AgentList';
+import { AgentComparison } from '@/components/agent/AgentComparison';
 import { ResourceDetailDrawer } from '@/components/resources/ResourceDetailDrawer';
 import { AgentEditDialog } from '@/components/resources/AgentEditDialog';
 import { ModelAPIEditDialog } from '@/components/resources/ModelAPIEditDialog';
 import { MCPServerEditDialog } from '@/components/resources/MCPServerEditDialog';
+import { AgentCreateDialog } from '@/components/resources/AgentCreateDialog';
+import { ModelAPICreateDialog } from '@/components/resources/ModelAPICreateDialog';
+import { MCPServerCreateDialog } from '@/components/resources/MCPServerCreateDialog';
 import { PodsList } from '@/components/kubernetes/PodsList';
 import { SecretsList } from '@/components/kubernetes/SecretsList';
 import { SettingsPage } from '@/components/settings/SettingsPage';
@@ -32,9 +37,11 @@ function IndexContent() {
       case 'overview': return <OverviewDashboard />;
       // visual-map is rendered separately to preserve pan/zoom state
       case 'visual-map': return null;
+      case 'lint': return <NamespaceLintReport />;
       case 'model-apis': return <ModelAPIList />;
       case 'mcp-servers': return <MCPServerList />;
       case 'agents': return <AgentList />;
+      case 'agent-compare': return <AgentComparison />;
       case 'pods': return <PodsList />;
       case 'secrets': return <SecretsList />;
       case 'kaos-system': return <KAOSSystemPage />;
@@ -85,6 +92,15 @@ function IndexContent() {
         />
       )}
 
+      {/* ModelAPI Duplicate Dialog */}
+      {isModelAPISelected && selectedResourceMode === 'duplicate' && (
+        <ModelAPICreateDialog
+          source={selectedResource as ModelAPI}
+          open={true}
+          onClose={handleCloseResource}
+        />
+      )}
+
       {/* MCPServer Detail Drawer */}
       {isMCPServerSelected && selectedResourceMode === 'view' && (
         <ResourceDetailDrawer
@@ -105,6 +121,15 @@ function IndexContent() {
         />
       )}
 
+      {/* MCPServer Duplicate Dialog */}
+      {isMCPServerSelected && selectedResourceMode === 'duplicate' && (
+        <MCPServerCreateDialog
+          source={selectedResource as MCPServer}
+          open={true}
+          onClose={handleCloseResource}
+        />
+      )}
+
       {/* Agent Detail Drawer */}
       {isAgentSelected && selectedResourceMode === 'view' && (
         <ResourceDetailDrawer
@@ -124,6 +149,15 @@ function IndexContent() {
           onClose={handleCloseResource}
         />
       )}
+
+      {/* Agent Duplicate Dialog */}
+      {isAgentSelected && selectedResourceMode === 'duplicate' && (
+        <AgentCreateDialog
+          source={selectedResource as Agent}
+          open={true}
+          onClose={handleCloseResource}
+        />
+      )}
     </>
   );
 }
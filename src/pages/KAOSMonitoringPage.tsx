@@ -2,9 +2,7 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { RefreshCw, Activity, AlertCircle, ExternalLink } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-
-const LOCAL_PORT = 8011;
-const LOCALHOST_URL = `http://localhost:${LOCAL_PORT}`;
+import { MONITORING_PORT, MONITORING_URL } from '@/lib/monitoring';
 
 export default function KAOSMonitoringPage() {
   const [portAvailable, setPortAvailable] = useState<boolean | null>(null);
@@ -16,7 +14,7 @@ export default function KAOSMonitoringPage() {
     setIframeError(false);
 
     try {
-      await fetch(LOCALHOST_URL, { mode: 'no-cors', signal: AbortSignal.timeout(3000) });
+      await fetch(MONITORING_URL, { mode: 'no-cors', signal: AbortSignal.timeout(3000) });
       setPortAvailable(true);
     } catch {
       setPortAvailable(false);
@@ -57,7 +55,7 @@ export default function KAOSMonitoringPage() {
           <AlertTitle>Monitoring Not Available</AlertTitle>
           <AlertDescription className="space-y-3">
             <p>
-              No monitoring dashboard detected on <code className="bg-muted px-1 rounded">localhost:{LOCAL_PORT}</code>.
+              No monitoring dashboard detected on <code className="bg-muted px-1 rounded">localhost:{MONITORING_PORT}</code>.
             </p>
             <p>Start port-forwarding with the KAOS CLI:</p>
             <code className="block bg-muted p-2 rounded text-xs">
@@ -82,7 +80,7 @@ export default function KAOSMonitoringPage() {
             The monitoring dashboard could not be embedded. This may be due to security restrictions.
           </p>
           <Button asChild>
-            <a href={LOCALHOST_URL} target="_blank" rel="noopener noreferrer">
+            <a href={MONITORING_URL} target="_blank" rel="noopener noreferrer">
               <ExternalLink className="h-4 w-4 mr-2" />
               Open in New Tab
             </a>
@@ -91,7 +89,7 @@ export default function KAOSMonitoringPage() {
       ) : (
         <div className="flex-1 min-h-0 rounded-lg border border-border overflow-hidden">
           <iframe
-            src={LOCALHOST_URL}
+            src={MONITORING_URL}
             className="w-full h-full border-0"
             title="Monitoring Dashboard"
             onError={() => setIframeError(true)}
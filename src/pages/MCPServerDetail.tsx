@@ -1,29 +1,24 @@
 import React, { useEffect, useState } from 'react';
 import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
-import { ArrowLeft, Server, Edit, Trash2, RefreshCw, Wrench, Info, Boxes, FileCode } from 'lucide-react';
+import { ArrowLeft, Server, Edit, Copy, Trash2, RefreshCw, Wrench, Info, Boxes, FileCode, ScrollText, CalendarClock } from 'lucide-react';
 import { getStatusVariant } from '@/lib/status-utils';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-  AlertDialogTrigger,
-} from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
 import { useKubernetesStore } from '@/stores/kubernetesStore';
 import { useKubernetesConnection } from '@/contexts/KubernetesConnectionContext';
+import { k8sClient } from '@/lib/kubernetes-client';
 import { MCPToolsDebug } from '@/components/mcp/MCPToolsDebug';
 import { MCPServerOverview } from '@/components/mcp/MCPServerOverview';
 import { ResourcePods } from '@/components/shared/ResourcePods';
-import { YamlViewer } from '@/components/shared/YamlViewer';
+import { ResourceLogs } from '@/components/shared/ResourceLogs';
+import { ResourceEvents } from '@/components/shared/ResourceEvents';
+import { RolloutActions } from '@/components/shared/RolloutActions';
+import { ResourceYamlEditor } from '@/components/shared/ResourceYamlEditor';
 import { MCPServerEditDialog } from '@/components/resources/MCPServerEditDialog';
+import { MCPServerCreateDialog } from '@/components/resources/MCPServerCreateDialog';
+import { DeleteResourceDialog } from '@/components/resources/shared/DeleteResourceDialog';
 import type { MCPServer } from '@/types/kubernetes';
 
 export default function MCPServerDetail() {
@@ -32,11 +27,12 @@ export default function MCPServerDetail() {
   const navigate = useNavigate();
   const { toast } = useToast();
   const { mcpServers } = useKubernetesStore();
-  const { deleteMCPServer, refreshAll, connected } = useKubernetesConnection();
+  const { updateMCPServer, refreshAll, connected } = useKubernetesConnection();
   
   const [mcpServer, setMCPServer] = useState<MCPServer | null>(null);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
-  const [isDeleting, setIsDeleting] = useState(false);
+  const [duplicateDialogOpen, setDuplicateDialogOpen] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<MCPServer | null>(null);
   
   // Get initial tab from URL params
   const initialTab = searchParams.get('tab') || 'overview';
@@ -50,26 +46,12 @@ export default function MCPServerDetail() {
     setMCPServer(found || null);
   }, [mcpServers, name, namespace]);
 
-  const handleDelete = async () => {
-    if (!mcpServer) return;
-    
-    setIsDeleting(true);
-    try {
-      await deleteMCPServer(mcpServer.metadata.name, mcpServer.metadata.namespace);
-      toast({
-        title: 'MCPServer deleted',
-        description: `${mcpServer.metadata.name} has been deleted.`,
-      });
-      navigate('/');
-    } catch (error) {
-      toast({
-        variant: 'destructive',
-        title: 'Failed to delete MCPServer',
-        description: error instanceof Error ? error.message : 'Unknown error',
-      });
-    } finally {
-      setIsDeleting(false);
-    }
+  const handleDeleted = () => {
+    toast({
+      title: 'MCPServer deleted',
+      description: `${deleteTarget?.metadata.name} has been deleted.`,
+    });
+    navigate('/');
   };
 
   if (!connected) {
@@ -140,6 +122,7 @@ export default function MCPServerDetail() {
         </div>
 
         <div className="flex items-center gap-2">
+          <RolloutActions resource={mcpServer} />
           <Button
             variant="outline"
             size="sm"
@@ -148,39 +131,25 @@ export default function MCPServerDetail() {
             <Edit className="h-4 w-4 mr-2" />
             Edit
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setDuplicateDialogOpen(true)}
+          >
+            <Copy className="h-4 w-4 mr-2" />
+            Duplicate
+          </Button>
           
-          <AlertDialog>
-            <AlertDialogTrigger asChild>
-              <Button variant="destructive" size="sm" disabled={isDeleting}>
-                <Trash2 className="h-4 w-4 mr-2" />
-                Delete
-              </Button>
-            </AlertDialogTrigger>
-            <AlertDialogContent>
-              <AlertDialogHeader>
-                <AlertDialogTitle>Delete MCPServer?</AlertDialogTitle>
-                <AlertDialogDescription>
-                  This will permanently delete the MCPServer "{mcpServer.metadata.name}".
-                  This action cannot be undone.
-                </AlertDialogDescription>
-              </AlertDialogHeader>
-              <AlertDialogFooter>
-                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                <AlertDialogAction
-                  onClick={handleDelete}
-                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                >
-                  Delete
-                </AlertDialogAction>
-              </AlertDialogFooter>
-            </AlertDialogContent>
-          </AlertDialog>
+          <Button variant="destructive" size="sm" onClick={() => setDeleteTarget(mcpServer)}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </Button>
         </div>
       </div>
 
       {/* Tabs Content */}
       <Tabs value={currentTab} onValueChange={setCurrentTab} className="space-y-6">
-        <TabsList className="grid w-full max-w-lg grid-cols-4">
+        <TabsList className="grid w-full max-w-2xl grid-cols-6">
           <TabsTrigger value="overview" data-testid="tab-overview" className="flex items-center gap-1">
             <Info className="h-3 w-3" />
             Overview
@@ -193,6 +162,14 @@ export default function MCPServerDetail() {
             <Boxes className="h-3 w-3" />
             Pods
           </TabsTrigger>
+          <TabsTrigger value="logs" data-testid="tab-logs" className="flex items-center gap-1">
+            <ScrollText className="h-3 w-3" />
+            Logs
+          </TabsTrigger>
+          <TabsTrigger value="events" data-testid="tab-events" className="flex items-center gap-1">
+            <CalendarClock className="h-3 w-3" />
+            Events
+          </TabsTrigger>
           <TabsTrigger value="yaml" data-testid="tab-yaml" className="flex items-center gap-1">
             <FileCode className="h-3 w-3" />
             YAML
@@ -211,8 +188,23 @@ export default function MCPServerDetail() {
           <ResourcePods resourceType="MCPServer" resource={mcpServer} namespace={namespace!} name={name!} />
         </TabsContent>
 
+        <TabsContent value="logs" className="space-y-6">
+          <ResourceLogs resourceType="MCPServer" namespace={namespace!} name={name!} active={currentTab === 'logs'} />
+        </TabsContent>
+
+        <TabsContent value="events" className="space-y-6">
+          <ResourceEvents kind="MCPServer" namespace={namespace!} name={name!} active={currentTab === 'events'} />
+        </TabsContent>
+
         <TabsContent value="yaml" className="space-y-6">
-          <YamlViewer resource={mcpServer} title="MCPServer YAML" maxHeight="calc(100vh - 380px)" />
+          <ResourceYamlEditor
+            kind="MCPServer"
+            resource={mcpServer}
+            update={updateMCPServer}
+            getLatest={(name, namespace) => k8sClient.getMCPServer(name, namespace)}
+            title="MCPServer YAML"
+            maxHeight="calc(100vh - 380px)"
+          />
         </TabsContent>
       </Tabs>
 
@@ -222,6 +214,19 @@ export default function MCPServerDetail() {
         open={editDialogOpen}
         onClose={() => setEditDialogOpen(false)}
       />
+
+      {/* Duplicate Dialog */}
+      <MCPServerCreateDialog
+        source={mcpServer}
+        open={duplicateDialogOpen}
+        onClose={() => setDuplicateDialogOpen(false)}
+      />
+
+      <DeleteResourceDialog
+        resource={deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        onDeleted={handleDeleted}
+      />
     </div>
   );
 }
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
-import { ArrowLeft, Boxes, RefreshCw, Info, Terminal, FileCode } from 'lucide-react';
+import { ArrowLeft, Boxes, RefreshCw, Info, Terminal, FileCode, CalendarClock, SquareTerminal } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -10,6 +10,8 @@ import { YamlViewer } from '@/components/shared/YamlViewer';
 import { usePodLogs } from '@/hooks/usePodLogs';
 import { PodOverviewTab } from '@/components/kubernetes/PodOverviewTab';
 import { PodLogsTab } from '@/components/kubernetes/PodLogsTab';
+import { PodExecTab } from '@/components/kubernetes/PodExecTab';
+import { ResourceEvents } from '@/components/shared/ResourceEvents';
 
 export default function PodDetail() {
   const { namespace, name } = useParams<{ namespace: string; name: string }>();
@@ -37,9 +39,9 @@ export default function PodDetail() {
   }, [containers, selectedContainer]);
 
   const {
-    logs, logsLoading, logsError,
+    lines, logsLoading, logsError,
     tailLines, setTailLines,
-    autoRefresh, setAutoRefresh,
+    paused, setPaused, mode, dropped,
     scrollRef, fetchLogs, handleDownload,
   } = usePodLogs({ namespace, podName: name, containerName: selectedContainer, active: currentTab === 'logs' });
 
@@ -136,7 +138,7 @@ export default function PodDetail() {
 
       {/* Tabs Content */}
       <Tabs value={currentTab} onValueChange={setCurrentTab} className="space-y-6">
-        <TabsList className="grid w-full max-w-md grid-cols-3">
+        <TabsList className="grid w-full max-w-xl grid-cols-5">
           <TabsTrigger value="overview" className="flex items-center gap-1">
             <Info className="h-3 w-3" />
             Overview
@@ -145,6 +147,14 @@ export default function PodDetail() {
             <Terminal className="h-3 w-3" />
             Logs
           </TabsTrigger>
+          <TabsTrigger value="exec" className="flex items-center gap-1">
+            <SquareTerminal className="h-3 w-3" />
+            Exec
+          </TabsTrigger>
+          <TabsTrigger value="events" className="flex items-center gap-1">
+            <CalendarClock className="h-3 w-3" />
+            Events
+          </TabsTrigger>
           <TabsTrigger value="yaml" className="flex items-center gap-1">
             <FileCode className="h-3 w-3" />
             YAML
@@ -170,19 +180,37 @@ export default function PodDetail() {
             containers={containers}
             selectedContainer={selectedContainer}
             onContainerChange={setSelectedContainer}
-            logs={logs}
+            lines={lines}
             logsLoading={logsLoading}
             logsError={logsError}
             tailLines={tailLines}
             onTailLinesChange={setTailLines}
-            autoRefresh={autoRefresh}
-            onAutoRefreshToggle={() => setAutoRefresh(!autoRefresh)}
+            mode={mode}
+            paused={paused}
+            onPausedChange={setPaused}
+            dropped={dropped}
             scrollRef={scrollRef}
             onFetchLogs={fetchLogs}
             onDownload={handleDownload}
           />
         </TabsContent>
 
+        {/* Exec Tab */}
+        <TabsContent value="exec" className="space-y-4">
+          <PodExecTab
+            namespace={namespace!}
+            podName={name!}
+            containers={containers}
+            selectedContainer={selectedContainer}
+            onContainerChange={setSelectedContainer}
+          />
+        </TabsContent>
+
+        {/* Events Tab */}
+        <TabsContent value="events" className="space-y-6">
+          <ResourceEvents kind="Pod" namespace={namespace!} name={name!} active={currentTab === 'events'} />
+        </TabsContent>
+
         {/* YAML Tab */}
         <TabsContent value="yaml" className="space-y-6">
           <YamlViewer resource={pod} title="Pod YAML" maxHeight="calc(100vh - 380px)" />
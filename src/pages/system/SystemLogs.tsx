@@ -1,10 +1,11 @@
-import React, { useState, useEffect } from 'react';
+import { useState, useEffect } from 'react';
 import { RefreshCw, AlertCircle, Download, Terminal } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { ScrollArea } from '@/components/ui/scroll-area';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { usePodLogs } from '@/hooks/usePodLogs';
+import { LogFollowControls } from '@/components/kubernetes/LogFollowControls';
+import { StructuredLogView } from '@/components/kubernetes/StructuredLogView';
 import type { Pod } from '@/types/kubernetes';
 
 interface SystemLogsProps {
@@ -14,25 +15,6 @@ interface SystemLogsProps {
   active: boolean;
 }
 
-function formatLogLine(line: string, index: number) {
-  const isError = /error|fatal|panic/i.test(line);
-  const isWarning = /warn|warning/i.test(line);
-  const isInfo = /info/i.test(line);
-  const isDebug = /debug|trace/i.test(line);
-
-  let className = 'text-foreground/80';
-  if (isError) className = 'text-red-400';
-  else if (isWarning) className = 'text-yellow-400';
-  else if (isInfo) className = 'text-blue-400';
-  else if (isDebug) className = 'text-muted-foreground';
-
-  return (
-    <div key={index} className={`font-mono text-xs whitespace-pre-wrap break-all ${className}`}>
-      {line}
-    </div>
-  );
-}
-
 export default function SystemLogs({
   selectedPod,
   operatorPods,
@@ -44,9 +26,9 @@ export default function SystemLogs({
   const containers = selectedPod?.spec?.containers?.map(c => c.name) || [];
 
   const {
-    logs, logsLoading, logsError,
+    lines, logsLoading, logsError,
     tailLines, setTailLines,
-    autoRefresh, setAutoRefresh,
+    paused, setPaused, mode, dropped,
     scrollRef, fetchLogs, handleDownload: handleDownloadLogs,
   } = usePodLogs({
     namespace: selectedPod?.metadata.namespace,
@@ -119,15 +101,7 @@ export default function SystemLogs({
         </div>
 
         <div className="flex items-center gap-2">
-          {/* Auto-refresh toggle */}
-          <Button
-            variant={autoRefresh ? "default" : "outline"}
-            size="sm"
-            onClick={() => setAutoRefresh(!autoRefresh)}
-          >
-            <RefreshCw className={`h-4 w-4 mr-2 ${autoRefresh ? 'animate-spin' : ''}`} />
-            Auto
-          </Button>
+          <LogFollowControls mode={mode} paused={paused} onPausedChange={setPaused} dropped={dropped} />
           
           {/* Refresh button */}
           <Button variant="outline" size="sm" onClick={fetchLogs} disabled={logsLoading}>
@@ -135,7 +109,7 @@ export default function SystemLogs({
           </Button>
           
           {/* Download button */}
-          <Button variant="outline" size="sm" onClick={handleDownloadLogs} disabled={!logs}>
+          <Button variant="outline" size="sm" onClick={handleDownloadLogs} disabled={lines.length === 0}>
             <Download className="h-4 w-4" />
           </Button>
         </div>
@@ -146,9 +120,9 @@ export default function SystemLogs({
         <CardHeader className="py-3 border-b border-border">
           <CardTitle className="text-sm font-medium flex items-center justify-between">
             <span>Log Output</span>
-            {logs && (
+            {lines.length > 0 && (
               <span className="text-xs text-muted-foreground font-normal">
-                {logs.split('\n').length} lines
+                {lines.length} lines
               </span>
             )}
           </CardTitle>
@@ -163,22 +137,18 @@ export default function SystemLogs({
                 Retry
               </Button>
             </div>
-          ) : logsLoading && !logs ? (
+          ) : logsLoading && lines.length === 0 ? (
             <div className="flex items-center justify-center py-12">
               <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
             </div>
-          ) : !logs ? (
+          ) : lines.length === 0 ? (
             <div className="flex flex-col items-center justify-center py-12 text-center">
               <Terminal className="h-10 w-10 text-muted-foreground mb-3" />
               <p className="text-sm text-muted-foreground">No logs available</p>
               <p className="text-xs text-muted-foreground mt-1">Select a pod to view its logs</p>
             </div>
           ) : (
-            <ScrollArea className="h-[500px]" ref={scrollRef as React.RefObject<HTMLDivElement>}>
-              <div className="p-4 bg-background">
-                {logs.split('\n').map((line, index) => formatLogLine(line, index))}
-              </div>
-            </ScrollArea>
+            <StructuredLogView lines={lines} scrollRef={scrollRef} className="h-[500px]" />
           )}
         </CardContent>
       </Card>
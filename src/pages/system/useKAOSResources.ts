@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import type { Pod, Deployment, ConfigMap } from '@/types/kubernetes';
+import { k8sClient } from '@/lib/kubernetes-client';
 
 export function useKAOSResources(connected: boolean, baseUrl: string, kaosNamespace: string) {
   const [operatorPods, setOperatorPods] = useState<Pod[]>([]);
@@ -17,11 +18,8 @@ export function useKAOSResources(connected: boolean, baseUrl: string, kaosNamesp
     setError(null);
     
     try {
-      const podsResponse = await fetch(`${baseUrl}/api/v1/namespaces/${kaosNamespace}/pods`, {
-        headers: {
-          'bypass-tunnel-reminder': '1',
-          'X-Requested-With': 'XMLHttpRequest',
-        },
+      const podsResponse = await k8sClient.fetchWithAuth(`${baseUrl}/api/v1/namespaces/${kaosNamespace}/pods`, {
+        headers: k8sClient.getRequestHeaders(),
       });
       
       if (!podsResponse.ok) {
@@ -45,11 +43,8 @@ export function useKAOSResources(connected: boolean, baseUrl: string, kaosNamesp
         setSelectedPod(kaosPods[0]);
       }
       
-      const deploymentsResponse = await fetch(`${baseUrl}/apis/apps/v1/namespaces/${kaosNamespace}/deployments`, {
-        headers: {
-          'bypass-tunnel-reminder': '1',
-          'X-Requested-With': 'XMLHttpRequest',
-        },
+      const deploymentsResponse = await k8sClient.fetchWithAuth(`${baseUrl}/apis/apps/v1/namespaces/${kaosNamespace}/deployments`, {
+        headers: k8sClient.getRequestHeaders(),
       });
       
       if (deploymentsResponse.ok) {
@@ -61,11 +56,8 @@ export function useKAOSResources(connected: boolean, baseUrl: string, kaosNamesp
       }
       
       try {
-        const configResponse = await fetch(`${baseUrl}/api/v1/namespaces/${kaosNamespace}/configmaps/kaos-operator-config`, {
-          headers: {
-            'bypass-tunnel-reminder': '1',
-            'X-Requested-With': 'XMLHttpRequest',
-          },
+        const configResponse = await k8sClient.fetchWithAuth(`${baseUrl}/api/v1/namespaces/${kaosNamespace}/configmaps/kaos-operator-config`, {
+          headers: k8sClient.getRequestHeaders(),
         });
         if (configResponse.ok) {
           setOperatorConfig(await configResponse.json());
@@ -77,11 +69,8 @@ export function useKAOSResources(connected: boolean, baseUrl: string, kaosNamesp
       }
       
       try {
-        const runtimesResponse = await fetch(`${baseUrl}/api/v1/namespaces/${kaosNamespace}/configmaps/kaos-mcp-runtimes`, {
-          headers: {
-            'bypass-tunnel-reminder': '1',
-            'X-Requested-With': 'XMLHttpRequest',
-          },
+        const runtimesResponse = await k8sClient.fetchWithAuth(`${baseUrl}/api/v1/namespaces/${kaosNamespace}/configmaps/kaos-mcp-runtimes`, {
+          headers: k8sClient.getRequestHeaders(),
         });
         if (runtimesResponse.ok) {
           setMcpRuntimes(await runtimesResponse.json());
@@ -11,6 +11,13 @@ import type {
   LogEntry,
 } from '@/types/kubernetes';
 
+// Store collections kept in sync by list/watch streams
+export type WatchedResourceKey = 'modelAPIs' | 'mcpServers' | 'agents' | 'pods' | 'deployments' | 'services' | 'secrets';
+
+// 'watch' streams changes live; 'polling' re-lists on the auto-refresh interval
+export type SyncMode = 'watch' | 'polling';
+export type LiveSyncStatus = 'off' | 'connecting' | 'live' | 'reconnecting' | 'unavailable';
+
 interface KubernetesState {
   // Agentic Resources
   modelAPIs: ModelAPI[];
@@ -29,7 +36,7 @@ interface KubernetesState {
   
   // UI State
   selectedResource: ModelAPI | MCPServer | Agent | Pod | null;
-  selectedResourceMode: 'view' | 'edit' | null;
+  selectedResourceMode: 'view' | 'edit' | 'duplicate' | null;
   activeTab: string;
   
   // Auto-refresh state
@@ -38,6 +45,10 @@ interface KubernetesState {
   isRefreshing: boolean;
   nextRefreshTime: number | null; // timestamp when next refresh will occur
   
+  // Live sync state
+  syncMode: SyncMode;
+  liveSyncStatus: LiveSyncStatus;
+  
   // Actions
   setModelAPIs: (apis: ModelAPI[], forceReplace?: boolean) => void;
   addModelAPI: (api: ModelAPI) => void;
@@ -68,6 +79,11 @@ interface KubernetesState {
   addSecret: (secret: K8sSecret) => void;
   deleteSecret: (name: string) => void;
   
+  // Replace a watched collection with an authoritative (re)list
+  setWatchedResources: (key: WatchedResourceKey, items: { metadata: { name: string } }[]) => void;
+  // Apply an incremental ADDED/MODIFIED/DELETED event from a watch stream
+  applyWatchEvent: (key: WatchedResourceKey, type: 'ADDED' | 'MODIFIED' | 'DELETED', resource: { metadata: { name: string } }) => void;
+  
   // Clear all resources (for namespace switching)
   clearAllResources: () => void;
   
@@ -75,7 +91,7 @@ interface KubernetesState {
   clearLogs: () => void;
   
   setSelectedResource: (resource: ModelAPI | MCPServer | Agent | Pod | null) => void;
-  setSelectedResourceMode: (mode: 'view' | 'edit' | null) => void;
+  setSelectedResourceMode: (mode: 'view' | 'edit' | 'duplicate' | null) => void;
   setActiveTab: (tab: string) => void;
   
   // Auto-refresh actions
@@ -84,6 +100,10 @@ interface KubernetesState {
   setIsRefreshing: (refreshing: boolean) => void;
   setNextRefreshTime: (time: number | null) => void;
   resetCountdown: () => void;
+  
+  // Live sync actions
+  setSyncMode: (mode: SyncMode) => void;
+  setLiveSyncStatus: (status: LiveSyncStatus) => void;
 }
 
 // No mock data - all data comes from real Kubernetes API
@@ -110,6 +130,10 @@ export const useKubernetesStore = create<KubernetesState>((set) => ({
   isRefreshing: false,
   nextRefreshTime: null,
   
+  // Live sync defaults (mode saved to localStorage)
+  syncMode: (localStorage.getItem('syncMode') as SyncMode) || 'watch',
+  liveSyncStatus: 'off',
+  
   // ModelAPI actions - forceReplace used during namespace switching
   setModelAPIs: (apis, forceReplace = false) => set((state) => {
     // If empty array from API, keep existing unless force replace (namespace switch)
@@ -156,6 +180,21 @@ export const useKubernetesStore = create<KubernetesState>((set) => ({
     agents: state.agents.filter((a) => a.metadata.name !== name),
   })),
   
+  setWatchedResources: (key, items) => set({ [key]: items } as Partial<KubernetesState>),
+  // Watch events replace the whole object (upsert by name) or remove it
+  applyWatchEvent: (key, type, resource) => set((state) => {
+    const items = state[key] as { metadata: { name: string } }[];
+    const name = resource.metadata.name;
+    if (type === 'DELETED') {
+      return { [key]: items.filter((i) => i.metadata.name !== name) } as Partial<KubernetesState>;
+    }
+    const exists = items.some((i) => i.metadata.name === name);
+    const next = exists
+      ? items.map((i) => i.metadata.name === name ? resource : i)
+      : [...items, resource];
+    return { [key]: next } as Partial<KubernetesState>;
+  }),
+  
   // Clear all resources for namespace switching
   clearAllResources: () => set({
     modelAPIs: [],
@@ -209,4 +248,11 @@ export const useKubernetesStore = create<KubernetesState>((set) => ({
       ? Date.now() + state.autoRefreshInterval 
       : null 
   })),
+  
+  // Live sync actions
+  setSyncMode: (mode) => {
+    localStorage.setItem('syncMode', mode);
+    set({ syncMode: mode });
+  },
+  setLiveSyncStatus: (status) => set({ liveSyncStatus: status }),
 }));
@@ -0,0 +1,38 @@
+import { create } from 'zustand';
+import { appendMetrics, type MetricsSeries, type PodMetrics } from '@/lib/k8s/metrics';
+
+// metrics-server refreshes every 15s by default, so 60 samples is ~15 minutes
+export const MAX_METRICS_SAMPLES = 60;
+
+// null until the first scrape; false when metrics-server isn't installed
+export type MetricsAvailability = boolean | null;
+
+interface MetricsState {
+  namespace: string | null;
+  series: MetricsSeries;
+  available: MetricsAvailability;
+  error: string | null;
+
+  // Record a scrape of `namespace`; a different namespace starts over
+  recordMetrics: (namespace: string, metrics: PodMetrics[]) => void;
+  setUnavailable: (namespace: string) => void;
+  setMetricsError: (error: string | null) => void;
+  clearMetrics: () => void;
+}
+
+export const useMetricsStore = create<MetricsState>((set) => ({
+  namespace: null,
+  series: {},
+  available: null,
+  error: null,
+
+  recordMetrics: (namespace, metrics) => set((state) => ({
+    namespace,
+    series: appendMetrics(state.namespace === namespace ? state.series : {}, metrics, MAX_METRICS_SAMPLES),
+    available: true,
+    error: null,
+  })),
+  setUnavailable: (namespace) => set({ namespace, series: {}, available: false, error: null }),
+  setMetricsError: (error) => set({ error }),
+  clearMetrics: () => set({ namespace: null, series: {}, available: null, error: null }),
+}));
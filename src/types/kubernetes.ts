@@ -18,6 +18,14 @@ export interface EnvVar {
   };
 }
 
+export interface OwnerReference {
+  apiVersion: string;
+  kind: string;
+  name: string;
+  uid: string;
+  controller?: boolean;
+}
+
 export interface ResourceMetadata {
   name: string;
   namespace: string;
@@ -27,6 +35,7 @@ export interface ResourceMetadata {
   resourceVersion?: string;
   labels?: Record<string, string>;
   annotations?: Record<string, string>;
+  ownerReferences?: OwnerReference[];
 }
 
 // ============= ModelAPI CRD =============
@@ -364,6 +373,19 @@ export interface Agent {
 
 // ============= Standard Kubernetes Resources =============
 
+export interface ContainerState {
+  running?: { startedAt?: string };
+  waiting?: { reason?: string; message?: string };
+  terminated?: {
+    reason?: string;
+    exitCode?: number;
+    signal?: number;
+    message?: string;
+    startedAt?: string;
+    finishedAt?: string;
+  };
+}
+
 export interface Pod {
   apiVersion: string;
   kind: 'Pod';
@@ -376,6 +398,10 @@ export interface Pod {
       args?: string[];
       ports?: { containerPort: number }[];
       env?: EnvVar[];
+      resources?: {
+        requests?: Record<string, string>;
+        limits?: Record<string, string>;
+      };
     }[];
     nodeName?: string;
   };
@@ -387,11 +413,9 @@ export interface Pod {
       name: string;
       ready: boolean;
       restartCount: number;
-      state?: {
-        running?: { startedAt?: string };
-        waiting?: { reason?: string; message?: string };
-        terminated?: { reason?: string; exitCode?: number };
-      };
+      state?: ContainerState;
+      // State of the previous run, set once the container has restarted
+      lastState?: ContainerState;
     }[];
   };
 }
@@ -405,23 +429,42 @@ export interface Deployment {
     selector: {
       matchLabels: Record<string, string>;
     };
-    template?: {
-      metadata?: {
-        labels?: Record<string, string>;
-      };
-      spec?: {
-        containers?: {
-          name: string;
-          image: string;
-          ports?: { containerPort: number }[];
-        }[];
-      };
-    };
+    template?: PodTemplate;
   };
   status?: {
     replicas: number;
     readyReplicas: number;
     availableReplicas: number;
+    updatedReplicas?: number;
+  };
+}
+
+export interface PodTemplate {
+  metadata?: {
+    labels?: Record<string, string>;
+    annotations?: Record<string, string>;
+  };
+  spec?: {
+    containers?: {
+      name: string;
+      image: string;
+      ports?: { containerPort: number }[];
+      env?: EnvVar[];
+    }[];
+  };
+}
+
+export interface ReplicaSet {
+  apiVersion: string;
+  kind: 'ReplicaSet';
+  metadata: ResourceMetadata;
+  spec: {
+    replicas?: number;
+    template?: PodTemplate;
+  };
+  status?: {
+    replicas: number;
+    readyReplicas?: number;
   };
 }
 
@@ -151,4 +151,72 @@ describe('useAgentChat', () => {
       expect.any(Object),
     );
   });
+
+  describe('branching', () => {
+    const reply = (text: string) => async (_s: string, _m: unknown, opts: Parameters<typeof streamAgentChat>[2]) => {
+      opts.onChunk(text);
+      opts.onDone({});
+    };
+
+    const renderChat = async (sessionId?: string) => {
+      mockedStreamAgentChat.mockImplementation(reply('first'));
+      const hook = renderHook(() =>
+        useAgentChat({ agentName: 'test', namespace: 'default', sessionId }),
+      );
+      await act(async () => {
+        await hook.result.current.sendMessage('Q1');
+      });
+      mockedStreamAgentChat.mockImplementation(reply('second'));
+      await act(async () => {
+        await hook.result.current.sendMessage('Q2');
+      });
+      return hook;
+    };
+
+    it('edits an earlier question into a new branch with truncated history', async () => {
+      const { result } = await renderChat();
+      const q2 = result.current.messages[2];
+
+      mockedStreamAgentChat.mockImplementation(reply('edited answer'));
+      await act(async () => {
+        await result.current.editMessage(q2.id, 'Q2 edited');
+      });
+
+      expect(result.current.messages.map((m) => m.content)).toEqual(['Q1', 'first', 'Q2 edited', 'edited answer']);
+      expect(mockedStreamAgentChat.mock.lastCall?.[1]).toEqual([
+        { role: 'user', content: 'Q1' },
+        { role: 'assistant', content: 'first' },
+        { role: 'user', content: 'Q2 edited' },
+      ]);
+      expect(result.current.getBranchInfo(result.current.messages[2].id)).toEqual({ index: 1, count: 2 });
+
+      act(() => {
+        result.current.switchBranch(result.current.messages[2].id, -1);
+      });
+      expect(result.current.messages.map((m) => m.content)).toEqual(['Q1', 'first', 'Q2', 'second']);
+    });
+
+    it('regenerates a reply as a sibling branch, optionally in a forked session', async () => {
+      const { result } = await renderChat('sess-1');
+      const firstReply = result.current.messages[1];
+
+      mockedStreamAgentChat.mockImplementation(reply('again'));
+      await act(async () => {
+        await result.current.regenerate(firstReply.id, { forkSession: true });
+      });
+
+      expect(result.current.messages.map((m) => m.content)).toEqual(['Q1', 'again']);
+      const [, history, opts] = mockedStreamAgentChat.mock.lastCall!;
+      expect(history).toEqual([{ role: 'user', content: 'Q1' }]);
+      expect(opts.sessionId).toMatch(/^sess-1-branch-/);
+      expect(result.current.branchSessionId).toBe(opts.sessionId);
+
+      mockedStreamAgentChat.mockImplementation(reply('follow-up'));
+      await act(async () => {
+        await result.current.sendMessage('Q3');
+      });
+      expect(mockedStreamAgentChat.mock.lastCall?.[2].sessionId).toBe(opts.sessionId);
+    });
+  });
 });
+
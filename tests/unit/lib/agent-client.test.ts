@@ -14,10 +14,13 @@ vi.mock('@/lib/kubernetes-client', () => ({
       baseUrl: 'http://localhost:8010',
       namespace: 'default',
     }),
+    getRequestHeaders: () => ({}),
+    fetchWithAuth: (url: string, init: RequestInit) => fetch(url, init),
   },
+  K8sAuthError: class extends Error {},
 }));
 
-import { streamAgentChat } from '@/lib/agent-client';
+import { buildTelemetry, streamAgentChat } from '@/lib/agent-client';
 
 function createSSEStream(lines: string[]): ReadableStream<Uint8Array> {
   const encoder = new TextEncoder();
@@ -111,7 +114,7 @@ describe('streamAgentChat', () => {
       onError: vi.fn(),
     });
 
-    expect(onDone).toHaveBeenCalledWith({ sessionId: 'sess-123' });
+    expect(onDone).toHaveBeenCalledWith({ sessionId: 'sess-123', telemetry: expect.any(Object) });
   });
 
   it('calls onError for non-ok HTTP responses', async () => {
@@ -176,7 +179,7 @@ describe('streamAgentChat', () => {
     });
 
     expect(chunks).toEqual(['Non-stream response']);
-    expect(onDone).toHaveBeenCalledWith({ sessionId: 'sess-456' });
+    expect(onDone).toHaveBeenCalledWith({ sessionId: 'sess-456', telemetry: expect.any(Object) });
   });
 
   it('skips comment lines and empty lines in SSE stream', async () => {
@@ -199,4 +202,49 @@ describe('streamAgentChat', () => {
 
     expect(chunks).toEqual(['only-text']);
   });
+
+  it('reports timings, progress steps and usage in onDone telemetry', async () => {
+    const progressJson = JSON.stringify({ type: 'progress', step: 1, max_steps: 1, action: 'tool_call', target: 'echo' });
+    const sseLines = [
+      `data: {"choices":[{"delta":{"content":${JSON.stringify(progressJson)}}}]}`,
+      'data: {"choices":[{"delta":{"content":"Hi"}}]}',
+      'data: {"choices":[{"delta":{}}],"usage":{"prompt_tokens":12,"completion_tokens":3,"total_tokens":15}}',
+      'data: [DONE]',
+    ];
+    vi.stubGlobal('fetch', mockFetch(createSSEStream(sseLines)));
+
+    const onDone = vi.fn();
+    await streamAgentChat('agent-test', [{ role: 'user', content: 'hi' }], {
+      onChunk: vi.fn(),
+      onProgress: vi.fn(),
+      onDone,
+      onError: vi.fn(),
+    });
+
+    const { telemetry } = onDone.mock.calls[0][0];
+    expect(telemetry.usage).toEqual({ promptTokens: 12, completionTokens: 3, totalTokens: 15 });
+    expect(telemetry.steps).toHaveLength(1);
+    expect(telemetry.firstTokenMs).toBeGreaterThanOrEqual(telemetry.steps[0].startMs);
+    expect(telemetry.durationMs).toBeGreaterThanOrEqual(telemetry.firstTokenMs);
+  });
+});
+
+describe('buildTelemetry', () => {
+  it('times each step until the next step, then until the first token', () => {
+    expect(buildTelemetry([100, 400], 2000, 900)).toEqual({
+      firstTokenMs: 900,
+      durationMs: 2000,
+      steps: [{ startMs: 100, durationMs: 300 }, { startMs: 400, durationMs: 500 }],
+    });
+  });
+
+  it('times the last step until the end when no token followed it', () => {
+    expect(buildTelemetry([100], 700, 50, { totalTokens: 5 })).toEqual({
+      firstTokenMs: 50,
+      durationMs: 700,
+      usage: { totalTokens: 5 },
+      steps: [{ startMs: 100, durationMs: 600 }],
+    });
+  });
 });
+
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildAgentHistory,
+  comparisonToMarkdown,
+  countSteps,
+  createComparisonExport,
+  createResponse,
+  type ComparisonTurn,
+} from '@/lib/agent-compare';
+import type { ProgressStep } from '@/components/agent/ReasoningSteps';
+import type { Agent } from '@/types/kubernetes';
+
+const makeAgent = (name: string, model: string): Agent => ({
+  apiVersion: 'kaos.tools/v1alpha1',
+  kind: 'Agent',
+  metadata: { name, namespace: 'default' },
+  spec: { modelAPI: 'api', model },
+});
+
+const step = (action: string, target: string): ProgressStep => ({
+  type: 'progress', step: 1, max_steps: 1, action, target, completed: true,
+});
+
+const turns: ComparisonTurn[] = [
+  {
+    id: 't1',
+    prompt: 'Hello',
+    sentAt: '2026-01-01T00:00:00Z',
+    preferred: 'b',
+    responses: {
+      a: { content: 'Hi from a', progressSteps: [step('tool_call', 'echo'), step('delegate', 'c')], status: 'done', latencyMs: 1500, firstTokenMs: 400 },
+      b: { content: '', progressSteps: [], status: 'error', error: 'boom', latencyMs: 20 },
+    },
+  },
+  {
+    id: 't2',
+    prompt: 'Again',
+    sentAt: '2026-01-01T00:01:00Z',
+    responses: { a: createResponse(), b: { ...createResponse(), status: 'stopped' } },
+  },
+];
+
+describe('agent comparison', () => {
+  it('builds each agent its own history, skipping failed answers', () => {
+    expect(buildAgentHistory(turns.slice(0, 1), 'a')).toEqual([
+      { role: 'user', content: 'Hello' },
+      { role: 'assistant', content: 'Hi from a' },
+    ]);
+    expect(buildAgentHistory(turns.slice(0, 1), 'b')).toEqual([{ role: 'user', content: 'Hello' }]);
+  });
+
+  it('counts tool calls and delegations', () => {
+    expect(countSteps(turns[0].responses.a.progressSteps)).toEqual({ toolCalls: 1, delegations: 1 });
+  });
+
+  it('exports agents, metrics and the preferred answer as Markdown', () => {
+    const comparison = createComparisonExport([makeAgent('a', 'm1'), makeAgent('b', 'm2')], turns, 'default', 7);
+    expect(comparison.agents).toEqual([
+      { name: 'a', model: 'm1', modelAPI: 'api' },
+      { name: 'b', model: 'm2', modelAPI: 'api' },
+    ]);
+
+    const markdown = comparisonToMarkdown(comparison);
+    expect(markdown).toContain('- **Seed:** `7`');
+    expect(markdown).toContain('| a | m1 | api |');
+    expect(markdown).toContain('## Turn 1\n\n> Hello');
+    expect(markdown).toContain('*done · latency 1.50s · first token 0.40s · 1 tool calls · 1 delegations*');
+    expect(markdown).toContain('### b (preferred)');
+    expect(markdown).toContain('Error: boom');
+  });
+});
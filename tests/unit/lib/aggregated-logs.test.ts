@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { mergeLogLines, shortPodName, sourceColor, type SourcedLogLine } from '@/lib/aggregated-logs';
+import { findResourcePods } from '@/lib/resource-pods';
+import type { Pod } from '@/types/kubernetes';
+
+const a = { pod: 'agent-worker-5d9c7b8f4-abcde', container: 'agent' };
+const b = { pod: 'agent-worker-5d9c7b8f4-fghij', container: 'agent' };
+
+function line(source: typeof a, timestamp: string | undefined, text: string): SourcedLogLine {
+  return { source, timestamp, text };
+}
+
+function pod(name: string, labels?: Record<string, string>): Pod {
+  return { apiVersion: 'v1', kind: 'Pod', metadata: { name, labels }, spec: { containers: [{ name: 'main', image: 'x' }] } };
+}
+
+describe('mergeLogLines', () => {
+  it('interleaves lines from several pods by timestamp', () => {
+    const timeline = [line(a, '2024-05-01T10:00:01Z', 'a1'), line(a, '2024-05-01T10:00:03Z', 'a3')];
+    const { lines } = mergeLogLines(timeline, [line(b, '2024-05-01T10:00:02Z', 'b2'), line(b, '2024-05-01T10:00:04Z', 'b4')], 100);
+
+    expect(lines.map((l) => l.text)).toEqual(['a1', 'b2', 'a3', 'b4']);
+  });
+
+  it('keeps arrival order for equal timestamps and appends lines without one', () => {
+    const timeline = [line(a, '2024-05-01T10:00:01Z', 'a1')];
+    const { lines } = mergeLogLines(timeline, [line(b, '2024-05-01T10:00:01Z', 'b1'), line(b, undefined, 'plain')], 100);
+
+    expect(lines.map((l) => l.text)).toEqual(['a1', 'b1', 'plain']);
+  });
+
+  it('drops the oldest lines beyond the cap', () => {
+    const timeline = [line(a, '2024-05-01T10:00:01Z', 'a1'), line(a, '2024-05-01T10:00:03Z', 'a3')];
+    const result = mergeLogLines(timeline, [line(b, '2024-05-01T10:00:02Z', 'b2')], 2);
+
+    expect(result.lines.map((l) => l.text)).toEqual(['b2', 'a3']);
+    expect(result.dropped).toBe(1);
+  });
+});
+
+describe('shortPodName', () => {
+  it('keeps only the pod hash of Deployment pods', () => {
+    expect(shortPodName('agent-worker-5d9c7b8f4-abcde')).toBe('abcde');
+    expect(shortPodName('mcpserver-search-0')).toBe('mcpserver-search-0');
+  });
+});
+
+describe('sourceColor', () => {
+  it('is stable per source', () => {
+    expect(sourceColor(a)).toBe(sourceColor({ ...a }));
+  });
+});
+
+describe('findResourcePods', () => {
+  it('matches pods by name prefix or owner labels', () => {
+    const pods = [
+      pod('agent-worker-5d9c7b8f4-abcde'),
+      pod('custom-name', { agent: 'worker' }),
+      pod('agent-other-5d9c7b8f4-abcde'),
+      pod('mcpserver-worker-0'),
+    ];
+
+    expect(findResourcePods(pods, 'Agent', 'worker').map((p) => p.metadata.name)).toEqual([
+      'agent-worker-5d9c7b8f4-abcde',
+      'custom-name',
+    ]);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  K8sAuthError,
+  getTokenExpiry,
+  isTokenExpiring,
+  parseKubeconfigUser,
+  refreshOidcToken,
+  type K8sOidcAuth,
+} from '@/lib/k8s/auth';
+import { KubernetesClient } from '@/lib/k8s';
+
+function jwt(claims: Record<string, unknown>): string {
+  const encode = (value: object) => btoa(JSON.stringify(value)).replace(/=+$/, '');
+  return `${encode({ alg: 'none' })}.${encode(claims)}.sig`;
+}
+
+const OIDC: K8sOidcAuth = {
+  type: 'oidc',
+  issuerUrl: 'https://issuer.example.com/',
+  clientId: 'kaos-ui',
+  idToken: '',
+  refreshToken: 'refresh-1',
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status });
+}
+
+describe('parseKubeconfigUser', () => {
+  const kubeconfig = `
+apiVersion: v1
+kind: Config
+users:
+  - name: admin
+    user:
+      token: admin-token
+  - name: dev
+    user:
+      auth-provider:
+        name: oidc
+        config:
+          idp-issuer-url: https://issuer.example.com
+          client-id: kaos-ui
+          id-token: id-1
+          refresh-token: refresh-1
+  - name: cert
+    user:
+      client-certificate-data: abc
+`;
+
+  it('reads the first user from a full kubeconfig', () => {
+    expect(parseKubeconfigUser(kubeconfig)).toEqual({ type: 'kubeconfig', user: 'admin', token: 'admin-token' });
+  });
+
+  it('selects a user by name and maps the OIDC auth-provider', () => {
+    expect(parseKubeconfigUser(kubeconfig, 'dev')).toEqual({
+      type: 'oidc',
+      issuerUrl: 'https://issuer.example.com',
+      clientId: 'kaos-ui',
+      clientSecret: undefined,
+      idToken: 'id-1',
+      refreshToken: 'refresh-1',
+    });
+  });
+
+  it('accepts a bare user map', () => {
+    expect(parseKubeconfigUser('token: abc')).toMatchObject({ type: 'kubeconfig', token: 'abc' });
+  });
+
+  it('rejects credentials the browser cannot use', () => {
+    expect(() => parseKubeconfigUser(kubeconfig, 'cert')).toThrow('client certificates');
+    expect(() => parseKubeconfigUser(kubeconfig, 'missing')).toThrow('not found');
+    expect(() => parseKubeconfigUser('exec:\n  command: aws')).toThrow('exec credential plugins');
+  });
+});
+
+describe('token expiry', () => {
+  it('reads exp from JWTs and ignores opaque tokens', () => {
+    expect(getTokenExpiry(jwt({ exp: 1700000000 }))).toBe(1700000000000);
+    expect(getTokenExpiry('opaque-token')).toBeNull();
+  });
+
+  it('treats tokens within a minute of expiry as expiring', () => {
+    const now = 1700000000000;
+    expect(isTokenExpiring(jwt({ exp: now / 1000 + 30 }), now)).toBe(true);
+    expect(isTokenExpiring(jwt({ exp: now / 1000 + 3600 }), now)).toBe(false);
+    expect(isTokenExpiring('opaque-token', now)).toBe(false);
+  });
+});
+
+describe('refreshOidcToken', () => {
+  it('discovers the token endpoint and exchanges the refresh token', async () => {
+    const fetchFn = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ token_endpoint: 'https://issuer.example.com/token' }))
+      .mockResolvedValueOnce(jsonResponse({ id_token: 'id-2', refresh_token: 'refresh-2' }));
+
+    const refreshed = await refreshOidcToken(OIDC, fetchFn);
+
+    expect(fetchFn.mock.calls[0][0]).toBe('https://issuer.example.com/.well-known/openid-configuration');
+    expect(fetchFn.mock.calls[1][0]).toBe('https://issuer.example.com/token');
+    const body = fetchFn.mock.calls[1][1].body as URLSearchParams;
+    expect(body.get('grant_type')).toBe('refresh_token');
+    expect(body.get('refresh_token')).toBe('refresh-1');
+    expect(refreshed).toMatchObject({ idToken: 'id-2', refreshToken: 'refresh-2' });
+  });
+});
+
+describe('KubernetesClient auth', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends the bearer token and raises K8sAuthError on 401', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('Unauthorized', { status: 401 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const client = new KubernetesClient();
+    client.setConfig({ baseUrl: 'https://k8s', auth: { type: 'token', token: 'abc' } });
+    const onAuthError = vi.fn();
+    client.onAuthError(onAuthError);
+
+    await expect(client.listNamespaces()).rejects.toBeInstanceOf(K8sAuthError);
+
+    expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('Bearer abc');
+    expect(onAuthError).toHaveBeenCalledWith(expect.objectContaining({ status: 401 }));
+  });
+
+  it('refreshes an OIDC token and retries once after a 401', async () => {
+    const fetchMock = vi.fn((url: string, init?: RequestInit) => {
+      if (url.endsWith('/.well-known/openid-configuration')) {
+        return Promise.resolve(jsonResponse({ token_endpoint: 'https://issuer.example.com/token' }));
+      }
+      if (url.endsWith('/token')) {
+        return Promise.resolve(jsonResponse({ id_token: 'fresh' }));
+      }
+      const authorization = (init?.headers as Record<string, string>).Authorization;
+      return Promise.resolve(authorization === 'Bearer fresh'
+        ? jsonResponse({ items: [] })
+        : new Response('Unauthorized', { status: 401 }));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    const client = new KubernetesClient();
+    client.setConfig({ baseUrl: 'https://k8s', auth: { ...OIDC, idToken: 'stale' } });
+    const onAuthRefreshed = vi.fn();
+    client.onAuthRefreshed(onAuthRefreshed);
+
+    await expect(client.listNamespaces()).resolves.toEqual([]);
+
+    expect(onAuthRefreshed).toHaveBeenCalledWith(expect.objectContaining({ idToken: 'fresh' }));
+    expect(client.getConfig().auth).toMatchObject({ idToken: 'fresh' });
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  loadLocalSessions,
+  memoryEventsToChatMessages,
+  saveLocalSessions,
+  searchSessions,
+  sortSessions,
+  summarizeSessions,
+  type ChatSessionSummary,
+  type LocalChatSessions,
+} from '@/lib/chat-sessions';
+import type { MemoryEvent } from '@/lib/agent-memory';
+
+const events: MemoryEvent[] = [
+  { id: 'e1', type: 'user_message', content: 'What is the weather?', timestamp: '2026-01-01T10:00:00Z', session_id: 's1' },
+  { id: 'e2', type: 'tool_call', content: { tool: 'weather', arguments: {} }, timestamp: '2026-01-01T10:00:01Z', session_id: 's1' },
+  { id: 'e3', type: 'tool_result', content: { result: 'sunny' }, timestamp: '2026-01-01T10:00:02Z', session_id: 's1' },
+  { id: 'e4', type: 'delegation_request', content: { agent: 'writer', task: 'summarize' }, timestamp: '2026-01-01T10:00:03Z', session_id: 's1' },
+  { id: 'e5', type: 'agent_response', content: 'It is sunny.', timestamp: '2026-01-01T10:00:04Z', session_id: 's1' },
+  { id: 'e6', type: 'user_message', content: 'Thanks', timestamp: '2026-01-01T10:01:00Z', session_id: 's1' },
+  { id: 'e7', type: 'agent_response', content: 'You are welcome.', timestamp: '2026-01-01T10:01:01Z', session_id: 's1' },
+  { id: 'e8', type: 'user_message', content: 'Deploy the app', timestamp: '2026-01-02T09:00:00Z', session_id: 's2' },
+];
+
+const summary = (overrides: Partial<ChatSessionSummary>): ChatSessionSummary => ({
+  id: 's',
+  pinned: false,
+  preview: '',
+  messageCount: 0,
+  ...overrides,
+});
+
+describe('memoryEventsToChatMessages', () => {
+  it('rebuilds the transcript with tool calls and delegations as progress steps', () => {
+    const messages = memoryEventsToChatMessages(events.filter((e) => e.session_id === 's1'));
+
+    expect(messages.map((m) => [m.role, m.content])).toEqual([
+      ['user', 'What is the weather?'],
+      ['assistant', 'It is sunny.'],
+      ['user', 'Thanks'],
+      ['assistant', 'You are welcome.'],
+    ]);
+    expect(messages[1].progressSteps).toEqual([
+      { type: 'progress', step: 1, max_steps: 2, action: 'tool_call', target: 'weather', completed: true },
+      { type: 'progress', step: 2, max_steps: 2, action: 'delegate', target: 'writer', completed: true },
+    ]);
+    expect(messages[3].progressSteps).toBeUndefined();
+    expect(messages[0].timestamp).toEqual(new Date('2026-01-01T10:00:00Z'));
+  });
+});
+
+describe('summarizeSessions', () => {
+  it('summarizes memory sessions and local-only snapshots', () => {
+    const local: LocalChatSessions = {
+      s1: { title: 'Weather', pinned: true },
+      s3: {
+        messages: [{ id: 'm1', role: 'user', content: 'Offline chat', timestamp: new Date('2026-01-03T08:00:00Z') }],
+        updatedAt: '2026-01-03T08:00:05Z',
+      },
+    };
+
+    const sessions = summarizeSessions(['s1', 's2', 'empty'], events, local);
+    const byId = Object.fromEntries(sessions.map((s) => [s.id, s]));
+
+    expect(byId.s1).toEqual({
+      id: 's1',
+      title: 'Weather',
+      pinned: true,
+      preview: 'What is the weather?',
+      startedAt: '2026-01-01T10:00:00Z',
+      lastActivity: '2026-01-01T10:01:01Z',
+      messageCount: 4,
+    });
+    expect(byId.s2.messageCount).toBe(1);
+    expect(byId.empty).toMatchObject({ preview: '', messageCount: 0 });
+    expect(byId.s3).toMatchObject({ preview: 'Offline chat', lastActivity: '2026-01-03T08:00:05Z', messageCount: 1 });
+  });
+});
+
+describe('sortSessions / searchSessions', () => {
+  const sessions = [
+    summary({ id: 'old', lastActivity: '2026-01-01T00:00:00Z', preview: 'deploy the app' }),
+    summary({ id: 'new', lastActivity: '2026-01-05T00:00:00Z', preview: 'weather' }),
+    summary({ id: 'pinned', pinned: true, lastActivity: '2025-12-01T00:00:00Z', title: 'Runbook' }),
+  ];
+
+  it('puts pinned sessions first, then the most recent', () => {
+    expect(sortSessions(sessions).map((s) => s.id)).toEqual(['pinned', 'new', 'old']);
+  });
+
+  it('matches the query against id, title and preview', () => {
+    expect(searchSessions(sessions, 'DEPLOY').map((s) => s.id)).toEqual(['old']);
+    expect(searchSessions(sessions, 'runbook').map((s) => s.id)).toEqual(['pinned']);
+    expect(searchSessions(sessions, '  ')).toHaveLength(3);
+  });
+});
+
+describe('local sessions', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('round-trips titles, pins and messages with revived timestamps', () => {
+    const timestamp = new Date('2026-01-01T10:00:00Z');
+    saveLocalSessions('default', 'a', {
+      s1: { title: 'T', pinned: true, messages: [{ id: 'm', role: 'user', content: 'hi', timestamp }], updatedAt: '2026-01-01T10:00:00Z' },
+    });
+
+    const loaded = loadLocalSessions('default', 'a');
+    expect(loaded.s1.title).toBe('T');
+    expect(loaded.s1.messages?.[0].timestamp).toEqual(timestamp);
+    expect(loadLocalSessions('default', 'b')).toEqual({});
+  });
+
+  it('keeps message snapshots only for the most recent sessions', () => {
+    const sessions: LocalChatSessions = {};
+    for (let i = 0; i < 25; i++) {
+      sessions[`s${i}`] = {
+        pinned: true,
+        messages: [{ id: 'm', role: 'user', content: `${i}`, timestamp: new Date() }],
+        updatedAt: new Date(Date.UTC(2026, 0, 1, 0, i)).toISOString(),
+      };
+    }
+    saveLocalSessions('default', 'a', sessions);
+
+    const loaded = loadLocalSessions('default', 'a');
+    expect(Object.keys(loaded)).toHaveLength(25);
+    expect(loaded.s24.messages).toHaveLength(1);
+    expect(loaded.s4.messages).toBeUndefined();
+    expect(loaded.s4.pinned).toBe(true);
+  });
+});
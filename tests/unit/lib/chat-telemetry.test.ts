@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { formatDuration, getTimedSteps, getTokensPerSecond, summarizeChatTelemetry } from '@/lib/chat-telemetry';
+import type { ChatMessage } from '@/hooks/useAgentChat';
+
+const reply = (overrides: Partial<ChatMessage>): ChatMessage => ({
+  id: Math.random().toString(36),
+  role: 'assistant',
+  content: 'ok',
+  timestamp: new Date(),
+  ...overrides,
+});
+
+const messages: ChatMessage[] = [
+  { id: 'u1', role: 'user', content: 'hi', timestamp: new Date() },
+  reply({
+    progressSteps: [
+      { type: 'progress', step: 1, max_steps: 2, action: 'tool_call', target: 'search', completed: true },
+      { type: 'progress', step: 2, max_steps: 2, action: 'delegate', target: 'writer', completed: true },
+    ],
+    telemetry: {
+      firstTokenMs: 7000,
+      durationMs: 9000,
+      usage: { promptTokens: 100, completionTokens: 40, totalTokens: 140 },
+      steps: [{ startMs: 100, durationMs: 6000 }, { startMs: 6100, durationMs: 900 }],
+    },
+  }),
+  reply({ telemetry: { firstTokenMs: 1000, durationMs: 3000, usage: { promptTokens: 50, completionTokens: 10 }, steps: [] } }),
+  // Restored from memory, without telemetry
+  reply({}),
+];
+
+describe('chat telemetry', () => {
+  it('formats durations', () => {
+    expect(formatDuration(undefined)).toBe('–');
+    expect(formatDuration(250)).toBe('250ms');
+    expect(formatDuration(1234)).toBe('1.23s');
+    expect(formatDuration(61234)).toBe('61.2s');
+  });
+
+  it('pairs progress steps with their durations', () => {
+    expect(getTimedSteps(messages[1].progressSteps, messages[1].telemetry)).toEqual([
+      { target: 'search', action: 'tool_call', durationMs: 6000 },
+      { target: 'writer', action: 'delegate', durationMs: 900 },
+    ]);
+    expect(getTimedSteps(messages[1].progressSteps)[0].durationMs).toBeUndefined();
+  });
+
+  it('computes output speed from completion tokens', () => {
+    expect(getTokensPerSecond(messages[1].telemetry)).toBe(20);
+    expect(getTokensPerSecond(messages[3].telemetry)).toBeUndefined();
+  });
+
+  it('summarizes the measured replies of a session', () => {
+    expect(summarizeChatTelemetry(messages)).toEqual({
+      replies: 2,
+      avgDurationMs: 6000,
+      avgFirstTokenMs: 4000,
+      promptTokens: 150,
+      completionTokens: 50,
+      totalTokens: 200,
+      toolCalls: 1,
+      delegations: 1,
+      slowestStep: { target: 'search', action: 'tool_call', durationMs: 6000 },
+    });
+    expect(summarizeChatTelemetry([]).replies).toBe(0);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createTranscript,
+  formatTranscript,
+  getReplayTurns,
+  parseTranscriptImport,
+  transcriptFilename,
+  transcriptToHtml,
+  transcriptToMarkdown,
+} from '@/lib/chat-transcript';
+import type { ChatMessage } from '@/hooks/useAgentChat';
+import type { Agent } from '@/types/kubernetes';
+
+const agent: Agent = {
+  apiVersion: 'kaos.tools/v1alpha1',
+  kind: 'Agent',
+  metadata: { name: 'helper', namespace: 'team-a' },
+  spec: { modelAPI: 'ollama', model: 'ollama/smollm2:135m' },
+};
+
+const messages: ChatMessage[] = [
+  { id: '1', role: 'user', content: 'Show <b>bold</b>', timestamp: new Date('2026-01-01T10:00:00Z') },
+  {
+    id: '2',
+    role: 'assistant',
+    content: 'Done & dusted',
+    timestamp: new Date('2026-01-01T10:00:05Z'),
+    progressSteps: [{ type: 'progress', step: 1, max_steps: 1, action: 'tool_call', target: 'echo', completed: true }],
+  },
+  { id: '3', role: 'user', content: 'Again', timestamp: new Date('2026-01-01T10:01:00Z') },
+  { id: '4', role: 'assistant', content: '', timestamp: new Date('2026-01-01T10:01:01Z'), isStreaming: true },
+];
+
+const transcript = createTranscript({ agent, messages, sessionId: 'session-1', seed: 42, temperature: 0.7 });
+
+describe('createTranscript', () => {
+  it('captures metadata, the agent spec and finished messages', () => {
+    expect(transcript).toMatchObject({
+      version: 1,
+      agent: { name: 'helper', namespace: 'team-a', spec: agent.spec },
+      sessionId: 'session-1',
+      model: 'ollama/smollm2:135m',
+      seed: 42,
+      temperature: 0.7,
+    });
+    expect(transcript.messages).toHaveLength(3);
+    expect(transcript.messages[0].timestamp).toBe('2026-01-01T10:00:00.000Z');
+    expect(transcript.messages[1].progressSteps?.[0].target).toBe('echo');
+    expect(transcript.messages[0]).not.toHaveProperty('progressSteps');
+  });
+});
+
+describe('formats', () => {
+  it('renders Markdown with metadata and steps', () => {
+    const markdown = transcriptToMarkdown(transcript);
+    expect(markdown).toContain('# Conversation with helper');
+    expect(markdown).toContain('- **Seed:** `42`');
+    expect(markdown).toContain('> 1. Tool call echo');
+    expect(markdown).toContain('## Assistant (2026-01-01T10:00:05.000Z)');
+  });
+
+  it('renders self-contained HTML with escaped content', () => {
+    const html = transcriptToHtml(transcript);
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('Show &lt;b&gt;bold&lt;/b&gt;');
+    expect(html).toContain('Done &amp; dusted');
+    expect(html).not.toContain('<b>bold</b>');
+    expect(html).not.toMatch(/<(script|link)\b/);
+  });
+
+  it('round-trips JSON through the importer', () => {
+    const parsed = parseTranscriptImport(formatTranscript(transcript, 'json'));
+    expect(parsed).toEqual(transcript);
+    expect(getReplayTurns(parsed)).toEqual(['Show <b>bold</b>', 'Again']);
+  });
+
+  it('names files after the agent and session', () => {
+    expect(transcriptFilename(transcript, 'markdown')).toBe('helper-session-1.md');
+  });
+});
+
+describe('parseTranscriptImport', () => {
+  it.each([
+    ['not json', 'Invalid JSON'],
+    ['{}', 'Expected a "messages" array'],
+    ['{"messages":[{"role":"tool","content":"x"}]}', 'Message 1: "role" must be "user", "assistant" or "system"'],
+    ['{"messages":[{"role":"user","content":1}]}', 'Message 1: "content" must be a string'],
+    ['{"messages":[{"role":"assistant","content":"x"}]}', 'Transcript has no user messages to replay'],
+    ['{"messages":[{"role":"user","content":"x"}],"seed":"1"}', '"seed" must be a number'],
+  ])('rejects %s', (text, message) => {
+    expect(() => parseTranscriptImport(text)).toThrow(message);
+  });
+});
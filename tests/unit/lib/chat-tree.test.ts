@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addMessages,
+  createChatTree,
+  getActiveMessages,
+  getBranchInfo,
+  getBranchSessionId,
+  getPathTo,
+  switchBranch,
+  updateMessage,
+} from '@/lib/chat-tree';
+import type { ChatMessage } from '@/hooks/useAgentChat';
+
+const msg = (id: string, role: ChatMessage['role'] = 'user'): ChatMessage => ({
+  id, role, content: id, timestamp: new Date('2026-01-01T00:00:00Z'),
+});
+
+const ids = (messages: ChatMessage[]) => messages.map((m) => m.id);
+
+describe('chat tree', () => {
+  const linear = createChatTree([msg('u1'), msg('a1', 'assistant'), msg('u2'), msg('a2', 'assistant')]);
+
+  it('builds a linear conversation from messages', () => {
+    expect(ids(getActiveMessages(linear))).toEqual(['u1', 'a1', 'u2', 'a2']);
+    expect(getBranchInfo(linear, 'u2')).toEqual({ index: 0, count: 1 });
+    expect(ids(getActiveMessages(createChatTree()))).toEqual([]);
+  });
+
+  it('adds an edited question as a selected sibling branch', () => {
+    const tree = addMessages(linear, 'a1', [msg('u2b'), msg('a2b', 'assistant')]);
+
+    expect(ids(getActiveMessages(tree))).toEqual(['u1', 'a1', 'u2b', 'a2b']);
+    expect(getBranchInfo(tree, 'u2b')).toEqual({ index: 1, count: 2 });
+    expect(getBranchInfo(tree, 'u2')).toEqual({ index: 0, count: 2 });
+  });
+
+  it('switches between sibling branches, keeping each branch selection', () => {
+    let tree = addMessages(linear, 'a1', [msg('u2b'), msg('a2b', 'assistant')]);
+    tree = addMessages(tree, 'u2b', [msg('a2c', 'assistant')]);
+
+    tree = switchBranch(tree, 'u2b', -1);
+    expect(ids(getActiveMessages(tree))).toEqual(['u1', 'a1', 'u2', 'a2']);
+
+    tree = switchBranch(tree, 'u2', 1);
+    expect(ids(getActiveMessages(tree))).toEqual(['u1', 'a1', 'u2b', 'a2c']);
+    expect(switchBranch(tree, 'u2b', 1)).toBe(tree);
+  });
+
+  it('updates a message without touching the structure', () => {
+    const tree = updateMessage(linear, 'a2', (m) => ({ ...m, content: 'changed' }));
+    expect(getActiveMessages(tree)[3].content).toBe('changed');
+    expect(getActiveMessages(linear)[3].content).toBe('a2');
+    expect(updateMessage(linear, 'missing', (m) => m)).toBe(linear);
+  });
+
+  it('finds the path to a message and the forked session of a branch', () => {
+    const tree = addMessages(linear, 'a1', [msg('u2b'), msg('a2b', 'assistant')], 'sess-branch-1');
+
+    expect(getPathTo(tree, 'a2b').map((n) => n.message.id)).toEqual(['u1', 'a1', 'u2b', 'a2b']);
+    expect(getPathTo(tree, null)).toEqual([]);
+    expect(getBranchSessionId(getPathTo(tree, 'a2b'))).toBe('sess-branch-1');
+    expect(getBranchSessionId(getPathTo(tree, 'a2'))).toBeUndefined();
+  });
+});
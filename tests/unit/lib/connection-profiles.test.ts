@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createProfile,
+  loadProfiles,
+  getActiveProfileId,
+  exportProfiles,
+  parseProfilesImport,
+  mergeProfiles,
+  saveProfiles,
+  loadStoredAuth,
+  saveStoredAuth,
+  setRememberCredentials,
+} from '@/lib/connection-profiles';
+
+describe('connection profiles', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  it('creates profiles with normalized URL and defaults', () => {
+    const profile = createProfile({ name: ' dev ', baseUrl: 'http://dev:8010/' });
+    expect(profile.name).toBe('dev');
+    expect(profile.baseUrl).toBe('http://dev:8010');
+    expect(profile.namespace).toBe('default');
+    expect(profile.systemNamespace).toBe('kaos-system');
+    expect(profile.color).toBe('slate');
+    expect(profile.id).toMatch(/^profile-/);
+  });
+
+  it('migrates the legacy single k8s-config into an active Default profile', () => {
+    localStorage.setItem('k8s-config', JSON.stringify({ baseUrl: 'http://legacy:8010', namespace: 'team-a' }));
+    localStorage.setItem('kaos-system-namespace', 'kaos-ops');
+
+    const profiles = loadProfiles();
+
+    expect(profiles).toHaveLength(1);
+    expect(profiles[0]).toMatchObject({
+      name: 'Default',
+      baseUrl: 'http://legacy:8010',
+      namespace: 'team-a',
+      systemNamespace: 'kaos-ops',
+    });
+    expect(getActiveProfileId()).toBe(profiles[0].id);
+    // Subsequent loads read the saved list rather than migrating again
+    expect(loadProfiles()).toEqual(profiles);
+  });
+
+  it('omits auth headers from exports unless requested', () => {
+    const profile = createProfile({ name: 'prod', baseUrl: 'https://prod', authHeader: 'Bearer secret' });
+
+    const withoutAuth = JSON.parse(exportProfiles([profile]));
+    expect(withoutAuth.version).toBe(1);
+    expect(withoutAuth.profiles[0].authHeader).toBeUndefined();
+    expect(withoutAuth.profiles[0].id).toBeUndefined();
+
+    const withAuth = JSON.parse(exportProfiles([profile], true));
+    expect(withAuth.profiles[0].authHeader).toBe('Bearer secret');
+  });
+
+  it('round-trips exported profiles through import', () => {
+    const original = [
+      createProfile({ name: 'dev', baseUrl: 'http://dev', namespace: 'dev-ns', color: 'green' }),
+      createProfile({ name: 'prod', baseUrl: 'https://prod', systemNamespace: 'kaos' }),
+    ];
+
+    const imported = parseProfilesImport(exportProfiles(original));
+
+    const withoutId = ({ name, baseUrl, namespace, systemNamespace, color }: typeof original[number]) =>
+      ({ name, baseUrl, namespace, systemNamespace, color });
+    expect(imported.map(withoutId)).toEqual(original.map(withoutId));
+  });
+
+  it('rejects invalid import documents', () => {
+    expect(() => parseProfilesImport('not json')).toThrow('Invalid JSON');
+    expect(() => parseProfilesImport('{"foo": 1}')).toThrow('"profiles" array');
+    expect(() => parseProfilesImport('[{"name": "x", "baseUrl": "ftp://x"}]')).toThrow('http(s) URL');
+    expect(() => parseProfilesImport('[{"baseUrl": "http://x"}]')).toThrow('"name" is required');
+  });
+
+  it('merges imports by name, keeping existing ids', () => {
+    const existing = [createProfile({ name: 'dev', baseUrl: 'http://old-dev' })];
+    const imported = [
+      createProfile({ name: 'dev', baseUrl: 'http://new-dev' }),
+      createProfile({ name: 'prod', baseUrl: 'https://prod' }),
+    ];
+
+    const merged = mergeProfiles(existing, imported);
+
+    expect(merged).toHaveLength(2);
+    expect(merged[0].id).toBe(existing[0].id);
+    expect(merged[0].baseUrl).toBe('http://new-dev');
+    expect(merged[1].name).toBe('prod');
+  });
+
+  it('keeps credentials out of localStorage unless remembering is opted in', () => {
+    const profile = createProfile({ name: 'prod', baseUrl: 'http://prod:8010', auth: { type: 'token', token: 'secret-token' } });
+    saveProfiles([profile]);
+    saveStoredAuth('http://other:8010', { type: 'token', token: 'other-token' });
+
+    expect(JSON.stringify(localStorage)).not.toContain('token');
+    expect(loadProfiles()[0].auth).toEqual({ type: 'token', token: 'secret-token' });
+    expect(loadStoredAuth('http://other:8010')).toEqual({ type: 'token', token: 'other-token' });
+
+    setRememberCredentials(true);
+    sessionStorage.clear();
+    expect(loadProfiles()[0].auth).toEqual({ type: 'token', token: 'secret-token' });
+    expect(loadStoredAuth('http://other:8010')).toEqual({ type: 'token', token: 'other-token' });
+
+    setRememberCredentials(false);
+    expect(JSON.stringify(localStorage)).not.toContain('token');
+    expect(loadProfiles()[0].auth).toEqual({ type: 'token', token: 'secret-token' });
+  });
+
+  it('moves credentials saved before the opt-in into sessionStorage', () => {
+    const profile = createProfile({ name: 'prod', baseUrl: 'http://prod:8010', authHeader: 'Bearer legacy' });
+    localStorage.setItem('k8s-connection-profiles', JSON.stringify([profile]));
+
+    expect(loadProfiles()[0].authHeader).toBe('Bearer legacy');
+    expect(localStorage.getItem('k8s-connection-profiles')).not.toContain('legacy');
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { diagnoseCrash, findPodOwner, getContainerTermination, isCrashing } from '@/lib/crash-diagnosis';
+import type { StackInventory } from '@/lib/stack-export';
+import type { Agent, ContainerState, MCPServer, ModelAPI, Pod } from '@/types/kubernetes';
+
+const meta = (name: string) => ({ name, namespace: 'default' });
+
+const modelAPI: ModelAPI = {
+  apiVersion: 'kaos.tools/v1alpha1', kind: 'ModelAPI', metadata: meta('llm'),
+  spec: { mode: 'Proxy', proxyConfig: { models: ['*'] } }, status: { ready: false },
+};
+const agent: Agent = {
+  apiVersion: 'kaos.tools/v1alpha1', kind: 'Agent', metadata: meta('chat'),
+  spec: { modelAPI: 'llm', model: 'openai/gpt-4o' },
+};
+const mcpServer: MCPServer = {
+  apiVersion: 'kaos.tools/v1alpha1', kind: 'MCPServer', metadata: meta('tools'),
+  spec: { runtime: 'python-string', params: 'def add(a, b): return a + b' },
+};
+const inventory: StackInventory = { agents: [agent], modelAPIs: [modelAPI], mcpServers: [mcpServer] };
+
+function pod(name: string, state: ContainerState, lastState?: ContainerState): Pod {
+  return {
+    apiVersion: 'v1', kind: 'Pod', metadata: meta(name),
+    spec: { containers: [{ name: 'main', image: 'x' }] },
+    status: { phase: 'Running', containerStatuses: [{ name: 'main', ready: false, restartCount: 3, state, lastState }] },
+  };
+}
+
+const crashLoop: ContainerState = { waiting: { reason: 'CrashLoopBackOff' } };
+
+function diagnose(p: Pod, logs = '') {
+  return diagnoseCrash(p, getContainerTermination(p, 'main')!, logs, inventory);
+}
+
+describe('getContainerTermination', () => {
+  it('prefers the previous run and flags crash loops', () => {
+    const p = pod('agent-chat-abc', crashLoop, { terminated: { exitCode: 1, reason: 'Error' } });
+    const termination = getContainerTermination(p, 'main')!;
+
+    expect(termination).toMatchObject({ previous: true, waitingReason: 'CrashLoopBackOff', terminated: { exitCode: 1 } });
+    expect(isCrashing(termination)).toBe(true);
+  });
+
+  it('ignores healthy containers', () => {
+    const p = pod('agent-chat-abc', { running: {} });
+    expect(isCrashing(getContainerTermination(p, 'main')!)).toBe(false);
+  });
+});
+
+describe('findPodOwner', () => {
+  it('finds the owning resource by pod name', () => {
+    expect(findPodOwner(pod('mcpserver-tools-0', crashLoop), inventory)?.kind).toBe('MCPServer');
+    expect(findPodOwner(pod('unrelated', crashLoop), inventory)).toBeUndefined();
+  });
+});
+
+describe('diagnoseCrash', () => {
+  it('recognises OOMKilled', () => {
+    const [diagnosis] = diagnose(pod('modelapi-llm-abc', crashLoop, { terminated: { exitCode: 137, reason: 'OOMKilled' } }));
+    expect(diagnosis).toMatchObject({ cause: 'oom-killed', fix: { kind: 'ModelAPI', name: 'llm' } });
+  });
+
+  it('recognises missing Secrets and API keys', () => {
+    const missing = pod('modelapi-llm-abc', { waiting: { reason: 'CreateContainerConfigError', message: 'secret "openai-key" not found' } });
+    expect(diagnose(missing)[0]).toMatchObject({ cause: 'missing-secret', title: 'Missing Secret' });
+
+    const rejected = pod('modelapi-llm-abc', crashLoop, { terminated: { exitCode: 1 } });
+    const [diagnosis] = diagnose(rejected, 'INFO starting\nlitellm.AuthenticationError: Incorrect API key provided\n');
+    expect(diagnosis).toMatchObject({
+      cause: 'missing-secret',
+      evidence: 'litellm.AuthenticationError: Incorrect API key provided',
+      fix: { kind: 'ModelAPI', name: 'llm' },
+    });
+  });
+
+  it('points unreachable ModelAPIs at the ModelAPI', () => {
+    const p = pod('agent-chat-abc', crashLoop, { terminated: { exitCode: 1 } });
+    const [diagnosis] = diagnose(p, 'httpx.ConnectError: [Errno 111] Connection refused');
+
+    expect(diagnosis.cause).toBe('modelapi-unreachable');
+    expect(diagnosis.detail).toContain('not ready');
+    expect(diagnosis.fix).toMatchObject({ kind: 'ModelAPI', name: 'llm' });
+  });
+
+  it('recognises errors in inline MCP tool code', () => {
+    const p = pod('mcpserver-tools-0', crashLoop, { terminated: { exitCode: 1 } });
+    const logs = 'Traceback (most recent call last):\n  File "<string>", line 1\nSyntaxError: invalid syntax';
+
+    expect(diagnose(p, logs)[0]).toMatchObject({
+      cause: 'mcp-code-error',
+      evidence: 'SyntaxError: invalid syntax',
+      fix: { kind: 'MCPServer', name: 'tools' },
+    });
+  });
+
+  it('returns nothing for unknown failures', () => {
+    expect(diagnose(pod('agent-chat-abc', crashLoop, { terminated: { exitCode: 2 } }), 'exiting')).toEqual([]);
+  });
+});
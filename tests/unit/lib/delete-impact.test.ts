@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  computeDeleteImpact,
+  detachReference,
+  executeDeletePlan,
+  planDelete,
+  type DeleteInventory,
+  type DeletePlanOps,
+} from '@/lib/delete-impact';
+import type { Agent, K8sSecret, MCPServer, ModelAPI } from '@/types/kubernetes';
+
+const secretRef = (name: string) => ({ valueFrom: { secretKeyRef: { name, key: 'API_KEY' } } });
+
+const llm: ModelAPI = {
+  apiVersion: 'kaos.tools/v1alpha1',
+  kind: 'ModelAPI',
+  metadata: { name: 'llm', namespace: 'team' },
+  spec: { mode: 'Proxy', proxyConfig: { models: ['*'], apiKey: secretRef('llm-key') } },
+};
+
+const search: MCPServer = {
+  apiVersion: 'kaos.tools/v1alpha1',
+  kind: 'MCPServer',
+  metadata: { name: 'search', namespace: 'team' },
+  spec: { runtime: 'rawpython' },
+};
+
+function agent(name: string, spec: Partial<Agent['spec']> = {}): Agent {
+  return {
+    apiVersion: 'kaos.tools/v1alpha1',
+    kind: 'Agent',
+    metadata: { name, namespace: 'team', resourceVersion: '1' },
+    spec: { modelAPI: 'llm', model: 'gpt-4o', ...spec },
+  };
+}
+
+function secret(name: string): K8sSecret {
+  return { apiVersion: 'v1', kind: 'Secret', metadata: { name }, type: 'Opaque', dataKeys: ['API_KEY'] };
+}
+
+const worker = agent('worker', { mcpServers: ['search', 'web'] });
+const coordinator = agent('coordinator', { agentNetwork: { access: ['worker'] } });
+const other = agent('other', { modelAPI: 'local' });
+
+const inventory: DeleteInventory = {
+  agents: [worker, coordinator, other],
+  modelAPIs: [llm],
+  mcpServers: [search],
+  secrets: [secret('llm-key')],
+};
+
+describe('computeDeleteImpact', () => {
+  it('lists the Agents referencing an MCPServer and the field they use', () => {
+    const impact = computeDeleteImpact(search, inventory);
+
+    expect(impact.dependents.map((d) => [d.agent.metadata.name, d.fields])).toEqual([['worker', ['spec.mcpServers']]]);
+    expect(impact.detachBlockedReason).toBeUndefined();
+  });
+
+  it('follows peer access for the cascade', () => {
+    const impact = computeDeleteImpact(search, inventory);
+
+    expect(impact.cascade.map((a) => a.metadata.name)).toEqual(['worker', 'coordinator']);
+  });
+
+  it('blocks detaching a ModelAPI and reports the Secrets only the stack uses', () => {
+    const impact = computeDeleteImpact(llm, inventory);
+
+    expect(impact.dependents.map((d) => d.agent.metadata.name)).toEqual(['worker', 'coordinator']);
+    expect(impact.detachBlockedReason).toMatch(/require a ModelAPI/);
+    expect(impact.secrets).toEqual([{ name: 'llm-key', usedBy: [] }]);
+  });
+
+  it('keeps Secrets that surviving resources still use', () => {
+    const shared = agent('shared', { modelAPI: 'local', container: { env: [{ name: 'KEY', ...secretRef('llm-key') }] } });
+    const impact = computeDeleteImpact(llm, { ...inventory, agents: [...inventory.agents, shared] });
+
+    expect(impact.secrets).toEqual([{ name: 'llm-key', usedBy: ['Agent/shared'] }]);
+  });
+});
+
+describe('detachReference', () => {
+  it('removes the MCPServer or peer without touching the original', () => {
+    expect(detachReference(worker, search).spec.mcpServers).toEqual(['web']);
+    expect(detachReference(coordinator, worker).spec.agentNetwork?.access).toEqual([]);
+    expect(worker.spec.mcpServers).toEqual(['search', 'web']);
+  });
+});
+
+describe('planDelete', () => {
+  it('detaches dependents before deleting the target', () => {
+    const steps = planDelete(search, computeDeleteImpact(search, inventory), 'detach');
+
+    expect(steps.map((step) => step.action === 'detach' ? `detach ${step.original.metadata.name}` : `delete ${step.kind}/${step.name}`))
+      .toEqual(['detach worker', 'delete MCPServer/search']);
+  });
+
+  it('cascades to dependents and keeps Secrets unless opted in', () => {
+    expect(planDelete(llm, computeDeleteImpact(llm, inventory), 'cascade').map((step) => step.action === 'delete' && step.kind))
+      .toEqual(['Agent', 'Agent', 'ModelAPI']);
+  });
+
+  it('cascades to dependents and opted-in unused Secrets', () => {
+    const steps = planDelete(llm, computeDeleteImpact(llm, inventory), 'cascade', ['llm-key']);
+
+    expect(steps).toEqual([
+      { action: 'delete', kind: 'Agent', name: 'worker', namespace: 'team' },
+      { action: 'delete', kind: 'Agent', name: 'coordinator', namespace: 'team' },
+      { action: 'delete', kind: 'ModelAPI', name: 'llm', namespace: 'team' },
+      { action: 'delete', kind: 'Secret', name: 'llm-key', namespace: 'team' },
+    ]);
+  });
+});
+
+describe('executeDeletePlan', () => {
+  const twoDependents: DeleteInventory = { ...inventory, agents: [worker, agent('helper', { mcpServers: ['search'] })] };
+
+  it('reports each step and succeeds', async () => {
+    const ops: DeletePlanOps = { updateAgent: vi.fn(async (a: Agent) => a), deleteResource: vi.fn(async () => {}) };
+    const onStep = vi.fn();
+    const steps = planDelete(search, computeDeleteImpact(search, twoDependents), 'detach');
+
+    await expect(executeDeletePlan(steps, ops, onStep)).resolves.toBe(true);
+    expect(ops.deleteResource).toHaveBeenCalledWith('MCPServer', 'search', 'team');
+    expect(onStep.mock.calls.filter(([, status]) => status === 'done')).toHaveLength(3);
+  });
+
+  it('rolls back detach edits with the latest resourceVersion when the delete fails', async () => {
+    const updateAgent = vi.fn(async (a: Agent) => ({ ...a, metadata: { ...a.metadata, resourceVersion: '2' } }));
+    const ops: DeletePlanOps = { updateAgent, deleteResource: vi.fn(async () => { throw new Error('forbidden'); }) };
+    const onStep = vi.fn();
+    const steps = planDelete(search, computeDeleteImpact(search, twoDependents), 'detach');
+
+    await expect(executeDeletePlan(steps, ops, onStep)).resolves.toBe(false);
+
+    const rollbacks = updateAgent.mock.calls.slice(2);
+    expect(rollbacks.map(([updated]) => updated.metadata.name)).toEqual(['helper', 'worker']);
+    expect(rollbacks[1][0].spec.mcpServers).toEqual(['search', 'web']);
+    expect(rollbacks[1][1].metadata.resourceVersion).toBe('2');
+    expect(onStep).toHaveBeenCalledWith(2, 'failed', 'forbidden');
+    expect(onStep).toHaveBeenCalledWith(0, 'rolled-back');
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { lintAgent, lintNamespace, modelAPIModels, modelMatches, type LintInventory } from '@/lib/dependency-lint';
+import type { Agent, K8sSecret, MCPServer, ModelAPI } from '@/types/kubernetes';
+
+const proxy: ModelAPI = {
+  apiVersion: 'kaos.tools/v1alpha1',
+  kind: 'ModelAPI',
+  metadata: { name: 'llm' },
+  spec: {
+    mode: 'Proxy',
+    proxyConfig: {
+      models: ['openai/*', 'anthropic/claude-sonnet'],
+      apiKey: { valueFrom: { secretKeyRef: { name: 'llm-key', key: 'API_KEY' } } },
+    },
+  },
+};
+
+const search: MCPServer = {
+  apiVersion: 'kaos.tools/v1alpha1',
+  kind: 'MCPServer',
+  metadata: { name: 'search' },
+  spec: { runtime: 'rawpython' },
+};
+
+const privateAgent: Agent = {
+  apiVersion: 'kaos.tools/v1alpha1',
+  kind: 'Agent',
+  metadata: { name: 'private' },
+  spec: { modelAPI: 'llm', model: 'openai/gpt-4o', agentNetwork: { expose: false } },
+};
+
+const secret: K8sSecret = {
+  apiVersion: 'v1',
+  kind: 'Secret',
+  metadata: { name: 'llm-key' },
+  type: 'Opaque',
+  dataKeys: ['API_KEY'],
+};
+
+function agent(spec: Partial<Agent['spec']>): Agent {
+  return {
+    apiVersion: 'kaos.tools/v1alpha1',
+    kind: 'Agent',
+    metadata: { name: 'worker' },
+    spec: { modelAPI: 'llm', model: 'openai/gpt-4o', ...spec },
+  };
+}
+
+const inventory: LintInventory = {
+  agents: [privateAgent],
+  modelAPIs: [proxy],
+  mcpServers: [search],
+  secrets: [secret],
+};
+
+describe('modelMatches', () => {
+  it('supports exact names, prefix wildcards and "*"', () => {
+    expect(modelMatches('openai/gpt-4o', ['openai/*'])).toBe(true);
+    expect(modelMatches('anthropic/claude-haiku', ['openai/*', 'anthropic/claude-sonnet'])).toBe(false);
+    expect(modelMatches('anything', ['*'])).toBe(true);
+  });
+});
+
+describe('modelAPIModels', () => {
+  it('prefers the models the ModelAPI reports in its status', () => {
+    expect(modelAPIModels({ ...proxy, status: { supportedModels: ['openai/gpt-4o-mini'] } })).toEqual(['openai/gpt-4o-mini']);
+  });
+
+  it('adds the provider prefix and the ollama/ form of hosted models', () => {
+    expect(modelAPIModels({ ...proxy, spec: { mode: 'Proxy', proxyConfig: { models: ['gpt-4o'], provider: 'openai' } } }))
+      .toEqual(['gpt-4o', 'openai/gpt-4o']);
+    expect(modelAPIModels({ ...proxy, spec: { mode: 'Hosted', hostedConfig: { model: 'smollm2:135m' } } }))
+      .toEqual(['smollm2:135m', 'ollama/smollm2:135m']);
+  });
+});
+
+describe('lintAgent', () => {
+  it('accepts an Agent whose references all resolve', () => {
+    expect(lintAgent(agent({ mcpServers: ['search'] }), inventory)).toEqual([]);
+  });
+
+  it('reports missing ModelAPIs, MCPServers and peers', () => {
+    const issues = lintAgent(agent({ modelAPI: 'gone', mcpServers: ['search', 'web'], agentNetwork: { access: ['nobody'] } }), inventory);
+
+    expect(issues.map((issue) => [issue.code, issue.target?.name])).toEqual([
+      ['missing-modelapi', 'gone'],
+      ['missing-mcpserver', 'web'],
+      ['missing-peer', 'nobody'],
+    ]);
+  });
+
+  it('reports models the ModelAPI does not serve, as errors only once status confirms it', () => {
+    const [declared] = lintAgent(agent({ model: 'gemini/pro' }), inventory);
+    expect(declared).toMatchObject({ code: 'unsupported-model', severity: 'warning', field: 'spec.model' });
+
+    const withStatus = { ...inventory, modelAPIs: [{ ...proxy, status: { supportedModels: ['openai/gpt-4o'] } }] };
+    const [reported] = lintAgent(agent({ model: 'gemini/pro' }), withStatus);
+    expect(reported).toMatchObject({ code: 'unsupported-model', severity: 'error' });
+  });
+
+  it('reports peers that are not exposed', () => {
+    const issues = lintAgent(agent({ agentNetwork: { access: ['private'] } }), inventory);
+
+    expect(issues).toEqual([expect.objectContaining({ code: 'peer-not-exposed', target: { kind: 'Agent', name: 'private' } })]);
+  });
+
+  it('reports env secretKeyRefs to missing Secrets and keys', () => {
+    const issues = lintAgent(agent({
+      container: {
+        env: [
+          { name: 'A', valueFrom: { secretKeyRef: { name: 'llm-key', key: 'OTHER' } } },
+          { name: 'B', valueFrom: { secretKeyRef: { name: 'missing', key: 'TOKEN' } } },
+        ],
+      },
+    }), inventory);
+
+    expect(issues.map((issue) => [issue.code, issue.message])).toEqual([
+      ['missing-secret-key', 'Secret "llm-key" has no key "OTHER"'],
+      ['missing-secret', 'Secret "missing" does not exist'],
+    ]);
+  });
+});
+
+describe('lintNamespace', () => {
+  it('checks Agents and the Secret references of ModelAPIs and MCPServers', () => {
+    const issues = lintNamespace({ ...inventory, agents: [agent({ mcpServers: ['web'] })], secrets: [] });
+
+    expect(issues.map((issue) => `${issue.resource.kind}/${issue.resource.name}: ${issue.code}`)).toEqual([
+      'Agent/worker: missing-mcpserver',
+      'ModelAPI/llm: missing-secret',
+    ]);
+  });
+});
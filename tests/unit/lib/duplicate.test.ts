@@ -0,0 +1,168 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  cloneResource,
+  executeClonePlan,
+  findNameConflicts,
+  mergeSpec,
+  planDependencyClones,
+  renameKey,
+  rewriteAgentReferences,
+  suggestCopyName,
+} from '@/lib/duplicate';
+import type { Agent, MCPServer, ModelAPI } from '@/types/kubernetes';
+
+const modelAPI: ModelAPI = {
+  apiVersion: 'kaos.tools/v1alpha1',
+  kind: 'ModelAPI',
+  metadata: { name: 'llm', namespace: 'dev', resourceVersion: '5', uid: 'a' },
+  spec: { mode: 'Proxy', proxyConfig: { models: ['*'] } },
+};
+
+const search: MCPServer = {
+  apiVersion: 'kaos.tools/v1alpha1',
+  kind: 'MCPServer',
+  metadata: { name: 'search', namespace: 'dev' },
+  spec: { runtime: 'rawpython' },
+};
+
+const researcher: Agent = {
+  apiVersion: 'kaos.tools/v1alpha1',
+  kind: 'Agent',
+  metadata: { name: 'researcher', namespace: 'dev' },
+  spec: { modelAPI: 'llm', model: 'openai/gpt-4o', mcpServers: ['search'] },
+};
+
+const coordinator: Agent = {
+  apiVersion: 'kaos.tools/v1alpha1',
+  kind: 'Agent',
+  metadata: {
+    name: 'coordinator',
+    namespace: 'dev',
+    labels: { team: 'a' },
+    annotations: { 'kubectl.kubernetes.io/last-applied-configuration': '{}' },
+  },
+  spec: {
+    modelAPI: 'llm',
+    model: 'openai/gpt-4o',
+    mcpServers: ['search', 'other'],
+    agentNetwork: { expose: true, access: ['researcher'] },
+  },
+  status: { phase: 'Ready' },
+};
+
+describe('suggestCopyName', () => {
+  it('picks the first free copy name', () => {
+    expect(suggestCopyName('agent', ['agent'])).toBe('agent-copy');
+    expect(suggestCopyName('agent', ['agent-copy', 'agent-copy-2'])).toBe('agent-copy-3');
+  });
+});
+
+describe('cloneResource', () => {
+  it('keeps labels and spec but drops server-managed metadata and status', () => {
+    const clone = cloneResource(coordinator, 'coordinator-copy', 'prod');
+
+    expect(clone.metadata).toEqual({ name: 'coordinator-copy', namespace: 'prod', labels: { team: 'a' }, annotations: undefined });
+    expect(clone.status).toBeUndefined();
+    expect(clone.spec).toEqual(coordinator.spec);
+    expect(clone.spec).not.toBe(coordinator.spec);
+  });
+});
+
+describe('rewriteAgentReferences', () => {
+  it('renames only the references that were cloned', () => {
+    const renames = new Map([
+      [renameKey('ModelAPI', 'llm'), 'llm-v2'],
+      [renameKey('MCPServer', 'search'), 'search-v2'],
+      [renameKey('Agent', 'researcher'), 'researcher-v2'],
+    ]);
+
+    expect(rewriteAgentReferences(coordinator.spec, renames)).toEqual({
+      modelAPI: 'llm-v2',
+      model: 'openai/gpt-4o',
+      mcpServers: ['search-v2', 'other'],
+      agentNetwork: { expose: true, access: ['researcher-v2'] },
+    });
+    expect(coordinator.spec.modelAPI).toBe('llm');
+  });
+});
+
+describe('planDependencyClones', () => {
+  it('clones dependencies in creation order with references between them rewritten', () => {
+    const { resources, renames } = planDependencyClones([researcher, search, modelAPI], 'copy', 'prod');
+
+    expect(resources.map((r) => `${r.kind}/${r.metadata.namespace}/${r.metadata.name}`)).toEqual([
+      'ModelAPI/prod/llm-copy',
+      'MCPServer/prod/search-copy',
+      'Agent/prod/researcher-copy',
+    ]);
+    expect((resources[2] as Agent).spec).toMatchObject({ modelAPI: 'llm-copy', mcpServers: ['search-copy'] });
+    expect(renames.get('Agent/researcher')).toBe('researcher-copy');
+  });
+});
+
+describe('mergeSpec', () => {
+  it('overlays form fields and keeps fields the form does not cover', () => {
+    const base = {
+      mode: 'Proxy',
+      proxyConfig: { models: ['*'], provider: 'openai' },
+      container: { image: 'custom:1', env: [{ name: 'A', value: '1' }] },
+      podSpec: { nodeSelector: { gpu: 'true' } },
+    };
+
+    const merged = mergeSpec(base, {
+      mode: 'Proxy',
+      proxyConfig: { models: ['gpt-4o'], provider: undefined },
+      container: { env: undefined },
+    } as Partial<typeof base>);
+
+    expect(merged).toEqual({
+      mode: 'Proxy',
+      proxyConfig: { models: ['gpt-4o'], provider: undefined },
+      container: { image: 'custom:1', env: undefined },
+      podSpec: { nodeSelector: { gpu: 'true' } },
+    });
+  });
+});
+
+describe('findNameConflicts', () => {
+  it('reports planned names already taken for the same kind', () => {
+    const { resources } = planDependencyClones([modelAPI, search], 'copy', 'prod');
+    const conflicts = findNameConflicts(resources, { ModelAPI: ['llm-copy'], MCPServer: [], Agent: ['search-copy'] });
+    expect(conflicts.map((r) => r.metadata.name)).toEqual(['llm-copy']);
+  });
+});
+
+describe('executeClonePlan', () => {
+  const { resources } = planDependencyClones([modelAPI, search], 'copy', 'prod');
+  const copy = cloneResource(coordinator, 'coordinator-copy', 'prod');
+
+  it('creates the clones before the Agent', async () => {
+    const create = vi.fn(async () => {});
+    const result = await executeClonePlan(resources, copy, { create, delete: vi.fn() });
+
+    expect(result).toEqual({ leftBehind: [] });
+    expect(create.mock.calls.map(([r]) => r.metadata.name)).toEqual(['llm-copy', 'search-copy', 'coordinator-copy']);
+  });
+
+  it('deletes the created clones, newest first, when a later create fails', async () => {
+    const create = vi.fn(async (r: { kind: string }) => {
+      if (r.kind === 'Agent') throw new Error('admission denied');
+    });
+    const remove = vi.fn(async () => {});
+    const result = await executeClonePlan(resources, copy, { create, delete: remove });
+
+    expect(result).toEqual({ error: 'admission denied', leftBehind: [] });
+    expect(remove.mock.calls.map(([r]) => r.metadata.name)).toEqual(['search-copy', 'llm-copy']);
+  });
+
+  it('returns the clones that could not be deleted', async () => {
+    const create = vi.fn(async (r: { kind: string }) => {
+      if (r.kind === 'MCPServer') throw new Error('conflict');
+    });
+    const remove = vi.fn(async () => { throw new Error('forbidden'); });
+    const result = await executeClonePlan(resources, copy, { create, delete: remove });
+
+    expect(result.error).toBe('conflict');
+    expect(result.leftBehind.map((r) => r.metadata.name)).toEqual(['llm-copy']);
+  });
+});
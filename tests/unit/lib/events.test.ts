@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { buildEventFieldSelector, mergeEvents, normalizeEvent, type KubeEvent } from '@/lib/k8s/events';
+import { getEventScope } from '@/lib/resource-events';
+
+function event(name: string, kind: string, objectName: string, lastTimestamp: string): KubeEvent {
+  return {
+    metadata: { name, uid: name },
+    involvedObject: { kind, name: objectName },
+    type: 'Normal',
+    count: 1,
+    lastTimestamp,
+  };
+}
+
+describe('buildEventFieldSelector', () => {
+  it('selects on involvedObject or regarding depending on the API', () => {
+    expect(buildEventFieldSelector({ kind: 'Pod', name: 'web-0' })).toBe('involvedObject.kind=Pod,involvedObject.name=web-0');
+    expect(buildEventFieldSelector({ kind: 'Pod' }, 'events.k8s.io/v1')).toBe('regarding.kind=Pod');
+    expect(buildEventFieldSelector({})).toBe('');
+  });
+});
+
+describe('normalizeEvent', () => {
+  it('keeps core/v1 events as they are', () => {
+    const normalized = normalizeEvent({
+      metadata: { name: 'e1' },
+      involvedObject: { kind: 'Pod', name: 'web-0' },
+      type: 'Warning',
+      reason: 'BackOff',
+      message: 'Back-off restarting failed container',
+      count: 5,
+      firstTimestamp: '2024-05-01T10:00:00Z',
+      lastTimestamp: '2024-05-01T10:05:00Z',
+      source: { component: 'kubelet' },
+    });
+
+    expect(normalized).toMatchObject({
+      type: 'Warning',
+      count: 5,
+      lastTimestamp: '2024-05-01T10:05:00Z',
+      source: 'kubelet',
+    });
+  });
+
+  it('maps events.k8s.io/v1 fields', () => {
+    const normalized = normalizeEvent({
+      metadata: { name: 'e2' },
+      regarding: { kind: 'Deployment', name: 'agent-chat' },
+      reason: 'ScalingReplicaSet',
+      note: 'Scaled up replica set agent-chat-abc to 1',
+      eventTime: '2024-05-01T10:00:00Z',
+      series: { count: 3, lastObservedTime: '2024-05-01T10:02:00Z' },
+      reportingController: 'deployment-controller',
+    });
+
+    expect(normalized).toMatchObject({
+      involvedObject: { kind: 'Deployment', name: 'agent-chat' },
+      type: 'Normal',
+      message: 'Scaled up replica set agent-chat-abc to 1',
+      count: 3,
+      firstTimestamp: '2024-05-01T10:00:00Z',
+      lastTimestamp: '2024-05-01T10:02:00Z',
+      source: 'deployment-controller',
+    });
+  });
+});
+
+describe('mergeEvents', () => {
+  it('deduplicates by uid and sorts newest first', () => {
+    const older = event('a', 'Pod', 'web-0', '2024-05-01T10:00:00Z');
+    const newer = event('b', 'Pod', 'web-0', '2024-05-01T10:05:00Z');
+    const updated = { ...older, count: 2, lastTimestamp: '2024-05-01T10:06:00Z' };
+
+    const merged = mergeEvents([older, newer], [updated]);
+    expect(merged.map((e) => e.metadata.name)).toEqual(['a', 'b']);
+    expect(merged[0].count).toBe(2);
+  });
+});
+
+describe('getEventScope', () => {
+  it('covers the resource, its Deployment, ReplicaSets and Pods', () => {
+    const scope = getEventScope('Agent', 'chat', ['custom-pod']);
+    const matching = [
+      event('1', 'Agent', 'chat', ''),
+      event('2', 'Deployment', 'agent-chat', ''),
+      event('3', 'ReplicaSet', 'agent-chat-5d9c7b8f4', ''),
+      event('4', 'Pod', 'agent-chat-5d9c7b8f4-abcde', ''),
+      event('5', 'Pod', 'custom-pod', ''),
+    ];
+    const other = [event('6', 'Agent', 'other', ''), event('7', 'Pod', 'agent-other-abc', ''), event('8', 'Service', 'agent-chat', '')];
+
+    expect(scope.selectors).toHaveLength(4);
+    expect(matching.every(scope.matches)).toBe(true);
+    expect(other.some(scope.matches)).toBe(false);
+  });
+
+  it('covers only the pod itself for pods', () => {
+    const scope = getEventScope('Pod', 'web-0');
+    expect(scope.selectors).toEqual([{ kind: 'Pod', name: 'web-0' }]);
+  });
+});
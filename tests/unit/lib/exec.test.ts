@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  EXEC_PROTOCOLS,
+  PodExecSession,
+  bearerProtocol,
+  buildExecUrl,
+  encodeFrame,
+  encodeResize,
+  parseExecStatus,
+} from '@/lib/k8s/exec';
+
+class FakeSocket {
+  static readonly OPEN = 1;
+  readyState = 0;
+  protocol = '';
+  binaryType = 'blob';
+  sent: Uint8Array[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: ((event: { code: number; reason: string }) => void) | null = null;
+
+  send(data: Uint8Array) {
+    this.sent.push(data);
+  }
+
+  close() {
+    this.onclose?.({ code: 1000, reason: '' });
+  }
+
+  open(protocol: string) {
+    this.readyState = FakeSocket.OPEN;
+    this.protocol = protocol;
+    this.onopen?.();
+  }
+
+  receive(channel: number, text: string) {
+    this.onmessage?.({ data: encodeFrame(channel, text).buffer });
+  }
+}
+
+function startSession() {
+  vi.stubGlobal('WebSocket', FakeSocket);
+  const socket = new FakeSocket();
+  const handlers = { onOutput: vi.fn(), onStatus: vi.fn(), onExit: vi.fn(), onError: vi.fn() };
+  const session = new PodExecSession('ws://k8s/exec', EXEC_PROTOCOLS, handlers, () => socket as unknown as WebSocket);
+  return { socket, handlers, session };
+}
+
+describe('buildExecUrl', () => {
+  it('targets the exec subresource over ws(s) with one command param per argument', () => {
+    const url = new URL(buildExecUrl('https://k8s.example.com', 'default', 'web-0', { container: 'app', command: ['/bin/sh', '-c', 'ls'], tty: true }));
+
+    expect(url.protocol).toBe('wss:');
+    expect(url.pathname).toBe('/api/v1/namespaces/default/pods/web-0/exec');
+    expect(url.searchParams.getAll('command')).toEqual(['/bin/sh', '-c', 'ls']);
+    expect(url.searchParams.get('container')).toBe('app');
+    expect(url.searchParams.get('tty')).toBe('true');
+    expect(url.searchParams.get('stderr')).toBe('false');
+  });
+
+  it('resolves a same-origin proxy path', () => {
+    expect(buildExecUrl('/k8s', 'ns', 'p', { command: ['sh'] }, 'http://localhost:5173/agents')).toMatch(/^ws:\/\/localhost:5173\/k8s\/api\/v1\/namespaces\/ns\/pods\/p\/exec\?/);
+  });
+});
+
+describe('frames', () => {
+  it('encodes stdin and resize with their channel byte', () => {
+    expect([...encodeFrame(0, 'ls\r')]).toEqual([0, 108, 115, 13]);
+    const resize = encodeResize(120, 40);
+    expect(resize[0]).toBe(4);
+    expect(JSON.parse(new TextDecoder().decode(resize.subarray(1)))).toEqual({ Width: 120, Height: 40 });
+  });
+
+  it('passes bearer tokens as an unpadded base64url subprotocol', () => {
+    expect(bearerProtocol('abc?>')).toBe('base64url.bearer.authorization.k8s.io.YWJjPz4');
+  });
+
+  it('reads the exit code from the error channel status', () => {
+    expect(parseExecStatus('{"status":"Success"}')).toEqual({ exitCode: 0 });
+    expect(parseExecStatus(JSON.stringify({
+      status: 'Failure',
+      message: 'command terminated with non-zero exit code',
+      reason: 'NonZeroExitCode',
+      details: { causes: [{ reason: 'ExitCode', message: '127' }] },
+    }))).toEqual({ exitCode: 127, message: 'command terminated with non-zero exit code' });
+  });
+});
+
+describe('PodExecSession', () => {
+  it('streams output and reports the exit status', () => {
+    const { socket, handlers, session } = startSession();
+    socket.open('v5.channel.k8s.io');
+    session.send('echo hi\r');
+    socket.receive(1, 'hi\r\n');
+    socket.receive(3, '{"status":"Success"}');
+
+    expect(handlers.onStatus).toHaveBeenCalledWith('open');
+    expect([...socket.sent[0]]).toEqual([...encodeFrame(0, 'echo hi\r')]);
+    expect(handlers.onOutput).toHaveBeenCalledWith('hi\r\n', 'stdout');
+    expect(handlers.onExit).toHaveBeenCalledWith(0, undefined);
+    vi.unstubAllGlobals();
+  });
+
+  it('closes stdin before the socket on v5', () => {
+    const { socket, session } = startSession();
+    socket.open('v5.channel.k8s.io');
+    session.close();
+
+    expect([...socket.sent[0]]).toEqual([255, 0]);
+    vi.unstubAllGlobals();
+  });
+
+  it('explains a refused upgrade', () => {
+    const { socket, handlers } = startSession();
+    socket.onclose?.({ code: 1006, reason: '' });
+
+    expect(handlers.onError.mock.calls[0][0].message).toMatch(/WebSocket upgrades/);
+    expect(handlers.onStatus).toHaveBeenLastCalledWith('closed');
+    vi.unstubAllGlobals();
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { parseKubeconfig } from '@/lib/kubeconfig';
+
+const KUBECONFIG = `
+apiVersion: v1
+kind: Config
+current-context: staging
+clusters:
+  - name: prod-cluster
+    cluster:
+      server: https://prod.example.com:6443/
+  - name: staging-cluster
+    cluster:
+      server: https://staging.example.com
+contexts:
+  - name: prod
+    context:
+      cluster: prod-cluster
+      user: prod-admin
+  - name: staging
+    context:
+      cluster: staging-cluster
+      user: staging-sa
+      namespace: agents
+  - name: eks
+    context:
+      cluster: prod-cluster
+      user: aws
+  - name: local-proxy
+    context:
+      cluster: missing
+      user: nobody
+users:
+  - name: prod-admin
+    user:
+      client-certificate-data: Zm9v
+      client-key-data: YmFy
+  - name: staging-sa
+    user:
+      token: staging-token
+  - name: aws
+    user:
+      exec:
+        apiVersion: client.authentication.k8s.io/v1beta1
+        command: aws
+`;
+
+describe('parseKubeconfig', () => {
+  it('resolves server, namespace and token for each context', () => {
+    const { contexts, currentContext } = parseKubeconfig(KUBECONFIG);
+
+    expect(currentContext).toBe('staging');
+    expect(contexts.map((c) => c.name)).toEqual(['prod', 'staging', 'eks', 'local-proxy']);
+    expect(contexts[1]).toEqual({
+      name: 'staging',
+      cluster: 'staging-cluster',
+      user: 'staging-sa',
+      namespace: 'agents',
+      server: 'https://staging.example.com',
+      auth: { type: 'kubeconfig', user: 'staging-sa', token: 'staging-token' },
+    });
+    expect(contexts[0].server).toBe('https://prod.example.com:6443');
+    expect(contexts[0].namespace).toBe('default');
+  });
+
+  it('explains auth the browser cannot use', () => {
+    const { contexts } = parseKubeconfig(KUBECONFIG);
+
+    expect(contexts[0].auth).toBeUndefined();
+    expect(contexts[0].unsupportedReason).toContain('client certificates');
+    expect(contexts[2].unsupportedReason).toContain('exec credential plugins');
+    expect(contexts[3].unsupportedReason).toContain('no server URL');
+  });
+
+  it('rejects documents without contexts', () => {
+    expect(() => parseKubeconfig('apiVersion: v1\nkind: Config')).toThrow('No contexts');
+    expect(() => parseKubeconfig('clusters: [')).toThrow('Invalid YAML');
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LOG_LEVELS,
+  buildSearchPattern,
+  filterLogEntries,
+  highlightSegments,
+  normalizeLevel,
+  parseLogEntry,
+} from '@/lib/log-parser';
+
+describe('parseLogEntry', () => {
+  it('extracts fields from JSON lines', () => {
+    const entry = parseLogEntry({
+      text: '{"timestamp":"2024-05-01T10:00:00Z","level":"warning","logger":"kaos.agent","message":"slow tool","trace_id":"4bf92f3577b34da6a3ce929d0e0e4736","tool":"search"}',
+    });
+
+    expect(entry).toMatchObject({
+      json: true,
+      level: 'warn',
+      logger: 'kaos.agent',
+      message: 'slow tool',
+      timestamp: '2024-05-01T10:00:00.000Z',
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      fields: { tool: 'search' },
+    });
+  });
+
+  it('falls back to the API server timestamp', () => {
+    const entry = parseLogEntry({ timestamp: '2024-05-01T10:00:00.123456789Z', text: '{"msg":"hello"}' });
+
+    expect(entry.timestamp).toBe('2024-05-01T10:00:00.123456789Z');
+    expect(entry.level).toBe('other');
+    expect(entry.message).toBe('hello');
+  });
+
+  it('parses klog and Python logging lines', () => {
+    const klog = parseLogEntry({ text: 'E0501 10:00:00.123456       1 controller.go:42] reconcile failed' });
+    expect(klog).toMatchObject({ level: 'error', logger: 'controller.go:42', message: 'reconcile failed' });
+
+    const python = parseLogEntry({ text: '2024-05-01 10:00:00,123 - kaos.agent - INFO - started' });
+    expect(python).toMatchObject({ level: 'info', logger: 'kaos.agent', message: 'started' });
+  });
+
+  it('detects level and trace ID in plain text', () => {
+    const entry = parseLogEntry({ text: 'WARN retrying request trace_id=4bf92f3577b34da6a3ce929d0e0e4736' });
+
+    expect(entry.json).toBe(false);
+    expect(entry.level).toBe('warn');
+    expect(entry.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+  });
+
+  it('treats malformed JSON as text', () => {
+    const entry = parseLogEntry({ text: '{not json} ERROR' });
+
+    expect(entry.json).toBe(false);
+    expect(entry.level).toBe('error');
+  });
+});
+
+describe('normalizeLevel', () => {
+  it('maps names and numeric levels', () => {
+    expect(normalizeLevel('CRITICAL')).toBe('error');
+    expect(normalizeLevel(40)).toBe('warn');
+    expect(normalizeLevel('notice')).toBe('info');
+    expect(normalizeLevel(undefined)).toBe('other');
+  });
+});
+
+describe('buildSearchPattern', () => {
+  it('escapes plain queries and reports invalid regular expressions', () => {
+    const literal = buildSearchPattern('a.b', false) as RegExp;
+    expect(literal.test('axb')).toBe(false);
+
+    expect(buildSearchPattern('a.b', true)).toBeInstanceOf(RegExp);
+    expect(typeof buildSearchPattern('(', true)).toBe('string');
+    expect(buildSearchPattern('', true)).toBeUndefined();
+  });
+});
+
+describe('filterLogEntries', () => {
+  const entries = [
+    parseLogEntry({ timestamp: '2024-05-01T10:00:00Z', text: 'INFO started' }),
+    parseLogEntry({ timestamp: '2024-05-01T10:05:00Z', text: 'ERROR failed trace_id=4bf92f3577b34da6a3ce929d0e0e4736' }),
+    parseLogEntry({ text: 'no timestamp' }),
+  ];
+
+  it('filters by level, time and search pattern', () => {
+    const all = new Set(LOG_LEVELS);
+
+    expect(filterLogEntries(entries, { levels: new Set(['error']) })).toHaveLength(1);
+    expect(filterLogEntries(entries, { levels: all, since: '2024-05-01T10:01:00Z' }).map((e) => e.message)).toEqual([
+      'ERROR failed trace_id=4bf92f3577b34da6a3ce929d0e0e4736',
+      'no timestamp',
+    ]);
+    expect(filterLogEntries(entries, { levels: all, pattern: buildSearchPattern('START', false) as RegExp })).toHaveLength(1);
+    expect(filterLogEntries(entries, { levels: all, traceId: '4bf92f3577b34da6a3ce929d0e0e4736' })).toHaveLength(1);
+  });
+});
+
+describe('highlightSegments', () => {
+  it('splits text around matches', () => {
+    const pattern = buildSearchPattern('o', false) as RegExp;
+
+    expect(highlightSegments('foo bar', pattern)).toEqual([
+      { text: 'f', match: false },
+      { text: 'o', match: true },
+      { text: 'o', match: true },
+      { text: ' bar', match: false },
+    ]);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  PodLogStream,
+  appendLogLines,
+  compareLogTimestamps,
+  parseLogLine,
+  type LogStreamHandlers,
+} from '@/lib/k8s/logs';
+
+function chunkedResponse(chunks: string[], status = 200): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  return new Response(body, { status });
+}
+
+function makeHandlers() {
+  return {
+    onLines: vi.fn(),
+    onStatus: vi.fn(),
+    onError: vi.fn(),
+    onUnavailable: vi.fn(),
+  } satisfies LogStreamHandlers;
+}
+
+async function flush() {
+  for (let i = 0; i < 20; i++) await new Promise((r) => setTimeout(r, 0));
+}
+
+const noSleep = () => Promise.resolve();
+
+describe('parseLogLine', () => {
+  it('splits the timestamp prefix from the text', () => {
+    expect(parseLogLine('2024-05-01T10:00:00.123Z server started')).toEqual({
+      timestamp: '2024-05-01T10:00:00.123Z',
+      text: 'server started',
+    });
+    expect(parseLogLine('no timestamp')).toEqual({ text: 'no timestamp' });
+  });
+});
+
+describe('compareLogTimestamps', () => {
+  it('compares fractions with trailing zeros trimmed', () => {
+    expect(compareLogTimestamps('2024-05-01T10:00:00.5Z', '2024-05-01T10:00:00.45Z')).toBe(1);
+    expect(compareLogTimestamps('2024-05-01T10:00:00Z', '2024-05-01T10:00:00.000000001Z')).toBe(-1);
+    expect(compareLogTimestamps('2024-05-01T10:00:00.10Z', '2024-05-01T10:00:00.1Z')).toBe(0);
+  });
+});
+
+describe('appendLogLines', () => {
+  it('drops the oldest lines beyond the cap', () => {
+    const result = appendLogLines([{ text: 'a' }, { text: 'b' }], [{ text: 'c' }, { text: 'd' }], 3);
+    expect(result).toEqual({ lines: [{ text: 'b' }, { text: 'c' }, { text: 'd' }], dropped: 1 });
+  });
+});
+
+describe('PodLogStream', () => {
+  it('delivers complete lines across chunk boundaries', async () => {
+    const handlers = makeHandlers();
+    const openStream = vi.fn()
+      .mockResolvedValueOnce(chunkedResponse([
+        '2024-05-01T10:00:00.1Z first\n2024-05-01T10:00',
+        ':00.2Z second\n',
+      ]))
+      .mockReturnValue(new Promise(() => {}));
+
+    const stream = new PodLogStream({ openStream, sleep: noSleep }, handlers).start();
+    await flush();
+    stream.stop();
+
+    expect(handlers.onLines.mock.calls.flat(2).map((line) => line.text)).toEqual(['first', 'second']);
+    expect(handlers.onStatus).toHaveBeenCalledWith('live');
+  });
+
+  it('resumes from the last timestamp and skips lines already delivered', async () => {
+    const handlers = makeHandlers();
+    const openStream = vi.fn()
+      .mockResolvedValueOnce(chunkedResponse(['2024-05-01T10:00:01.5Z a\n']))
+      .mockResolvedValueOnce(chunkedResponse(['2024-05-01T10:00:01.5Z a\n2024-05-01T10:00:02Z b\n']))
+      .mockReturnValue(new Promise(() => {}));
+
+    const stream = new PodLogStream({ openStream, sleep: noSleep }, handlers).start();
+    await flush();
+    stream.stop();
+
+    expect(openStream.mock.calls.map(([sinceTime]) => sinceTime)).toEqual([
+      undefined,
+      '2024-05-01T10:00:01.5Z',
+      '2024-05-01T10:00:02Z',
+    ]);
+    expect(handlers.onLines.mock.calls.flat(2).map((line) => line.text)).toEqual(['a', 'b']);
+  });
+
+  it('delivers consecutive lines that share a timestamp', async () => {
+    const handlers = makeHandlers();
+    const openStream = vi.fn()
+      .mockResolvedValueOnce(chunkedResponse([
+        '2024-05-01T10:00:00Z first\n2024-05-01T10:00:00Z second\n2024-05-01T10:00:00Z third\n',
+      ]))
+      .mockReturnValue(new Promise(() => {}));
+
+    const stream = new PodLogStream({ openStream, sinceTime: '2024-05-01T10:00:00Z', sleep: noSleep }, handlers).start();
+    await flush();
+    stream.stop();
+
+    expect(handlers.onLines.mock.calls.flat(2).map((line) => line.text)).toEqual(['first', 'second', 'third']);
+  });
+
+  it('reports request errors and keeps retrying', async () => {
+    const handlers = makeHandlers();
+    const openStream = vi.fn()
+      .mockResolvedValueOnce(new Response('container "app" is waiting to start', { status: 400 }))
+      .mockResolvedValueOnce(chunkedResponse(['2024-05-01T10:00:00Z ready\n']))
+      .mockReturnValue(new Promise(() => {}));
+
+    const stream = new PodLogStream({ openStream, sleep: noSleep, maxInitialFailures: 1 }, handlers).start();
+    await flush();
+    stream.stop();
+
+    expect(handlers.onError).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringContaining('waiting to start') }));
+    expect(handlers.onUnavailable).not.toHaveBeenCalled();
+    expect(handlers.onLines).toHaveBeenCalledWith([{ timestamp: '2024-05-01T10:00:00Z', text: 'ready' }]);
+  });
+
+  it('gives up when the proxy never returns headers', async () => {
+    vi.useFakeTimers();
+    try {
+      const handlers = makeHandlers();
+      const openStream = vi.fn((_since: string | undefined, signal: AbortSignal) => new Promise<Response>((_, reject) => {
+        signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      }));
+
+      new PodLogStream({ openStream, headersTimeout: 5000 }, handlers).start();
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(handlers.onStatus).toHaveBeenLastCalledWith('unavailable');
+      expect(handlers.onUnavailable).toHaveBeenCalledTimes(1);
+      expect(openStream).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('gives up after repeated failures before the first stream', async () => {
+    const handlers = makeHandlers();
+    const openStream = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+
+    new PodLogStream({ openStream, sleep: noSleep, maxInitialFailures: 2 }, handlers).start();
+    await flush();
+
+    expect(openStream).toHaveBeenCalledTimes(2);
+    expect(handlers.onUnavailable).toHaveBeenCalledWith(expect.any(TypeError));
+  });
+});
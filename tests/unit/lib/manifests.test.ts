@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { parseManifests } from '@/lib/manifests';
+import { KubernetesClient } from '@/lib/k8s';
+
+const stack = `
+apiVersion: kaos.tools/v1alpha1
+kind: Agent
+metadata:
+  name: coordinator
+spec:
+  modelAPI: llm
+  model: openai/gpt-4o
+  agentNetwork:
+    access: [researcher]
+---
+apiVersion: kaos.tools/v1alpha1
+kind: Agent
+metadata:
+  name: researcher
+spec:
+  modelAPI: llm
+  model: openai/gpt-4o
+  mcpServers: [search]
+---
+apiVersion: kaos.tools/v1alpha1
+kind: MCPServer
+metadata:
+  name: search
+  namespace: tools
+spec:
+  runtime: rawpython
+---
+apiVersion: kaos.tools/v1alpha1
+kind: ModelAPI
+metadata:
+  name: llm
+  uid: 1234
+  resourceVersion: "99"
+spec:
+  mode: Proxy
+  proxyConfig:
+    models: ["*"]
+status:
+  phase: Ready
+---
+apiVersion: v1
+kind: Secret
+metadata:
+  name: llm-key
+stringData:
+  API_KEY: sk-test
+---
+`;
+
+describe('parseManifests', () => {
+  it('orders dependencies before the Agents that reference them', () => {
+    const { manifests, errors } = parseManifests(stack, 'default');
+
+    expect(errors).toEqual([]);
+    expect(manifests.map((m) => `${m.kind}/${m.metadata.name}`)).toEqual([
+      'Secret/llm-key',
+      'ModelAPI/llm',
+      'MCPServer/search',
+      'Agent/researcher',
+      'Agent/coordinator',
+    ]);
+  });
+
+  it('defaults the namespace and drops server-managed fields', () => {
+    const { manifests } = parseManifests(stack, 'default');
+    const modelAPI = manifests.find((m) => m.kind === 'ModelAPI');
+
+    expect(manifests.find((m) => m.kind === 'MCPServer')?.metadata.namespace).toBe('tools');
+    expect(modelAPI).toEqual({
+      apiVersion: 'kaos.tools/v1alpha1',
+      kind: 'ModelAPI',
+      metadata: { name: 'llm', namespace: 'default', labels: undefined, annotations: undefined },
+      spec: { mode: 'Proxy', proxyConfig: { models: ['*'] } },
+    });
+  });
+
+  it('reports invalid, unsupported and duplicate documents by position', () => {
+    const text = [
+      'apiVersion: kaos.tools/v1alpha1\nkind: Agent\nmetadata:\n  name: a\nspec:\n  modelAPI: llm',
+      'apiVersion: apps/v1\nkind: Deployment\nmetadata:\n  name: web',
+      'apiVersion: v1\nkind: Secret\nmetadata:\n  name: s\nstringData:\n  KEY: 1',
+      'apiVersion: v1\nkind: Secret\nmetadata:\n  name: ok',
+      'apiVersion: v1\nkind: Secret\nmetadata:\n  name: ok',
+    ].join('\n---\n');
+
+    const { manifests, errors } = parseManifests(text, 'default');
+
+    expect(manifests).toHaveLength(1);
+    expect(errors).toEqual([
+      { document: 1, name: 'a', message: expect.stringContaining('spec.model') },
+      { document: 2, name: 'web', message: 'Unsupported kind "Deployment"' },
+      { document: 3, name: 's', message: 'stringData must be a map of strings' },
+      { document: 5, name: 'ok', message: 'Duplicate Secret "ok"' },
+    ]);
+  });
+
+  it('throws on YAML syntax errors', () => {
+    expect(() => parseManifests('kind: [', 'default')).toThrow(/Invalid YAML/);
+  });
+});
+
+describe('KubernetesClient manifest planning', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+
+  function setup(...responses: Response[]) {
+    const fetchMock = vi.fn();
+    responses.forEach((response) => fetchMock.mockResolvedValueOnce(response));
+    vi.stubGlobal('fetch', fetchMock);
+    const client = new KubernetesClient();
+    client.setConfig({ baseUrl: 'http://k8s' });
+    return { client, fetchMock };
+  }
+
+  it('dry-runs a create when the object does not exist', async () => {
+    const [secret] = parseManifests(stack, 'default').manifests;
+    const { client, fetchMock } = setup(json({ code: 404 }, 404), json(secret));
+
+    const item = await client.planManifest(secret);
+
+    expect(item).toEqual({ manifest: secret, action: 'create' });
+    const [url, init] = fetchMock.mock.calls[1];
+    expect(url).toBe('http://k8s/api/v1/namespaces/default/secrets?fieldManager=kaos-ui&dryRun=All');
+    expect(init.method).toBe('POST');
+  });
+
+  it('plans a guarded update with the spec replaced and labels merged', async () => {
+    const modelAPI = parseManifests(stack, 'default').manifests[1];
+    modelAPI.metadata.labels = { team: 'ml' };
+    const live = {
+      metadata: { name: 'llm', resourceVersion: '5', labels: { owner: 'ops' } },
+      spec: { mode: 'Proxy', proxyConfig: { models: ['gpt-4o'], apiBase: 'http://old' } },
+    };
+    const { client, fetchMock } = setup(json(live), json(live));
+
+    const item = await client.planManifest(modelAPI);
+
+    expect(item.action).toBe('update');
+    expect(item.patch).toEqual({
+      metadata: { labels: { team: 'ml' }, resourceVersion: '5' },
+      spec: { proxyConfig: { models: ['*'], apiBase: null } },
+    });
+    expect(fetchMock.mock.calls[1][0]).toContain('/modelapis/llm?fieldManager=kaos-ui&dryRun=All');
+  });
+
+  it('reports unchanged objects without a dry run', async () => {
+    const secret = parseManifests(stack, 'default').manifests[0];
+    const { client, fetchMock } = setup(json({ metadata: { name: 'llm-key' }, data: { API_KEY: btoa('sk-test') } }));
+
+    expect((await client.planManifest(secret)).action).toBe('unchanged');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps dry-run rejections on the plan item and refuses to apply it', async () => {
+    const secret = parseManifests(stack, 'default').manifests[0];
+    const { client } = setup(json({ code: 404 }, 404), json({ message: 'forbidden field' }, 422));
+
+    const item = await client.planManifest(secret);
+
+    expect(item.action).toBe('create');
+    expect(item.error).toContain('422');
+    await expect(client.applyPlanItem(item)).rejects.toThrow('422');
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  appendMetrics,
+  formatCpu,
+  formatMemory,
+  getPodResources,
+  parseCpuMillicores,
+  parseQuantity,
+  sumContainerSeries,
+  type PodMetrics,
+} from '@/lib/k8s/metrics';
+import type { Pod } from '@/types/kubernetes';
+
+function scrape(timestamp: string, pods: Record<string, Record<string, [string, string]>>): PodMetrics[] {
+  return Object.entries(pods).map(([name, containers]) => ({
+    metadata: { name },
+    timestamp,
+    window: '15s',
+    containers: Object.entries(containers).map(([container, [cpu, memory]]) => ({ name: container, usage: { cpu, memory } })),
+  }));
+}
+
+describe('parseQuantity', () => {
+  it('parses decimal, binary and exponent suffixes', () => {
+    expect(parseQuantity('128Mi')).toBe(128 * 2 ** 20);
+    expect(parseQuantity('1G')).toBe(1e9);
+    expect(parseQuantity('1e3')).toBe(1000);
+    expect(parseQuantity('bogus')).toBeUndefined();
+    expect(parseCpuMillicores('250m')).toBe(250);
+    expect(parseCpuMillicores('1.5')).toBe(1500);
+    expect(parseCpuMillicores('12345678n')).toBeCloseTo(12.345678);
+  });
+});
+
+describe('formatting', () => {
+  it('formats CPU and memory', () => {
+    expect(formatCpu(250)).toBe('250m');
+    expect(formatCpu(1500)).toBe('1.50 cores');
+    expect(formatMemory(512 * 2 ** 20)).toBe('512Mi');
+    expect(formatMemory(1.5 * 2 ** 30)).toBe('1.50Gi');
+  });
+});
+
+describe('appendMetrics', () => {
+  it('appends samples per container and caps the series', () => {
+    let series = appendMetrics({}, scrape('2024-05-01T10:00:00Z', { web: { main: ['100m', '64Mi'] } }), 2);
+    series = appendMetrics(series, scrape('2024-05-01T10:00:15Z', { web: { main: ['200m', '65Mi'] } }), 2);
+    series = appendMetrics(series, scrape('2024-05-01T10:00:30Z', { web: { main: ['300m', '66Mi'] } }), 2);
+
+    expect(series.web.main.map((s) => s.cpu)).toEqual([200, 300]);
+  });
+
+  it('skips repeated scrapes and drops pods that are gone', () => {
+    let series = appendMetrics({}, scrape('2024-05-01T10:00:00Z', { web: { main: ['100m', '64Mi'] }, old: { main: ['1m', '1Mi'] } }), 10);
+    series = appendMetrics(series, scrape('2024-05-01T10:00:00Z', { web: { main: ['100m', '64Mi'] } }), 10);
+
+    expect(series.web.main).toHaveLength(1);
+    expect(series.old).toBeUndefined();
+  });
+});
+
+describe('sumContainerSeries', () => {
+  it('adds up containers at the same scrape', () => {
+    const series = appendMetrics({}, scrape('2024-05-01T10:00:00Z', { web: { a: ['100m', '1Mi'], b: ['50m', '1Mi'] } }), 10);
+    expect(sumContainerSeries(series.web)).toEqual([{ time: Date.parse('2024-05-01T10:00:00Z'), cpu: 150, memory: 2 * 2 ** 20 }]);
+  });
+});
+
+describe('getPodResources', () => {
+  it('totals limits only when every container sets them', () => {
+    const pod: Pod = {
+      apiVersion: 'v1', kind: 'Pod', metadata: { name: 'web', namespace: 'default' },
+      spec: {
+        containers: [
+          { name: 'a', image: 'x', resources: { limits: { memory: '256Mi', cpu: '500m' } } },
+          { name: 'b', image: 'x', resources: { limits: { memory: '256Mi' } } },
+        ],
+      },
+    };
+
+    expect(getPodResources(pod)).toEqual({
+      cpuRequest: undefined,
+      cpuLimit: undefined,
+      memoryRequest: undefined,
+      memoryLimit: 512 * 2 ** 20,
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  applyMergePatch,
+  createMergePatch,
+  createUpdatePatch,
+  rebaseEdit,
+  threeWayDiff,
+} from '@/lib/k8s/patch';
+import { KubernetesClient, K8sConflictError } from '@/lib/k8s';
+import type { Agent } from '@/types/kubernetes';
+
+function agent(spec: Record<string, unknown>, resourceVersion = '1', labels?: Record<string, string>): Agent {
+  return {
+    apiVersion: 'kaos.tools/v1alpha1',
+    kind: 'Agent',
+    metadata: { name: 'a', namespace: 'default', resourceVersion, labels },
+    spec: spec as Agent['spec'],
+  };
+}
+
+describe('merge patch', () => {
+  it('creates patches with nulls for removed keys and applies them back', () => {
+    const original = { a: 1, b: { c: 2, d: 3 }, list: [1, 2] };
+    const modified = { a: 1, b: { c: 5 }, list: [1], e: 'new' };
+
+    const patch = createMergePatch(original, modified);
+
+    expect(patch).toEqual({ b: { c: 5, d: null }, list: [1], e: 'new' });
+    expect(applyMergePatch(original, patch)).toEqual(modified);
+  });
+
+  it('guards update patches with the loaded resourceVersion', () => {
+    const loaded = agent({ model: 'x', modelAPI: 'm' }, '7', { team: 'a' });
+    const edited = agent({ model: 'y', modelAPI: 'm' }, '9');
+
+    expect(createUpdatePatch(loaded, edited)).toEqual({
+      metadata: { labels: null, resourceVersion: '7' },
+      spec: { model: 'y' },
+    });
+  });
+});
+
+describe('threeWayDiff', () => {
+  it('flags paths changed differently on both sides', () => {
+    const rows = threeWayDiff(
+      { spec: { model: 'a', replicas: 1, tools: ['x'] } },
+      { spec: { model: 'b', replicas: 1, tools: ['x'] } },
+      { spec: { model: 'c', replicas: 2, tools: ['x'] } },
+    );
+
+    expect(rows).toEqual([
+      { path: 'spec.model', base: 'a', mine: 'b', theirs: 'c', conflict: true },
+      { path: 'spec.replicas', base: 1, mine: 1, theirs: 2, conflict: false },
+    ]);
+  });
+
+  it('rebases the edit onto the latest object', () => {
+    const loaded = agent({ model: 'a', modelAPI: 'm' }, '1');
+    const mine = agent({ model: 'b', modelAPI: 'm' }, '1');
+    const theirs = agent({ model: 'a', modelAPI: 'other' }, '5');
+
+    const rebased = rebaseEdit(loaded, mine, theirs);
+
+    expect(rebased.spec).toEqual({ model: 'b', modelAPI: 'other' });
+    expect(rebased.metadata.resourceVersion).toBe('5');
+  });
+});
+
+describe('KubernetesClient CRD updates', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends a merge patch with the kaos-ui field manager', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify(agent({ model: 'y' }, '8'))));
+    vi.stubGlobal('fetch', fetchMock);
+    const client = new KubernetesClient();
+    client.setConfig({ baseUrl: 'http://k8s' });
+
+    await client.updateAgent(agent({ model: 'y' }), agent({ model: 'x' }, '7'));
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://k8s/apis/kaos.tools/v1alpha1/namespaces/default/agents/a?fieldManager=kaos-ui');
+    expect(init.method).toBe('PATCH');
+    expect(init.headers['Content-Type']).toBe('application/merge-patch+json');
+    expect(JSON.parse(init.body)).toEqual({ metadata: { resourceVersion: '7' }, spec: { model: 'y' } });
+  });
+
+  it('raises K8sConflictError for stale updates', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(
+      JSON.stringify({ kind: 'Status', code: 409, reason: 'Conflict', message: 'the object has been modified' }),
+      { status: 409 },
+    )));
+    const client = new KubernetesClient();
+    client.setConfig({ baseUrl: 'http://k8s' });
+
+    const error = await client.updateAgent(agent({ model: 'y' }), agent({ model: 'x' })).catch((e) => e);
+
+    expect(error).toBeInstanceOf(K8sConflictError);
+    expect(error.reason).toBe('Conflict');
+    expect(error.message).toContain('the object has been modified');
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { validateKaosResource, KAOS_API_VERSION } from '@/lib/resource-validation';
+import { diffLines } from '@/lib/text-diff';
+import { parseYamlText, stringifyYaml } from '@/lib/yaml';
+
+const agentYaml = `
+apiVersion: kaos.tools/v1alpha1
+kind: Agent
+metadata:
+  name: my-agent
+  namespace: default
+  labels:
+    team: search
+spec:
+  modelAPI: my-modelapi
+  model: openai/gpt-4o
+  mcpServers:
+    - tools
+  config:
+    instructions: Be helpful
+    memory:
+      enabled: true
+`;
+
+describe('validateKaosResource', () => {
+  it('accepts a valid Agent', () => {
+    expect(validateKaosResource('Agent', parseYamlText(agentYaml))).toEqual([]);
+  });
+
+  it('reports missing required fields and unknown spec keys with their paths', () => {
+    const doc = parseYamlText(agentYaml) as { spec: Record<string, unknown> };
+    delete doc.spec.model;
+    doc.spec.mcpServer = ['typo'];
+
+    const paths = validateKaosResource('Agent', doc).map((issue) => issue.path);
+
+    expect(paths).toContain('spec.model');
+    expect(paths).toContain('spec');
+  });
+
+  it('rejects type mismatches deep in the spec', () => {
+    const doc = parseYamlText(agentYaml.replace('enabled: true', 'enabled: "yes"'));
+
+    expect(validateKaosResource('Agent', doc)).toEqual([
+      expect.objectContaining({ path: 'spec.config.memory.enabled' }),
+    ]);
+  });
+
+  it('checks apiVersion, kind and metadata.name', () => {
+    const issues = validateKaosResource('MCPServer', {
+      apiVersion: 'v1',
+      kind: 'Agent',
+      metadata: { name: 'Not_Valid' },
+      spec: { runtime: 'rawpython' },
+    });
+
+    expect(issues.map((issue) => issue.path).sort()).toEqual(['apiVersion', 'kind', 'metadata.name']);
+  });
+
+  it('requires the config block that matches the ModelAPI mode', () => {
+    const issues = validateKaosResource('ModelAPI', {
+      apiVersion: KAOS_API_VERSION,
+      kind: 'ModelAPI',
+      metadata: { name: 'llm' },
+      spec: { mode: 'Hosted' },
+    });
+
+    expect(issues).toEqual([{ path: 'spec.hostedConfig', message: 'hostedConfig is required in Hosted mode' }]);
+  });
+
+  it('rejects documents that are not mappings', () => {
+    expect(validateKaosResource('Agent', ['a'])).toHaveLength(1);
+    expect(validateKaosResource('Agent', null)).toHaveLength(1);
+  });
+});
+
+describe('YAML editing helpers', () => {
+  it('throws readable errors for invalid YAML', () => {
+    expect(() => parseYamlText('spec:\n  model: [unclosed')).toThrow(/^Invalid YAML/);
+  });
+
+  it('round-trips resources without folding long strings', () => {
+    const value = { spec: { config: { instructions: 'x '.repeat(100).trim() } } };
+
+    const yaml = stringifyYaml(value);
+
+    expect(yaml.trim().split('\n')).toHaveLength(3);
+    expect(parseYamlText(yaml)).toEqual(value);
+  });
+
+  it('diffs lines as removed and added around unchanged context', () => {
+    expect(diffLines('a\nb\nc', 'a\nx\nc')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'x' },
+      { type: 'same', text: 'c' },
+    ]);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  RESTARTED_AT_ANNOTATION,
+  diffRevisions,
+  getDeploymentController,
+  getRolloutHistory,
+  withReplicasOverride,
+} from '@/lib/k8s/rollout';
+import { KubernetesClient } from '@/lib/k8s';
+import type { Agent, Deployment, EnvVar, ReplicaSet } from '@/types/kubernetes';
+
+const deployment: Deployment = {
+  apiVersion: 'apps/v1',
+  kind: 'Deployment',
+  metadata: {
+    name: 'agent-a',
+    namespace: 'default',
+    uid: 'dep-1',
+    ownerReferences: [{ apiVersion: 'kaos.tools/v1alpha1', kind: 'Agent', name: 'a', uid: 'agent-1', controller: true }],
+  },
+  spec: { replicas: 1, selector: { matchLabels: { agent: 'a' } } },
+};
+
+function replicaSet(name: string, revision: string, image: string, env: EnvVar[] = [], owner = 'dep-1'): ReplicaSet {
+  return {
+    apiVersion: 'apps/v1',
+    kind: 'ReplicaSet',
+    metadata: {
+      name,
+      namespace: 'default',
+      annotations: { 'deployment.kubernetes.io/revision': revision },
+      ownerReferences: [{ apiVersion: 'apps/v1', kind: 'Deployment', name: 'agent-a', uid: owner, controller: true }],
+    },
+    spec: { template: { spec: { containers: [{ name: 'agent', image, env }] } } },
+    status: { replicas: 1, readyReplicas: 1 },
+  };
+}
+
+describe('getRolloutHistory', () => {
+  it('lists the revisions of the deployment newest first', () => {
+    const history = getRolloutHistory(deployment, [
+      replicaSet('agent-a-1', '1', 'agent:1'),
+      replicaSet('agent-a-3', '3', 'agent:3'),
+      replicaSet('agent-a-2', '2', 'agent:2'),
+      replicaSet('other-1', '9', 'other:1', [], 'dep-2'),
+    ]);
+
+    expect(history.map((r) => r.revision)).toEqual([3, 2, 1]);
+    expect(history[0].containers[0].image).toBe('agent:3');
+  });
+});
+
+describe('diffRevisions', () => {
+  it('reports image and env changes per container', () => {
+    const [to, from] = getRolloutHistory(deployment, [
+      replicaSet('agent-a-1', '1', 'agent:1', [{ name: 'LOG_LEVEL', value: 'info' }, { name: 'OLD', value: 'x' }]),
+      replicaSet('agent-a-2', '2', 'agent:2', [
+        { name: 'LOG_LEVEL', value: 'debug' },
+        { name: 'API_KEY', valueFrom: { secretKeyRef: { name: 'keys', key: 'openai' } } },
+      ]),
+    ]);
+
+    expect(diffRevisions(from, to)).toEqual([
+      { container: 'agent', field: 'image', before: 'agent:1', after: 'agent:2' },
+      { container: 'agent', field: 'env', name: 'LOG_LEVEL', before: 'info', after: 'debug' },
+      { container: 'agent', field: 'env', name: 'OLD', before: 'x', after: undefined },
+      { container: 'agent', field: 'env', name: 'API_KEY', before: undefined, after: 'secret keys/openai' },
+    ]);
+  });
+
+  it('is empty for a rollout restart', () => {
+    const [to, from] = getRolloutHistory(deployment, [
+      replicaSet('agent-a-1', '1', 'agent:1'),
+      replicaSet('agent-a-2', '2', 'agent:1'),
+    ]);
+    expect(diffRevisions(from, to)).toEqual([]);
+  });
+});
+
+describe('replica ownership', () => {
+  it('detects the controlling resource and overrides replicas in podSpec', () => {
+    const agent = { apiVersion: 'kaos.tools/v1alpha1', kind: 'Agent', metadata: { name: 'a', namespace: 'default' }, spec: { modelAPI: 'm', model: 'x', podSpec: { nodeSelector: { pool: 'gpu' } } } } as Agent;
+
+    expect(getDeploymentController(deployment)).toBe('Agent');
+    expect(withReplicasOverride(agent, 3).spec.podSpec).toEqual({ nodeSelector: { pool: 'gpu' }, replicas: 3 });
+    expect(agent.spec.podSpec).toEqual({ nodeSelector: { pool: 'gpu' } });
+  });
+});
+
+describe('KubernetesClient rollouts', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('restarts by patching the pod template restartedAt annotation', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify(deployment)));
+    vi.stubGlobal('fetch', fetchMock);
+    const client = new KubernetesClient();
+    client.setConfig({ baseUrl: 'http://k8s' });
+
+    await client.restartDeployment('agent-a', 'default');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://k8s/apis/apps/v1/namespaces/default/deployments/agent-a?fieldManager=kaos-ui');
+    expect(init.method).toBe('PATCH');
+    const annotations = JSON.parse(init.body).spec.template.metadata.annotations;
+    expect(Date.parse(annotations[RESTARTED_AT_ANNOTATION])).not.toBeNaN();
+  });
+
+  it('lists ReplicaSets by label selector', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ items: [] })));
+    vi.stubGlobal('fetch', fetchMock);
+    const client = new KubernetesClient();
+    client.setConfig({ baseUrl: 'http://k8s' });
+
+    await client.listReplicaSets('default', { agent: 'a' });
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://k8s/apis/apps/v1/namespaces/default/replicasets?labelSelector=agent%3Da');
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { buildStackExport, retagImage, stackToYaml, stackToZipEntries } from '@/lib/stack-export';
+import { parseManifests } from '@/lib/manifests';
+import { createZip } from '@/lib/zip';
+import type { Agent, MCPServer, ModelAPI } from '@/types/kubernetes';
+
+const serverFields = {
+  uid: 'abc',
+  resourceVersion: '42',
+  creationTimestamp: '2024-01-01T00:00:00Z',
+  managedFields: [{ manager: 'kubectl' }],
+};
+
+const modelAPI: ModelAPI = {
+  apiVersion: 'kaos.tools/v1alpha1',
+  kind: 'ModelAPI',
+  metadata: { name: 'llm', namespace: 'dev', ...serverFields },
+  spec: {
+    mode: 'Proxy',
+    proxyConfig: {
+      models: ['*'],
+      apiKey: { valueFrom: { secretKeyRef: { name: 'llm-key', key: 'API_KEY' } } },
+    },
+    container: { image: 'registry:5000/litellm:v1.2@sha256:abc' },
+  },
+  status: { phase: 'Ready' },
+} as ModelAPI;
+
+const mcpServer: MCPServer = {
+  apiVersion: 'kaos.tools/v1alpha1',
+  kind: 'MCPServer',
+  metadata: { name: 'search', namespace: 'dev' },
+  spec: { runtime: 'rawpython' },
+};
+
+const agent = (name: string, access?: string[]): Agent => ({
+  apiVersion: 'kaos.tools/v1alpha1',
+  kind: 'Agent',
+  metadata: {
+    name,
+    namespace: 'dev',
+    annotations: { 'kubectl.kubernetes.io/last-applied-configuration': '{}' },
+  },
+  spec: {
+    modelAPI: 'llm',
+    model: 'gpt-4o',
+    mcpServers: ['search'],
+    agentNetwork: access ? { access } : undefined,
+    config: { env: [{ name: 'TOKEN', valueFrom: { secretKeyRef: { name: 'llm-key', key: 'OTHER' } } }] },
+  },
+});
+
+const inventory = {
+  agents: [agent('coordinator', ['worker']), agent('worker')],
+  mcpServers: [mcpServer],
+  modelAPIs: [modelAPI],
+};
+
+describe('buildStackExport', () => {
+  it('includes dependencies in creation order with redacted Secrets', () => {
+    const docs = buildStackExport([inventory.agents[0]], inventory, { includeDependencies: true });
+
+    expect(docs.map((d) => `${d.kind}/${(d.metadata as { name: string }).name}`)).toEqual([
+      'Secret/llm-key',
+      'ModelAPI/llm',
+      'MCPServer/search',
+      'Agent/worker',
+      'Agent/coordinator',
+    ]);
+    expect(docs[0].stringData).toEqual({ API_KEY: '<redacted>', OTHER: '<redacted>' });
+  });
+
+  it('strips status and server-managed metadata', () => {
+    const [, exported] = buildStackExport([modelAPI], inventory, { includeDependencies: false });
+
+    expect(exported.status).toBeUndefined();
+    expect(exported.metadata).toEqual({ name: 'llm', namespace: 'dev' });
+    expect(stackToYaml([exported])).not.toMatch(/uid|resourceVersion|managedFields|creationTimestamp/);
+  });
+
+  it('drops or rewrites namespaces and image tags', () => {
+    const removed = buildStackExport([modelAPI], inventory, { includeDependencies: false, namespace: '' });
+    const retargeted = buildStackExport([modelAPI], inventory, {
+      includeDependencies: false,
+      namespace: 'prod',
+      imageTag: 'v2.0',
+    });
+
+    expect(removed.every((d) => !('namespace' in (d.metadata as object)))).toBe(true);
+    expect(retargeted[1].metadata).toMatchObject({ namespace: 'prod' });
+    expect((retargeted[1].spec as ModelAPI['spec']).container?.image).toBe('registry:5000/litellm:v2.0');
+    // The inventory object is untouched
+    expect(modelAPI.spec.container?.image).toContain('v1.2');
+  });
+
+  it('round-trips through the manifest import, which refuses redacted Secrets', () => {
+    const docs = buildStackExport([inventory.agents[1]], inventory, { includeDependencies: true, namespace: '' });
+
+    const { manifests, errors } = parseManifests(stackToYaml(docs), 'staging');
+
+    expect(manifests.map((m) => `${m.kind}/${m.metadata.namespace}/${m.metadata.name}`)).toEqual([
+      'ModelAPI/staging/llm',
+      'MCPServer/staging/search',
+      'Agent/staging/worker',
+    ]);
+    expect(errors).toEqual([expect.objectContaining({ name: 'llm-key', message: expect.stringContaining('redacted') })]);
+  });
+});
+
+describe('retagImage', () => {
+  it('replaces tags and digests but keeps registry ports', () => {
+    expect(retagImage('nginx', '1.25')).toBe('nginx:1.25');
+    expect(retagImage('ghcr.io/org/app:old', 'new')).toBe('ghcr.io/org/app:new');
+    expect(retagImage('localhost:5000/app', 'dev')).toBe('localhost:5000/app:dev');
+  });
+});
+
+describe('createZip', () => {
+  it('writes one stored entry per resource file', () => {
+    const docs = buildStackExport([mcpServer], inventory, { includeDependencies: false });
+    const entries = stackToZipEntries(docs);
+
+    const zip = createZip(entries);
+    const view = new DataView(zip.buffer);
+
+    expect(entries.map((e) => e.name)).toEqual(['1-mcpserver-search.yaml']);
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    // End of central directory record: entry count
+    expect(view.getUint16(zip.length - 22 + 10, true)).toBe(1);
+    const content = new TextDecoder().decode(zip.slice(30 + entries[0].name.length, 30 + entries[0].name.length + entries[0].content.length));
+    expect(content).toBe(entries[0].content);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BUILTIN_TEMPLATES,
+  STACK_LABEL,
+  TEMPLATE_LABEL,
+  defaultTemplateValues,
+  instantiateTemplate,
+  parseTemplatesConfigMap,
+} from '@/lib/stack-templates';
+
+const teamTemplate = `
+id: echo-bot
+name: Echo bot
+parameters:
+  - key: greeting
+    label: Greeting
+    default: Hello
+resources:
+  - kind: Agent
+    name: "{{name}}-bot"
+    spec:
+      modelAPI: "{{name}}-llm"
+      model: openai/gpt-4o
+      config:
+        instructions: "Always start with {{greeting}}"
+  - kind: ModelAPI
+    name: "{{name}}-llm"
+    spec:
+      mode: Proxy
+      proxyConfig:
+        models: ["*"]
+`;
+
+describe('instantiateTemplate', () => {
+  it.each(BUILTIN_TEMPLATES.map((template) => [template.id, template] as const))(
+    'renders built-in template %s without validation errors',
+    (_, template) => {
+      const { manifests, errors } = instantiateTemplate(template, defaultTemplateValues(template), 'team-a');
+
+      expect(errors).toEqual([]);
+      expect(manifests).toHaveLength(template.resources.length);
+      manifests.forEach((manifest) => {
+        expect(manifest.metadata.namespace).toBe('team-a');
+        expect(manifest.metadata.labels).toEqual({ [STACK_LABEL]: template.id.split('-')[0], [TEMPLATE_LABEL]: template.id });
+      });
+    }
+  );
+
+  it('wires references between resources using the stack name', () => {
+    const template = BUILTIN_TEMPLATES.find((t) => t.id === 'autonomous-researcher')!;
+    const values = { ...defaultTemplateValues(template), name: 'news', goal: 'Track AI news' };
+
+    const { manifests } = instantiateTemplate(template, values, 'default');
+
+    expect(manifests.map((m) => `${m.kind}/${m.metadata.name}`)).toEqual([
+      'ModelAPI/news-llm',
+      'Agent/news-researcher',
+      'Agent/news-writer',
+      'Agent/news-coordinator',
+    ]);
+    const coordinator = manifests.find((m) => m.metadata.name === 'news-coordinator')!;
+    expect(coordinator.spec).toMatchObject({
+      modelAPI: 'news-llm',
+      config: { autonomous: { goal: 'Track AI news' } },
+      agentNetwork: { access: ['news-researcher', 'news-writer'] },
+    });
+  });
+
+  it('reports resources that fail validation', () => {
+    const template = BUILTIN_TEMPLATES.find((t) => t.id === 'ollama-chat-agent')!;
+    const values = { ...defaultTemplateValues(template), model: '' };
+
+    const { errors } = instantiateTemplate(template, values, 'default');
+
+    expect(errors.length).toBeGreaterThan(0);
+    expect(errors[0]).toMatch(/^ModelAPI\/ollama-ollama: /);
+  });
+});
+
+describe('parseTemplatesConfigMap', () => {
+  it('parses single templates and lists of templates', () => {
+    const { templates, errors } = parseTemplatesConfigMap({
+      'echo.yaml': teamTemplate,
+      'more.yaml': `- id: a\n  name: A\n  resources: [{ kind: MCPServer, name: a, spec: { runtime: rawpython } }]\n- id: b\n  name: B\n  resources: [{ kind: MCPServer, name: b, spec: { runtime: rawpython } }]`,
+    });
+
+    expect(errors).toEqual([]);
+    expect(templates.map((t) => t.id)).toEqual(['echo-bot', 'a', 'b']);
+    expect(templates.every((t) => t.source === 'configmap')).toBe(true);
+  });
+
+  it('skips invalid entries and reports where they are', () => {
+    const { templates, errors } = parseTemplatesConfigMap({
+      'good.yaml': teamTemplate,
+      'bad.yaml': 'id: Not Valid\nname: Bad\nresources: []',
+      'broken.yaml': 'id: [',
+    });
+
+    expect(templates.map((t) => t.id)).toEqual(['echo-bot']);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toMatch(/^bad\.yaml: id /);
+    expect(errors[1]).toMatch(/^broken\.yaml: /);
+  });
+
+  it('produces templates that instantiate in dependency order', () => {
+    const [template] = parseTemplatesConfigMap({ 'echo.yaml': teamTemplate }).templates;
+
+    const { manifests, errors } = instantiateTemplate(template, { name: 'demo', greeting: 'Hi' }, 'default');
+
+    expect(errors).toEqual([]);
+    expect(manifests.map((m) => `${m.kind}/${m.metadata.name}`)).toEqual(['ModelAPI/demo-llm', 'Agent/demo-bot']);
+    expect(manifests[1].spec).toMatchObject({ config: { instructions: 'Always start with Hi' } });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { TerminalScreen, keyToSequence } from '@/lib/terminal';
+
+describe('TerminalScreen', () => {
+  it('prints lines and drops color attributes', () => {
+    const screen = new TerminalScreen();
+    screen.write('\x1b[1;32m~ $\x1b[0m ls\r\nbin  etc\r\n');
+
+    expect(screen.getLines()).toEqual(['~ $ ls', 'bin  etc', '']);
+    expect(screen.getCursor()).toEqual({ row: 2, col: 0 });
+  });
+
+  it('applies backspace and erase-line edits from a line editor', () => {
+    const screen = new TerminalScreen();
+    screen.write('$ lss');
+    screen.write('\b\x1b[K');
+
+    expect(screen.getLines()).toEqual(['$ ls']);
+  });
+
+  it('holds escape sequences split across writes', () => {
+    const screen = new TerminalScreen();
+    screen.write('a\x1b[');
+    screen.write('31mb\x1b]0;title\x07c');
+
+    expect(screen.getLines()).toEqual(['abc']);
+  });
+
+  it('wraps at the terminal width', () => {
+    const screen = new TerminalScreen(4, 24);
+    screen.write('abcdef');
+
+    expect(screen.getLines()).toEqual(['abcd', 'ef']);
+  });
+
+  it('clears the screen into scrollback', () => {
+    const screen = new TerminalScreen(80, 2);
+    screen.write('old\r\n$ clear\r\n');
+    screen.write('\x1b[H\x1b[2J$ ');
+
+    const lines = screen.getLines();
+    expect(lines.slice(0, 3)).toEqual(['old', '$ clear', '']);
+    expect(lines[screen.getCursor().row]).toBe('$ ');
+  });
+});
+
+describe('keyToSequence', () => {
+  it('maps keys to TTY input', () => {
+    expect(keyToSequence({ key: 'a' })).toBe('a');
+    expect(keyToSequence({ key: 'Enter' })).toBe('\r');
+    expect(keyToSequence({ key: 'ArrowUp' })).toBe('\x1b[A');
+    expect(keyToSequence({ key: 'c', ctrlKey: true })).toBe('\x03');
+    expect(keyToSequence({ key: 'Shift' })).toBeUndefined();
+    expect(keyToSequence({ key: 'v', metaKey: true })).toBeUndefined();
+  });
+});
@@ -0,0 +1,231 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ResourceWatcher, getWatchBackoff, type WatchHandlers } from '@/lib/k8s/watch';
+import { K8sApiError, type K8sListResponse } from '@/lib/k8s/client';
+
+interface Item {
+  metadata: { name: string; resourceVersion?: string };
+}
+
+function listResponse(resourceVersion: string, names: string[]): K8sListResponse<Item> {
+  return {
+    apiVersion: 'v1',
+    kind: 'List',
+    metadata: { resourceVersion },
+    items: names.map((name) => ({ metadata: { name, resourceVersion } })),
+  };
+}
+
+function watchResponse(events: unknown[], status = 200): Response {
+  const body = events.map((e) => JSON.stringify(e)).join('\n') + '\n';
+  return new Response(body, { status });
+}
+
+function makeHandlers() {
+  return {
+    onSync: vi.fn(),
+    onEvent: vi.fn(),
+    onStatus: vi.fn(),
+    onUnavailable: vi.fn(),
+  } satisfies WatchHandlers<Item>;
+}
+
+async function flush() {
+  for (let i = 0; i < 20; i++) await new Promise((r) => setTimeout(r, 0));
+}
+
+describe('getWatchBackoff', () => {
+  it('grows exponentially and caps at 30s', () => {
+    expect(getWatchBackoff(0)).toBe(1000);
+    expect(getWatchBackoff(1)).toBe(2000);
+    expect(getWatchBackoff(3)).toBe(8000);
+    expect(getWatchBackoff(10)).toBe(30000);
+  });
+});
+
+describe('ResourceWatcher', () => {
+  it('lists, then streams incremental events from the list resourceVersion', async () => {
+    const handlers = makeHandlers();
+    const openWatch = vi.fn()
+      .mockResolvedValueOnce(watchResponse([
+        { type: 'ADDED', object: { metadata: { name: 'b', resourceVersion: '11' } } },
+        { type: 'MODIFIED', object: { metadata: { name: 'a', resourceVersion: '12' } } },
+        { type: 'BOOKMARK', object: { metadata: { name: '', resourceVersion: '15' } } },
+        { type: 'DELETED', object: { metadata: { name: 'b', resourceVersion: '16' } } },
+      ]))
+      .mockReturnValue(new Promise(() => {}));
+
+    const watcher = new ResourceWatcher<Item>({
+      list: vi.fn().mockResolvedValue(listResponse('10', ['a'])),
+      openWatch,
+    }, handlers).start();
+    await flush();
+    watcher.stop();
+
+    expect(handlers.onSync).toHaveBeenCalledWith([{ metadata: { name: 'a', resourceVersion: '10' } }]);
+    expect(handlers.onEvent.mock.calls.map(([type, obj]) => [type, obj.metadata.name])).toEqual([
+      ['ADDED', 'b'],
+      ['MODIFIED', 'a'],
+      ['DELETED', 'b'],
+    ]);
+    expect(openWatch.mock.calls[0][0]).toBe('10');
+    // Stream closed normally: resume from the last seen version (bookmarks included)
+    expect(openWatch.mock.calls[1][0]).toBe('16');
+    expect(handlers.onStatus).toHaveBeenCalledWith('live');
+  });
+
+  it('relists when the watch reports 410 Gone', async () => {
+    const handlers = makeHandlers();
+    const list = vi.fn()
+      .mockResolvedValueOnce(listResponse('10', ['a']))
+      .mockResolvedValueOnce(listResponse('50', ['a', 'c']));
+    const openWatch = vi.fn()
+      .mockResolvedValueOnce(watchResponse([
+        { type: 'ERROR', object: { kind: 'Status', code: 410, message: 'too old resource version' } },
+      ]))
+      .mockReturnValue(new Promise(() => {}));
+
+    const watcher = new ResourceWatcher<Item>({ list, openWatch }, handlers).start();
+    await flush();
+    watcher.stop();
+
+    expect(list).toHaveBeenCalledTimes(2);
+    expect(handlers.onSync).toHaveBeenCalledTimes(2);
+    expect(openWatch.mock.calls[1][0]).toBe('50');
+    expect(handlers.onUnavailable).not.toHaveBeenCalled();
+  });
+
+  it('reconnects with backoff after a dropped stream', async () => {
+    const handlers = makeHandlers();
+    const sleep = vi.fn().mockResolvedValue(undefined);
+    const openWatch = vi.fn()
+      .mockResolvedValueOnce(watchResponse([
+        { type: 'ADDED', object: { metadata: { name: 'b', resourceVersion: '11' } } },
+      ]))
+      .mockRejectedValueOnce(new TypeError('network error'))
+      .mockReturnValue(new Promise(() => {}));
+
+    const watcher = new ResourceWatcher<Item>({
+      list: vi.fn().mockResolvedValue(listResponse('10', ['a'])),
+      openWatch,
+      sleep,
+    }, handlers).start();
+    await flush();
+    watcher.stop();
+
+    expect(sleep).toHaveBeenCalledWith(1000, expect.anything());
+    expect(handlers.onStatus).toHaveBeenCalledWith('reconnecting');
+    expect(openWatch.mock.calls[2][0]).toBe('11');
+    expect(handlers.onUnavailable).not.toHaveBeenCalled();
+  });
+
+  it('reports unavailable when the proxy rejects watch requests', async () => {
+    const handlers = makeHandlers();
+    const watcher = new ResourceWatcher<Item>({
+      list: vi.fn().mockResolvedValue(listResponse('10', ['a'])),
+      openWatch: vi.fn().mockResolvedValue(new Response('watch not supported', { status: 405 })),
+    }, handlers).start();
+    await flush();
+    watcher.stop();
+
+    expect(handlers.onUnavailable).toHaveBeenCalledTimes(1);
+    expect(handlers.onUnavailable.mock.calls[0][0].message).toContain('405');
+    expect(handlers.onStatus).toHaveBeenCalledWith('unavailable');
+  });
+
+  it('syncs an empty collection and stops when the resource type is missing', async () => {
+    const handlers = makeHandlers();
+    const openWatch = vi.fn();
+    new ResourceWatcher<Item>({
+      list: vi.fn().mockRejectedValue(new K8sApiError('K8s API error 404: not found', 404)),
+      openWatch,
+    }, handlers).start();
+    await flush();
+
+    expect(handlers.onSync).toHaveBeenCalledWith([]);
+    expect(openWatch).not.toHaveBeenCalled();
+    expect(handlers.onUnavailable).not.toHaveBeenCalled();
+  });
+
+  it('keeps retrying when a list error only mentions 404 in its body', async () => {
+    const handlers = makeHandlers();
+    const sleep = vi.fn().mockResolvedValue(undefined);
+    const list = vi.fn()
+      .mockRejectedValueOnce(new K8sApiError('K8s API error 500: upstream returned 404', 500))
+      .mockResolvedValue(listResponse('10', ['a']));
+    const watcher = new ResourceWatcher<Item>({
+      list,
+      openWatch: vi.fn().mockReturnValue(new Promise(() => {})),
+      sleep,
+    }, handlers).start();
+    await flush();
+    watcher.stop();
+
+    expect(list).toHaveBeenCalledTimes(2);
+    expect(handlers.onSync).toHaveBeenCalledWith([{ metadata: { name: 'a', resourceVersion: '10' } }]);
+  });
+
+  it('backs off instead of giving up on auth errors after the stream was live', async () => {
+    const handlers = makeHandlers();
+    const sleep = vi.fn().mockResolvedValue(undefined);
+    const openWatch = vi.fn()
+      .mockResolvedValueOnce(watchResponse([]))
+      .mockResolvedValueOnce(new Response('token expired', { status: 401 }))
+      .mockReturnValue(new Promise(() => {}));
+
+    const watcher = new ResourceWatcher<Item>({
+      list: vi.fn().mockResolvedValue(listResponse('10', ['a'])),
+      openWatch,
+      sleep,
+    }, handlers).start();
+    await flush();
+    watcher.stop();
+
+    expect(openWatch).toHaveBeenCalledTimes(3);
+    expect(handlers.onStatus).toHaveBeenCalledWith('reconnecting');
+    expect(handlers.onUnavailable).not.toHaveBeenCalled();
+  });
+
+  it('backs off instead of giving up when a reconnect times out after the stream was live', async () => {
+    const handlers = makeHandlers();
+    const sleep = vi.fn().mockResolvedValue(undefined);
+    const hang = (_version: string, signal: AbortSignal) => new Promise<Response>((_resolve, reject) => {
+      signal.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+    });
+    const openWatch = vi.fn()
+      .mockResolvedValueOnce(watchResponse([]))
+      .mockImplementationOnce(hang)
+      .mockReturnValue(new Promise(() => {}));
+
+    const watcher = new ResourceWatcher<Item>({
+      list: vi.fn().mockResolvedValue(listResponse('10', ['a'])),
+      openWatch,
+      sleep,
+      headersTimeout: 5,
+    }, handlers).start();
+    await new Promise((r) => setTimeout(r, 20));
+    await flush();
+    watcher.stop();
+
+    expect(openWatch).toHaveBeenCalledTimes(3);
+    expect(handlers.onStatus).toHaveBeenCalledWith('reconnecting');
+    expect(handlers.onUnavailable).not.toHaveBeenCalled();
+  });
+
+  it('applies the transform to listed and watched objects', async () => {
+    const handlers = makeHandlers();
+    const watcher = new ResourceWatcher<Item>({
+      list: vi.fn().mockResolvedValue(listResponse('10', ['a'])),
+      openWatch: vi.fn()
+        .mockResolvedValueOnce(watchResponse([
+          { type: 'ADDED', object: { metadata: { name: 'b', resourceVersion: '11' } } },
+        ]))
+        .mockReturnValue(new Promise(() => {})),
+      transform: (item) => ({ metadata: { name: item.metadata.name.toUpperCase() } }),
+    }, handlers).start();
+    await flush();
+    watcher.stop();
+
+    expect(handlers.onSync).toHaveBeenCalledWith([{ metadata: { name: 'A' } }]);
+    expect(handlers.onEvent).toHaveBeenCalledWith('ADDED', { metadata: { name: 'B' } });
+  });
+});
@@ -177,6 +177,40 @@ describe('kubernetesStore', () => {
     });
   });
 
+  describe('watch events', () => {
+    const pod = (name: string, phase: string) =>
+      ({ metadata: { name, namespace: 'default' }, status: { phase } }) as unknown as Pod;
+
+    it('upserts ADDED and MODIFIED objects by name', () => {
+      const state = useKubernetesStore.getState();
+      state.setPods([pod('a', 'Pending'), pod('b', 'Running')]);
+      state.applyWatchEvent('pods', 'MODIFIED', pod('a', 'Running'));
+      state.applyWatchEvent('pods', 'ADDED', pod('c', 'Pending'));
+
+      const pods = useKubernetesStore.getState().pods;
+      expect(pods.map((p) => p.metadata.name)).toEqual(['a', 'b', 'c']);
+      expect(pods[0].status?.phase).toBe('Running');
+    });
+
+    it('removes DELETED objects', () => {
+      useKubernetesStore.getState().setAgents([{ metadata: { name: 'x' } } as unknown as Agent], true);
+      useKubernetesStore.getState().applyWatchEvent('agents', 'DELETED', { metadata: { name: 'x' } });
+      expect(useKubernetesStore.getState().agents).toEqual([]);
+    });
+
+    it('replaces a collection on resync, including with an empty list', () => {
+      useKubernetesStore.getState().setAgents([{ metadata: { name: 'x' } } as unknown as Agent], true);
+      useKubernetesStore.getState().setWatchedResources('agents', []);
+      expect(useKubernetesStore.getState().agents).toEqual([]);
+    });
+
+    it('persists the sync mode to localStorage', () => {
+      useKubernetesStore.getState().setSyncMode('polling');
+      expect(localStorageMock.getItem('syncMode')).toBe('polling');
+      expect(useKubernetesStore.getState().syncMode).toBe('polling');
+    });
+  });
+
   describe('auto-refresh', () => {
     it('persists autoRefreshEnabled to localStorage', () => {
       useKubernetesStore.getState().setAutoRefreshEnabled(false);
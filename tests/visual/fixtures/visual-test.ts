@@ -25,6 +25,7 @@ export async function setupVisualPage(
     localStorage.setItem('theme', selectedTheme);
     localStorage.setItem('autoRefreshEnabled', 'false');
     localStorage.setItem('autoRefreshInterval', '0');
+    localStorage.setItem('syncMode', 'polling');
     localStorage.setItem('kaos-system-namespace', 'kaos-visual');
     Math.random = () => 0.424242;
     Date.prototype.toLocaleTimeString = () => fixedTime;